@@ -57,21 +57,29 @@ export const WORKFLOW_LOADERS = {
   },
   logging: async () => {
     const { workflow } = await import('../mcp/tools/logging/index.js');
-    const tool_0 = await import('../mcp/tools/logging/start_device_log_cap.js').then(
+    const tool_0 = await import('../mcp/tools/logging/list_log_captures.js').then((m) => m.default);
+    const tool_1 = await import('../mcp/tools/logging/read_log_capture.js').then((m) => m.default);
+    const tool_2 = await import('../mcp/tools/logging/start_device_log_cap.js').then(
       (m) => m.default,
     );
-    const tool_1 = await import('../mcp/tools/logging/start_sim_log_cap.js').then((m) => m.default);
-    const tool_2 = await import('../mcp/tools/logging/stop_device_log_cap.js').then(
+    const tool_3 = await import('../mcp/tools/logging/start_sim_log_cap.js').then((m) => m.default);
+    const tool_4 = await import('../mcp/tools/logging/stop_device_log_cap.js').then(
       (m) => m.default,
     );
-    const tool_3 = await import('../mcp/tools/logging/stop_sim_log_cap.js').then((m) => m.default);
+    const tool_5 = await import('../mcp/tools/logging/stop_log_capture.js').then((m) => m.default);
+    const tool_6 = await import('../mcp/tools/logging/stop_sim_log_cap.js').then((m) => m.default);
+    const tool_7 = await import('../mcp/tools/logging/tail_log_capture.js').then((m) => m.default);
 
     return {
       workflow,
-      start_device_log_cap: tool_0,
-      start_sim_log_cap: tool_1,
-      stop_device_log_cap: tool_2,
-      stop_sim_log_cap: tool_3,
+      list_log_captures: tool_0,
+      read_log_capture: tool_1,
+      start_device_log_cap: tool_2,
+      start_sim_log_cap: tool_3,
+      stop_device_log_cap: tool_4,
+      stop_log_capture: tool_5,
+      stop_sim_log_cap: tool_6,
+      tail_log_capture: tool_7,
     };
   },
   macos: async () => {
@@ -291,31 +299,79 @@ export const WORKFLOW_LOADERS = {
   },
   'ui-testing': async () => {
     const { workflow } = await import('../mcp/tools/ui-testing/index.js');
-    const tool_0 = await import('../mcp/tools/ui-testing/button.js').then((m) => m.default);
-    const tool_1 = await import('../mcp/tools/ui-testing/describe_ui.js').then((m) => m.default);
-    const tool_2 = await import('../mcp/tools/ui-testing/gesture.js').then((m) => m.default);
-    const tool_3 = await import('../mcp/tools/ui-testing/key_press.js').then((m) => m.default);
-    const tool_4 = await import('../mcp/tools/ui-testing/key_sequence.js').then((m) => m.default);
-    const tool_5 = await import('../mcp/tools/ui-testing/long_press.js').then((m) => m.default);
-    const tool_6 = await import('../mcp/tools/ui-testing/screenshot.js').then((m) => m.default);
-    const tool_7 = await import('../mcp/tools/ui-testing/swipe.js').then((m) => m.default);
-    const tool_8 = await import('../mcp/tools/ui-testing/tap.js').then((m) => m.default);
-    const tool_9 = await import('../mcp/tools/ui-testing/touch.js').then((m) => m.default);
-    const tool_10 = await import('../mcp/tools/ui-testing/type_text.js').then((m) => m.default);
+    const tool_0 = await import('../mcp/tools/ui-testing/assert_ui.js').then((m) => m.default);
+    const tool_1 = await import('../mcp/tools/ui-testing/audit_accessibility.js').then(
+      (m) => m.default,
+    );
+    const tool_2 = await import('../mcp/tools/ui-testing/button.js').then((m) => m.default);
+    const tool_3 = await import('../mcp/tools/ui-testing/delete_snapshot.js').then(
+      (m) => m.default,
+    );
+    const tool_4 = await import('../mcp/tools/ui-testing/describe_ui.js').then((m) => m.default);
+    const tool_5 = await import('../mcp/tools/ui-testing/device_action.js').then((m) => m.default);
+    const tool_6 = await import('../mcp/tools/ui-testing/export_xcuitest.js').then(
+      (m) => m.default,
+    );
+    const tool_7 = await import('../mcp/tools/ui-testing/fill_field.js').then((m) => m.default);
+    const tool_8 = await import('../mcp/tools/ui-testing/gesture.js').then((m) => m.default);
+    const tool_9 = await import('../mcp/tools/ui-testing/key_press.js').then((m) => m.default);
+    const tool_10 = await import('../mcp/tools/ui-testing/key_sequence.js').then((m) => m.default);
+    const tool_11 = await import('../mcp/tools/ui-testing/list_snapshots.js').then(
+      (m) => m.default,
+    );
+    const tool_12 = await import('../mcp/tools/ui-testing/long_press.js').then((m) => m.default);
+    const tool_13 = await import('../mcp/tools/ui-testing/record_snapshot.js').then(
+      (m) => m.default,
+    );
+    const tool_14 = await import('../mcp/tools/ui-testing/run_ui_script.js').then((m) => m.default);
+    const tool_15 = await import('../mcp/tools/ui-testing/screenshot.js').then((m) => m.default);
+    const tool_16 = await import('../mcp/tools/ui-testing/screenshot_compare.js').then(
+      (m) => m.default,
+    );
+    const tool_17 = await import('../mcp/tools/ui-testing/scroll_to_element.js').then(
+      (m) => m.default,
+    );
+    const tool_18 = await import('../mcp/tools/ui-testing/swipe.js').then((m) => m.default);
+    const tool_19 = await import('../mcp/tools/ui-testing/swipe_sequence.js').then(
+      (m) => m.default,
+    );
+    const tool_20 = await import('../mcp/tools/ui-testing/tap.js').then((m) => m.default);
+    const tool_21 = await import('../mcp/tools/ui-testing/touch.js').then((m) => m.default);
+    const tool_22 = await import('../mcp/tools/ui-testing/type_text.js').then((m) => m.default);
+    const tool_23 = await import('../mcp/tools/ui-testing/verify_snapshot.js').then(
+      (m) => m.default,
+    );
+    const tool_24 = await import('../mcp/tools/ui-testing/wait_for_element.js').then(
+      (m) => m.default,
+    );
 
     return {
       workflow,
-      button: tool_0,
-      describe_ui: tool_1,
-      gesture: tool_2,
-      key_press: tool_3,
-      key_sequence: tool_4,
-      long_press: tool_5,
-      screenshot: tool_6,
-      swipe: tool_7,
-      tap: tool_8,
-      touch: tool_9,
-      type_text: tool_10,
+      assert_ui: tool_0,
+      audit_accessibility: tool_1,
+      button: tool_2,
+      delete_snapshot: tool_3,
+      describe_ui: tool_4,
+      device_action: tool_5,
+      export_xcuitest: tool_6,
+      fill_field: tool_7,
+      gesture: tool_8,
+      key_press: tool_9,
+      key_sequence: tool_10,
+      list_snapshots: tool_11,
+      long_press: tool_12,
+      record_snapshot: tool_13,
+      run_ui_script: tool_14,
+      screenshot: tool_15,
+      screenshot_compare: tool_16,
+      scroll_to_element: tool_17,
+      swipe: tool_18,
+      swipe_sequence: tool_19,
+      tap: tool_20,
+      touch: tool_21,
+      type_text: tool_22,
+      verify_snapshot: tool_23,
+      wait_for_element: tool_24,
     };
   },
   utilities: async () => {
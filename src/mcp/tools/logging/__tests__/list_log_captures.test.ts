@@ -0,0 +1,87 @@
+/**
+ * Tests for list_log_captures plugin
+ */
+import { describe, it, expect } from 'vitest';
+import type { ChildProcess } from 'child_process';
+import plugin, { list_log_capturesLogic } from '../list_log_captures.ts';
+import type { LogSession } from '../../../../utils/log-capture/index.ts';
+
+function createSession(overrides: Partial<LogSession>, exitCode: number | null): LogSession {
+  return {
+    id: 'session-1',
+    target: 'simulator',
+    targetId: 'sim-uuid',
+    bundleId: 'com.example.App',
+    logFilePath: '/tmp/xcodemcp_sim_log_session-1.log',
+    startedAt: new Date(10_000),
+    sources: [
+      {
+        kind: 'os_log',
+        process: { exitCode } as unknown as ChildProcess,
+        hasEnded: exitCode !== null,
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('list_log_captures plugin', () => {
+  describe('Export Field Validation (Literal)', () => {
+    it('should have correct name, description and empty schema', () => {
+      expect(plugin.name).toBe('list_log_captures');
+      expect(plugin.description).toBe(
+        'Lists active simulator and device log capture sessions with their sources and status.',
+      );
+      expect(Object.keys(plugin.schema)).toEqual([]);
+    });
+  });
+
+  describe('Handler Behavior (Complete Literal Returns)', () => {
+    it('should report when no sessions are active', async () => {
+      const result = await list_log_capturesLogic({}, []);
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'No active log capture sessions. Use start_sim_log_cap or start_device_log_cap to start one.',
+          },
+        ],
+      });
+    });
+
+    it('should list simulator and device sessions with their status', async () => {
+      const simulatorSession = createSession({}, null);
+      simulatorSession.sources.unshift({
+        kind: 'console',
+        process: { exitCode: null } as unknown as ChildProcess,
+        hasEnded: false,
+      });
+      const deviceSession = createSession(
+        {
+          id: 'session-2',
+          target: 'device',
+          targetId: '00008110-001A2C3D4E5F',
+          logFilePath: '/tmp/xcodemcp_device_log_session-2.log',
+        },
+        0,
+      );
+      deviceSession.sources[0].kind = 'device_console';
+
+      const result = await list_log_capturesLogic(
+        {},
+        [simulatorSession, deviceSession],
+        () => 25_000,
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Active log capture sessions (2):\n\n• session-1: simulator sim-uuid (com.example.App) - console, os_log - running 15s\n  Log file: /tmp/xcodemcp_sim_log_session-1.log\n• session-2: device 00008110-001A2C3D4E5F (com.example.App) - device_console - all sources ended\n  Log file: /tmp/xcodemcp_device_log_session-2.log\n\nUse tail_log_capture to read recent lines or stop_log_capture to stop a session.',
+          },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Tests for read_log_capture plugin
+ */
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { ChildProcess } from 'child_process';
+import * as z from 'zod';
+import plugin, { read_log_captureLogic } from '../read_log_capture.ts';
+import { activeLogSessions } from '../../../../utils/log-capture/index.ts';
+import { createMockFileSystemExecutor } from '../../../../test-utils/mock-executors.ts';
+
+const logFilePath = '/tmp/xcodemcp_sim_log_session-1.log';
+
+function addSession(): { killCalls: string[] } {
+  const process = {
+    exitCode: null,
+    killCalls: [] as string[],
+    kill(signal?: string) {
+      this.killCalls.push(signal ?? 'SIGTERM');
+      return true;
+    },
+  };
+  activeLogSessions.set('session-1', {
+    id: 'session-1',
+    target: 'simulator',
+    targetId: 'sim-uuid',
+    bundleId: 'com.example.App',
+    logFilePath,
+    startedAt: new Date(),
+    sources: [{ kind: 'os_log', process: process as unknown as ChildProcess, hasEnded: false }],
+  });
+  return process;
+}
+
+// Serves byte ranges of the log; whole-file reads fail so every read must be ranged
+function createLogFile(initial: string | Buffer): {
+  append: (text: string) => void;
+  ranges: Array<{ offset: number; length: number }>;
+  fileSystem: ReturnType<typeof createMockFileSystemExecutor>;
+} {
+  let content = Buffer.from(initial);
+  const ranges: Array<{ offset: number; length: number }> = [];
+  return {
+    append: (text: string) => {
+      content = Buffer.concat([content, Buffer.from(text)]);
+    },
+    ranges,
+    fileSystem: createMockFileSystemExecutor({
+      existsSync: (path: string) => path === logFilePath,
+      readFile: async () => {
+        throw new Error('readFile should not be used for incremental reads');
+      },
+      readFileRange: async (_path: string, offset: number, length: number) => {
+        ranges.push({ offset, length });
+        return { data: content.subarray(offset, offset + length), size: content.length };
+      },
+    }),
+  };
+}
+
+describe('read_log_capture plugin', () => {
+  beforeEach(() => {
+    activeLogSessions.clear();
+  });
+
+  describe('Export Field Validation (Literal)', () => {
+    it('should have correct name, description and schema', () => {
+      expect(plugin.name).toBe('read_log_capture');
+      expect(plugin.description).toBe(
+        'Returns log lines captured since a cursor without stopping the capture, with line and byte limits. Each call returns the cursor for the next read.',
+      );
+      const schema = z.object(plugin.schema);
+      expect(
+        schema.safeParse({ logSessionId: 'abc', cursor: 0, maxLines: 10, maxBytes: 4096 }).success,
+      ).toBe(true);
+      expect(schema.safeParse({ logSessionId: 'abc', cursor: -1 }).success).toBe(false);
+      expect(schema.safeParse({ logSessionId: 'abc', maxBytes: 10 }).success).toBe(false);
+    });
+  });
+
+  describe('Handler Behavior (Complete Literal Returns)', () => {
+    it('should return new complete lines and a cursor without stopping the session', async () => {
+      const process = addSession();
+      const log = createLogFile('first\nsecond\npart');
+
+      const result = await read_log_captureLogic({ logSessionId: 'session-1' }, log.fileSystem);
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: '2 lines from log capture session session-1 (bytes 0-13 of 17). Next cursor: 13. The session is still capturing.\n\nfirst\nsecond',
+          },
+        ],
+      });
+      expect(process.killCalls).toEqual([]);
+      expect(activeLogSessions.has('session-1')).toBe(true);
+    });
+
+    it('should continue from the previous read when no cursor is given', async () => {
+      addSession();
+      const log = createLogFile('first\n');
+      await read_log_captureLogic({ logSessionId: 'session-1' }, log.fileSystem);
+
+      const empty = await read_log_captureLogic({ logSessionId: 'session-1' }, log.fileSystem);
+      log.append('after tap\n');
+      const next = await read_log_captureLogic({ logSessionId: 'session-1' }, log.fileSystem);
+
+      expect(empty.content[0].text).toBe(
+        'No new log lines since cursor 6. Next cursor: 6. The session is still capturing.',
+      );
+      expect(next.content[0].text).toBe(
+        '1 line from log capture session session-1 (bytes 6-16 of 16). Next cursor: 16. The session is still capturing.\n\nafter tap',
+      );
+    });
+
+    it('should stop at maxLines and report more output', async () => {
+      addSession();
+      const log = createLogFile('a\nb\nc\n');
+
+      const result = await read_log_captureLogic(
+        { logSessionId: 'session-1', cursor: 2, maxLines: 1 },
+        log.fileSystem,
+      );
+
+      expect(result.content[0].text).toBe(
+        '1 line from log capture session session-1 (bytes 2-4 of 6). Next cursor: 4. More lines are available; read again with cursor 4. The session is still capturing.\n\nb',
+      );
+    });
+
+    it('should stop at maxBytes on a line boundary', async () => {
+      addSession();
+      const line = 'x'.repeat(600);
+      const log = createLogFile(`${line}\n${line}\n`);
+
+      const result = await read_log_captureLogic(
+        { logSessionId: 'session-1', maxBytes: 1024 },
+        log.fileSystem,
+      );
+
+      expect(result.content[0].text).toBe(
+        `1 line from log capture session session-1 (bytes 0-601 of 1202). Next cursor: 601. More lines are available; read again with cursor 601. The session is still capturing.\n\n${line}`,
+      );
+    });
+
+    it('should return the start of a line longer than maxBytes', async () => {
+      addSession();
+      const log = createLogFile(`${'y'.repeat(1500)}\n`);
+
+      const result = await read_log_captureLogic(
+        { logSessionId: 'session-1', maxBytes: 1024 },
+        log.fileSystem,
+      );
+
+      expect(result.content[0].text).toBe(
+        `1 line from log capture session session-1 (bytes 0-1024 of 1501). Next cursor: 1024. More lines are available; read again with cursor 1024. The session is still capturing.\n\n${'y'.repeat(1024)}`,
+      );
+    });
+
+    it('should filter the lines read while advancing the cursor past all of them', async () => {
+      addSession();
+      const log = createLogFile('keep 1\ndrop\nkeep 2\n');
+
+      const result = await read_log_captureLogic(
+        { logSessionId: 'session-1', filter: { include: '^keep' } },
+        log.fileSystem,
+      );
+
+      expect(result.content[0].text).toBe(
+        '3 lines from log capture session session-1 (bytes 0-19 of 19). Next cursor: 19. The session is still capturing.\n\n2 of 3 lines match the filter.\n\nkeep 1\nkeep 2',
+      );
+    });
+
+    it('should read only the requested byte range', async () => {
+      addSession();
+      const log = createLogFile('a\nb\nc\n');
+
+      await read_log_captureLogic(
+        { logSessionId: 'session-1', cursor: 2, maxBytes: 1024 },
+        log.fileSystem,
+      );
+
+      expect(log.ranges).toEqual([{ offset: 2, length: 1024 }]);
+    });
+
+    it('should count cursors in raw bytes, including bytes that are not valid UTF-8', async () => {
+      addSession();
+      const log = createLogFile(
+        Buffer.concat([Buffer.from('caf\u00e9 '), Buffer.from([0xff]), Buffer.from('\nnext\n')]),
+      );
+
+      const first = await read_log_captureLogic(
+        { logSessionId: 'session-1', maxLines: 1 },
+        log.fileSystem,
+      );
+      const second = await read_log_captureLogic({ logSessionId: 'session-1' }, log.fileSystem);
+
+      expect(first.content[0].text).toContain('(bytes 0-8 of 13). Next cursor: 8.');
+      expect(second.content[0].text).toBe(
+        '1 line from log capture session session-1 (bytes 8-13 of 13). Next cursor: 13. The session is still capturing.\n\nnext',
+      );
+    });
+
+    it('should report cursors past the end and unknown sessions', async () => {
+      addSession();
+      const log = createLogFile('short\n');
+
+      const pastEnd = await read_log_captureLogic(
+        { logSessionId: 'session-1', cursor: 100 },
+        log.fileSystem,
+      );
+      const missing = await read_log_captureLogic({ logSessionId: 'missing' }, log.fileSystem);
+
+      expect(pastEnd).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Error reading log capture session session-1: Cursor 100 is past the end of the log (6 bytes)',
+          },
+        ],
+        isError: true,
+      });
+      expect(missing.content[0].text).toBe(
+        'Error reading log capture session missing: Log capture session not found: missing',
+      );
+    });
+  });
+});
@@ -10,10 +10,8 @@ import {
   createMockExecutor,
   createMockFileSystemExecutor,
 } from '../../../../test-utils/mock-executors.ts';
-import plugin, {
-  start_device_log_capLogic,
-  activeDeviceLogSessions,
-} from '../start_device_log_cap.ts';
+import plugin, { start_device_log_capLogic } from '../start_device_log_cap.ts';
+import { activeLogSessions } from '../../../../utils/log-capture/index.ts';
 import { sessionStore } from '../../../../utils/session-store.ts';
 
 describe('start_device_log_cap plugin', () => {
@@ -36,7 +34,7 @@ describe('start_device_log_cap plugin', () => {
 
   beforeEach(() => {
     sessionStore.clear();
-    activeDeviceLogSessions.clear();
+    activeLogSessions.clear();
     process.env.XBMCP_LAUNCH_JSON_WAIT_MS = '25';
   });
 
@@ -146,7 +144,7 @@ describe('start_device_log_cap plugin', () => {
       );
 
       expect(result.content[0].text).toContain('Next Steps:');
-      expect(result.content[0].text).toContain('Use stop_device_log_cap');
+      expect(result.content[0].text).toContain('Use stop_log_capture');
     });
 
     it('should surface early launch failures when process exits immediately', async () => {
@@ -215,7 +213,7 @@ describe('start_device_log_cap plugin', () => {
 
       expect(result.isError).toBe(true);
       expect(result.content[0].text).toContain('Provide a valid bundle identifier');
-      expect(activeDeviceLogSessions.size).toBe(0);
+      expect(activeLogSessions.size).toBe(0);
       expect(createdLogPath).not.toBe('');
     });
 
@@ -310,7 +308,7 @@ describe('start_device_log_cap plugin', () => {
       expect(result.content[0].text).toContain('Provide a valid bundle identifier');
       expect(jsonPathSeen).not.toBe('');
       expect(removedJsonPath).toBe(jsonPathSeen);
-      expect(activeDeviceLogSessions.size).toBe(0);
+      expect(activeLogSessions.size).toBe(0);
       expect(failingProcess.killed).toBe(true);
     });
 
@@ -402,7 +400,7 @@ describe('start_device_log_cap plugin', () => {
       expect(result.isError ?? false).toBe(false);
       expect(jsonPathSeen).not.toBe('');
       expect(removedJsonPath).toBe(jsonPathSeen);
-      expect(activeDeviceLogSessions.size).toBe(1);
+      expect(activeLogSessions.size).toBe(1);
     });
 
     it('should handle directory creation failure', async () => {
@@ -23,7 +23,7 @@ describe('start_sim_log_cap plugin', () => {
 
     it('should have correct description', () => {
       expect(plugin.description).toBe(
-        'Starts capturing logs from a specified simulator. Returns a session ID. By default, captures only structured logs.',
+        'Starts capturing logs from a specified simulator. Returns a session ID. By default, captures only structured logs from the app subsystem; more subsystems, processes or a custom predicate can be added, and the predicate can also narrow or replace that scope.',
       );
     });
 
@@ -42,6 +42,50 @@ describe('start_sim_log_cap plugin', () => {
       );
     });
 
+    it('should validate predicate options', () => {
+      const schema = z.object(plugin.schema);
+      expect(
+        schema.safeParse({
+          bundleId: 'com.example.app',
+          level: 'info',
+          subsystems: ['com.example.app.widget'],
+          subsystemPresets: ['webkit', 'networking'],
+          processes: ['MyApp'],
+          predicate: 'category == "network"',
+        }).success,
+      ).toBe(true);
+      expect(schema.safeParse({ bundleId: 'com.example.app', level: 'error' }).success).toBe(false);
+      expect(
+        schema.safeParse({ bundleId: 'com.example.app', subsystemPresets: ['bluetooth'] }).success,
+      ).toBe(false);
+      expect(schema.safeParse({ bundleId: 'com.example.app', predicate: '' }).success).toBe(false);
+      expect(
+        schema.safeParse({
+          bundleId: 'com.example.app',
+          predicate: 'category == "network"',
+          predicateMode: 'narrow',
+        }).success,
+      ).toBe(true);
+      expect(
+        schema.safeParse({
+          bundleId: 'com.example.app',
+          predicate: 'category == "network"',
+          predicateMode: 'and',
+        }).success,
+      ).toBe(false);
+    });
+
+    it('should require predicate when predicateMode is set', async () => {
+      const result = await plugin.handler({
+        simulatorId: '12345678-1234-4234-8234-123456789012',
+        bundleId: 'com.example.app',
+        predicateMode: 'replace',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('predicateMode: predicateMode requires predicate.');
+    });
+
     it('should reject invalid schema parameters', () => {
       const schema = z.object(plugin.schema);
       expect(schema.safeParse({ bundleId: null }).success).toBe(false);
@@ -110,7 +154,7 @@ describe('start_sim_log_cap plugin', () => {
 
       expect(result.isError).toBeUndefined();
       expect(result.content[0].text).toBe(
-        "Log capture started successfully. Session ID: test-uuid-123.\n\nNote: Only structured logs are being captured.\n\nNext Steps:\n1.  Interact with your simulator and app.\n2.  Use 'stop_sim_log_cap' with session ID 'test-uuid-123' to stop capture and retrieve logs.",
+        "Log capture started successfully. Session ID: test-uuid-123.\n\nNote: Only structured logs are being captured.\n\nNext Steps:\n1.  Interact with your simulator and app.\n2.  Use 'read_log_capture' with session ID 'test-uuid-123' to read new log lines while capture continues.\n3.  Use 'stop_log_capture' with session ID 'test-uuid-123' to stop capture and retrieve logs, optionally filtered or summarized.",
       );
     });
 
@@ -136,8 +180,51 @@ describe('start_sim_log_cap plugin', () => {
       );
 
       expect(result.content[0].text).toBe(
-        "Log capture started successfully. Session ID: test-uuid-123.\n\nNote: Your app was relaunched to capture console output.\n\nNext Steps:\n1.  Interact with your simulator and app.\n2.  Use 'stop_sim_log_cap' with session ID 'test-uuid-123' to stop capture and retrieve logs.",
+        "Log capture started successfully. Session ID: test-uuid-123.\n\nNote: Your app was relaunched to capture console output.\n\nNext Steps:\n1.  Interact with your simulator and app.\n2.  Use 'read_log_capture' with session ID 'test-uuid-123' to read new log lines while capture continues.\n3.  Use 'stop_log_capture' with session ID 'test-uuid-123' to stop capture and retrieve logs, optionally filtered or summarized.",
+      );
+    });
+
+    it('should pass level, subsystems, processes and predicate to the OS log stream', async () => {
+      const captured: unknown[] = [];
+      const logCaptureStub = (params: any) => {
+        captured.push(params);
+        return Promise.resolve({
+          sessionId: 'test-uuid-123',
+          logFilePath: '/tmp/test.log',
+          processes: [],
+        });
+      };
+
+      await start_sim_log_capLogic(
+        {
+          simulatorId: 'test-uuid',
+          bundleId: 'com.example.app',
+          level: 'info',
+          subsystems: ['com.example.app.widget'],
+          subsystemPresets: ['networking'],
+          processes: ['MyApp'],
+          predicate: 'category == "network"',
+          predicateMode: 'narrow',
+        },
+        createMockExecutor({ success: true, output: '' }),
+        logCaptureStub,
       );
+
+      expect(captured).toEqual([
+        {
+          simulatorUuid: 'test-uuid',
+          bundleId: 'com.example.app',
+          captureConsole: false,
+          osLog: {
+            level: 'info',
+            subsystems: ['com.example.app.widget'],
+            subsystemPresets: ['networking'],
+            processes: ['MyApp'],
+            predicate: 'category == "network"',
+            predicateMode: 'narrow',
+          },
+        },
+      ]);
     });
 
     it('should create correct spawn commands for console capture', async () => {
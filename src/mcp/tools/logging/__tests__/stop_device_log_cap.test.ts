@@ -5,7 +5,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { EventEmitter } from 'events';
 import * as z from 'zod';
 import plugin, { stop_device_log_capLogic } from '../stop_device_log_cap.ts';
-import { activeDeviceLogSessions, type DeviceLogSession } from '../start_device_log_cap.ts';
+import { activeLogSessions, type LogSource } from '../../../../utils/log-capture/index.ts';
 import { createMockFileSystemExecutor } from '../../../../test-utils/mock-executors.ts';
 
 // Note: Logger is allowed to execute normally (integration testing pattern)
@@ -13,7 +13,7 @@ import { createMockFileSystemExecutor } from '../../../../test-utils/mock-execut
 describe('stop_device_log_cap plugin', () => {
   beforeEach(() => {
     // Clear actual active sessions before each test
-    activeDeviceLogSessions.clear();
+    activeLogSessions.clear();
   });
 
   describe('Plugin Structure', () => {
@@ -95,6 +95,35 @@ describe('stop_device_log_cap plugin', () => {
       expect(result.isError).toBe(true);
     });
 
+    it('should refuse to stop a simulator session', async () => {
+      const testSessionId = 'sim-session-123';
+      activeLogSessions.set(testSessionId, {
+        id: testSessionId,
+        target: 'simulator',
+        targetId: '12345678-1234-4234-8234-123456789012',
+        bundleId: 'com.example.MyApp',
+        logFilePath: '/tmp/xcodemcp_sim_log_sim-session-123.log',
+        startedAt: new Date(),
+        sources: [],
+      });
+
+      const result = await stop_device_log_capLogic(
+        { logSessionId: testSessionId },
+        createMockFileSystemExecutor(),
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Failed to stop device log capture session sim-session-123: sim-session-123 is a simulator log capture session. Use stop_sim_log_cap or stop_log_capture.',
+          },
+        ],
+        isError: true,
+      });
+      expect(activeLogSessions.has(testSessionId)).toBe(true);
+    });
+
     it('should handle successful log capture stop', async () => {
       const testSessionId = 'test-session-123';
       const testLogFilePath = '/tmp/xcodemcp_device_log_test-session-123.log';
@@ -106,12 +135,20 @@ describe('stop_device_log_cap plugin', () => {
         exitCode: null,
       });
 
-      activeDeviceLogSessions.set(testSessionId, {
-        process: testProcess as unknown as DeviceLogSession['process'],
-        logFilePath: testLogFilePath,
-        deviceUuid: '00008110-001A2C3D4E5F',
+      activeLogSessions.set(testSessionId, {
+        id: testSessionId,
+        target: 'device',
+        targetId: '00008110-001A2C3D4E5F',
         bundleId: 'com.example.MyApp',
-        hasEnded: false,
+        logFilePath: testLogFilePath,
+        startedAt: new Date(),
+        sources: [
+          {
+            kind: 'device_console',
+            process: testProcess as unknown as LogSource['process'],
+            hasEnded: false,
+          },
+        ],
       });
 
       // Configure test file system for successful operation
@@ -137,7 +174,7 @@ describe('stop_device_log_cap plugin', () => {
       });
       expect(result.isError).toBeUndefined();
       expect(testProcess.killCalls).toEqual(['SIGTERM']);
-      expect(activeDeviceLogSessions.has(testSessionId)).toBe(false);
+      expect(activeLogSessions.has(testSessionId)).toBe(false);
     });
 
     it('should handle already killed process', async () => {
@@ -151,12 +188,20 @@ describe('stop_device_log_cap plugin', () => {
         exitCode: 0,
       });
 
-      activeDeviceLogSessions.set(testSessionId, {
-        process: testProcess as unknown as DeviceLogSession['process'],
-        logFilePath: testLogFilePath,
-        deviceUuid: '00008110-001A2C3D4E5F',
+      activeLogSessions.set(testSessionId, {
+        id: testSessionId,
+        target: 'device',
+        targetId: '00008110-001A2C3D4E5F',
         bundleId: 'com.example.MyApp',
-        hasEnded: false,
+        logFilePath: testLogFilePath,
+        startedAt: new Date(),
+        sources: [
+          {
+            kind: 'device_console',
+            process: testProcess as unknown as LogSource['process'],
+            hasEnded: false,
+          },
+        ],
       });
 
       // Configure test file system for successful operation
@@ -193,12 +238,20 @@ describe('stop_device_log_cap plugin', () => {
         exitCode: null,
       });
 
-      activeDeviceLogSessions.set(testSessionId, {
-        process: testProcess as unknown as DeviceLogSession['process'],
-        logFilePath: testLogFilePath,
-        deviceUuid: '00008110-001A2C3D4E5F',
+      activeLogSessions.set(testSessionId, {
+        id: testSessionId,
+        target: 'device',
+        targetId: '00008110-001A2C3D4E5F',
         bundleId: 'com.example.MyApp',
-        hasEnded: false,
+        logFilePath: testLogFilePath,
+        startedAt: new Date(),
+        sources: [
+          {
+            kind: 'device_console',
+            process: testProcess as unknown as LogSource['process'],
+            hasEnded: false,
+          },
+        ],
       });
 
       // Configure test file system for access failure (file doesn't exist)
@@ -222,7 +275,7 @@ describe('stop_device_log_cap plugin', () => {
         ],
         isError: true,
       });
-      expect(activeDeviceLogSessions.has(testSessionId)).toBe(false); // Session still removed
+      expect(activeLogSessions.has(testSessionId)).toBe(false); // Session still removed
     });
 
     it('should handle file read failure', async () => {
@@ -235,12 +288,20 @@ describe('stop_device_log_cap plugin', () => {
         exitCode: null,
       });
 
-      activeDeviceLogSessions.set(testSessionId, {
-        process: testProcess as unknown as DeviceLogSession['process'],
-        logFilePath: testLogFilePath,
-        deviceUuid: '00008110-001A2C3D4E5F',
+      activeLogSessions.set(testSessionId, {
+        id: testSessionId,
+        target: 'device',
+        targetId: '00008110-001A2C3D4E5F',
         bundleId: 'com.example.MyApp',
-        hasEnded: false,
+        logFilePath: testLogFilePath,
+        startedAt: new Date(),
+        sources: [
+          {
+            kind: 'device_console',
+            process: testProcess as unknown as LogSource['process'],
+            hasEnded: false,
+          },
+        ],
       });
 
       // Configure test file system for successful access but failed read
@@ -279,12 +340,20 @@ describe('stop_device_log_cap plugin', () => {
         exitCode: null,
       });
 
-      activeDeviceLogSessions.set(testSessionId, {
-        process: testProcess as unknown as DeviceLogSession['process'],
-        logFilePath: testLogFilePath,
-        deviceUuid: '00008110-001A2C3D4E5F',
+      activeLogSessions.set(testSessionId, {
+        id: testSessionId,
+        target: 'device',
+        targetId: '00008110-001A2C3D4E5F',
         bundleId: 'com.example.MyApp',
-        hasEnded: false,
+        logFilePath: testLogFilePath,
+        startedAt: new Date(),
+        sources: [
+          {
+            kind: 'device_console',
+            process: testProcess as unknown as LogSource['process'],
+            hasEnded: false,
+          },
+        ],
       });
 
       // Configure test file system for access failure with string error
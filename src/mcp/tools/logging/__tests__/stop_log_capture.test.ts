@@ -0,0 +1,169 @@
+/**
+ * Tests for stop_log_capture plugin
+ */
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventEmitter } from 'events';
+import type { ChildProcess } from 'child_process';
+import * as z from 'zod';
+import plugin, { stop_log_captureLogic } from '../stop_log_capture.ts';
+import { activeLogSessions } from '../../../../utils/log-capture/index.ts';
+import { createMockFileSystemExecutor } from '../../../../test-utils/mock-executors.ts';
+
+function createTestProcess(): ChildProcess & { killCalls: string[] } {
+  const emitter = new EventEmitter();
+  return Object.assign(emitter, {
+    killed: false,
+    exitCode: null as number | null,
+    killCalls: [] as string[],
+    kill(signal?: string) {
+      this.killCalls.push(signal ?? 'SIGTERM');
+      this.killed = true;
+      this.exitCode = 0;
+      emitter.emit('close', 0);
+      return true;
+    },
+  }) as unknown as ChildProcess & { killCalls: string[] };
+}
+
+describe('stop_log_capture plugin', () => {
+  beforeEach(() => {
+    activeLogSessions.clear();
+  });
+
+  describe('Export Field Validation (Literal)', () => {
+    it('should have correct name, description and schema', () => {
+      expect(plugin.name).toBe('stop_log_capture');
+      expect(plugin.description).toBe(
+        'Stops a simulator or device log capture session and returns the captured logs, optionally filtered or summarized.',
+      );
+      const schema = z.object(plugin.schema);
+      expect(schema.safeParse({ logSessionId: 'abc' }).success).toBe(true);
+      expect(schema.safeParse({}).success).toBe(false);
+    });
+  });
+
+  describe('Handler Behavior (Complete Literal Returns)', () => {
+    it('should stop every source of a session and return its logs', async () => {
+      const consoleProcess = createTestProcess();
+      const osLogProcess = createTestProcess();
+      activeLogSessions.set('session-1', {
+        id: 'session-1',
+        target: 'simulator',
+        targetId: 'sim-uuid',
+        bundleId: 'com.example.App',
+        logFilePath: '/tmp/xcodemcp_sim_log_session-1.log',
+        startedAt: new Date(),
+        sources: [
+          { kind: 'console', process: consoleProcess, hasEnded: false },
+          { kind: 'os_log', process: osLogProcess, hasEnded: false },
+        ],
+      });
+
+      const result = await stop_log_captureLogic(
+        { logSessionId: 'session-1' },
+        createMockFileSystemExecutor({
+          existsSync: () => true,
+          readFile: async () => 'line 1\nline 2\n',
+        }),
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Log capture session session-1 (simulator sim-uuid, com.example.App) stopped. Log file retained at: /tmp/xcodemcp_sim_log_session-1.log\n\nline 1\nline 2\n',
+          },
+        ],
+      });
+      expect(consoleProcess.killCalls).toEqual(['SIGTERM']);
+      expect(osLogProcess.killCalls).toEqual(['SIGTERM']);
+      expect(activeLogSessions.size).toBe(0);
+    });
+
+    it('should stop device sessions the same way', async () => {
+      const process = createTestProcess();
+      activeLogSessions.set('session-2', {
+        id: 'session-2',
+        target: 'device',
+        targetId: '00008110-001A2C3D4E5F',
+        bundleId: 'com.example.App',
+        logFilePath: '/tmp/xcodemcp_device_log_session-2.log',
+        startedAt: new Date(),
+        sources: [{ kind: 'device_console', process, hasEnded: false }],
+      });
+
+      const result = await stop_log_captureLogic(
+        { logSessionId: 'session-2' },
+        createMockFileSystemExecutor({ existsSync: () => true, readFile: async () => 'console' }),
+      );
+
+      expect(result.isError).toBeUndefined();
+      expect(result.content[0].text).toContain('(device 00008110-001A2C3D4E5F, com.example.App)');
+      expect(process.killCalls).toEqual(['SIGTERM']);
+    });
+
+    it('should filter or summarize the captured lines', async () => {
+      const content = [
+        '2025-01-15 10:00:01.000000-0800 0x1a2b     Error       0x0                  4321   0    MyApp: [com.example.App:api] Request failed',
+        '2025-01-15 10:00:02.000000-0800 0x1a2b     Debug       0x0                  4321   0    MyApp: [com.example.App:ui] layout pass',
+        'print output',
+        '',
+      ].join('\n');
+      const fileSystem = createMockFileSystemExecutor({
+        existsSync: () => true,
+        readFile: async () => content,
+      });
+      const addSession = (): void => {
+        activeLogSessions.set('session-3', {
+          id: 'session-3',
+          target: 'simulator',
+          targetId: 'sim-uuid',
+          bundleId: 'com.example.App',
+          logFilePath: '/tmp/xcodemcp_sim_log_session-3.log',
+          startedAt: new Date(),
+          sources: [{ kind: 'os_log', process: createTestProcess(), hasEnded: false }],
+        });
+      };
+
+      addSession();
+      const filtered = await stop_log_captureLogic(
+        { logSessionId: 'session-3', filter: { minLevel: 'error' } },
+        fileSystem,
+      );
+      addSession();
+      const summarized = await stop_log_captureLogic(
+        { logSessionId: 'session-3', summary: true },
+        fileSystem,
+      );
+
+      expect(filtered.content[0].text).toBe(
+        `Log capture session session-3 (simulator sim-uuid, com.example.App) stopped. Log file retained at: /tmp/xcodemcp_sim_log_session-3.log\n\n1 of 3 lines match the filter.\n\n${content.split('\n')[0]}`,
+      );
+      expect(summarized.content[0].text).toBe(
+        [
+          'Log capture session session-3 (simulator sim-uuid, com.example.App) stopped. Log file retained at: /tmp/xcodemcp_sim_log_session-3.log',
+          '3 of 3 lines matched. Levels: fault 0, error 1, default 0, info 0, debug 1, unstructured 1.',
+          'Time range: 2025-01-15 10:00:01.000000 to 2025-01-15 10:00:02.000000.',
+          'Errors and faults (1 distinct):\n- 1× [error] com.example.App:api Request failed\n  first: 2025-01-15 10:00:01.000000 (line 1), last: 2025-01-15 10:00:01.000000 (line 1)',
+        ].join('\n\n'),
+      );
+    });
+
+    it('should report unknown sessions', async () => {
+      const result = await stop_log_captureLogic(
+        { logSessionId: 'missing' },
+        createMockFileSystemExecutor(),
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Error stopping log capture session missing: Log capture session not found: missing',
+          },
+        ],
+        isError: true,
+      });
+    });
+  });
+});
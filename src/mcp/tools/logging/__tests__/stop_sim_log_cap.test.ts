@@ -42,10 +42,13 @@ describe('stop_sim_log_cap plugin', () => {
     await fs.writeFile(logFilePath, logContent, 'utf-8');
 
     activeLogSessions.set(sessionId, {
-      processes: [mockProcess as any],
-      logFilePath: logFilePath,
-      simulatorUuid: 'test-simulator-uuid',
+      id: sessionId,
+      target: 'simulator',
+      targetId: 'test-simulator-uuid',
       bundleId: 'com.example.TestApp',
+      logFilePath: logFilePath,
+      startedAt: new Date(),
+      sources: [{ kind: 'os_log', process: mockProcess as any, hasEnded: false }],
     });
   }
 
@@ -238,6 +241,27 @@ describe('stop_sim_log_cap plugin', () => {
       );
     });
 
+    it('should refuse to stop a device session', async () => {
+      await createTestLogSession('device-session-id');
+      activeLogSessions.set('device-session-id', {
+        ...activeLogSessions.get('device-session-id')!,
+        target: 'device',
+      });
+
+      const result = await stop_sim_log_capLogic({ logSessionId: 'device-session-id' });
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Error stopping log capture session device-session-id: device-session-id is a device log capture session. Use stop_device_log_cap or stop_log_capture.',
+          },
+        ],
+        isError: true,
+      });
+      expect(activeLogSessions.has('device-session-id')).toBe(true);
+    });
+
     it('should handle file read errors', async () => {
       // Create session but make file reading fail in the log_capture utility
       const mockProcess = {
@@ -248,10 +272,13 @@ describe('stop_sim_log_cap plugin', () => {
       };
 
       activeLogSessions.set('test-session-id', {
-        processes: [mockProcess as any],
-        logFilePath: `/tmp/test_file_not_found.log`,
-        simulatorUuid: 'test-simulator-uuid',
+        id: 'test-session-id',
+        target: 'simulator',
+        targetId: 'test-simulator-uuid',
         bundleId: 'com.example.TestApp',
+        logFilePath: `/tmp/test_file_not_found.log`,
+        startedAt: new Date(),
+        sources: [{ kind: 'os_log', process: mockProcess as any, hasEnded: false }],
       });
 
       const result = await stop_sim_log_capLogic(
@@ -277,10 +304,13 @@ describe('stop_sim_log_cap plugin', () => {
       };
 
       activeLogSessions.set('test-session-id', {
-        processes: [mockProcess as any],
-        logFilePath: `/tmp/test_permission_denied.log`,
-        simulatorUuid: 'test-simulator-uuid',
+        id: 'test-session-id',
+        target: 'simulator',
+        targetId: 'test-simulator-uuid',
         bundleId: 'com.example.TestApp',
+        logFilePath: `/tmp/test_permission_denied.log`,
+        startedAt: new Date(),
+        sources: [{ kind: 'os_log', process: mockProcess as any, hasEnded: false }],
       });
 
       const result = await stop_sim_log_capLogic(
@@ -306,10 +336,13 @@ describe('stop_sim_log_cap plugin', () => {
       };
 
       activeLogSessions.set('test-session-id', {
-        processes: [mockProcess as any],
-        logFilePath: `/tmp/test_generic_error.log`,
-        simulatorUuid: 'test-simulator-uuid',
+        id: 'test-session-id',
+        target: 'simulator',
+        targetId: 'test-simulator-uuid',
         bundleId: 'com.example.TestApp',
+        logFilePath: `/tmp/test_generic_error.log`,
+        startedAt: new Date(),
+        sources: [{ kind: 'os_log', process: mockProcess as any, hasEnded: false }],
       });
 
       const result = await stop_sim_log_capLogic(
@@ -0,0 +1,132 @@
+/**
+ * Tests for tail_log_capture plugin
+ */
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { ChildProcess } from 'child_process';
+import * as z from 'zod';
+import plugin, { tail_log_captureLogic } from '../tail_log_capture.ts';
+import { activeLogSessions } from '../../../../utils/log-capture/index.ts';
+import { createMockFileSystemExecutor } from '../../../../test-utils/mock-executors.ts';
+
+const logContent = Array.from({ length: 5 }, (_, index) => `line ${index + 1}`).join('\n') + '\n';
+
+function addSession(exitCode: number | null): { killCalls: string[] } {
+  const process = {
+    exitCode,
+    killCalls: [] as string[],
+    kill(signal?: string) {
+      this.killCalls.push(signal ?? 'SIGTERM');
+      return true;
+    },
+  };
+  activeLogSessions.set('session-1', {
+    id: 'session-1',
+    target: 'simulator',
+    targetId: 'sim-uuid',
+    bundleId: 'com.example.App',
+    logFilePath: '/tmp/xcodemcp_sim_log_session-1.log',
+    startedAt: new Date(),
+    sources: [
+      { kind: 'os_log', process: process as unknown as ChildProcess, hasEnded: exitCode !== null },
+    ],
+  });
+  return process;
+}
+
+const fileSystem = createMockFileSystemExecutor({
+  existsSync: () => true,
+  readFile: async () => logContent,
+});
+
+describe('tail_log_capture plugin', () => {
+  beforeEach(() => {
+    activeLogSessions.clear();
+  });
+
+  describe('Export Field Validation (Literal)', () => {
+    it('should have correct name, description and schema', () => {
+      expect(plugin.name).toBe('tail_log_capture');
+      expect(plugin.description).toBe(
+        'Returns the last lines of a simulator or device log capture session without stopping it, optionally only lines matching a filter.',
+      );
+      const schema = z.object(plugin.schema);
+      expect(schema.safeParse({ logSessionId: 'abc', lines: 20 }).success).toBe(true);
+      expect(schema.safeParse({ logSessionId: 'abc', lines: 0 }).success).toBe(false);
+      expect(schema.safeParse({ logSessionId: 'abc', lines: 1.5 }).success).toBe(false);
+    });
+  });
+
+  describe('Handler Behavior (Complete Literal Returns)', () => {
+    it('should return the last lines and keep the session running', async () => {
+      const process = addSession(null);
+
+      const result = await tail_log_captureLogic(
+        { logSessionId: 'session-1', lines: 2 },
+        fileSystem,
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Last 2 of 5 lines from log capture session session-1. The session is still capturing.\n\nline 4\nline 5',
+          },
+        ],
+      });
+      expect(process.killCalls).toEqual([]);
+      expect(activeLogSessions.has('session-1')).toBe(true);
+    });
+
+    it('should return the whole log when it is shorter than requested', async () => {
+      addSession(0);
+
+      const result = await tail_log_captureLogic({ logSessionId: 'session-1' }, fileSystem);
+
+      expect(result.content[0].text).toBe(
+        'Last 5 of 5 lines from log capture session session-1. All log sources have ended; use stop_log_capture to close the session.\n\nline 1\nline 2\nline 3\nline 4\nline 5',
+      );
+    });
+
+    it('should take the last lines from those matching the filter', async () => {
+      addSession(null);
+
+      const result = await tail_log_captureLogic(
+        { logSessionId: 'session-1', lines: 1, filter: { include: 'line [24]' } },
+        fileSystem,
+      );
+
+      expect(result.content[0].text).toBe(
+        'Last 1 of 2 matching lines from log capture session session-1. The session is still capturing.\n\nline 4',
+      );
+    });
+
+    it('should reject invalid filters', () => {
+      const schema = z.object(plugin.schema);
+      expect(schema.safeParse({ logSessionId: 'abc', filter: { include: '[' } }).success).toBe(
+        false,
+      );
+    });
+
+    it('should report unknown sessions and unreadable files', async () => {
+      const missing = await tail_log_captureLogic({ logSessionId: 'missing' }, fileSystem);
+      addSession(null);
+      const unreadable = await tail_log_captureLogic(
+        { logSessionId: 'session-1' },
+        createMockFileSystemExecutor({ existsSync: () => false }),
+      );
+
+      expect(missing).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Error reading log capture session missing: Log capture session not found: missing',
+          },
+        ],
+        isError: true,
+      });
+      expect(unreadable.content[0].text).toBe(
+        'Error reading log capture session session-1: Log file not found: /tmp/xcodemcp_sim_log_session-1.log',
+      );
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Logging Plugin: List Log Captures
+ *
+ * Lists the active simulator and device log capture sessions.
+ */
+
+import * as z from 'zod';
+import {
+  isLogSessionRunning,
+  listLogSessions,
+  type LogSession,
+} from '../../../utils/log-capture/index.ts';
+import { ToolResponse, createTextContent } from '../../../types/common.ts';
+import { createTypedTool } from '../../../utils/typed-tool-factory.ts';
+import { getDefaultCommandExecutor } from '../../../utils/command.ts';
+
+// Define schema as ZodObject (empty for this tool)
+const listLogCapturesSchema = z.object({});
+
+// Use z.infer for type safety
+type ListLogCapturesParams = z.infer<typeof listLogCapturesSchema>;
+
+/**
+ * Business logic for listing log capture sessions
+ */
+export async function list_log_capturesLogic(
+  _params: ListLogCapturesParams,
+  sessions: LogSession[] = listLogSessions(),
+  dateNow: typeof Date.now = Date.now,
+): Promise<ToolResponse> {
+  if (sessions.length === 0) {
+    return {
+      content: [
+        createTextContent(
+          'No active log capture sessions. Use start_sim_log_cap or start_device_log_cap to start one.',
+        ),
+      ],
+    };
+  }
+
+  const lines = sessions.map((session) => {
+    const elapsed = Math.max(0, Math.round((dateNow() - session.startedAt.getTime()) / 1000));
+    const status = isLogSessionRunning(session) ? `running ${elapsed}s` : 'all sources ended';
+    const sources = session.sources.map((source) => source.kind).join(', ');
+    return `• ${session.id}: ${session.target} ${session.targetId} (${session.bundleId}) - ${sources} - ${status}\n  Log file: ${session.logFilePath}`;
+  });
+
+  return {
+    content: [
+      createTextContent(
+        `Active log capture sessions (${sessions.length}):\n\n${lines.join('\n')}\n\nUse tail_log_capture to read recent lines or stop_log_capture to stop a session.`,
+      ),
+    ],
+  };
+}
+
+export default {
+  name: 'list_log_captures',
+  description:
+    'Lists active simulator and device log capture sessions with their sources and status.',
+  schema: listLogCapturesSchema.shape, // MCP SDK compatibility
+  annotations: {
+    title: 'List Log Captures',
+    readOnlyHint: true,
+  },
+  handler: createTypedTool(
+    listLogCapturesSchema,
+    (params: ListLogCapturesParams) => list_log_capturesLogic(params),
+    getDefaultCommandExecutor,
+  ),
+};
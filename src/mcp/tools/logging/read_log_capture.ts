@@ -0,0 +1,129 @@
+/**
+ * Logging Plugin: Read Log Capture
+ *
+ * Returns log lines written since a cursor while the capture keeps running, so logs can
+ * be checked after each interaction without relaunching the app.
+ */
+
+import * as z from 'zod';
+import {
+  formatLogLines,
+  isLogSessionRunning,
+  logFilterSchema,
+  readLogSession,
+} from '../../../utils/log-capture/index.ts';
+import { ToolResponse, createTextContent } from '../../../types/common.ts';
+import { getDefaultFileSystemExecutor, getDefaultCommandExecutor } from '../../../utils/command.ts';
+import { FileSystemExecutor } from '../../../utils/FileSystemExecutor.ts';
+import { createTypedTool } from '../../../utils/typed-tool-factory.ts';
+
+const DEFAULT_MAX_LINES = 200;
+const DEFAULT_MAX_BYTES = 32_768;
+
+// Define schema as ZodObject
+const readLogCaptureSchema = z.object({
+  logSessionId: z
+    .string()
+    .describe('The session ID returned by start_sim_log_cap or start_device_log_cap.'),
+  cursor: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe(
+      'Cursor returned by a previous read. Omit to continue where the previous read stopped (the start of the log on the first read).',
+    ),
+  maxLines: z
+    .number()
+    .int()
+    .min(1)
+    .max(2000)
+    .optional()
+    .describe(`Maximum number of lines to return (default ${DEFAULT_MAX_LINES}).`),
+  maxBytes: z
+    .number()
+    .int()
+    .min(1024)
+    .max(262_144)
+    .optional()
+    .describe(`Maximum number of bytes to read (default ${DEFAULT_MAX_BYTES}).`),
+  filter: logFilterSchema
+    .optional()
+    .describe(
+      'Filter the lines read in this call. The cursor still advances past every line read.',
+    ),
+  summary: z
+    .boolean()
+    .optional()
+    .describe('Summarize the lines read in this call instead of returning them.'),
+});
+
+// Use z.infer for type safety
+type ReadLogCaptureParams = z.infer<typeof readLogCaptureSchema>;
+
+/**
+ * Business logic for reading new lines from a running log capture session
+ */
+export async function read_log_captureLogic(
+  params: ReadLogCaptureParams,
+  fileSystemExecutor: FileSystemExecutor,
+): Promise<ToolResponse> {
+  const { session, read, error } = await readLogSession(
+    params.logSessionId,
+    params.cursor,
+    {
+      maxLines: params.maxLines ?? DEFAULT_MAX_LINES,
+      maxBytes: params.maxBytes ?? DEFAULT_MAX_BYTES,
+    },
+    fileSystemExecutor,
+  );
+  if (error !== undefined || !session || !read) {
+    return {
+      content: [
+        createTextContent(`Error reading log capture session ${params.logSessionId}: ${error}`),
+      ],
+      isError: true,
+    };
+  }
+
+  const status = isLogSessionRunning(session)
+    ? 'The session is still capturing.'
+    : 'All log sources have ended; use stop_log_capture to close the session.';
+  const more = read.hasMore
+    ? ` More lines are available; read again with cursor ${read.cursor}.`
+    : '';
+
+  if (read.lines.length === 0) {
+    return {
+      content: [
+        createTextContent(
+          `No new log lines since cursor ${read.startCursor}. Next cursor: ${read.cursor}. ${status}`,
+        ),
+      ],
+    };
+  }
+
+  return {
+    content: [
+      createTextContent(
+        `${read.lines.length} ${read.lines.length === 1 ? 'line' : 'lines'} from log capture session ${session.id} (bytes ${read.startCursor}-${read.cursor} of ${read.fileSize}). Next cursor: ${read.cursor}.${more} ${status}\n\n${formatLogLines(read.lines, params)}`,
+      ),
+    ],
+  };
+}
+
+export default {
+  name: 'read_log_capture',
+  description:
+    'Returns log lines captured since a cursor without stopping the capture, with line and byte limits. Each call returns the cursor for the next read.',
+  schema: readLogCaptureSchema.shape, // MCP SDK compatibility
+  annotations: {
+    title: 'Read Log Capture',
+    readOnlyHint: true,
+  },
+  handler: createTypedTool(
+    readLogCaptureSchema,
+    (params: ReadLogCaptureParams) => read_log_captureLogic(params, getDefaultFileSystemExecutor()),
+    getDefaultCommandExecutor,
+  ),
+};
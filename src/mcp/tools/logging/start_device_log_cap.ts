@@ -6,43 +6,26 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
 import type { ChildProcess } from 'child_process';
-import { v4 as uuidv4 } from 'uuid';
 import * as z from 'zod';
 import { log } from '../../../utils/logging/index.ts';
 import type { CommandExecutor, FileSystemExecutor } from '../../../utils/execution/index.ts';
 import { getDefaultCommandExecutor } from '../../../utils/execution/index.ts';
+import {
+  activeLogSessions,
+  appendToLogSession,
+  createLogSession,
+  deviceConsoleSource,
+  discardLogSession,
+  startLogSource,
+  type LogSession,
+} from '../../../utils/log-capture/index.ts';
 import { ToolResponse } from '../../../types/common.ts';
 import {
   createSessionAwareTool,
   getSessionAwareToolSchemaShape,
 } from '../../../utils/typed-tool-factory.ts';
 
-/**
- * Log file retention policy for device logs:
- * - Old log files (older than LOG_RETENTION_DAYS) are automatically deleted from the temp directory
- * - Cleanup runs on every new log capture start
- */
-const LOG_RETENTION_DAYS = 3;
-const DEVICE_LOG_FILE_PREFIX = 'xcodemcp_device_log_';
-
-// Note: Device and simulator logging use different approaches due to platform constraints:
-// - Simulators use 'xcrun simctl' with console-pty and OSLog stream capabilities
-// - Devices use 'xcrun devicectl' with console output only (no OSLog streaming)
-// The different command structures and output formats make sharing infrastructure complex.
-// However, both follow similar patterns for session management and log retention.
-export interface DeviceLogSession {
-  process: ChildProcess;
-  logFilePath: string;
-  deviceUuid: string;
-  bundleId: string;
-  logStream?: fs.WriteStream;
-  hasEnded: boolean;
-}
-
-export const activeDeviceLogSessions = new Map<string, DeviceLogSession>();
-
 const EARLY_FAILURE_WINDOW_MS = 5000;
 const INITIAL_OUTPUT_LIMIT = 8_192;
 const DEFAULT_JSON_RESULT_WAIT_MS = 8000;
@@ -230,8 +213,6 @@ async function pollJsonOutcome(
   return null;
 }
 
-type WriteStreamWithClosed = fs.WriteStream & { closed?: boolean };
-
 /**
  * Start a log capture session for an iOS device by launching the app with console output.
  * Uses the devicectl command to launch the app and capture console logs.
@@ -245,124 +226,54 @@ export async function startDeviceLogCapture(
   executor: CommandExecutor = getDefaultCommandExecutor(),
   fileSystemExecutor?: FileSystemExecutor,
 ): Promise<{ sessionId: string; error?: string }> {
-  // Clean up old logs before starting a new session
-  await cleanOldDeviceLogs();
-
   const { deviceUuid, bundleId } = params;
-  const logSessionId = uuidv4();
-  const logFileName = `${DEVICE_LOG_FILE_PREFIX}${logSessionId}.log`;
-  const tempDir = fileSystemExecutor ? fileSystemExecutor.tmpdir() : os.tmpdir();
-  const logFilePath = path.join(tempDir, logFileName);
-  const launchJsonPath = path.join(tempDir, `devicectl-launch-${logSessionId}.json`);
-
-  let logStream: fs.WriteStream | undefined;
+  let session: LogSession | undefined;
+  let launchJsonPath: string | undefined;
 
   try {
-    // Use injected file system executor or default
-    if (fileSystemExecutor) {
-      await fileSystemExecutor.mkdir(tempDir, { recursive: true });
-      await fileSystemExecutor.writeFile(logFilePath, '');
-    } else {
-      await fs.promises.mkdir(tempDir, { recursive: true });
-      await fs.promises.writeFile(logFilePath, '');
-    }
-
-    logStream = fs.createWriteStream(logFilePath, { flags: 'a' });
-
-    logStream.write(
-      `\n--- Device log capture for bundle ID: ${bundleId} on device: ${deviceUuid} ---\n`,
+    session = await createLogSession(
+      { target: 'device', targetId: deviceUuid, bundleId },
+      fileSystemExecutor,
     );
-
-    // Use executor with dependency injection instead of spawn directly
-    const result = await executor(
-      [
-        'xcrun',
-        'devicectl',
-        'device',
-        'process',
-        'launch',
-        '--console',
-        '--terminate-existing',
-        '--device',
-        deviceUuid,
-        '--json-output',
-        launchJsonPath,
-        bundleId,
-      ],
-      'Device Log Capture',
-      true,
-      undefined,
-      true,
+    launchJsonPath = path.join(
+      path.dirname(session.logFilePath),
+      `devicectl-launch-${session.id}.json`,
     );
 
-    if (!result.success) {
-      log(
-        'error',
-        `Device log capture process reported failure: ${result.error ?? 'unknown error'}`,
-      );
-      if (logStream && !logStream.destroyed) {
-        logStream.write(
-          `\n--- Device log capture failed to start ---\n${result.error ?? 'Unknown error'}\n`,
-        );
-        logStream.end();
-      }
-      return {
-        sessionId: '',
-        error: result.error ?? 'Failed to start device log capture',
-      };
-    }
-
-    const childProcess = result.process;
-    if (!childProcess) {
-      throw new Error('Device log capture process handle was not returned');
-    }
-
-    const session: DeviceLogSession = {
-      process: childProcess,
-      logFilePath,
-      deviceUuid,
-      bundleId,
-      logStream,
-      hasEnded: false,
-    };
+    appendToLogSession(
+      session,
+      `\n--- Device log capture for bundle ID: ${bundleId} on device: ${deviceUuid} ---\n`,
+    );
 
     let bufferedOutput = '';
-    const appendBufferedOutput = (text: string): void => {
-      bufferedOutput += text;
-      if (bufferedOutput.length > INITIAL_OUTPUT_LIMIT) {
-        bufferedOutput = bufferedOutput.slice(bufferedOutput.length - INITIAL_OUTPUT_LIMIT);
-      }
-    };
-
     let triggerImmediateFailure: ((message: string) => void) | undefined;
 
-    const handleOutput = (chunk: unknown): void => {
-      if (!logStream || logStream.destroyed) return;
-      const text =
-        typeof chunk === 'string'
-          ? chunk
-          : chunk instanceof Buffer
-            ? chunk.toString('utf8')
-            : String(chunk ?? '');
-      if (text.length > 0) {
-        appendBufferedOutput(text);
+    const { source, error } = await startLogSource(
+      session,
+      deviceConsoleSource(deviceUuid, bundleId, launchJsonPath),
+      executor,
+      (text) => {
+        bufferedOutput += text;
+        if (bufferedOutput.length > INITIAL_OUTPUT_LIMIT) {
+          bufferedOutput = bufferedOutput.slice(bufferedOutput.length - INITIAL_OUTPUT_LIMIT);
+        }
         const extracted = extractFailureMessage(bufferedOutput);
         if (extracted) {
           triggerImmediateFailure?.(extracted);
         }
-        logStream.write(text);
-      }
-    };
+      },
+    );
 
-    childProcess.stdout?.setEncoding?.('utf8');
-    childProcess.stdout?.on?.('data', handleOutput);
-    childProcess.stderr?.setEncoding?.('utf8');
-    childProcess.stderr?.on?.('data', handleOutput);
+    if (error !== undefined || !source) {
+      log('error', `Device log capture process reported failure: ${error ?? 'unknown error'}`);
+      discardLogSession(session, error ?? 'Unknown error');
+      return {
+        sessionId: '',
+        error: error ?? 'Failed to start device log capture',
+      };
+    }
 
-    const cleanupStreams = (): void => {
-      childProcess.stdout?.off?.('data', handleOutput);
-      childProcess.stderr?.off?.('data', handleOutput);
-    };
+    const childProcess = source.process;
 
     const earlyFailure = await detectEarlyLaunchFailure(
       childProcess,
@@ -374,9 +285,6 @@ export async function startDeviceLogCapture(
     );
 
     if (earlyFailure) {
-      cleanupStreams();
-      session.hasEnded = true;
-
       const failureMessage =
         earlyFailure.errorMessage && earlyFailure.errorMessage.length > 0
           ? earlyFailure.errorMessage
@@ -385,18 +293,8 @@ export async function startDeviceLogCapture(
             })`;
 
       log('error', `Device log capture failed to start: ${failureMessage}`);
-      if (logStream && !logStream.destroyed) {
-        try {
-          logStream.write(`\n--- Device log capture failed to start ---\n${failureMessage}\n`);
-        } catch {
-          // best-effort logging
-        }
-        logStream.end();
-      }
-
+      discardLogSession(session, failureMessage);
       await removeFileIfExists(launchJsonPath, fileSystemExecutor);
-
-      childProcess.kill?.('SIGTERM');
       return { sessionId: '', error: failureMessage };
     }
 
@@ -407,71 +305,35 @@ export async function startDeviceLogCapture(
     );
 
     if (jsonOutcome?.errorMessage) {
-      cleanupStreams();
-      session.hasEnded = true;
-
       const failureMessage = jsonOutcome.errorMessage;
 
       log('error', `Device log capture failed to start (JSON): ${failureMessage}`);
-
-      if (logStream && !logStream.destroyed) {
-        try {
-          logStream.write(`\n--- Device log capture failed to start ---\n${failureMessage}\n`);
-        } catch {
-          // ignore secondary logging failures
-        }
-        logStream.end();
-      }
-
-      childProcess.kill?.('SIGTERM');
+      discardLogSession(session, failureMessage);
       return { sessionId: '', error: failureMessage };
     }
 
-    if (jsonOutcome?.pid && logStream && !logStream.destroyed) {
-      try {
-        logStream.write(`Process ID: ${jsonOutcome.pid}\n`);
-      } catch {
-        // best-effort logging only
-      }
+    if (jsonOutcome?.pid) {
+      appendToLogSession(session, `Process ID: ${jsonOutcome.pid}\n`);
     }
 
-    childProcess.once?.('error', (err) => {
-      log(
-        'error',
-        `Device log capture process error (session ${logSessionId}): ${
-          err instanceof Error ? err.message : String(err)
-        }`,
-      );
-    });
-
-    childProcess.once?.('close', (code) => {
-      cleanupStreams();
-      session.hasEnded = true;
-      if (logStream && !logStream.destroyed && !(logStream as WriteStreamWithClosed).closed) {
-        logStream.write(`\n--- Device log capture ended (exit code: ${code ?? 'unknown'}) ---\n`);
-        logStream.end();
-      }
-      void removeFileIfExists(launchJsonPath, fileSystemExecutor);
+    const jsonPathToRemove = launchJsonPath;
+    childProcess.once?.('close', () => {
+      void removeFileIfExists(jsonPathToRemove, fileSystemExecutor);
     });
 
-    // For testing purposes, we'll simulate process management
-    // In actual usage, the process would be managed by the executor result
-    activeDeviceLogSessions.set(logSessionId, session);
+    activeLogSessions.set(session.id, session);
 
-    log('info', `Device log capture started with session ID: ${logSessionId}`);
-    return { sessionId: logSessionId };
+    log('info', `Device log capture started with session ID: ${session.id}`);
+    return { sessionId: session.id };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     log('error', `Failed to start device log capture: ${message}`);
-    if (logStream && !logStream.destroyed && !(logStream as WriteStreamWithClosed).closed) {
-      try {
-        logStream.write(`\n--- Device log capture failed: ${message} ---\n`);
-      } catch {
-        // ignore secondary stream write failures
-      }
-      logStream.end();
+    if (session) {
+      discardLogSession(session, message);
+    }
+    if (launchJsonPath) {
+      await removeFileIfExists(launchJsonPath, fileSystemExecutor);
     }
-    await removeFileIfExists(launchJsonPath, fileSystemExecutor);
     return { sessionId: '', error: message };
   }
 }
@@ -588,47 +450,6 @@ function extractFailureMessage(output?: string): string | undefined {
   return undefined;
 }
 
-/**
- * Deletes device log files older than LOG_RETENTION_DAYS from the temp directory.
- * Runs quietly; errors are logged but do not throw.
- */
-// Device logs follow the same retention policy as simulator logs but use a different prefix
-// to avoid conflicts. Both clean up logs older than LOG_RETENTION_DAYS automatically.
-async function cleanOldDeviceLogs(): Promise<void> {
-  const tempDir = os.tmpdir();
-  let files;
-  try {
-    files = await fs.promises.readdir(tempDir);
-  } catch (err) {
-    log(
-      'warn',
-      `Could not read temp dir for device log cleanup: ${err instanceof Error ? err.message : String(err)}`,
-    );
-    return;
-  }
-  const now = Date.now();
-  const retentionMs = LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000;
-  await Promise.all(
-    files
-      .filter((f) => f.startsWith(DEVICE_LOG_FILE_PREFIX) && f.endsWith('.log'))
-      .map(async (f) => {
-        const filePath = path.join(tempDir, f);
-        try {
-          const stat = await fs.promises.stat(filePath);
-          if (now - stat.mtimeMs > retentionMs) {
-            await fs.promises.unlink(filePath);
-            log('info', `Deleted old device log file: ${filePath}`);
-          }
-        } catch (err) {
-          log(
-            'warn',
-            `Error during device log cleanup for ${filePath}: ${err instanceof Error ? err.message : String(err)}`,
-          );
-        }
-      }),
-  );
-}
-
 // Define schema as ZodObject
 const startDeviceLogCapSchema = z.object({
   deviceId: z.string().describe('UDID of the device (obtained from list_devices)'),
@@ -675,7 +496,7 @@ export async function start_device_log_capLogic(
     content: [
       {
         type: 'text',
-        text: `✅ Device log capture started successfully\n\nSession ID: ${sessionId}\n\nNote: The app has been launched on the device with console output capture enabled.\n\nNext Steps:\n1. Interact with your app on the device\n2. Use stop_device_log_cap({ logSessionId: '${sessionId}' }) to stop capture and retrieve logs`,
+        text: `✅ Device log capture started successfully\n\nSession ID: ${sessionId}\n\nNote: The app has been launched on the device with console output capture enabled.\n\nNext Steps:\n1. Interact with your app on the device\n2. Use read_log_capture({ logSessionId: '${sessionId}' }) to read new log lines while capture continues\n3. Use stop_log_capture({ logSessionId: '${sessionId}' }) to stop capture and retrieve logs, optionally filtered or summarized`,
       },
     ],
   };
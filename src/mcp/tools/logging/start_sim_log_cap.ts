@@ -5,7 +5,13 @@
  */
 
 import * as z from 'zod';
-import { startLogCapture } from '../../../utils/log-capture/index.ts';
+import {
+  LOG_PREDICATE_MODES,
+  LOG_STREAM_LEVELS,
+  LOG_SUBSYSTEM_PRESETS,
+  LOG_SUBSYSTEM_PRESET_NAMES,
+  startLogCapture,
+} from '../../../utils/log-capture/index.ts';
 import { CommandExecutor, getDefaultCommandExecutor } from '../../../utils/command.ts';
 import { ToolResponse, createTextContent } from '../../../types/common.ts';
 import {
@@ -13,8 +19,12 @@ import {
   getSessionAwareToolSchemaShape,
 } from '../../../utils/typed-tool-factory.ts';
 
+const presetList = Object.entries(LOG_SUBSYSTEM_PRESETS)
+  .map(([name, subsystems]) => `${name} (${subsystems.join(', ')})`)
+  .join(', ');
+
 // Define schema as ZodObject
-const startSimLogCapSchema = z.object({
+const baseStartSimLogCapSchema = z.object({
   simulatorId: z
     .uuid()
     .describe('UUID of the simulator to capture logs from (obtained from list_simulators).'),
@@ -23,6 +33,51 @@ const startSimLogCapSchema = z.object({
     .boolean()
     .optional()
     .describe('Whether to capture console output (requires app relaunch).'),
+  level: z
+    .enum(LOG_STREAM_LEVELS)
+    .optional()
+    .describe('Lowest level of structured logs to stream: default, info or debug (default).'),
+  subsystems: z
+    .array(z.string().min(1))
+    .optional()
+    .describe(
+      'Additional subsystems to capture alongside the app\'s own, e.g. ["com.example.app.widget"].',
+    ),
+  subsystemPresets: z
+    .array(z.enum(LOG_SUBSYSTEM_PRESET_NAMES))
+    .optional()
+    .describe(
+      `Named groups of system subsystems to capture alongside the app's own: ${presetList}.`,
+    ),
+  processes: z
+    .array(z.string().min(1))
+    .optional()
+    .describe(
+      "Also capture every log entry from these processes, whatever their subsystem, e.g. the app's executable name to include framework logs.",
+    ),
+  predicate: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Custom NSPredicate for `log stream`, e.g. \'category == "network"\'. How it combines with the subsystems and processes above is set by predicateMode.',
+    ),
+  predicateMode: z
+    .enum(LOG_PREDICATE_MODES)
+    .optional()
+    .describe(
+      "How predicate combines with the app's subsystem and the other subsystems and processes: add (default) also captures entries matching it, narrow keeps only entries that match both, replace captures only entries matching it.",
+    ),
+});
+
+const startSimLogCapSchema = baseStartSimLogCapSchema.superRefine((values, ctx) => {
+  if (values.predicateMode !== undefined && values.predicate === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['predicateMode'],
+      message: 'predicateMode requires predicate.',
+    });
+  }
 });
 
 // Use z.infer for type safety
@@ -39,6 +94,14 @@ export async function start_sim_log_capLogic(
       simulatorUuid: params.simulatorId,
       bundleId: params.bundleId,
       captureConsole,
+      osLog: {
+        level: params.level,
+        subsystems: params.subsystems,
+        subsystemPresets: params.subsystemPresets,
+        processes: params.processes,
+        predicate: params.predicate,
+        predicateMode: params.predicateMode,
+      },
     },
     _executor,
   );
@@ -51,23 +114,23 @@ export async function start_sim_log_capLogic(
   return {
     content: [
       createTextContent(
-        `Log capture started successfully. Session ID: ${sessionId}.\n\n${captureConsole ? 'Note: Your app was relaunched to capture console output.' : 'Note: Only structured logs are being captured.'}\n\nNext Steps:\n1.  Interact with your simulator and app.\n2.  Use 'stop_sim_log_cap' with session ID '${sessionId}' to stop capture and retrieve logs.`,
+        `Log capture started successfully. Session ID: ${sessionId}.\n\n${captureConsole ? 'Note: Your app was relaunched to capture console output.' : 'Note: Only structured logs are being captured.'}\n\nNext Steps:\n1.  Interact with your simulator and app.\n2.  Use 'read_log_capture' with session ID '${sessionId}' to read new log lines while capture continues.\n3.  Use 'stop_log_capture' with session ID '${sessionId}' to stop capture and retrieve logs, optionally filtered or summarized.`,
       ),
     ],
   };
 }
 
 const publicSchemaObject = z.strictObject(
-  startSimLogCapSchema.omit({ simulatorId: true } as const).shape,
+  baseStartSimLogCapSchema.omit({ simulatorId: true } as const).shape,
 );
 
 export default {
   name: 'start_sim_log_cap',
   description:
-    'Starts capturing logs from a specified simulator. Returns a session ID. By default, captures only structured logs.',
+    'Starts capturing logs from a specified simulator. Returns a session ID. By default, captures only structured logs from the app subsystem; more subsystems, processes or a custom predicate can be added, and the predicate can also narrow or replace that scope.',
   schema: getSessionAwareToolSchemaShape({
     sessionAware: publicSchemaObject,
-    legacy: startSimLogCapSchema,
+    legacy: baseStartSimLogCapSchema,
   }),
   annotations: {
     title: 'Start Simulator Log Capture',
@@ -7,7 +7,7 @@
 import * as fs from 'fs';
 import * as z from 'zod';
 import { log } from '../../../utils/logging/index.ts';
-import { activeDeviceLogSessions, type DeviceLogSession } from './start_device_log_cap.ts';
+import { activeLogSessions, stopLogSession } from '../../../utils/log-capture/index.ts';
 import { ToolResponse } from '../../../types/common.ts';
 import { getDefaultFileSystemExecutor, getDefaultCommandExecutor } from '../../../utils/command.ts';
 import { FileSystemExecutor } from '../../../utils/FileSystemExecutor.ts';
@@ -30,136 +30,53 @@ export async function stop_device_log_capLogic(
 ): Promise<ToolResponse> {
   const { logSessionId } = params;
 
-  const session = activeDeviceLogSessions.get(logSessionId);
-  if (!session) {
-    log('warning', `Device log session not found: ${logSessionId}`);
+  const session = activeLogSessions.get(logSessionId);
+  if (session?.target === 'simulator') {
+    log('warning', `Log session ${logSessionId} belongs to a simulator, not a device`);
     return {
       content: [
         {
           type: 'text',
-          text: `Failed to stop device log capture session ${logSessionId}: Device log capture session not found: ${logSessionId}`,
+          text: `Failed to stop device log capture session ${logSessionId}: ${logSessionId} is a simulator log capture session. Use stop_sim_log_cap or stop_log_capture.`,
         },
       ],
       isError: true,
     };
   }
-
-  try {
-    log('info', `Attempting to stop device log capture session: ${logSessionId}`);
-
-    const shouldSignalStop =
-      !(session.hasEnded ?? false) &&
-      session.process.killed !== true &&
-      session.process.exitCode == null;
-
-    if (shouldSignalStop) {
-      session.process.kill?.('SIGTERM');
-    }
-
-    await waitForSessionToFinish(session);
-
-    if (session.logStream) {
-      await ensureStreamClosed(session.logStream);
-    }
-
-    const logFilePath = session.logFilePath;
-    activeDeviceLogSessions.delete(logSessionId);
-
-    // Check file access
-    if (!fileSystemExecutor.existsSync(logFilePath)) {
-      throw new Error(`Log file not found: ${logFilePath}`);
-    }
-
-    const fileContent = await fileSystemExecutor.readFile(logFilePath, 'utf-8');
-    log('info', `Successfully read device log content from ${logFilePath}`);
-
-    log(
-      'info',
-      `Device log capture session ${logSessionId} stopped. Log file retained at: ${logFilePath}`,
-    );
-
+  if (!session) {
+    log('warning', `Device log session not found: ${logSessionId}`);
     return {
       content: [
         {
           type: 'text',
-          text: `✅ Device log capture session stopped successfully\n\nSession ID: ${logSessionId}\n\n--- Captured Logs ---\n${fileContent}`,
+          text: `Failed to stop device log capture session ${logSessionId}: Device log capture session not found: ${logSessionId}`,
         },
       ],
+      isError: true,
     };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    log('error', `Failed to stop device log capture session ${logSessionId}: ${message}`);
+  }
+
+  const { logContent, error } = await stopLogSession(logSessionId, fileSystemExecutor);
+  if (error !== undefined) {
     return {
       content: [
         {
           type: 'text',
-          text: `Failed to stop device log capture session ${logSessionId}: ${message}`,
+          text: `Failed to stop device log capture session ${logSessionId}: ${error}`,
         },
       ],
       isError: true,
     };
   }
-}
-
-type WriteStreamWithClosed = fs.WriteStream & { closed?: boolean };
 
-async function ensureStreamClosed(stream: fs.WriteStream): Promise<void> {
-  const typedStream = stream as WriteStreamWithClosed;
-  if (typedStream.destroyed || typedStream.closed) {
-    return;
-  }
-
-  await new Promise<void>((resolve) => {
-    const onClose = (): void => resolve();
-    typedStream.once('close', onClose);
-    typedStream.end();
-  }).catch(() => {
-    // Ignore cleanup errors – best-effort close
-  });
-}
-
-async function waitForSessionToFinish(session: DeviceLogSession): Promise<void> {
-  if (session.hasEnded) {
-    return;
-  }
-
-  if (session.process.exitCode != null) {
-    session.hasEnded = true;
-    return;
-  }
-
-  if (typeof session.process.once === 'function') {
-    await new Promise<void>((resolve) => {
-      const onClose = (): void => {
-        clearTimeout(timeout);
-        session.hasEnded = true;
-        resolve();
-      };
-
-      const timeout = setTimeout(() => {
-        session.process.removeListener?.('close', onClose);
-        session.hasEnded = true;
-        resolve();
-      }, 1000);
-
-      session.process.once('close', onClose);
-
-      if (session.hasEnded || session.process.exitCode != null) {
-        session.process.removeListener?.('close', onClose);
-        onClose();
-      }
-    });
-    return;
-  }
-
-  // Fallback polling for minimal mock processes (primarily in tests)
-  for (let i = 0; i < 20; i += 1) {
-    if (session.hasEnded || session.process.exitCode != null) {
-      session.hasEnded = true;
-      break;
-    }
-    await new Promise((resolve) => setTimeout(resolve, 50));
-  }
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `✅ Device log capture session stopped successfully\n\nSession ID: ${logSessionId}\n\n--- Captured Logs ---\n${logContent}`,
+      },
+    ],
+  };
 }
 
 /**
@@ -202,6 +119,22 @@ export async function stopDeviceLogCapture(
         return typeof result === 'string' ? result : (result as Buffer).toString();
       }
     },
+    async readFileRange(
+      path: string,
+      offset: number,
+      length: number,
+    ): Promise<{ data: Buffer; size: number }> {
+      const promises = hasPromisesInterface(fsToUse) ? fsToUse.promises : fs.promises;
+      const handle = await promises.open(path, 'r');
+      try {
+        const { size } = await handle.stat();
+        const data = Buffer.alloc(Math.max(0, Math.min(length, size - offset)));
+        const { bytesRead } = await handle.read(data, 0, data.length, offset);
+        return { data: data.subarray(0, bytesRead), size };
+      } finally {
+        await handle.close();
+      }
+    },
     async writeFile(
       path: string,
       content: string,
@@ -213,6 +146,9 @@ export async function stopDeviceLogCapture(
         await fs.promises.writeFile(path, content, encoding);
       }
     },
+    createWriteStream(path: string, options?: { flags?: string }): fs.WriteStream {
+      return fs.createWriteStream(path, options);
+    },
     async cp(
       source: string,
       destination: string,
@@ -0,0 +1,82 @@
+/**
+ * Logging Plugin: Stop Log Capture
+ *
+ * Stops any active log capture session, simulator or device, and returns the captured logs.
+ */
+
+import * as z from 'zod';
+import {
+  formatLogLines,
+  logFilterSchema,
+  splitLogLines,
+  stopLogSession,
+} from '../../../utils/log-capture/index.ts';
+import { ToolResponse, createTextContent } from '../../../types/common.ts';
+import { getDefaultFileSystemExecutor, getDefaultCommandExecutor } from '../../../utils/command.ts';
+import { FileSystemExecutor } from '../../../utils/FileSystemExecutor.ts';
+import { createTypedTool } from '../../../utils/typed-tool-factory.ts';
+
+// Define schema as ZodObject
+const stopLogCaptureSchema = z.object({
+  logSessionId: z
+    .string()
+    .describe('The session ID returned by start_sim_log_cap or start_device_log_cap.'),
+  filter: logFilterSchema.optional(),
+  summary: z
+    .boolean()
+    .optional()
+    .describe(
+      'Return a summary instead of the lines: counts per level, errors and faults grouped by message with first and last occurrence, and the most repeated messages.',
+    ),
+});
+
+// Use z.infer for type safety
+type StopLogCaptureParams = z.infer<typeof stopLogCaptureSchema>;
+
+/**
+ * Business logic for stopping a log capture session of either platform
+ */
+export async function stop_log_captureLogic(
+  params: StopLogCaptureParams,
+  fileSystemExecutor: FileSystemExecutor,
+): Promise<ToolResponse> {
+  const { session, logContent, error } = await stopLogSession(
+    params.logSessionId,
+    fileSystemExecutor,
+  );
+  if (error !== undefined || !session) {
+    return {
+      content: [
+        createTextContent(`Error stopping log capture session ${params.logSessionId}: ${error}`),
+      ],
+      isError: true,
+    };
+  }
+  const output =
+    params.filter || params.summary
+      ? formatLogLines(splitLogLines(logContent), params)
+      : logContent;
+  return {
+    content: [
+      createTextContent(
+        `Log capture session ${session.id} (${session.target} ${session.targetId}, ${session.bundleId}) stopped. Log file retained at: ${session.logFilePath}\n\n${output}`,
+      ),
+    ],
+  };
+}
+
+export default {
+  name: 'stop_log_capture',
+  description:
+    'Stops a simulator or device log capture session and returns the captured logs, optionally filtered or summarized.',
+  schema: stopLogCaptureSchema.shape, // MCP SDK compatibility
+  annotations: {
+    title: 'Stop Log Capture',
+    destructiveHint: true,
+  },
+  handler: createTypedTool(
+    stopLogCaptureSchema,
+    (params: StopLogCaptureParams) => stop_log_captureLogic(params, getDefaultFileSystemExecutor()),
+    getDefaultCommandExecutor,
+  ),
+};
@@ -5,7 +5,10 @@
  */
 
 import * as z from 'zod';
-import { stopLogCapture as _stopLogCapture } from '../../../utils/log-capture/index.ts';
+import {
+  activeLogSessions,
+  stopLogCapture as _stopLogCapture,
+} from '../../../utils/log-capture/index.ts';
 import { ToolResponse, createTextContent } from '../../../types/common.ts';
 import { createTypedTool } from '../../../utils/typed-tool-factory.ts';
 import { getDefaultCommandExecutor } from '../../../utils/command.ts';
@@ -22,6 +25,16 @@ type StopSimLogCapParams = z.infer<typeof stopSimLogCapSchema>;
  * Business logic for stopping simulator log capture session
  */
 export async function stop_sim_log_capLogic(params: StopSimLogCapParams): Promise<ToolResponse> {
+  if (activeLogSessions.get(params.logSessionId)?.target === 'device') {
+    return {
+      content: [
+        createTextContent(
+          `Error stopping log capture session ${params.logSessionId}: ${params.logSessionId} is a device log capture session. Use stop_device_log_cap or stop_log_capture.`,
+        ),
+      ],
+      isError: true,
+    };
+  }
   const { logContent, error } = await _stopLogCapture(params.logSessionId);
   if (error) {
     return {
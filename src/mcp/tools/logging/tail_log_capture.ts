@@ -0,0 +1,86 @@
+/**
+ * Logging Plugin: Tail Log Capture
+ *
+ * Returns the most recent lines of a log capture session without stopping it.
+ */
+
+import * as z from 'zod';
+import {
+  isLogSessionRunning,
+  logFilterSchema,
+  tailLogSession,
+} from '../../../utils/log-capture/index.ts';
+import { ToolResponse, createTextContent } from '../../../types/common.ts';
+import { getDefaultFileSystemExecutor, getDefaultCommandExecutor } from '../../../utils/command.ts';
+import { FileSystemExecutor } from '../../../utils/FileSystemExecutor.ts';
+import { createTypedTool } from '../../../utils/typed-tool-factory.ts';
+
+const DEFAULT_TAIL_LINES = 100;
+
+// Define schema as ZodObject
+const tailLogCaptureSchema = z.object({
+  logSessionId: z
+    .string()
+    .describe('The session ID returned by start_sim_log_cap or start_device_log_cap.'),
+  lines: z
+    .number()
+    .int()
+    .min(1)
+    .max(2000)
+    .optional()
+    .describe(`Number of lines from the end of the log to return (default ${DEFAULT_TAIL_LINES}).`),
+  filter: logFilterSchema.optional(),
+});
+
+// Use z.infer for type safety
+type TailLogCaptureParams = z.infer<typeof tailLogCaptureSchema>;
+
+/**
+ * Business logic for reading the end of a log capture session
+ */
+export async function tail_log_captureLogic(
+  params: TailLogCaptureParams,
+  fileSystemExecutor: FileSystemExecutor,
+): Promise<ToolResponse> {
+  const { session, lines, totalLines, error } = await tailLogSession(
+    params.logSessionId,
+    params.lines ?? DEFAULT_TAIL_LINES,
+    fileSystemExecutor,
+    params.filter,
+  );
+  if (error !== undefined || !session) {
+    return {
+      content: [
+        createTextContent(`Error reading log capture session ${params.logSessionId}: ${error}`),
+      ],
+      isError: true,
+    };
+  }
+
+  const status = isLogSessionRunning(session)
+    ? 'The session is still capturing.'
+    : 'All log sources have ended; use stop_log_capture to close the session.';
+  return {
+    content: [
+      createTextContent(
+        `Last ${lines.length} of ${totalLines} ${params.filter ? 'matching lines' : 'lines'} from log capture session ${session.id}. ${status}\n\n${lines.join('\n')}`,
+      ),
+    ],
+  };
+}
+
+export default {
+  name: 'tail_log_capture',
+  description:
+    'Returns the last lines of a simulator or device log capture session without stopping it, optionally only lines matching a filter.',
+  schema: tailLogCaptureSchema.shape, // MCP SDK compatibility
+  annotations: {
+    title: 'Tail Log Capture',
+    readOnlyHint: true,
+  },
+  handler: createTypedTool(
+    tailLogCaptureSchema,
+    (params: TailLogCaptureParams) => tail_log_captureLogic(params, getDefaultFileSystemExecutor()),
+    getDefaultCommandExecutor,
+  ),
+};
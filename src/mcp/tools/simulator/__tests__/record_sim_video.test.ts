@@ -3,6 +3,7 @@ import { describe, it, expect, vi, afterEach } from 'vitest';
 // Import the tool and logic
 import tool, { record_sim_videoLogic } from '../record_sim_video.ts';
 import { createMockFileSystemExecutor } from '../../../../test-utils/mock-executors.ts';
+import { createTestPng } from '../../../../test-utils/image-fixtures.ts';
 
 const DUMMY_EXECUTOR: any = (async () => ({ success: true })) as any; // CommandExecutor stub
 const VALID_SIM_ID = '00000000-0000-0000-0000-000000000000';
@@ -34,6 +35,192 @@ describe('record_sim_video tool - validation', () => {
     const text = (res.content?.[0] as any)?.text ?? '';
     expect(text.toLowerCase()).toContain('outputfile is required');
   });
+
+  it('errors when frame options are given without stop', async () => {
+    const res = await tool.handler({
+      simulatorId: VALID_SIM_ID,
+      start: true,
+      frameCount: 3,
+    } as any);
+
+    expect(res.isError).toBe(true);
+    const text = (res.content?.[0] as any)?.text ?? '';
+    expect(text).toContain(
+      'frameCount, frameTimes and frameMaxDimension only apply when stop=true',
+    );
+  });
+
+  it('errors when both frameCount and frameTimes are given', async () => {
+    const res = await tool.handler({
+      simulatorId: VALID_SIM_ID,
+      stop: true,
+      outputFile: '/tmp/out.mp4',
+      frameCount: 3,
+      frameTimes: [1],
+    } as any);
+
+    expect(res.isError).toBe(true);
+    const text = (res.content?.[0] as any)?.text ?? '';
+    expect(text).toContain('Provide either frameCount or frameTimes, not both');
+  });
+});
+
+const AXE_OK = {
+  areAxeToolsAvailable: () => true,
+  isAxeAtLeastVersion: async () => true,
+  createAxeNotAvailableResponse: () => ({
+    content: [{ type: 'text', text: 'AXe not available' }],
+    isError: true,
+  }),
+};
+
+describe('record_sim_video logic - max duration and status', () => {
+  it('passes maxDurationSeconds to the capture and notes the auto-stop', async () => {
+    let startParams: any;
+    const video: any = {
+      startSimulatorVideoCapture: async (params: any) => {
+        startParams = params;
+        return { started: true, sessionId: 'sess-max' };
+      },
+    };
+
+    const res = await record_sim_videoLogic(
+      { simulatorId: VALID_SIM_ID, start: true, maxDurationSeconds: 20 } as any,
+      DUMMY_EXECUTOR,
+      AXE_OK,
+      video,
+      createMockFileSystemExecutor(),
+    );
+
+    expect(startParams).toEqual({ simulatorUuid: VALID_SIM_ID, fps: 30, maxDurationSeconds: 20 });
+    const texts = (res.content ?? []).map((c: any) => c.text).join('\n');
+    expect(texts).toContain(
+      'Recording stops automatically after 20s; call stop afterwards to save it.',
+    );
+    expect(texts).toContain('status: true');
+  });
+
+  it('reports an active recording', async () => {
+    const video: any = {
+      getSimulatorVideoCaptureStatus: () => ({
+        state: 'recording',
+        sessionId: 'sess-1',
+        fps: 30,
+        elapsedSeconds: 12.3456,
+        maxDurationSeconds: 60,
+      }),
+    };
+
+    const res = await record_sim_videoLogic(
+      { simulatorId: VALID_SIM_ID, status: true } as any,
+      DUMMY_EXECUTOR,
+      AXE_OK,
+      video,
+      createMockFileSystemExecutor(),
+    );
+
+    expect(res.isError).toBe(false);
+    expect(res.content[0].text).toBe(
+      `🎥 Recording simulator ${VALID_SIM_ID} for 12.35s at 30 fps; stops automatically after 60s.\nSession: sess-1`,
+    );
+  });
+
+  it('reports an auto-stopped recording waiting to be saved', async () => {
+    const video: any = {
+      getSimulatorVideoCaptureStatus: () => ({
+        state: 'auto-stopped',
+        sessionId: 'sess-2',
+        durationSeconds: 30.01,
+      }),
+    };
+
+    const res = await record_sim_videoLogic(
+      { simulatorId: VALID_SIM_ID, status: true } as any,
+      DUMMY_EXECUTOR,
+      AXE_OK,
+      video,
+      createMockFileSystemExecutor(),
+    );
+
+    expect(res.content[0].text).toContain(
+      'stopped automatically after 30.01s. Call stop with an outputFile to save it.',
+    );
+  });
+});
+
+describe('record_sim_video logic - frame extraction', () => {
+  const stopVideo = (extractVideoFrames: any): any => ({
+    stopSimulatorVideoCapture: async () => ({
+      stopped: true,
+      parsedPath: '/tmp/recorded.mp4',
+      stdout: 'Saved to /tmp/recorded.mp4',
+    }),
+    extractVideoFrames,
+  });
+
+  it('returns the requested frames as images after saving', async () => {
+    let extractArgs: any[] = [];
+    const video = stopVideo(async (...args: any[]) => {
+      extractArgs = args;
+      return {
+        durationSeconds: 3,
+        frames: [
+          { time: 0, data: createTestPng(40, 80, () => [255, 0, 0, 255]) },
+          { time: 2.95, data: createTestPng(40, 80, () => [0, 0, 255, 255]) },
+        ],
+        skippedTimes: [],
+      };
+    });
+
+    const res = await record_sim_videoLogic(
+      {
+        simulatorId: VALID_SIM_ID,
+        stop: true,
+        outputFile: '/var/videos/final.mp4',
+        frameCount: 2,
+      } as any,
+      DUMMY_EXECUTOR,
+      AXE_OK,
+      video,
+      createMockFileSystemExecutor(),
+    );
+
+    expect(res.isError).toBe(false);
+    expect(extractArgs[0]).toBe('/var/videos/final.mp4');
+    expect(extractArgs[1]).toEqual({ count: 2 });
+    const images = res.content.filter((c: any) => c.type === 'image');
+    expect(images).toHaveLength(2);
+    expect((images[0] as any).mimeType).toBe('image/jpeg');
+    const texts = res.content.filter((c: any) => c.type === 'text').map((c: any) => c.text);
+    expect(texts).toContain('Extracted 2 frames from 3s of video.');
+    expect(texts).toContain('Frame 2/2 at 2.95s');
+  });
+
+  it('keeps the saved recording when frame extraction fails', async () => {
+    const video = stopVideo(async () => {
+      throw new Error('Frame extraction failed: xcrun: error: unable to find utility "swift"');
+    });
+
+    const res = await record_sim_videoLogic(
+      {
+        simulatorId: VALID_SIM_ID,
+        stop: true,
+        outputFile: '/var/videos/final.mp4',
+        frameTimes: [1],
+      } as any,
+      DUMMY_EXECUTOR,
+      AXE_OK,
+      video,
+      createMockFileSystemExecutor(),
+    );
+
+    expect(res.isError).toBe(false);
+    const texts = (res.content ?? []).map((c: any) => c.text).join('\n');
+    expect(texts).toContain('Saved to: /var/videos/final.mp4');
+    expect(texts).toContain(
+      'Frames not extracted: Frame extraction failed: xcrun: error: unable to find utility "swift"',
+    );
+  });
 });
 
 describe('record_sim_video logic - start behavior', () => {
@@ -186,3 +373,113 @@ describe('record_sim_video logic - version gate', () => {
     expect(text).toContain('AXe v1.1.0');
   });
 });
+
+describe('record_sim_video logic - previews', () => {
+  const previewVideo = (extractArgs: any[][]): any => ({
+    stopSimulatorVideoCapture: async () => ({
+      stopped: true,
+      parsedPath: '/tmp/recorded.mp4',
+      stdout: 'Saved to /tmp/recorded.mp4',
+    }),
+    extractVideoFrames: async (...args: any[]) => {
+      extractArgs.push(args);
+      const count = args[1].count as number;
+      return {
+        durationSeconds: 4,
+        frames: Array.from({ length: count }, (_, index) => ({
+          time: (index * 4) / (count - 1),
+          data: createTestPng(60, 120, () => [index * 20, 80, 160, 255]),
+        })),
+        skippedTimes: [],
+      };
+    },
+  });
+
+  it('returns a contact sheet of evenly spaced frames', async () => {
+    const extractArgs: any[][] = [];
+    const res = await record_sim_videoLogic(
+      {
+        simulatorId: VALID_SIM_ID,
+        stop: true,
+        outputFile: '/var/videos/final.mp4',
+        preview: 'contact_sheet',
+      } as any,
+      DUMMY_EXECUTOR,
+      AXE_OK,
+      previewVideo(extractArgs),
+      createMockFileSystemExecutor(),
+    );
+
+    expect(res.isError).toBe(false);
+    expect(extractArgs[0][1]).toEqual({ count: 9 });
+    const images = res.content.filter((c: any) => c.type === 'image');
+    expect(images).toHaveLength(1);
+    expect((images[0] as any).mimeType).toBe('image/jpeg');
+    const texts = res.content.filter((c: any) => c.type === 'text').map((c: any) => c.text);
+    expect(
+      texts.some((t: string) => t.startsWith('Contact sheet of 9 frames from 4s of video')),
+    ).toBe(true);
+  });
+
+  it('returns a GIF within the requested budget', async () => {
+    const extractArgs: any[][] = [];
+    const res = await record_sim_videoLogic(
+      {
+        simulatorId: VALID_SIM_ID,
+        stop: true,
+        outputFile: '/var/videos/final.mp4',
+        preview: 'gif',
+        previewFrameCount: 4,
+        previewMaxBytes: 200_000,
+      } as any,
+      DUMMY_EXECUTOR,
+      AXE_OK,
+      previewVideo(extractArgs),
+      createMockFileSystemExecutor(),
+    );
+
+    expect(extractArgs[0][1]).toEqual({ count: 4 });
+    const image = res.content.find((c: any) => c.type === 'image') as any;
+    expect(image.mimeType).toBe('image/gif');
+    expect(Buffer.from(image.data, 'base64').length).toBeLessThanOrEqual(200_000);
+    const texts = res.content.filter((c: any) => c.type === 'text').map((c: any) => c.text);
+    expect(
+      texts.some((t: string) => t.startsWith('GIF preview of 4 frames from 4s of video')),
+    ).toBe(true);
+  });
+
+  it('reports a preview that does not fit its budget without failing the stop', async () => {
+    const res = await record_sim_videoLogic(
+      {
+        simulatorId: VALID_SIM_ID,
+        stop: true,
+        outputFile: '/var/videos/final.mp4',
+        preview: 'gif',
+        previewMaxBytes: 10,
+      } as any,
+      DUMMY_EXECUTOR,
+      AXE_OK,
+      previewVideo([]),
+      createMockFileSystemExecutor(),
+    );
+
+    expect(res.isError).toBe(false);
+    const texts = (res.content ?? []).map((c: any) => c.text).join('\n');
+    expect(texts).toContain('Saved to: /var/videos/final.mp4');
+    expect(texts).toContain('Preview not rendered: Unable to encode GIF within 10 bytes');
+  });
+
+  it('rejects preview options without preview', async () => {
+    const res = await tool.handler({
+      simulatorId: VALID_SIM_ID,
+      stop: true,
+      outputFile: '/tmp/out.mp4',
+      previewFrameCount: 4,
+    } as any);
+
+    expect(res.isError).toBe(true);
+    expect((res.content?.[0] as any)?.text).toContain(
+      'previewFrameCount and previewMaxBytes require preview',
+    );
+  });
+});
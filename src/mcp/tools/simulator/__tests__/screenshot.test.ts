@@ -11,6 +11,7 @@ import {
   createMockFileSystemExecutor,
   createCommandMatchingMockExecutor,
 } from '../../../../test-utils/mock-executors.ts';
+import { createTestPngBase64 } from '../../../../test-utils/image-fixtures.ts';
 import { SystemError } from '../../../../utils/responses/index.ts';
 import { sessionStore } from '../../../../utils/session-store.ts';
 import screenshotPlugin, { screenshotLogic } from '../../ui-testing/screenshot.ts';
@@ -27,7 +28,7 @@ describe('screenshot plugin', () => {
 
     it('should have correct description field', () => {
       expect(screenshotPlugin.description).toBe(
-        "Captures screenshot for visual verification. For UI coordinates, use describe_ui instead (don't determine coordinates from screenshots).",
+        "Captures screenshot for visual verification. Supports per-call size, format, quality and byte budget, cropping to a rectangle or element, and numbered annotations of interactive elements. For UI coordinates, use describe_ui instead (don't determine coordinates from screenshots).",
       );
     });
 
@@ -49,22 +50,21 @@ describe('screenshot plugin', () => {
   });
 
   describe('Command Generation', () => {
-    it('should generate correct simctl and sips commands', async () => {
+    it('should only execute the simctl screenshot command', async () => {
       const capturedCommands: string[][] = [];
 
       const mockExecutor = createCommandMatchingMockExecutor({
         'xcrun simctl': { success: true, output: 'Screenshot saved' },
-        sips: { success: true, output: 'Image optimized' },
       });
 
-      // Wrap to capture both commands
+      // Wrap to capture executed commands
       const capturingExecutor = async (command: string[], ...args: any[]) => {
         capturedCommands.push(command);
         return mockExecutor(command, ...args);
       };
 
       const mockFileSystemExecutor = createMockFileSystemExecutor({
-        readFile: async () => 'fake-image-data',
+        readFile: async () => createTestPngBase64(20, 10),
       });
 
       const mockPathDeps = {
@@ -86,8 +86,8 @@ describe('screenshot plugin', () => {
         mockUuidDeps,
       );
 
-      // Should execute both commands in sequence
-      expect(capturedCommands).toHaveLength(2);
+      // Image optimization happens in-process; no sips invocation
+      expect(capturedCommands).toHaveLength(1);
 
       // First command: xcrun simctl screenshot
       expect(capturedCommands[0]).toEqual([
@@ -98,22 +98,6 @@ describe('screenshot plugin', () => {
         'screenshot',
         '/tmp/screenshot_mock-uuid-123.png',
       ]);
-
-      // Second command: sips optimization
-      expect(capturedCommands[1]).toEqual([
-        'sips',
-        '-Z',
-        '800',
-        '-s',
-        'format',
-        'jpeg',
-        '-s',
-        'formatOptions',
-        '75',
-        '/tmp/screenshot_mock-uuid-123.png',
-        '--out',
-        '/tmp/screenshot_optimized_mock-uuid-123.jpg',
-      ]);
     });
 
     it('should generate correct path with different uuid', async () => {
@@ -121,17 +105,16 @@ describe('screenshot plugin', () => {
 
       const mockExecutor = createCommandMatchingMockExecutor({
         'xcrun simctl': { success: true, output: 'Screenshot saved' },
-        sips: { success: true, output: 'Image optimized' },
       });
 
-      // Wrap to capture both commands
+      // Wrap to capture executed commands
       const capturingExecutor = async (command: string[], ...args: any[]) => {
         capturedCommands.push(command);
         return mockExecutor(command, ...args);
       };
 
       const mockFileSystemExecutor = createMockFileSystemExecutor({
-        readFile: async () => 'fake-image-data',
+        readFile: async () => createTestPngBase64(20, 10),
       });
 
       const mockPathDeps = {
@@ -153,8 +136,8 @@ describe('screenshot plugin', () => {
         mockUuidDeps,
       );
 
-      // Should execute both commands in sequence
-      expect(capturedCommands).toHaveLength(2);
+      // Image optimization happens in-process; no sips invocation
+      expect(capturedCommands).toHaveLength(1);
 
       // First command: xcrun simctl screenshot
       expect(capturedCommands[0]).toEqual([
@@ -165,22 +148,6 @@ describe('screenshot plugin', () => {
         'screenshot',
         '/tmp/screenshot_different-uuid-456.png',
       ]);
-
-      // Second command: sips optimization
-      expect(capturedCommands[1]).toEqual([
-        'sips',
-        '-Z',
-        '800',
-        '-s',
-        'format',
-        'jpeg',
-        '-s',
-        'formatOptions',
-        '75',
-        '/tmp/screenshot_different-uuid-456.png',
-        '--out',
-        '/tmp/screenshot_optimized_different-uuid-456.jpg',
-      ]);
     });
 
     it('should use default dependencies when not provided', async () => {
@@ -188,17 +155,16 @@ describe('screenshot plugin', () => {
 
       const mockExecutor = createCommandMatchingMockExecutor({
         'xcrun simctl': { success: true, output: 'Screenshot saved' },
-        sips: { success: true, output: 'Image optimized' },
       });
 
-      // Wrap to capture both commands
+      // Wrap to capture executed commands
       const capturingExecutor = async (command: string[], ...args: any[]) => {
         capturedCommands.push(command);
         return mockExecutor(command, ...args);
       };
 
       const mockFileSystemExecutor = createMockFileSystemExecutor({
-        readFile: async () => 'fake-image-data',
+        readFile: async () => createTestPngBase64(20, 10),
       });
 
       await screenshotLogic(
@@ -209,8 +175,8 @@ describe('screenshot plugin', () => {
         mockFileSystemExecutor,
       );
 
-      // Should execute both commands in sequence
-      expect(capturedCommands).toHaveLength(2);
+      // Image optimization happens in-process; no sips invocation
+      expect(capturedCommands).toHaveLength(1);
 
       // First command should be generated with real os.tmpdir, path.join, and uuidv4
       const firstCommand = capturedCommands[0];
@@ -221,30 +187,18 @@ describe('screenshot plugin', () => {
       expect(firstCommand[3]).toBe('test-uuid');
       expect(firstCommand[4]).toBe('screenshot');
       expect(firstCommand[5]).toMatch(/\/.*\/screenshot_.*\.png/);
-
-      // Second command should be sips optimization
-      const secondCommand = capturedCommands[1];
-      expect(secondCommand[0]).toBe('sips');
-      expect(secondCommand[1]).toBe('-Z');
-      expect(secondCommand[2]).toBe('800');
-      // Should have proper PNG input and JPG output paths
-      expect(secondCommand[secondCommand.length - 3]).toMatch(/\/.*\/screenshot_.*\.png/);
-      expect(secondCommand[secondCommand.length - 1]).toMatch(/\/.*\/screenshot_optimized_.*\.jpg/);
     });
   });
 
   describe('Response Processing', () => {
     it('should capture screenshot successfully', async () => {
-      const mockImageBuffer = Buffer.from('fake-image-data');
-
-      // Mock both commands: screenshot + optimization
+      // Image optimization happens in-process, so only simctl is executed
       const mockExecutor = createCommandMatchingMockExecutor({
         'xcrun simctl': { success: true, output: 'Screenshot saved' },
-        sips: { success: true, output: 'Image optimized' },
       });
 
       const mockFileSystemExecutor = createMockFileSystemExecutor({
-        readFile: async () => mockImageBuffer.toString('base64'), // Return base64 directly
+        readFile: async () => createTestPngBase64(20, 10), // Return base64 directly
       });
 
       const mockPathDeps = {
@@ -266,16 +220,15 @@ describe('screenshot plugin', () => {
         mockUuidDeps,
       );
 
-      expect(result).toEqual({
-        content: [
-          {
-            type: 'image',
-            data: mockImageBuffer.toString('base64'),
-            mimeType: 'image/jpeg', // Now JPEG after optimization
-          },
-        ],
-        isError: false,
+      expect(result.isError).toBe(false);
+      expect(result.content).toHaveLength(1);
+      expect(result.content[0]).toMatchObject({
+        type: 'image',
+        mimeType: 'image/jpeg', // JPEG after optimization
       });
+      expect(Buffer.from(result.content[0].data as string, 'base64').subarray(0, 3)).toEqual(
+        Buffer.from([0xff, 0xd8, 0xff]),
+      );
     });
 
     it('should handle missing simulatorId via handler', async () => {
@@ -373,17 +326,16 @@ describe('screenshot plugin', () => {
 
       const mockExecutor = createCommandMatchingMockExecutor({
         'xcrun simctl': { success: true, output: 'Screenshot saved' },
-        sips: { success: true, output: 'Image optimized' },
       });
 
-      // Wrap to capture both command executions
+      // Wrap to capture command executions
       const capturingExecutor = async (...args: any[]) => {
         capturedArgs.push(args);
         return mockExecutor(...args);
       };
 
       const mockFileSystemExecutor = createMockFileSystemExecutor({
-        readFile: async () => 'fake-image-data',
+        readFile: async () => createTestPngBase64(20, 10),
       });
 
       const mockPathDeps = {
@@ -405,8 +357,8 @@ describe('screenshot plugin', () => {
         mockUuidDeps,
       );
 
-      // Should capture both command executions
-      expect(capturedArgs).toHaveLength(2);
+      // Only the screenshot command is executed
+      expect(capturedArgs).toHaveLength(1);
 
       // First call: xcrun simctl screenshot (3 args: command, logPrefix, useShell)
       expect(capturedArgs[0]).toEqual([
@@ -414,26 +366,6 @@ describe('screenshot plugin', () => {
         '[Screenshot]: screenshot',
         false,
       ]);
-
-      // Second call: sips optimization (3 args: command, logPrefix, useShell)
-      expect(capturedArgs[1]).toEqual([
-        [
-          'sips',
-          '-Z',
-          '800',
-          '-s',
-          'format',
-          'jpeg',
-          '-s',
-          'formatOptions',
-          '75',
-          '/tmp/screenshot_mock-uuid-123.png',
-          '--out',
-          '/tmp/screenshot_optimized_mock-uuid-123.jpg',
-        ],
-        '[Screenshot]: optimize image',
-        false,
-      ]);
     });
 
     it('should handle SystemError exceptions', async () => {
@@ -1,5 +1,7 @@
 import * as z from 'zod';
 import type { ToolResponse } from '../../../types/common.ts';
+import { createImageContent, createTextContent } from '../../../types/common.ts';
+import { log } from '../../../utils/logging/index.ts';
 import { createTextResponse } from '../../../utils/responses/index.ts';
 import {
   getDefaultCommandExecutor,
@@ -12,15 +14,41 @@ import {
   createAxeNotAvailableResponse,
 } from '../../../utils/axe/index.ts';
 import {
+  createContactSheet,
+  createPreviewGif,
+  extractVideoFrames,
+  getSimulatorVideoCaptureStatus,
   startSimulatorVideoCapture,
   stopSimulatorVideoCapture,
 } from '../../../utils/video-capture/index.ts';
+import type {
+  PreviewFrame,
+  VideoCaptureStatus,
+  VideoFrameSelection,
+} from '../../../utils/video-capture/index.ts';
+import type { ImageProcessor } from '../../../utils/image/index.ts';
+import {
+  encodeImageWithinBudget,
+  getDefaultImageProcessor,
+  getImageMimeType,
+} from '../../../utils/image/index.ts';
 import {
   createSessionAwareTool,
   getSessionAwareToolSchemaShape,
 } from '../../../utils/typed-tool-factory.ts';
 import { dirname } from 'path';
 
+const MAX_RECORDING_SECONDS = 600;
+const MAX_FRAMES = 12;
+const DEFAULT_FRAME_DIMENSION = 512;
+const FRAME_JPEG_QUALITY = 70;
+// Shared by all frames of one response, before base64
+const FRAMES_MAX_TOTAL_BYTES = 900_000;
+const DEFAULT_PREVIEW_FRAMES = { contact_sheet: 9, gif: 12 } as const;
+const MAX_PREVIEW_FRAMES = 24;
+const DEFAULT_PREVIEW_MAX_BYTES = 750_000;
+const PREVIEW_MAX_DIMENSION = { contact_sheet: 1600, gif: 360 } as const;
+
 // Base schema object (used for MCP schema exposure)
 const recordSimVideoSchemaObject = z.object({
   simulatorId: z
@@ -28,34 +56,232 @@ const recordSimVideoSchemaObject = z.object({
     .describe('UUID of the simulator to record'),
   start: z.boolean().optional().describe('Start recording if true'),
   stop: z.boolean().optional().describe('Stop recording if true'),
+  status: z
+    .boolean()
+    .optional()
+    .describe('Report whether a recording is active, and for how long, if true'),
   fps: z.number().int().min(1).max(120).optional().describe('Frames per second (default 30)'),
+  maxDurationSeconds: z
+    .number()
+    .positive()
+    .max(MAX_RECORDING_SECONDS)
+    .optional()
+    .describe(
+      'On start: stop recording automatically after this many seconds. Stop still has to be called to save the file.',
+    ),
   outputFile: z
     .string()
     .optional()
     .describe('Destination MP4 path to move the recorded video to on stop'),
+  frameCount: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_FRAMES)
+    .optional()
+    .describe(
+      'On stop: return this many evenly spaced frames (first to last) from the recording as images',
+    ),
+  frameTimes: z
+    .array(z.number().min(0))
+    .min(1)
+    .max(MAX_FRAMES)
+    .optional()
+    .describe('On stop: return frames at these times (seconds from the start) as images'),
+  frameMaxDimension: z
+    .number()
+    .int()
+    .min(64)
+    .optional()
+    .describe(`Longest side of each returned frame in pixels (default ${DEFAULT_FRAME_DIMENSION})`),
+  preview: z
+    .enum(['contact_sheet', 'gif'])
+    .optional()
+    .describe(
+      'On stop: return the recording as one inline image, either a grid of timestamped frames or a short looping GIF',
+    ),
+  previewFrameCount: z
+    .number()
+    .int()
+    .min(2)
+    .max(MAX_PREVIEW_FRAMES)
+    .optional()
+    .describe(
+      `Evenly spaced frames in the preview (default ${DEFAULT_PREVIEW_FRAMES.contact_sheet} for contact_sheet, ${DEFAULT_PREVIEW_FRAMES.gif} for gif)`,
+    ),
+  previewMaxBytes: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      `Size budget for the preview in bytes; it is downscaled until it fits (default ${DEFAULT_PREVIEW_MAX_BYTES})`,
+    ),
 });
 
-// Schema enforcing mutually exclusive start/stop and requiring outputFile on stop
+// Schema enforcing mutually exclusive start/stop/status and requiring outputFile on stop
 const recordSimVideoSchema = recordSimVideoSchemaObject
   .refine(
     (v) => {
       const s = v.start === true ? 1 : 0;
       const t = v.stop === true ? 1 : 0;
-      return s + t === 1;
+      const q = v.status === true ? 1 : 0;
+      return s + t + q === 1;
     },
     {
       message:
-        'Provide exactly one of start=true or stop=true; these options are mutually exclusive',
+        'Provide exactly one of start=true, stop=true or status=true; these options are mutually exclusive',
       path: ['start'],
     },
   )
   .refine((v) => (v.stop ? typeof v.outputFile === 'string' && v.outputFile.length > 0 : true), {
     message: 'outputFile is required when stop=true',
     path: ['outputFile'],
-  });
+  })
+  .refine((v) => v.maxDurationSeconds === undefined || v.start === true, {
+    message: 'maxDurationSeconds only applies when start=true',
+    path: ['maxDurationSeconds'],
+  })
+  .refine(
+    (v) =>
+      v.stop === true ||
+      (v.frameCount === undefined &&
+        v.frameTimes === undefined &&
+        v.frameMaxDimension === undefined),
+    {
+      message: 'frameCount, frameTimes and frameMaxDimension only apply when stop=true',
+      path: ['frameCount'],
+    },
+  )
+  .refine((v) => v.frameCount === undefined || v.frameTimes === undefined, {
+    message: 'Provide either frameCount or frameTimes, not both',
+    path: ['frameTimes'],
+  })
+  .refine(
+    (v) =>
+      v.stop === true ||
+      (v.preview === undefined &&
+        v.previewFrameCount === undefined &&
+        v.previewMaxBytes === undefined),
+    {
+      message: 'preview, previewFrameCount and previewMaxBytes only apply when stop=true',
+      path: ['preview'],
+    },
+  )
+  .refine(
+    (v) =>
+      v.preview !== undefined ||
+      (v.previewFrameCount === undefined && v.previewMaxBytes === undefined),
+    {
+      message: 'previewFrameCount and previewMaxBytes require preview',
+      path: ['preview'],
+    },
+  );
 
 type RecordSimVideoParams = z.infer<typeof recordSimVideoSchema>;
 
+type ContentItem = ToolResponse['content'][number];
+
+function formatSeconds(seconds: number): string {
+  return `${Number(seconds.toFixed(2))}s`;
+}
+
+function formatCaptureStatus(simulatorId: string, status: VideoCaptureStatus): string {
+  switch (status.state) {
+    case 'idle':
+      return `No video recording is active for simulator ${simulatorId}.`;
+    case 'recording':
+      return `🎥 Recording simulator ${simulatorId} for ${formatSeconds(status.elapsedSeconds)} at ${status.fps} fps${status.maxDurationSeconds !== undefined ? `; stops automatically after ${formatSeconds(status.maxDurationSeconds)}` : ''}.\nSession: ${status.sessionId}`;
+    case 'auto-stopped':
+      return `Recording for simulator ${simulatorId} stopped automatically after ${formatSeconds(status.durationSeconds)}. Call stop with an outputFile to save it.\nSession: ${status.sessionId}`;
+  }
+}
+
+/**
+ * Render evenly spaced frames of the saved recording as a contact sheet or GIF within
+ * the preview byte budget
+ */
+async function renderPreview(
+  videoPath: string,
+  preview: 'contact_sheet' | 'gif',
+  frameCount: number,
+  maxBytes: number,
+  executor: CommandExecutor,
+  fs: FileSystemExecutor,
+  imageProcessor: ImageProcessor,
+  extractFrames: typeof extractVideoFrames,
+): Promise<ContentItem[]> {
+  const extraction = await extractFrames(videoPath, { count: frameCount }, executor, fs);
+  const frames: PreviewFrame[] = [];
+  for (const frame of extraction.frames) {
+    frames.push({ time: frame.time, image: await imageProcessor.decode(frame.data) });
+  }
+  const budget = { maxDimension: PREVIEW_MAX_DIMENSION[preview], maxBytes };
+  const duration = formatSeconds(extraction.durationSeconds);
+
+  if (preview === 'gif') {
+    const gif = await createPreviewGif(frames, budget, imageProcessor);
+    return [
+      createTextContent(
+        `GIF preview of ${frames.length} frames from ${duration} of video (${gif.width}x${gif.height}, ${gif.data.length} bytes).`,
+      ),
+      createImageContent(gif.data.toString('base64'), 'image/gif'),
+    ];
+  }
+
+  const sheet = await createContactSheet(frames, budget, imageProcessor);
+  return [
+    createTextContent(
+      `Contact sheet of ${frames.length} frames from ${duration} of video (${sheet.width}x${sheet.height}, ${sheet.data.length} bytes), in order left to right and top to bottom.`,
+    ),
+    createImageContent(sheet.data.toString('base64'), getImageMimeType('jpeg')),
+  ];
+}
+
+/**
+ * Extract the requested frames from the saved recording and encode them as inline
+ * images, sharing one byte budget between all frames
+ */
+async function renderFrames(
+  videoPath: string,
+  selection: VideoFrameSelection,
+  maxDimension: number,
+  executor: CommandExecutor,
+  fs: FileSystemExecutor,
+  imageProcessor: ImageProcessor,
+  extractFrames: typeof extractVideoFrames,
+): Promise<ContentItem[]> {
+  const extraction = await extractFrames(videoPath, selection, executor, fs);
+  const content: ContentItem[] = [];
+  const maxBytes = Math.floor(FRAMES_MAX_TOTAL_BYTES / Math.max(1, extraction.frames.length));
+
+  for (const [index, frame] of extraction.frames.entries()) {
+    const decoded = await imageProcessor.decode(frame.data);
+    const encoded = await encodeImageWithinBudget(imageProcessor, decoded, {
+      format: 'jpeg',
+      quality: FRAME_JPEG_QUALITY,
+      maxDimension,
+      maxBytes,
+    });
+    content.push(
+      createTextContent(
+        `Frame ${index + 1}/${extraction.frames.length} at ${formatSeconds(frame.time)}`,
+      ),
+      createImageContent(encoded.data.toString('base64'), getImageMimeType('jpeg')),
+    );
+  }
+
+  const summary = [
+    `Extracted ${extraction.frames.length} ${extraction.frames.length === 1 ? 'frame' : 'frames'} from ${formatSeconds(extraction.durationSeconds)} of video.`,
+  ];
+  if (extraction.skippedTimes.length > 0) {
+    summary.push(
+      `No frame at ${extraction.skippedTimes.map(formatSeconds).join(', ')}; the recording is ${formatSeconds(extraction.durationSeconds)} long.`,
+    );
+  }
+  return [createTextContent(summary.join(' ')), ...content];
+}
+
 export async function record_sim_videoLogic(
   params: RecordSimVideoParams,
   executor: CommandExecutor,
@@ -71,11 +297,16 @@ export async function record_sim_videoLogic(
   video: {
     startSimulatorVideoCapture: typeof startSimulatorVideoCapture;
     stopSimulatorVideoCapture: typeof stopSimulatorVideoCapture;
+    getSimulatorVideoCaptureStatus: typeof getSimulatorVideoCaptureStatus;
+    extractVideoFrames: typeof extractVideoFrames;
   } = {
     startSimulatorVideoCapture,
     stopSimulatorVideoCapture,
+    getSimulatorVideoCaptureStatus,
+    extractVideoFrames,
   },
   fs: FileSystemExecutor = getDefaultFileSystemExecutor(),
+  imageProcessor: ImageProcessor = getDefaultImageProcessor(),
 ): Promise<ToolResponse> {
   // Preflight checks for AXe availability and version
   if (!axe.areAxeToolsAvailable()) {
@@ -91,10 +322,19 @@ export async function record_sim_videoLogic(
 
   // using injected fs executor
 
+  if (params.status) {
+    const status = video.getSimulatorVideoCaptureStatus({ simulatorUuid: params.simulatorId });
+    return createTextResponse(formatCaptureStatus(params.simulatorId, status));
+  }
+
   if (params.start) {
     const fpsUsed = Number.isFinite(params.fps as number) ? Number(params.fps) : 30;
     const startRes = await video.startSimulatorVideoCapture(
-      { simulatorUuid: params.simulatorId, fps: fpsUsed },
+      {
+        simulatorUuid: params.simulatorId,
+        fps: fpsUsed,
+        maxDurationSeconds: params.maxDurationSeconds,
+      },
       executor,
     );
 
@@ -111,13 +351,20 @@ export async function record_sim_videoLogic(
         'Note: outputFile is ignored when start=true; provide it when stopping to move/rename the recorded file.',
       );
     }
+    if (params.maxDurationSeconds !== undefined) {
+      notes.push(
+        `Recording stops automatically after ${formatSeconds(params.maxDurationSeconds)}; call stop afterwards to save it.`,
+      );
+    }
     if (startRes.warning) {
       notes.push(startRes.warning);
     }
 
     const nextSteps = `Next Steps:
 Stop and save the recording:
-record_sim_video({ simulatorId: "${params.simulatorId}", stop: true, outputFile: "/path/to/output.mp4" })`;
+record_sim_video({ simulatorId: "${params.simulatorId}", stop: true, outputFile: "/path/to/output.mp4" })
+Check how long it has been recording:
+record_sim_video({ simulatorId: "${params.simulatorId}", status: true })`;
 
     return {
       content: [
@@ -192,11 +439,59 @@ record_sim_video({ simulatorId: "${params.simulatorId}", stop: true, outputFile:
     );
   }
 
+  // Frames and previews are best effort: the recording is saved even when they fail
+  let frameContent: ContentItem[] = [];
+  const selection: VideoFrameSelection | undefined =
+    params.frameCount !== undefined
+      ? { count: params.frameCount }
+      : params.frameTimes !== undefined
+        ? { times: params.frameTimes }
+        : undefined;
+  if (selection) {
+    try {
+      frameContent = await renderFrames(
+        finalSavedPath,
+        selection,
+        params.frameMaxDimension ?? DEFAULT_FRAME_DIMENSION,
+        executor,
+        fs,
+        imageProcessor,
+        video.extractVideoFrames,
+      );
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      log('error', `Failed to extract frames from ${finalSavedPath}: ${msg}`);
+      frameContent = [createTextContent(`Frames not extracted: ${msg}`)];
+    }
+  }
+
+  let previewContent: ContentItem[] = [];
+  if (params.preview) {
+    try {
+      previewContent = await renderPreview(
+        finalSavedPath,
+        params.preview,
+        params.previewFrameCount ?? DEFAULT_PREVIEW_FRAMES[params.preview],
+        params.previewMaxBytes ?? DEFAULT_PREVIEW_MAX_BYTES,
+        executor,
+        fs,
+        imageProcessor,
+        video.extractVideoFrames,
+      );
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      log('error', `Failed to render ${params.preview} preview of ${finalSavedPath}: ${msg}`);
+      previewContent = [createTextContent(`Preview not rendered: ${msg}`)];
+    }
+  }
+
   return {
     content: [
       {
         type: 'text',
-        text: `✅ Video recording stopped for simulator ${params.simulatorId}.`,
+        text: stopRes.autoStopped
+          ? `✅ Video recording for simulator ${params.simulatorId} had stopped at its maximum duration and was collected.`
+          : `✅ Video recording stopped for simulator ${params.simulatorId}.`,
       },
       ...(outputs.length > 0
         ? [
@@ -214,6 +509,8 @@ record_sim_video({ simulatorId: "${params.simulatorId}", stop: true, outputFile:
             },
           ]
         : []),
+      ...frameContent,
+      ...previewContent,
     ],
     isError: false,
     _meta: finalSavedPath ? { outputFile: finalSavedPath } : undefined,
@@ -226,7 +523,8 @@ const publicSchemaObject = z.strictObject(
 
 export default {
   name: 'record_sim_video',
-  description: 'Starts or stops video capture for an iOS simulator.',
+  description:
+    'Starts or stops video capture for an iOS simulator, or reports its status. Recording can stop itself after maxDurationSeconds. On stop, frameCount or frameTimes return frames from the recording as images, and preview returns a contact sheet or GIF of it as one image within a size budget.',
   schema: getSessionAwareToolSchemaShape({
     sessionAware: publicSchemaObject,
     legacy: recordSimVideoSchemaObject,
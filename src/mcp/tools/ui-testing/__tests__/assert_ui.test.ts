@@ -0,0 +1,298 @@
+/**
+ * Tests for assert_ui plugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as z from 'zod';
+import { createMockExecutor } from '../../../../test-utils/mock-executors.ts';
+import { sessionStore } from '../../../../utils/session-store.ts';
+import { uiStateStore } from '../../../../utils/ui-state-store.ts';
+import { parseAccessibilityHierarchy } from '../../../../utils/accessibility/index.ts';
+import assertUiPlugin, { assert_uiLogic, evaluateUIAssertions } from '../assert_ui.ts';
+
+const simulatorId = '12345678-1234-4234-8234-123456789012';
+
+const screen = JSON.stringify([
+  {
+    type: 'Application',
+    AXLabel: 'Settings',
+    frame: { x: 0, y: 0, width: 390, height: 844 },
+    children: [
+      {
+        type: 'StaticText',
+        AXLabel: 'Welcome back',
+        AXUniqueId: 'title',
+        frame: { x: 20, y: 60, width: 350, height: 30 },
+      },
+      {
+        type: 'Switch',
+        AXLabel: 'Notifications',
+        AXValue: '1',
+        frame: { x: 320, y: 120, width: 51, height: 31 },
+      },
+      {
+        type: 'Switch',
+        AXLabel: 'Location',
+        AXValue: '0',
+        frame: { x: 320, y: 170, width: 51, height: 31 },
+      },
+      {
+        type: 'Button',
+        AXLabel: 'Save',
+        AXUniqueId: 'save',
+        enabled: false,
+        frame: { x: 20, y: 700, width: 170, height: 44 },
+      },
+      {
+        type: 'Button',
+        AXLabel: 'Cancel',
+        AXUniqueId: 'cancel',
+        frame: { x: 200, y: 700, width: 170, height: 44 },
+      },
+    ],
+  },
+]);
+
+const axeHelpers = {
+  getAxePath: () => '/usr/local/bin/axe',
+  getBundledAxeEnvironment: () => ({}),
+  createAxeNotAvailableResponse: () => ({
+    content: [{ type: 'text' as const, text: 'AXe not available' }],
+    isError: true,
+  }),
+};
+
+describe('Assert UI Plugin', () => {
+  beforeEach(() => {
+    sessionStore.clear();
+    uiStateStore.clear();
+  });
+
+  describe('Export Field Validation (Literal)', () => {
+    it('should have correct name and description', () => {
+      expect(assertUiPlugin.name).toBe('assert_ui');
+      expect(assertUiPlugin.description).toBe(
+        'Checks assertions against the current accessibility hierarchy: element exists or is absent, has text/value, is enabled/disabled or selected, count of matches, or is above/left of another element. Returns pass/fail per assertion with the offending nodes; fails if any assertion fails.',
+      );
+      expect(assertUiPlugin.annotations.readOnlyHint).toBe(true);
+    });
+
+    it('should validate condition-specific fields', () => {
+      const schema = z.object(assertUiPlugin.schema);
+      const parse = (assertion: Record<string, unknown>): boolean =>
+        schema.safeParse({ assertions: [assertion] }).success;
+
+      expect(parse({ selector: { id: 'title' }, condition: 'exists' })).toBe(true);
+      expect(
+        parse({ selector: { id: 'title' }, condition: 'text', expected: 'Hi', match: 'contains' }),
+      ).toBe(true);
+      expect(parse({ selector: { id: 'title' }, condition: 'text' })).toBe(false);
+      expect(parse({ selector: { role: 'Switch' }, condition: 'count' })).toBe(false);
+      expect(parse({ selector: { role: 'Switch' }, condition: 'count', minCount: 1 })).toBe(true);
+      expect(
+        parse({ selector: { role: 'Switch' }, condition: 'count', minCount: 2, maxCount: 2 }),
+      ).toBe(true);
+      expect(
+        parse({ selector: { role: 'Switch' }, condition: 'count', minCount: 3, maxCount: 1 }),
+      ).toBe(false);
+      expect(parse({ selector: { id: 'save' }, condition: 'above' })).toBe(false);
+      expect(parse({ selector: { id: 'save' }, condition: 'exists', other: { id: 'x' } })).toBe(
+        false,
+      );
+      expect(schema.safeParse({ assertions: [] }).success).toBe(false);
+    });
+  });
+
+  describe('Assertion evaluation', () => {
+    const elements = parseAccessibilityHierarchy(screen);
+
+    it('should check existence, absence and counts', () => {
+      const results = evaluateUIAssertions(elements, [
+        { selector: { id: 'title' }, condition: 'exists' },
+        { selector: { label: 'Error' }, condition: 'absent' },
+        { selector: { role: 'Switch' }, condition: 'count', count: 2 },
+        { selector: { role: 'Button' }, condition: 'count', minCount: 3 },
+      ]);
+
+      expect(results.map((result) => result.passed)).toEqual([true, true, true, false]);
+      expect(results[3].message).toBe(
+        'Found 2 elements matching role=Button, expected at least 3.',
+      );
+      expect(results[3].nodes?.map((node) => node.identifier)).toEqual(['save', 'cancel']);
+    });
+
+    it('should treat a missing value as empty', () => {
+      const results = evaluateUIAssertions(elements, [
+        { selector: { id: 'cancel' }, condition: 'value', expected: '' },
+        { selector: { id: 'cancel' }, condition: 'value', expected: 'x' },
+      ]);
+
+      expect(results.map((result) => result.passed)).toEqual([true, false]);
+    });
+
+    it('should check text, value, enabled and selected state', () => {
+      const results = evaluateUIAssertions(elements, [
+        { selector: { id: 'title' }, condition: 'text', expected: 'Welcome', match: 'contains' },
+        { selector: { label: 'Location' }, condition: 'value', expected: '1' },
+        { selector: { id: 'save' }, condition: 'enabled' },
+        { selector: { label: 'Notifications' }, condition: 'selected' },
+        { selector: { label: 'Location' }, condition: 'notSelected' },
+      ]);
+
+      expect(results.map((result) => result.passed)).toEqual([true, false, false, true, true]);
+      expect(results[1].message).toBe(
+        'Element label="Location" has value "0", expected value to equal "1".',
+      );
+      expect(results[2]).toEqual({
+        condition: 'enabled',
+        selector: 'id="save"',
+        passed: false,
+        message: 'Element id="save" is disabled.',
+        nodes: [
+          {
+            role: 'Button',
+            label: 'Save',
+            identifier: 'save',
+            enabled: false,
+            frame: { x: 20, y: 700, width: 170, height: 44 },
+          },
+        ],
+      });
+    });
+
+    it('should check relative positions', () => {
+      const results = evaluateUIAssertions(elements, [
+        { selector: { id: 'title' }, condition: 'above', other: { id: 'save' } },
+        { selector: { id: 'save' }, condition: 'leftOf', other: { id: 'cancel' } },
+        { selector: { id: 'cancel' }, condition: 'leftOf', other: { id: 'save' } },
+      ]);
+
+      expect(results.map((result) => result.passed)).toEqual([true, true, false]);
+      expect(results[2].message).toBe(
+        'Element id="cancel" is not left of id="save": its right edge is at 370, the other element\'s left edge at 20.',
+      );
+      expect(results[2].nodes).toHaveLength(2);
+    });
+
+    it('should fail ambiguous single-element assertions', () => {
+      const [result] = evaluateUIAssertions(elements, [
+        { selector: { role: 'Switch' }, condition: 'enabled' },
+      ]);
+
+      expect(result.passed).toBe(false);
+      expect(result.message).toBe(
+        'Selector role=Switch matched 2 elements; add index or narrow it with role or ancestors.',
+      );
+      expect(result.nodes).toHaveLength(2);
+    });
+  });
+
+  describe('Handler Behavior (Complete Literal Returns)', () => {
+    it('should return structured results from one describe-ui call', async () => {
+      const calls: string[][] = [];
+      const executor = createMockExecutor({ success: true, output: screen });
+
+      const result = await assert_uiLogic(
+        {
+          simulatorId,
+          assertions: [
+            { selector: { id: 'title' }, condition: 'exists' },
+            { selector: { id: 'save' }, condition: 'disabled' },
+          ],
+        },
+        async (command, ...rest) => {
+          calls.push(command);
+          return executor(command, ...rest);
+        },
+        axeHelpers,
+      );
+
+      expect(calls).toEqual([['/usr/local/bin/axe', 'describe-ui', '--udid', simulatorId]]);
+      // The hierarchy is kept for coordinate tools
+      expect(uiStateStore.getCoordinateWarning(simulatorId)).toBeNull();
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text:
+              'All 2 assertions passed.\n```json\n' +
+              JSON.stringify(
+                {
+                  passed: true,
+                  results: [
+                    {
+                      condition: 'exists',
+                      selector: 'id="title"',
+                      passed: true,
+                      message: 'Found 1 element matching id="title".',
+                    },
+                    {
+                      condition: 'disabled',
+                      selector: 'id="save"',
+                      passed: true,
+                      message: 'Element id="save" is disabled.',
+                    },
+                  ],
+                },
+                null,
+                2,
+              ) +
+              '\n```',
+          },
+        ],
+        isError: false,
+      });
+    });
+
+    it('should mark the response as an error when an assertion fails', async () => {
+      const result = await assert_uiLogic(
+        {
+          simulatorId,
+          assertions: [
+            { selector: { id: 'title' }, condition: 'exists' },
+            { selector: { id: 'title' }, condition: 'text', expected: 'Sign in' },
+          ],
+        },
+        createMockExecutor({ success: true, output: screen }),
+        axeHelpers,
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('1 of 2 assertions failed.');
+      expect(result.content[0].text).toContain(
+        'has label \\"Welcome back\\" and value \\"\\", expected text to equal \\"Sign in\\".',
+      );
+    });
+
+    it('should handle DependencyError when axe is not available', async () => {
+      const result = await assert_uiLogic(
+        { simulatorId, assertions: [{ selector: { id: 'title' }, condition: 'exists' }] },
+        createMockExecutor({ success: true, output: screen }),
+        { ...axeHelpers, getAxePath: () => null },
+      );
+
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'AXe not available' }],
+        isError: true,
+      });
+    });
+
+    it('should handle AxeError from describe-ui', async () => {
+      const result = await assert_uiLogic(
+        { simulatorId, assertions: [{ selector: { id: 'title' }, condition: 'exists' }] },
+        createMockExecutor({ success: false, error: 'Simulator not booted' }),
+        axeHelpers,
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: "Error: Failed to get accessibility hierarchy: axe command 'describe-ui' failed.\nDetails: Simulator not booted",
+          },
+        ],
+        isError: true,
+      });
+    });
+  });
+});
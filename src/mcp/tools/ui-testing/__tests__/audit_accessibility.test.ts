@@ -0,0 +1,268 @@
+/**
+ * Tests for audit_accessibility plugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as z from 'zod';
+import { createMockExecutor } from '../../../../test-utils/mock-executors.ts';
+import { sessionStore } from '../../../../utils/session-store.ts';
+import { parseAccessibilityHierarchy } from '../../../../utils/accessibility/index.ts';
+import auditAccessibilityPlugin, {
+  audit_accessibilityLogic,
+  auditAccessibilityElements,
+} from '../audit_accessibility.ts';
+
+const simulatorId = '12345678-1234-4234-8234-123456789012';
+
+const screen = JSON.stringify([
+  {
+    type: 'Application',
+    AXLabel: 'Shop',
+    frame: { x: 0, y: 0, width: 390, height: 844 },
+    children: [
+      {
+        type: 'StaticText',
+        AXLabel: 'Checkout',
+        frame: { x: 20, y: 60, width: 200, height: 30 },
+      },
+      {
+        type: 'StaticText',
+        AXLabel: 'Free shipping',
+        frame: { x: 150, y: 70, width: 200, height: 30 },
+      },
+      {
+        type: 'Button',
+        AXUniqueId: 'close',
+        frame: { x: 340, y: 10, width: 30, height: 30 },
+      },
+      {
+        type: 'Cell',
+        AXUniqueId: 'item',
+        frame: { x: 0, y: 200, width: 390, height: 60 },
+        children: [
+          {
+            type: 'StaticText',
+            AXLabel: 'Coffee',
+            frame: { x: 20, y: 210, width: 100, height: 40 },
+          },
+        ],
+      },
+      {
+        type: 'Cell',
+        AXUniqueId: 'item',
+        frame: { x: 0, y: 260, width: 390, height: 60 },
+        children: [
+          {
+            type: 'StaticText',
+            AXLabel: 'Tea',
+            frame: { x: 20, y: 270, width: 100, height: 40 },
+          },
+        ],
+      },
+      {
+        type: 'Button',
+        AXLabel: 'Pay',
+        AXUniqueId: 'pay',
+        frame: { x: 20, y: 900, width: 350, height: 50 },
+      },
+    ],
+  },
+]);
+
+const axeHelpers = {
+  getAxePath: () => '/usr/local/bin/axe',
+  getBundledAxeEnvironment: () => ({}),
+  createAxeNotAvailableResponse: () => ({
+    content: [{ type: 'text' as const, text: 'AXe not available' }],
+    isError: true,
+  }),
+};
+
+describe('Audit Accessibility Plugin', () => {
+  beforeEach(() => {
+    sessionStore.clear();
+  });
+
+  describe('Export Field Validation (Literal)', () => {
+    it('should have correct name and description', () => {
+      expect(auditAccessibilityPlugin.name).toBe('audit_accessibility');
+      expect(auditAccessibilityPlugin.description).toBe(
+        'Audits the current accessibility hierarchy for common problems: interactive elements without a label, duplicate identifiers, hit targets smaller than 44x44pt, overlapping text and offscreen elements. Lists each issue with its severity and frame.',
+      );
+      expect(auditAccessibilityPlugin.annotations.readOnlyHint).toBe(true);
+    });
+
+    it('should validate checks and minTargetSize', () => {
+      const schema = z.object(auditAccessibilityPlugin.schema);
+
+      expect(schema.safeParse({}).success).toBe(true);
+      expect(schema.safeParse({ checks: ['missingLabel'], minTargetSize: 48 }).success).toBe(true);
+      expect(schema.safeParse({ checks: [] }).success).toBe(false);
+      expect(schema.safeParse({ checks: ['contrast'] }).success).toBe(false);
+      expect(schema.safeParse({ minTargetSize: 0 }).success).toBe(false);
+    });
+  });
+
+  describe('Audit checks', () => {
+    const elements = parseAccessibilityHierarchy(screen);
+
+    it('should report each problem with severity and frame, errors first', () => {
+      const issues = auditAccessibilityElements(elements);
+
+      expect(issues.map((issue) => [issue.check, issue.severity])).toEqual([
+        ['missingLabel', 'error'],
+        ['duplicateIdentifier', 'warning'],
+        ['duplicateIdentifier', 'warning'],
+        ['smallTarget', 'warning'],
+        ['overlappingText', 'warning'],
+        ['offscreen', 'warning'],
+      ]);
+      expect(issues[0]).toEqual({
+        check: 'missingLabel',
+        severity: 'error',
+        message: 'Button has no accessibility label; VoiceOver cannot describe it.',
+        element: 'Button #close (340,10 30x30)',
+        frame: { x: 340, y: 10, width: 30, height: 30 },
+      });
+      expect(issues[1].message).toBe(
+        'Identifier "item" is shared by 2 elements; UI tests cannot target it reliably.',
+      );
+      expect(issues[3].message).toBe('Hit target is 30x30pt, smaller than 44x44pt.');
+      expect(issues[4].message).toBe('Text overlaps StaticText "Free shipping" (150,70 200x30).');
+      expect(issues[5].frame).toEqual({ x: 20, y: 900, width: 350, height: 50 });
+    });
+
+    it('should run only the requested checks with a custom target size', () => {
+      const issues = auditAccessibilityElements(elements, {
+        checks: ['smallTarget'],
+        minTargetSize: 55,
+      });
+
+      expect(issues.map((issue) => issue.element)).toEqual([
+        'Button #close (340,10 30x30)',
+        'Button "Pay" #pay (20,900 350x50)',
+      ]);
+    });
+
+    it('should report interactive elements clipped by the screen edge as info', () => {
+      const clipped = parseAccessibilityHierarchy(
+        JSON.stringify([
+          {
+            type: 'Application',
+            frame: { x: 0, y: 0, width: 390, height: 844 },
+            children: [
+              {
+                type: 'Button',
+                AXLabel: 'Next',
+                frame: { x: 350, y: 400, width: 80, height: 44 },
+              },
+            ],
+          },
+        ]),
+      );
+
+      expect(auditAccessibilityElements(clipped)).toEqual([
+        {
+          check: 'offscreen',
+          severity: 'info',
+          message: 'Interactive element extends past the screen edge and may be clipped.',
+          element: 'Button "Next" (350,400 80x44)',
+          frame: { x: 350, y: 400, width: 80, height: 44 },
+        },
+      ]);
+    });
+  });
+
+  describe('Handler Behavior (Complete Literal Returns)', () => {
+    it('should summarize issues from one describe-ui call', async () => {
+      const calls: string[][] = [];
+      const executor = createMockExecutor({ success: true, output: screen });
+
+      const result = await audit_accessibilityLogic(
+        { simulatorId, checks: ['missingLabel'] },
+        async (command, ...rest) => {
+          calls.push(command);
+          return executor(command, ...rest);
+        },
+        axeHelpers,
+      );
+
+      expect(calls).toEqual([['/usr/local/bin/axe', 'describe-ui', '--udid', simulatorId]]);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text:
+              'Found 1 accessibility issue (1 error).\n```json\n' +
+              JSON.stringify(
+                {
+                  issues: [
+                    {
+                      check: 'missingLabel',
+                      severity: 'error',
+                      message: 'Button has no accessibility label; VoiceOver cannot describe it.',
+                      element: 'Button #close (340,10 30x30)',
+                      frame: { x: 340, y: 10, width: 30, height: 30 },
+                    },
+                  ],
+                },
+                null,
+                2,
+              ) +
+              '\n```',
+          },
+        ],
+        isError: false,
+      });
+    });
+
+    it('should report a clean screen', async () => {
+      const result = await audit_accessibilityLogic(
+        { simulatorId, checks: ['overlappingText'], minTargetSize: 44 },
+        createMockExecutor({
+          success: true,
+          output: JSON.stringify([
+            { type: 'Application', frame: { x: 0, y: 0, width: 390, height: 844 } },
+          ]),
+        }),
+        axeHelpers,
+      );
+
+      expect(result.content[0].text).toBe(
+        'No accessibility issues found.\n```json\n{\n  "issues": []\n}\n```',
+      );
+      expect(result.isError).toBe(false);
+    });
+
+    it('should handle DependencyError when axe is not available', async () => {
+      const result = await audit_accessibilityLogic(
+        { simulatorId },
+        createMockExecutor({ success: true, output: screen }),
+        { ...axeHelpers, getAxePath: () => null },
+      );
+
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'AXe not available' }],
+        isError: true,
+      });
+    });
+
+    it('should handle AxeError from describe-ui', async () => {
+      const result = await audit_accessibilityLogic(
+        { simulatorId },
+        createMockExecutor({ success: false, error: 'Simulator not booted' }),
+        axeHelpers,
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: "Error: Failed to get accessibility hierarchy: axe command 'describe-ui' failed.\nDetails: Simulator not booted",
+          },
+        ],
+        isError: true,
+      });
+    });
+  });
+});
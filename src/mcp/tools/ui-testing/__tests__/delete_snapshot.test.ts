@@ -0,0 +1,84 @@
+/**
+ * Tests for delete_snapshot tool plugin
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as z from 'zod';
+import { createInMemoryFileSystemExecutor } from '../../../../test-utils/mock-executors.ts';
+import deleteSnapshotPlugin, { delete_snapshotLogic } from '../delete_snapshot.ts';
+
+function createFiles(): Map<string, string> {
+  return new Map([
+    ['/snaps/iPhone-16-Pro/light/home.png', 'png'],
+    ['/snaps/iPhone-16-Pro/dark/home.png', 'png'],
+    ['/snaps/iPad-Air/light/home.png', 'png'],
+    ['/snaps/iPad-Air/light/settings.png', 'png'],
+  ]);
+}
+
+describe('delete_snapshot plugin', () => {
+  describe('Export Field Validation (Literal)', () => {
+    it('should have correct name and description', () => {
+      expect(deleteSnapshotPlugin.name).toBe('delete_snapshot');
+      expect(deleteSnapshotPlugin.description).toBe(
+        'Deletes baselines recorded with record_snapshot by name, optionally limited to one simulator model or appearance.',
+      );
+    });
+
+    it('should require a name', () => {
+      const schema = z.object(deleteSnapshotPlugin.schema);
+
+      expect(schema.safeParse({ name: 'home' }).success).toBe(true);
+      expect(schema.safeParse({}).success).toBe(false);
+    });
+  });
+
+  describe('Handler Behavior (Complete Literal Returns)', () => {
+    it('should delete every variant of a name by default', async () => {
+      const files = createFiles();
+
+      const result = await delete_snapshotLogic(
+        { name: 'home', snapshotDir: '/snaps' },
+        createInMemoryFileSystemExecutor(files),
+      );
+
+      expect(result.isError).toBe(false);
+      expect(JSON.parse(result.content[0].text as string).deleted).toHaveLength(3);
+      expect([...files.keys()]).toEqual(['/snaps/iPad-Air/light/settings.png']);
+    });
+
+    it('should limit deletion to a model and appearance', async () => {
+      const files = createFiles();
+
+      const result = await delete_snapshotLogic(
+        { name: 'home', model: 'iPhone-16-Pro', appearance: 'dark', snapshotDir: '/snaps' },
+        createInMemoryFileSystemExecutor(files),
+      );
+
+      expect(JSON.parse(result.content[0].text as string)).toEqual({
+        root: '/snaps',
+        deleted: [
+          {
+            name: 'home',
+            model: 'iPhone-16-Pro',
+            appearance: 'dark',
+            path: '/snaps/iPhone-16-Pro/dark/home.png',
+          },
+        ],
+      });
+      expect(files.size).toBe(3);
+    });
+
+    it('should return an error when nothing matches', async () => {
+      const result = await delete_snapshotLogic(
+        { name: 'missing', snapshotDir: '/snaps' },
+        createInMemoryFileSystemExecutor(createFiles()),
+      );
+
+      expect(result).toEqual({
+        content: [{ type: 'text', text: "Error: No baselines named 'missing' found in /snaps" }],
+        isError: true,
+      });
+    });
+  });
+});
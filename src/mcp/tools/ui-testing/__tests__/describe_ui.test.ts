@@ -19,7 +19,7 @@ describe('Describe UI Plugin', () => {
 
     it('should have correct description', () => {
       expect(describeUIPlugin.description).toBe(
-        'Gets entire view hierarchy with precise frame coordinates (x, y, width, height) for all visible elements. Use this before UI interactions or after layout changes - do NOT guess coordinates from screenshots. Returns JSON tree with frame data for accurate automation.',
+        'Gets entire view hierarchy with precise frame coordinates (x, y, width, height) for all visible elements. Use this before UI interactions or after layout changes - do NOT guess coordinates from screenshots. Returns a typed element tree (role, label, identifier, value, frame, enabled, children) as JSON or a compact outline; filter by role, label, identifier regex or visibleOnly to get just the elements you need.',
       );
     });
 
@@ -36,6 +36,19 @@ describe('Describe UI Plugin', () => {
       expect(withSimId.success).toBe(true);
       expect('simulatorId' in (withSimId.data as any)).toBe(false);
     });
+
+    it('should validate query parameters', () => {
+      const schema = z.object(describeUIPlugin.schema);
+
+      expect(
+        schema.safeParse({ role: 'Button', label: 'sign', identifier: '^login', visibleOnly: true })
+          .success,
+      ).toBe(true);
+      expect(schema.safeParse({ format: 'outline' }).success).toBe(true);
+      expect(schema.safeParse({ format: 'xml' }).success).toBe(false);
+      expect(schema.safeParse({ identifier: '(' }).success).toBe(false);
+      expect(schema.safeParse({ label: '' }).success).toBe(false);
+    });
   });
 
   describe('Handler Behavior (Complete Literal Returns)', () => {
@@ -101,7 +114,7 @@ describe('Describe UI Plugin', () => {
         content: [
           {
             type: 'text',
-            text: 'Accessibility hierarchy retrieved successfully:\n```json\n{"elements": [{"type": "Button", "frame": {"x": 100, "y": 200, "width": 50, "height": 30}}]}\n```',
+            text: 'Accessibility hierarchy retrieved successfully:\n```json\n[{"role":"Button","type":"Button","frame":{"x":100,"y":200,"width":50,"height":30},"enabled":true}]\n```',
           },
           {
             type: 'text',
@@ -114,6 +127,105 @@ describe('Describe UI Plugin', () => {
       });
     });
 
+    describe('Queries and outline', () => {
+      const hierarchy = JSON.stringify([
+        {
+          type: 'Application',
+          AXLabel: 'Demo',
+          frame: { x: 0, y: 0, width: 390, height: 844 },
+          children: [
+            {
+              type: 'Button',
+              AXLabel: 'Sign In',
+              AXUniqueId: 'login-button',
+              frame: { x: 20, y: 100, width: 350, height: 44 },
+            },
+            {
+              type: 'TextField',
+              AXLabel: 'Email',
+              AXUniqueId: 'email-field',
+              AXValue: 'user@example.com',
+              frame: { x: 20, y: 40, width: 350, height: 44 },
+            },
+            {
+              type: 'Button',
+              AXLabel: 'Hidden',
+              AXUniqueId: 'offscreen-button',
+              enabled: false,
+              frame: { x: 20, y: 900, width: 100, height: 44 },
+            },
+          ],
+        },
+      ]);
+      const axeHelpers = {
+        getAxePath: () => '/usr/local/bin/axe',
+        getBundledAxeEnvironment: () => ({}),
+        createAxeNotAvailableResponse: () => ({
+          content: [{ type: 'text' as const, text: 'AXe not available' }],
+          isError: true,
+        }),
+      };
+      const simulatorId = '12345678-1234-4234-8234-123456789012';
+
+      it('should filter by role and return matching elements without children', async () => {
+        const result = await describe_uiLogic(
+          { simulatorId, role: 'AXButton' },
+          createMockExecutor({ success: true, output: hierarchy }),
+          axeHelpers,
+        );
+
+        expect(result.content[0].text).toBe(
+          'Found 2 matching elements:\n```json\n' +
+            '[{"role":"Button","type":"Button","label":"Sign In","identifier":"login-button","frame":{"x":20,"y":100,"width":350,"height":44},"enabled":true},' +
+            '{"role":"Button","type":"Button","label":"Hidden","identifier":"offscreen-button","frame":{"x":20,"y":900,"width":100,"height":44},"enabled":false}]\n```',
+        );
+      });
+
+      it('should combine label, identifier and visibleOnly filters', async () => {
+        const result = await describe_uiLogic(
+          {
+            simulatorId,
+            label: 'SIGN',
+            identifier: '-button$',
+            visibleOnly: true,
+            format: 'outline',
+          },
+          createMockExecutor({ success: true, output: hierarchy }),
+          axeHelpers,
+        );
+
+        expect(result.content[0].text).toBe(
+          'Found 1 matching element:\n```\nButton "Sign In" #login-button (20,100 350x44)\n```',
+        );
+      });
+
+      it('should render the pruned tree as an outline', async () => {
+        const result = await describe_uiLogic(
+          { simulatorId, visibleOnly: true, format: 'outline' },
+          createMockExecutor({ success: true, output: hierarchy }),
+          axeHelpers,
+        );
+
+        expect(result.content[0].text).toBe(
+          'Accessibility hierarchy retrieved successfully:\n```\n' +
+            'Application "Demo" (0,0 390x844)\n' +
+            '  Button "Sign In" #login-button (20,100 350x44)\n' +
+            '  TextField "Email" #email-field ="user@example.com" (20,40 350x44)\n```',
+        );
+      });
+
+      it('should report when nothing matches', async () => {
+        const result = await describe_uiLogic(
+          { simulatorId, role: 'Switch' },
+          createMockExecutor({ success: true, output: hierarchy }),
+          axeHelpers,
+        );
+
+        expect(result.isError).toBeUndefined();
+        expect(result.content[0].text).toBe('No elements matched the query.');
+      });
+    });
+
     it('should handle DependencyError when axe is not available', async () => {
       // Create mock axe helpers that return null for axe path
       const mockAxeHelpers = {
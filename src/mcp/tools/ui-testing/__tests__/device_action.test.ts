@@ -0,0 +1,247 @@
+/**
+ * Tests for device_action plugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as z from 'zod';
+import { createMockExecutor, createNoopExecutor } from '../../../../test-utils/mock-executors.ts';
+import type { CommandExecutor } from '../../../../utils/execution/index.ts';
+import { sessionStore } from '../../../../utils/session-store.ts';
+import deviceActionPlugin, { device_actionLogic } from '../device_action.ts';
+
+const simulatorId = '12345678-1234-4234-8234-123456789012';
+
+const axeHelpers = {
+  getAxePath: () => '/usr/local/bin/axe',
+  getBundledAxeEnvironment: () => ({}),
+  createAxeNotAvailableResponse: () => ({
+    content: [{ type: 'text' as const, text: 'AXe not available' }],
+    isError: true,
+  }),
+};
+
+function createTrackingExecutor(calls: string[][]): CommandExecutor {
+  const executor = createMockExecutor({ success: true, output: '' });
+  return async (command, ...rest) => {
+    calls.push(command);
+    return executor(command, ...rest);
+  };
+}
+
+describe('Device Action Plugin', () => {
+  beforeEach(() => {
+    sessionStore.clear();
+  });
+
+  describe('Export Field Validation (Literal)', () => {
+    it('should have correct name and description', () => {
+      expect(deviceActionPlugin.name).toBe('device_action');
+      expect(deviceActionPlugin.description).toBe(
+        'Device-level actions: shake (motion shake event), lock, unlock, and hardware_keyboard (connect or disconnect the Mac keyboard for all simulators). rotate and memory_warning are accepted but reported as unsupported, since neither simctl nor AXe can trigger them.',
+      );
+    });
+
+    it('should expose the action-specific fields', () => {
+      const schema = z.object(deviceActionPlugin.schema);
+
+      expect(schema.safeParse({ action: 'shake' }).success).toBe(true);
+      expect(schema.safeParse({ action: 'rotate', orientation: 'landscape_left' }).success).toBe(
+        true,
+      );
+      expect(schema.safeParse({ action: 'hardware_keyboard', enabled: false }).success).toBe(true);
+      expect(schema.safeParse({ action: 'rotate', orientation: 'sideways' }).success).toBe(false);
+      expect(schema.safeParse({ action: 'reboot' }).success).toBe(false);
+    });
+  });
+
+  describe('Handler Requirements', () => {
+    it('should require simulatorId', async () => {
+      const result = await deviceActionPlugin.handler({ action: 'shake' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('simulatorId is required');
+    });
+
+    it('should validate fields for the chosen action', async () => {
+      const missing = await deviceActionPlugin.handler({
+        simulatorId,
+        action: 'hardware_keyboard',
+      });
+      const extra = await deviceActionPlugin.handler({
+        simulatorId,
+        action: 'lock',
+        orientation: 'portrait',
+      });
+
+      expect(missing.isError).toBe(true);
+      expect(missing.content[0].text).toContain(
+        'enabled: enabled is required when action is "hardware_keyboard".',
+      );
+      expect(extra.isError).toBe(true);
+      expect(extra.content[0].text).toContain(
+        'orientation: orientation does not apply to action "lock".',
+      );
+    });
+  });
+
+  describe('Handler Behavior (Complete Literal Returns)', () => {
+    it('should shake via simctl notify_post', async () => {
+      const calls: string[][] = [];
+      const result = await device_actionLogic(
+        { simulatorId, action: 'shake' },
+        createTrackingExecutor(calls),
+        axeHelpers,
+      );
+
+      expect(calls).toEqual([
+        ['xcrun', 'simctl', 'notify_post', simulatorId, 'com.apple.UIKit.SimulatorShake'],
+      ]);
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'Shake gesture sent to the device.' }],
+        isError: false,
+      });
+    });
+
+    it('should report a failed shake with simctl output', async () => {
+      const result = await device_actionLogic(
+        { simulatorId, action: 'shake' },
+        createMockExecutor({
+          success: false,
+          error: 'Unable to lookup in current state: Shutdown',
+        }),
+        axeHelpers,
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Error: Failed to shake device: simctl notify_post failed. The simulator must be booted.\nDetails: Unable to lookup in current state: Shutdown',
+          },
+        ],
+        isError: true,
+      });
+    });
+
+    it('should write the hardware keyboard preference', async () => {
+      const calls: string[][] = [];
+      const result = await device_actionLogic(
+        { simulatorId, action: 'hardware_keyboard', enabled: false },
+        createTrackingExecutor(calls),
+        axeHelpers,
+      );
+
+      expect(calls).toEqual([
+        [
+          'defaults',
+          'write',
+          'com.apple.iphonesimulator',
+          'ConnectHardwareKeyboard',
+          '-bool',
+          'false',
+        ],
+      ]);
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain(
+        'Hardware keyboard disconnected for all simulators.',
+      );
+    });
+
+    it('should lock with the lock button', async () => {
+      const calls: string[][] = [];
+      const result = await device_actionLogic(
+        { simulatorId, action: 'lock' },
+        createTrackingExecutor(calls),
+        axeHelpers,
+      );
+
+      expect(calls).toEqual([['/usr/local/bin/axe', 'button', 'lock', '--udid', simulatorId]]);
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'Device locked.' }],
+        isError: false,
+      });
+    });
+
+    it('should unlock by pressing home twice', async () => {
+      const calls: string[][] = [];
+      const result = await device_actionLogic(
+        { simulatorId, action: 'unlock' },
+        createTrackingExecutor(calls),
+        axeHelpers,
+      );
+
+      expect(calls).toEqual([
+        ['/usr/local/bin/axe', 'button', 'home', '--udid', simulatorId],
+        ['/usr/local/bin/axe', 'button', 'home', '--udid', simulatorId],
+      ]);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Device unlocked. If a passcode is set, enter it with type_text.',
+          },
+        ],
+        isError: false,
+      });
+    });
+
+    it('should report rotate as unsupported without running commands', async () => {
+      const calls: string[][] = [];
+      const result = await device_actionLogic(
+        { simulatorId, action: 'rotate', orientation: 'landscape_left' },
+        createTrackingExecutor(calls),
+        axeHelpers,
+      );
+
+      expect(calls).toEqual([]);
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        'Error: Rotating the device is not supported: neither simctl nor AXe can change the orientation.',
+      );
+    });
+
+    it('should report memory_warning as unsupported', async () => {
+      const result = await device_actionLogic(
+        { simulatorId, action: 'memory_warning' },
+        createNoopExecutor(),
+        axeHelpers,
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        'Error: Triggering a memory warning is not supported: neither simctl nor AXe can send one.',
+      );
+    });
+
+    it('should handle AxeError from the lock button', async () => {
+      const result = await device_actionLogic(
+        { simulatorId, action: 'lock' },
+        createMockExecutor({ success: false, error: 'Simulator not booted' }),
+        axeHelpers,
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: "Error: Failed to lock device: axe command 'button' failed.\nDetails: Simulator not booted",
+          },
+        ],
+        isError: true,
+      });
+    });
+
+    it('should handle DependencyError when axe is not available', async () => {
+      const result = await device_actionLogic(
+        { simulatorId, action: 'unlock' },
+        createNoopExecutor(),
+        { ...axeHelpers, getAxePath: () => null },
+      );
+
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'AXe not available' }],
+        isError: true,
+      });
+    });
+  });
+});
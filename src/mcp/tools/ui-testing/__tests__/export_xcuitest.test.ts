@@ -0,0 +1,145 @@
+/**
+ * Tests for export_xcuitest plugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as z from 'zod';
+import { createInMemoryFileSystemExecutor } from '../../../../test-utils/mock-executors.ts';
+import { sessionStore } from '../../../../utils/session-store.ts';
+import { UIRecorder } from '../../../../utils/ui-recorder.ts';
+import exportXcuitestPlugin, { export_xcuitestLogic } from '../export_xcuitest.ts';
+
+const simulatorId = '12345678-1234-4234-8234-123456789012';
+
+function createRecorder(): UIRecorder {
+  const recorder = new UIRecorder(() => 0);
+  recorder.record(simulatorId, {
+    action: 'tap',
+    element: { identifier: 'login', label: 'Log In', role: 'Button' },
+  });
+  recorder.record(simulatorId, { action: 'gesture', preset: 'scroll-down' });
+  return recorder;
+}
+
+const expectedSource = [
+  'import XCTest',
+  '',
+  'final class RecordedUITests: XCTestCase {',
+  '    func testRecordedFlow() throws {',
+  '        let app = XCUIApplication()',
+  '        app.launch()',
+  '',
+  '        app.buttons["login"].tap()',
+  '        app.swipeDown()',
+  '    }',
+  '}',
+  '',
+].join('\n');
+
+describe('Export XCUITest Plugin', () => {
+  beforeEach(() => {
+    sessionStore.clear();
+  });
+
+  describe('Export Field Validation (Literal)', () => {
+    it('should have correct name and description', () => {
+      expect(exportXcuitestPlugin.name).toBe('export_xcuitest');
+      expect(exportXcuitestPlugin.description).toBe(
+        'Exports the UI interactions recorded for a simulator (successful tap, type_text, fill_field, swipe and gesture calls) as a Swift XCUITest method, using accessibility identifiers where known. Optionally writes it to a .swift file in your UI test target.',
+      );
+    });
+
+    it('should validate names and output path', () => {
+      const schema = z.object(exportXcuitestPlugin.schema);
+
+      expect(schema.safeParse({}).success).toBe(true);
+      expect(
+        schema.safeParse({
+          outputPath: 'AppUITests/LoginTests.swift',
+          className: 'LoginTests',
+          testName: 'testLogin',
+        }).success,
+      ).toBe(true);
+      expect(schema.safeParse({ outputPath: 'LoginTests.txt' }).success).toBe(false);
+      expect(schema.safeParse({ className: 'Login Tests' }).success).toBe(false);
+      expect(schema.safeParse({ testName: 'login' }).success).toBe(false);
+    });
+  });
+
+  describe('Handler Behavior (Complete Literal Returns)', () => {
+    it('should return the generated source', async () => {
+      const result = await export_xcuitestLogic(
+        { simulatorId },
+        createInMemoryFileSystemExecutor(),
+        createRecorder(),
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: `Generated XCUITest from 2 recorded steps as RecordedUITests.testRecordedFlow:\n\`\`\`swift\n${expectedSource}\`\`\``,
+          },
+        ],
+        isError: false,
+      });
+    });
+
+    it('should write the file and optionally clear the session', async () => {
+      const files = new Map<string, string>();
+      const recorder = createRecorder();
+
+      const result = await export_xcuitestLogic(
+        { simulatorId, outputPath: '/project/AppUITests/Recorded.swift', clear: true },
+        createInMemoryFileSystemExecutor(files),
+        recorder,
+      );
+
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain(
+        'Exported 2 recorded steps as RecordedUITests.testRecordedFlow to /project/AppUITests/Recorded.swift.',
+      );
+      expect(files.get('/project/AppUITests/Recorded.swift')).toBe(expectedSource);
+      expect(recorder.getSteps(simulatorId)).toEqual([]);
+    });
+
+    it('should not overwrite existing files unless asked', async () => {
+      const files = new Map([['/project/Recorded.swift', 'existing']]);
+
+      const result = await export_xcuitestLogic(
+        { simulatorId, outputPath: '/project/Recorded.swift' },
+        createInMemoryFileSystemExecutor(files),
+        createRecorder(),
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Error: File already exists: /project/Recorded.swift\nDetails: Pass overwrite: true to replace it.',
+          },
+        ],
+        isError: true,
+      });
+      expect(files.get('/project/Recorded.swift')).toBe('existing');
+    });
+
+    it('should report an empty session', async () => {
+      const result = await export_xcuitestLogic(
+        { simulatorId },
+        createInMemoryFileSystemExecutor(),
+        new UIRecorder(),
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: `Error: No UI interactions recorded for simulator ${simulatorId}.\nDetails: Successful tap, type_text, fill_field, swipe and gesture calls are recorded automatically; run the flow first.`,
+          },
+        ],
+        isError: true,
+      });
+    });
+  });
+});
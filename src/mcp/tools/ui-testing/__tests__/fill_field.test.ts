@@ -0,0 +1,334 @@
+/**
+ * Tests for fill_field plugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as z from 'zod';
+import { createMockExecutor } from '../../../../test-utils/mock-executors.ts';
+import type { CommandExecutor } from '../../../../utils/execution/index.ts';
+import { sessionStore } from '../../../../utils/session-store.ts';
+import { uiRecorder } from '../../../../utils/ui-recorder.ts';
+import fillFieldPlugin, { fill_fieldLogic } from '../fill_field.ts';
+
+const simulatorId = '12345678-1234-4234-8234-123456789012';
+
+function hierarchy(field: { type?: string; value?: string }): string {
+  return JSON.stringify([
+    {
+      type: 'Application',
+      AXLabel: 'Login',
+      frame: { x: 0, y: 0, width: 390, height: 844 },
+      children: [
+        {
+          type: field.type ?? 'TextField',
+          AXLabel: 'Email',
+          AXUniqueId: 'email',
+          AXValue: field.value,
+          frame: { x: 20, y: 100, width: 350, height: 44 },
+        },
+      ],
+    },
+  ]);
+}
+
+// describe-ui returns the snapshots in order (repeating the last); other commands succeed
+function createFieldExecutor(snapshots: string[], calls: string[][] = []): CommandExecutor {
+  return async (command, ...rest) => {
+    calls.push(command);
+    if (!command.includes('describe-ui')) {
+      return createMockExecutor({ success: true, output: '' })(command, ...rest);
+    }
+    const output = snapshots.length > 1 ? (snapshots.shift() as string) : snapshots[0];
+    return createMockExecutor({ success: true, output })(command, ...rest);
+  };
+}
+
+const axeHelpers = {
+  getAxePath: () => '/usr/local/bin/axe',
+  getBundledAxeEnvironment: () => ({}),
+  createAxeNotAvailableResponse: () => ({
+    content: [{ type: 'text' as const, text: 'AXe not available' }],
+    isError: true,
+  }),
+};
+
+describe('Fill Field Plugin', () => {
+  beforeEach(() => {
+    sessionStore.clear();
+    uiRecorder.clear();
+  });
+
+  describe('Export Field Validation (Literal)', () => {
+    it('should have correct name and description', () => {
+      expect(fillFieldPlugin.name).toBe('fill_field');
+      expect(fillFieldPlugin.description).toBe(
+        "Replaces a text field's content: finds the field by selector, focuses it, selects and deletes the existing text (⌘A, backspace), types the new value and optionally presses return. Verifies via describe_ui that the field was emptied and holds the new value (by length for secure fields). Prefer this over type_text for forms, since type_text appends.",
+      );
+    });
+
+    it('should require a selector and text', () => {
+      const schema = z.object(fillFieldPlugin.schema);
+
+      expect(schema.safeParse({ selector: { id: 'email' }, text: 'a@b.c' }).success).toBe(true);
+      expect(
+        schema.safeParse({ selector: { id: 'email' }, text: '', submit: true, verify: false })
+          .success,
+      ).toBe(true);
+      expect(schema.safeParse({ text: 'a@b.c' }).success).toBe(false);
+      expect(schema.safeParse({ selector: {}, text: 'a@b.c' }).success).toBe(false);
+    });
+  });
+
+  describe('Handler Behavior (Complete Literal Returns)', () => {
+    it('should focus, clear, type, verify and submit', async () => {
+      const calls: string[][] = [];
+      const result = await fill_fieldLogic(
+        { simulatorId, selector: { id: 'email' }, text: 'new@example.com', submit: true },
+        createFieldExecutor(
+          [hierarchy({ value: 'old' }), hierarchy({}), hierarchy({ value: 'new@example.com' })],
+          calls,
+        ),
+        axeHelpers,
+      );
+
+      expect(calls).toEqual([
+        ['/usr/local/bin/axe', 'describe-ui', '--udid', simulatorId],
+        ['/usr/local/bin/axe', 'tap', '-x', '195', '-y', '122', '--udid', simulatorId],
+        [
+          '/usr/local/bin/axe',
+          'key-combo',
+          '--modifiers',
+          '227',
+          '--key',
+          '4',
+          '--udid',
+          simulatorId,
+        ],
+        ['/usr/local/bin/axe', 'key', '42', '--udid', simulatorId],
+        ['/usr/local/bin/axe', 'describe-ui', '--udid', simulatorId],
+        ['/usr/local/bin/axe', 'type', 'new@example.com', '--udid', simulatorId],
+        ['/usr/local/bin/axe', 'describe-ui', '--udid', simulatorId],
+        ['/usr/local/bin/axe', 'key', '40', '--udid', simulatorId],
+      ]);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Filled field id="email" with 15 characters, verified its value and pressed return.',
+          },
+        ],
+        isError: false,
+      });
+      expect(uiRecorder.getSteps(simulatorId)).toEqual([
+        {
+          action: 'type_text',
+          text: 'new@example.com',
+          element: { identifier: 'email', label: 'Email', role: 'TextField' },
+          replace: true,
+          submit: true,
+          recordedAt: expect.any(Number),
+        },
+      ]);
+    });
+
+    it('should skip clearing an empty field', async () => {
+      const calls: string[][] = [];
+      await fill_fieldLogic(
+        { simulatorId, selector: { id: 'email' }, text: 'a', verify: false },
+        createFieldExecutor([hierarchy({})], calls),
+        axeHelpers,
+      );
+
+      expect(calls.map((command) => command[1])).toEqual(['describe-ui', 'tap', 'type']);
+    });
+
+    it('should report a value that does not match after typing', async () => {
+      const calls: string[][] = [];
+      const result = await fill_fieldLogic(
+        { simulatorId, selector: { id: 'email' }, text: 'ada', submit: true },
+        createFieldExecutor([hierarchy({}), hierarchy({ value: 'Ada' })], calls),
+        axeHelpers,
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Error: Field id="email" has value "Ada", expected "ada".\nDetails: Autocorrect, autocapitalization or input formatting may have changed the text. Field before filling: TextField "Email" #email (20,100 350x44)',
+          },
+        ],
+        isError: true,
+      });
+      expect(calls.map((command) => command[1])).not.toContain('key');
+      expect(uiRecorder.getSteps(simulatorId)).toEqual([]);
+    });
+
+    it('should verify secure fields by length', async () => {
+      const passed = await fill_fieldLogic(
+        { simulatorId, selector: { id: 'email' }, text: 'secret' },
+        createFieldExecutor([
+          hierarchy({ type: 'SecureTextField' }),
+          hierarchy({ type: 'SecureTextField', value: '••••••' }),
+        ]),
+        axeHelpers,
+      );
+      const failed = await fill_fieldLogic(
+        { simulatorId, selector: { id: 'email' }, text: 'secret' },
+        createFieldExecutor([
+          hierarchy({ type: 'SecureTextField' }),
+          hierarchy({ type: 'SecureTextField', value: '•••' }),
+        ]),
+        axeHelpers,
+      );
+
+      expect(passed.content[0].text).toBe(
+        'Filled field id="email" with 6 characters and verified its length (secure field).',
+      );
+      expect(failed.isError).toBe(true);
+      expect(failed.content[0].text).toContain(
+        'Secure field id="email" holds 3 characters, expected 6.',
+      );
+    });
+
+    it('should delete what select-all left behind character by character', async () => {
+      const calls: string[][] = [];
+      const result = await fill_fieldLogic(
+        { simulatorId, selector: { id: 'email' }, text: '' },
+        createFieldExecutor(
+          [hierarchy({ value: 'abc' }), hierarchy({ value: 'ab' }), hierarchy({})],
+          calls,
+        ),
+        axeHelpers,
+      );
+
+      expect(calls.map((command) => command[1])).toEqual([
+        'describe-ui',
+        'tap',
+        'key-combo',
+        'key',
+        'describe-ui',
+        'key-sequence',
+        'describe-ui',
+      ]);
+      expect(calls[5]).toEqual([
+        '/usr/local/bin/axe',
+        'key-sequence',
+        '--keycodes',
+        '76,76,42,42',
+        '--udid',
+        simulatorId,
+      ]);
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'Cleared field id="email" and verified it is empty.' }],
+        isError: false,
+      });
+    });
+
+    it('should accept a placeholder that deleting does not change', async () => {
+      const calls: string[][] = [];
+      const result = await fill_fieldLogic(
+        { simulatorId, selector: { id: 'email' }, text: '' },
+        createFieldExecutor([hierarchy({ value: 'Email' })], calls),
+        axeHelpers,
+      );
+
+      expect(calls.filter((command) => command[1] === 'describe-ui')).toHaveLength(3);
+      expect(result.content[0].text).toBe('Cleared field id="email" and verified it is empty.');
+    });
+
+    it('should report a field that cannot be cleared without typing', async () => {
+      const calls: string[][] = [];
+      const result = await fill_fieldLogic(
+        { simulatorId, selector: { id: 'email' }, text: 'new' },
+        createFieldExecutor(
+          [
+            hierarchy({ value: 'abcd' }),
+            hierarchy({ value: 'abcd' }),
+            hierarchy({ value: 'abc' }),
+            hierarchy({ value: 'ab' }),
+            hierarchy({ value: 'a' }),
+          ],
+          calls,
+        ),
+        axeHelpers,
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Error: Field id="email" still has value "a" after clearing.\nDetails: The field may not accept select-all (⌘A). Field before filling: TextField "Email" #email ="abcd" (20,100 350x44)',
+          },
+        ],
+        isError: true,
+      });
+      expect(calls.map((command) => command[1])).not.toContain('type');
+    });
+
+    it('should clear a field without verifying it', async () => {
+      const calls: string[][] = [];
+      const result = await fill_fieldLogic(
+        { simulatorId, selector: { id: 'email' }, text: '', verify: false },
+        createFieldExecutor([hierarchy({ value: 'ab' })], calls),
+        axeHelpers,
+      );
+
+      expect(calls.map((command) => command[1])).toEqual([
+        'describe-ui',
+        'tap',
+        'key-combo',
+        'key',
+      ]);
+      expect(result.content[0].text).toBe('Cleared field id="email".');
+    });
+
+    it('should report a missing field', async () => {
+      const result = await fill_fieldLogic(
+        { simulatorId, selector: { id: 'missing', timeout: 0 }, text: 'a' },
+        createFieldExecutor([hierarchy({})]),
+        axeHelpers,
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('No element matching id="missing" found within 0s.');
+    });
+
+    it('should handle DependencyError when axe is not available', async () => {
+      const result = await fill_fieldLogic(
+        { simulatorId, selector: { id: 'email' }, text: 'a' },
+        createFieldExecutor([hierarchy({})]),
+        { ...axeHelpers, getAxePath: () => null },
+      );
+
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'AXe not available' }],
+        isError: true,
+      });
+    });
+
+    it('should handle AxeError from typing', async () => {
+      const executor = createFieldExecutor([hierarchy({})]);
+      const result = await fill_fieldLogic(
+        { simulatorId, selector: { id: 'email' }, text: 'a' },
+        async (command, ...rest) =>
+          command.includes('type')
+            ? createMockExecutor({ success: false, error: 'Keyboard not available' })(
+                command,
+                ...rest,
+              )
+            : executor(command, ...rest),
+        axeHelpers,
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: "Error: Failed to fill field: axe command 'type' failed.\nDetails: Keyboard not available",
+          },
+        ],
+        isError: true,
+      });
+    });
+  });
+});
@@ -10,11 +10,13 @@ import {
   createNoopExecutor,
 } from '../../../../test-utils/mock-executors.ts';
 import { sessionStore } from '../../../../utils/session-store.ts';
+import { uiStateStore } from '../../../../utils/ui-state-store.ts';
 import gesturePlugin, { gestureLogic } from '../gesture.ts';
 
 describe('Gesture Plugin', () => {
   beforeEach(() => {
     sessionStore.clear();
+    uiStateStore.clear();
   });
 
   describe('Export Field Validation (Literal)', () => {
@@ -249,6 +251,66 @@ describe('Gesture Plugin', () => {
         '12345678-1234-4234-8234-123456789012',
       ]);
     });
+    it('should use the screen size from a current describe_ui hierarchy', async () => {
+      const commands: string[][] = [];
+      const trackingExecutor = async (command: string[]) => {
+        commands.push(command);
+        return {
+          success: true,
+          output: 'gesture completed',
+          error: undefined,
+          process: { pid: 12345 },
+        };
+      };
+      const mockAxeHelpers = {
+        getAxePath: () => '/usr/local/bin/axe',
+        getBundledAxeEnvironment: () => ({}),
+      };
+      const simulatorId = '12345678-1234-4234-8234-123456789012';
+      uiStateStore.record(simulatorId, [
+        {
+          role: 'AXApplication',
+          enabled: true,
+          frame: { x: 0, y: 0, width: 390, height: 844 },
+          children: [],
+        },
+      ]);
+
+      const first = await gestureLogic(
+        { simulatorId, preset: 'scroll-up' },
+        trackingExecutor,
+        mockAxeHelpers,
+      );
+      const second = await gestureLogic(
+        { simulatorId, preset: 'scroll-up' },
+        trackingExecutor,
+        mockAxeHelpers,
+      );
+
+      expect(commands[0]).toEqual([
+        '/usr/local/bin/axe',
+        'gesture',
+        'scroll-up',
+        '--screen-width',
+        '390',
+        '--screen-height',
+        '844',
+        '--udid',
+        simulatorId,
+      ]);
+      // The first gesture invalidated the hierarchy, so the second falls back to auto-detection
+      expect(commands[1]).toEqual([
+        '/usr/local/bin/axe',
+        'gesture',
+        'scroll-up',
+        '--udid',
+        simulatorId,
+      ]);
+      expect(first.content[0].text).toBe("Gesture 'scroll-up' executed successfully.");
+      expect(second.content[0].text).toContain(
+        'Warning: the UI may have changed since describe_ui was last called (gesture performed since).',
+      );
+    });
   });
 
   describe('Handler Behavior (Complete Literal Returns)', () => {
@@ -279,7 +341,12 @@ describe('Gesture Plugin', () => {
       );
 
       expect(result).toEqual({
-        content: [{ type: 'text', text: "Gesture 'scroll-up' executed successfully." }],
+        content: [
+          {
+            type: 'text',
+            text: "Gesture 'scroll-up' executed successfully.\n\nWarning: describe_ui has not been called yet. Consider using describe_ui for precise coordinates instead of guessing from screenshots.",
+          },
+        ],
         isError: false,
       });
     });
@@ -24,7 +24,7 @@ describe('Key Press Plugin', () => {
 
     it('should have correct description', () => {
       expect(keyPressPlugin.description).toBe(
-        'Press a single key by keycode on the simulator. Common keycodes: 40=Return, 42=Backspace, 43=Tab, 44=Space, 58-67=F1-F10.',
+        'Press a single key or shortcut on the simulator by name (key: return, escape, tab, space, backspace, arrowDown, f5, a, cmd+a, shift+tab) or HID keycode (keyCode: 40=Return, 42=Backspace, 43=Tab, 44=Space, 58-67=F1-F10). Shortcuts hold the modifiers while the key is pressed.',
       );
     });
 
@@ -48,7 +48,9 @@ describe('Key Press Plugin', () => {
       expect(withSimId.success).toBe(true);
       expect('simulatorId' in (withSimId.data as any)).toBe(false);
 
-      expect(schema.safeParse({}).success).toBe(false);
+      expect(schema.safeParse({ key: 'return' }).success).toBe(true);
+      expect(schema.safeParse({ key: 'ArrowDown', duration: 0.5 }).success).toBe(true);
+      expect(schema.safeParse({ key: 'hyper' }).success).toBe(false);
     });
   });
 
@@ -71,7 +73,16 @@ describe('Key Press Plugin', () => {
       expect(result.isError).toBe(true);
       const message = result.content[0].text;
       expect(message).toContain('Parameter validation failed');
-      expect(message).toContain('keyCode: Invalid input: expected number, received undefined');
+      expect(message).toContain('keyCode: Provide exactly one of keyCode or key.');
+    });
+
+    it('should reject both keyCode and key', async () => {
+      sessionStore.setDefaults({ simulatorId: '12345678-1234-4234-8234-123456789012' });
+
+      const result = await keyPressPlugin.handler({ keyCode: 40, key: 'return' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('key: Provide exactly one of keyCode or key.');
     });
   });
 
@@ -256,6 +267,103 @@ describe('Key Press Plugin', () => {
     });
   });
 
+  describe('Named Keys', () => {
+    const axeHelpers = {
+      getAxePath: () => '/usr/local/bin/axe',
+      getBundledAxeEnvironment: () => ({}),
+      createAxeNotAvailableResponse: () => ({
+        content: [{ type: 'text' as const, text: 'AXe not available' }],
+        isError: true,
+      }),
+    };
+
+    it('should translate key names to HID keycodes', async () => {
+      let capturedCommand: string[] = [];
+      const executor = createMockExecutor({ success: true, output: '' });
+
+      const result = await key_pressLogic(
+        { simulatorId: '12345678-1234-4234-8234-123456789012', key: 'arrowDown' },
+        async (command, ...rest) => {
+          capturedCommand = command;
+          return executor(command, ...rest);
+        },
+        axeHelpers,
+      );
+
+      expect(capturedCommand).toEqual([
+        '/usr/local/bin/axe',
+        'key',
+        '81',
+        '--udid',
+        '12345678-1234-4234-8234-123456789012',
+      ]);
+      expect(result.isError).toBe(false);
+    });
+
+    it('should send shortcuts with key-combo so the modifiers are held', async () => {
+      let capturedCommand: string[] = [];
+      const executor = createMockExecutor({ success: true, output: '' });
+
+      const result = await key_pressLogic(
+        { simulatorId: '12345678-1234-4234-8234-123456789012', key: 'cmd+a' },
+        async (command, ...rest) => {
+          capturedCommand = command;
+          return executor(command, ...rest);
+        },
+        axeHelpers,
+      );
+
+      expect(capturedCommand).toEqual([
+        '/usr/local/bin/axe',
+        'key-combo',
+        '--modifiers',
+        '227',
+        '--key',
+        '4',
+        '--udid',
+        '12345678-1234-4234-8234-123456789012',
+      ]);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Key press cmd+a (code: 4, modifiers: 227) simulated successfully.',
+          },
+        ],
+        isError: false,
+      });
+    });
+
+    it('should explain key-combo when a shortcut fails', async () => {
+      const result = await key_pressLogic(
+        { simulatorId: '12345678-1234-4234-8234-123456789012', key: 'shift+tab' },
+        createMockExecutor({ success: false, error: "Unexpected argument 'key-combo'" }),
+        axeHelpers,
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: "Error: Failed to simulate key press (code: 43, modifiers: 225): axe command 'key-combo' failed.\nDetails: Unexpected argument 'key-combo'\nShortcuts are sent with AXe's key-combo command, which holds the modifiers down while the key is pressed and releases them afterwards. If AXe does not recognize key-combo, update the bundled AXe.",
+          },
+        ],
+        isError: true,
+      });
+    });
+
+    it('should reject a duration for shortcuts', async () => {
+      const result = await keyPressPlugin.handler({
+        simulatorId: '12345678-1234-4234-8234-123456789012',
+        key: 'cmd+a',
+        duration: 1,
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('duration: duration does not apply to shortcuts.');
+    });
+  });
+
   describe('Handler Behavior (Complete Literal Returns)', () => {
     // Note: Parameter validation is now handled by Zod schema validation in createTypedTool wrapper.
     // The key_pressLogic function expects valid parameters and focuses on business logic testing.
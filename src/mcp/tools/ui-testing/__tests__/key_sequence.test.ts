@@ -20,7 +20,7 @@ describe('Key Sequence Plugin', () => {
 
     it('should have correct description', () => {
       expect(keySequencePlugin.description).toBe(
-        'Press key sequence using HID keycodes on iOS simulator with configurable delay',
+        'Press a sequence of keys or shortcuts on iOS simulator by name (keys: ["tab","arrowDown","return"] or ["cmd+a","backspace"]) or HID keycode (keyCodes) with configurable delay',
       );
     });
 
@@ -45,7 +45,9 @@ describe('Key Sequence Plugin', () => {
       expect(withSimId.success).toBe(true);
       expect('simulatorId' in (withSimId.data as any)).toBe(false);
 
-      expect(schema.safeParse({}).success).toBe(false);
+      expect(schema.safeParse({ keys: ['tab', 'arrowDown', 'return'] }).success).toBe(true);
+      expect(schema.safeParse({ keys: [] }).success).toBe(false);
+      expect(schema.safeParse({ keys: ['arrowSideways'] }).success).toBe(false);
     });
   });
 
@@ -260,6 +262,109 @@ describe('Key Sequence Plugin', () => {
     });
   });
 
+  describe('Named Keys', () => {
+    const axeHelpers = {
+      getAxePath: () => '/usr/local/bin/axe',
+      getBundledAxeEnvironment: () => ({}),
+      createAxeNotAvailableResponse: () => ({
+        content: [{ type: 'text' as const, text: 'AXe not available' }],
+        isError: true,
+      }),
+    };
+
+    it('should translate key names to HID keycodes', async () => {
+      let capturedCommand: string[] = [];
+      const executor = createMockExecutor({ success: true, output: '' });
+
+      const result = await key_sequenceLogic(
+        {
+          simulatorId: '12345678-1234-4234-8234-123456789012',
+          keys: ['tab', 'ArrowDown', 'return'],
+        },
+        async (command, ...rest) => {
+          capturedCommand = command;
+          return executor(command, ...rest);
+        },
+        axeHelpers,
+      );
+
+      expect(capturedCommand).toEqual([
+        '/usr/local/bin/axe',
+        'key-sequence',
+        '--keycodes',
+        '43,81,40',
+        '--udid',
+        '12345678-1234-4234-8234-123456789012',
+      ]);
+      expect(result.isError).toBe(false);
+    });
+
+    it('should send shortcuts with key-combo between runs of single keys', async () => {
+      const commands: string[][] = [];
+      const executor = createMockExecutor({ success: true, output: '' });
+
+      const result = await key_sequenceLogic(
+        {
+          simulatorId: '12345678-1234-4234-8234-123456789012',
+          keys: ['tab', 'arrowDown', 'shift+tab', 'cmd+a', 'backspace'],
+        },
+        async (command, ...rest) => {
+          commands.push(command);
+          return executor(command, ...rest);
+        },
+        axeHelpers,
+      );
+
+      expect(commands).toEqual([
+        [
+          '/usr/local/bin/axe',
+          'key-sequence',
+          '--keycodes',
+          '43,81',
+          '--udid',
+          '12345678-1234-4234-8234-123456789012',
+        ],
+        [
+          '/usr/local/bin/axe',
+          'key-combo',
+          '--modifiers',
+          '225',
+          '--key',
+          '43',
+          '--udid',
+          '12345678-1234-4234-8234-123456789012',
+        ],
+        [
+          '/usr/local/bin/axe',
+          'key-combo',
+          '--modifiers',
+          '227',
+          '--key',
+          '4',
+          '--udid',
+          '12345678-1234-4234-8234-123456789012',
+        ],
+        [
+          '/usr/local/bin/axe',
+          'key-sequence',
+          '--keycodes',
+          '42',
+          '--udid',
+          '12345678-1234-4234-8234-123456789012',
+        ],
+      ]);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Key sequence [43,81,225+43,227+4,42] executed successfully.',
+          },
+        ],
+        isError: false,
+      });
+    });
+  });
+
   describe('Handler Behavior (Complete Literal Returns)', () => {
     it('should surface session default requirement when simulatorId is missing', async () => {
       const result = await keySequencePlugin.handler({ keyCodes: [40] });
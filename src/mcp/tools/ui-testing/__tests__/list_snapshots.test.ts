@@ -0,0 +1,84 @@
+/**
+ * Tests for list_snapshots tool plugin
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as z from 'zod';
+import { createInMemoryFileSystemExecutor } from '../../../../test-utils/mock-executors.ts';
+import listSnapshotsPlugin, { list_snapshotsLogic } from '../list_snapshots.ts';
+
+const files = new Map([
+  ['/work/App/__snapshots__/iPhone-16-Pro/light/home.png', 'png'],
+  ['/work/App/__snapshots__/iPhone-16-Pro/dark/home.png', 'png'],
+  ['/work/App/__snapshots__/iPad-Air/light/settings.png', 'png'],
+]);
+
+describe('list_snapshots plugin', () => {
+  describe('Export Field Validation (Literal)', () => {
+    it('should have correct name and description', () => {
+      expect(listSnapshotsPlugin.name).toBe('list_snapshots');
+      expect(listSnapshotsPlugin.description).toBe(
+        'Lists baselines recorded with record_snapshot, optionally filtered by name, simulator model or appearance.',
+      );
+    });
+
+    it('should validate schema fields with safeParse', () => {
+      const schema = z.object(listSnapshotsPlugin.schema);
+
+      expect(schema.safeParse({}).success).toBe(true);
+      expect(schema.safeParse({ appearance: 'dark', model: 'iPhone-16-Pro' }).success).toBe(true);
+      expect(schema.safeParse({ appearance: 'sepia' }).success).toBe(false);
+    });
+  });
+
+  describe('Handler Behavior (Complete Literal Returns)', () => {
+    it('should list baselines in the project snapshot directory', async () => {
+      const result = await list_snapshotsLogic(
+        { projectPath: '/work/App/App.xcodeproj', name: 'home' },
+        createInMemoryFileSystemExecutor(files),
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                root: '/work/App/__snapshots__',
+                snapshots: [
+                  {
+                    name: 'home',
+                    model: 'iPhone-16-Pro',
+                    appearance: 'dark',
+                    path: '/work/App/__snapshots__/iPhone-16-Pro/dark/home.png',
+                  },
+                  {
+                    name: 'home',
+                    model: 'iPhone-16-Pro',
+                    appearance: 'light',
+                    path: '/work/App/__snapshots__/iPhone-16-Pro/light/home.png',
+                  },
+                ],
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+        isError: false,
+      });
+    });
+
+    it('should return an empty list when nothing was recorded', async () => {
+      const result = await list_snapshotsLogic(
+        { snapshotDir: '/empty' },
+        createInMemoryFileSystemExecutor(),
+      );
+
+      expect(JSON.parse(result.content[0].text as string)).toEqual({
+        root: '/empty',
+        snapshots: [],
+      });
+    });
+  });
+});
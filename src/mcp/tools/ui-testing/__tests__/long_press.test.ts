@@ -4,7 +4,10 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import * as z from 'zod';
-import { createMockExecutor } from '../../../../test-utils/mock-executors.ts';
+import {
+  createCommandMatchingMockExecutor,
+  createMockExecutor,
+} from '../../../../test-utils/mock-executors.ts';
 import { sessionStore } from '../../../../utils/session-store.ts';
 import longPressPlugin, { long_pressLogic } from '../long_press.ts';
 
@@ -20,7 +23,7 @@ describe('Long Press Plugin', () => {
 
     it('should have correct description', () => {
       expect(longPressPlugin.description).toBe(
-        "Long press at specific coordinates for given duration (ms). Use describe_ui for precise coordinates (don't guess from screenshots).",
+        "Long press at specific coordinates or on an element found by selector for given duration (ms). Use describe_ui for precise coordinates (don't guess from screenshots).",
       );
     });
 
@@ -533,4 +536,81 @@ describe('Long Press Plugin', () => {
       });
     });
   });
+
+  describe('Selector targeting', () => {
+    const hierarchy = JSON.stringify([
+      {
+        type: 'Application',
+        frame: { x: 0, y: 0, width: 390, height: 844 },
+        children: [
+          {
+            type: 'TextField',
+            AXLabel: 'Email',
+            AXUniqueId: 'email-field',
+            frame: { x: 20, y: 100, width: 350, height: 44 },
+          },
+          {
+            type: 'Table',
+            AXUniqueId: 'list',
+            frame: { x: 0, y: 200, width: 390, height: 600 },
+          },
+        ],
+      },
+    ]);
+    const axeHelpers = {
+      getAxePath: () => '/usr/local/bin/axe',
+      getBundledAxeEnvironment: () => ({}),
+      createAxeNotAvailableResponse: () => ({
+        content: [{ type: 'text' as const, text: 'AXe not available' }],
+        isError: true,
+      }),
+    };
+
+    function createTrackingExecutor(calls: string[][]) {
+      const executor = createCommandMatchingMockExecutor({
+        'describe-ui': { output: hierarchy },
+        '/usr/local/bin/axe': { output: '' },
+      });
+      return async (...args: Parameters<typeof executor>) => {
+        calls.push(args[0]);
+        return executor(...args);
+      };
+    }
+
+    it('should long press the center of the resolved element', async () => {
+      const calls: string[][] = [];
+      const result = await long_pressLogic(
+        {
+          simulatorId: '12345678-1234-4234-8234-123456789012',
+          selector: { role: 'TextField', label: 'Email' },
+          duration: 1000,
+        },
+        createTrackingExecutor(calls),
+        axeHelpers,
+      );
+
+      expect(calls[1]).toEqual([
+        '/usr/local/bin/axe',
+        'touch',
+        '-x',
+        '195',
+        '-y',
+        '122',
+        '--down',
+        '--up',
+        '--delay',
+        '1',
+        '--udid',
+        '12345678-1234-4234-8234-123456789012',
+      ]);
+      expect(result.content[0].text).toBe(
+        'Long press on element role=TextField label="Email" at (195, 122) for 1000ms simulated successfully.',
+      );
+    });
+
+    it('should accept a selector in place of coordinates', () => {
+      const schema = z.object(longPressPlugin.schema);
+      expect(schema.safeParse({ selector: { id: 'list' }, duration: 500 }).success).toBe(true);
+    });
+  });
 });
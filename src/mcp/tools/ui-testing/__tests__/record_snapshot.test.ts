@@ -0,0 +1,178 @@
+/**
+ * Tests for record_snapshot tool plugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as z from 'zod';
+import {
+  createCommandMatchingMockExecutor,
+  createInMemoryFileSystemExecutor,
+} from '../../../../test-utils/mock-executors.ts';
+import { createTestPngBase64 } from '../../../../test-utils/image-fixtures.ts';
+import { sessionStore } from '../../../../utils/session-store.ts';
+import recordSnapshotPlugin, { record_snapshotLogic } from '../record_snapshot.ts';
+
+const simulatorId = '12345678-1234-4234-8234-123456789012';
+const capturePath = '/tmp/screenshot_capture.png';
+const baselinePath = '/work/App/__snapshots__/iPhone-16-Pro/light/home.png';
+const pathUtils = { tmpdir: () => '/tmp', join: (...paths: string[]) => paths.join('/') };
+const uuidUtils = { v4: () => 'capture' };
+
+function createSimctlExecutor(appearance = 'light', captureSucceeds = true) {
+  return createCommandMatchingMockExecutor({
+    'simctl list': {
+      output: JSON.stringify({
+        devices: {
+          ios: [
+            {
+              udid: simulatorId,
+              name: 'My Phone',
+              deviceTypeIdentifier: 'com.apple.CoreSimulator.SimDeviceType.iPhone-16-Pro',
+            },
+          ],
+        },
+      }),
+    },
+    'simctl ui': { output: appearance },
+    'simctl io': captureSucceeds
+      ? { output: '' }
+      : { success: false, error: 'Simulator not booted' },
+  });
+}
+
+describe('record_snapshot plugin', () => {
+  beforeEach(() => {
+    sessionStore.clear();
+  });
+
+  describe('Export Field Validation (Literal)', () => {
+    it('should have correct name and description', () => {
+      expect(recordSnapshotPlugin.name).toBe('record_snapshot');
+      expect(recordSnapshotPlugin.description).toBe(
+        'Records the current simulator screen as a named baseline, keyed by simulator model and appearance (light/dark). Use verify_snapshot to compare against it later.',
+      );
+    });
+
+    it('should expose name, overwrite and snapshotDir only', () => {
+      const schema = z.object(recordSnapshotPlugin.schema);
+
+      expect(Object.keys(recordSnapshotPlugin.schema).sort()).toEqual([
+        'name',
+        'overwrite',
+        'snapshotDir',
+      ]);
+      expect(schema.safeParse({ name: 'home', overwrite: true }).success).toBe(true);
+      expect(schema.safeParse({ name: '' }).success).toBe(false);
+      expect(schema.safeParse({ name: 'login screen' }).success).toBe(false);
+      expect(schema.safeParse({ name: 'login/screen' }).success).toBe(false);
+    });
+  });
+
+  describe('Handler Behavior (Complete Literal Returns)', () => {
+    it('should save the full-resolution capture under the snapshot key', async () => {
+      const capture = createTestPngBase64(30, 60);
+      const files = new Map([[capturePath, capture]]);
+
+      const result = await record_snapshotLogic(
+        { simulatorId, name: 'home', projectPath: '/work/App/App.xcodeproj' },
+        createSimctlExecutor(),
+        createInMemoryFileSystemExecutor(files),
+        pathUtils,
+        uuidUtils,
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: `Recorded baseline:\n${JSON.stringify(
+              {
+                name: 'home',
+                model: 'iPhone-16-Pro',
+                appearance: 'light',
+                path: baselinePath,
+                width: 30,
+                height: 60,
+              },
+              null,
+              2,
+            )}`,
+          },
+        ],
+        isError: false,
+      });
+      expect(files.get(baselinePath)).toBe(capture);
+      expect(files.has(capturePath)).toBe(false);
+    });
+
+    it('should refuse to replace an existing baseline unless overwrite is set', async () => {
+      const files = new Map([
+        [baselinePath, 'old'],
+        [capturePath, createTestPngBase64(30, 60)],
+      ]);
+      const params = { simulatorId, name: 'home', projectPath: '/work/App/App.xcodeproj' };
+
+      const refused = await record_snapshotLogic(
+        params,
+        createSimctlExecutor(),
+        createInMemoryFileSystemExecutor(files),
+        pathUtils,
+        uuidUtils,
+      );
+      expect(refused).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: `Error: Baseline 'home' already exists for iPhone-16-Pro (light): ${baselinePath}\nDetails: Pass overwrite: true to replace it.`,
+          },
+        ],
+        isError: true,
+      });
+      expect(files.get(baselinePath)).toBe('old');
+
+      const replaced = await record_snapshotLogic(
+        { ...params, overwrite: true },
+        createSimctlExecutor(),
+        createInMemoryFileSystemExecutor(files),
+        pathUtils,
+        uuidUtils,
+      );
+      expect(replaced.isError).toBe(false);
+      expect(files.get(baselinePath)).not.toBe('old');
+    });
+
+    it('should key dark mode baselines separately', async () => {
+      const files = new Map([[capturePath, createTestPngBase64(30, 60)]]);
+
+      await record_snapshotLogic(
+        { simulatorId, name: 'home', snapshotDir: '/snaps' },
+        createSimctlExecutor('dark'),
+        createInMemoryFileSystemExecutor(files),
+        pathUtils,
+        uuidUtils,
+      );
+
+      expect(files.has('/snaps/iPhone-16-Pro/dark/home.png')).toBe(true);
+    });
+
+    it('should return an error when the capture fails', async () => {
+      const result = await record_snapshotLogic(
+        { simulatorId, name: 'home', snapshotDir: '/snaps' },
+        createSimctlExecutor('light', false),
+        createInMemoryFileSystemExecutor(),
+        pathUtils,
+        uuidUtils,
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Error: System error recording snapshot: Failed to capture screenshot: Simulator not booted',
+          },
+        ],
+        isError: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Tests for run_ui_script plugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as z from 'zod';
+import { createCommandMatchingMockExecutor } from '../../../../test-utils/mock-executors.ts';
+import type { CommandExecutor } from '../../../../utils/execution/index.ts';
+import { sessionStore } from '../../../../utils/session-store.ts';
+import { uiStateStore } from '../../../../utils/ui-state-store.ts';
+import runUiScriptPlugin, { run_ui_scriptLogic } from '../run_ui_script.ts';
+
+const simulatorId = '12345678-1234-4234-8234-123456789012';
+
+const loginScreen = JSON.stringify([
+  {
+    type: 'Application',
+    AXLabel: 'Demo',
+    frame: { x: 0, y: 0, width: 390, height: 844 },
+    children: [
+      {
+        type: 'TextField',
+        AXLabel: 'Email',
+        AXUniqueId: 'email-field',
+        frame: { x: 20, y: 100, width: 350, height: 44 },
+      },
+      {
+        type: 'Button',
+        AXLabel: 'Sign In',
+        AXUniqueId: 'sign-in',
+        frame: { x: 20, y: 200, width: 350, height: 44 },
+      },
+    ],
+  },
+]);
+
+const axeHelpers = {
+  getAxePath: () => '/usr/local/bin/axe',
+  getBundledAxeEnvironment: () => ({}),
+  createAxeNotAvailableResponse: () => ({
+    content: [{ type: 'text' as const, text: 'AXe not available' }],
+    isError: true,
+  }),
+};
+
+function createTrackingExecutor(calls: string[][]): CommandExecutor {
+  const executor = createCommandMatchingMockExecutor({
+    'describe-ui': { output: loginScreen },
+    'axe tap': { output: '' },
+    'axe type': { output: '' },
+    'axe key': { output: '' },
+  });
+  return async (command, ...rest) => {
+    calls.push(command);
+    return executor(command, ...rest);
+  };
+}
+
+describe('Run UI Script Plugin', () => {
+  beforeEach(() => {
+    sessionStore.clear();
+    uiStateStore.clear();
+  });
+
+  describe('Export Field Validation (Literal)', () => {
+    it('should have correct name and description', () => {
+      expect(runUiScriptPlugin.name).toBe('run_ui_script');
+      expect(runUiScriptPlugin.description).toBe(
+        'Runs an ordered list of UI steps (tap, type_text, swipe, gesture, key_press, wait_for, assert, screenshot) on one simulator in a single call. Each step takes the parameters of the matching tool plus "action". Stops at the first failing step and returns a per-step report with any screenshots attached.',
+      );
+    });
+
+    it('should validate step shapes', () => {
+      const schema = z.object(runUiScriptPlugin.schema);
+
+      expect(
+        schema.safeParse({
+          steps: [
+            { action: 'tap', selector: { id: 'email-field' } },
+            { action: 'type_text', text: 'me@example.com' },
+            { action: 'key_press', keyCode: 40 },
+            { action: 'wait_for', selector: { label: 'Welcome' } },
+            { action: 'screenshot', maxDimension: 512 },
+          ],
+        }).success,
+      ).toBe(true);
+      expect(schema.safeParse({ steps: [] }).success).toBe(false);
+      expect(schema.safeParse({ steps: [{ action: 'launch' }] }).success).toBe(false);
+      expect(schema.safeParse({ steps: [{ action: 'type_text' }] }).success).toBe(false);
+    });
+
+    it('should reject invalid steps before running any of them', async () => {
+      sessionStore.setDefaults({ simulatorId });
+
+      const result = await runUiScriptPlugin.handler({
+        steps: [
+          { action: 'key_press', keyCode: 40 },
+          { action: 'tap', x: 100 },
+        ],
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        'steps.1.y: Y coordinate is required when x is provided.',
+      );
+    });
+  });
+
+  describe('Handler Behavior (Complete Literal Returns)', () => {
+    it('should run all steps in order and report each one', async () => {
+      const calls: string[][] = [];
+      const result = await run_ui_scriptLogic(
+        {
+          simulatorId,
+          steps: [
+            { action: 'tap', selector: { id: 'email-field' } },
+            { action: 'type_text', text: 'me@example.com' },
+            { action: 'key_press', keyCode: 40 },
+            {
+              action: 'assert',
+              assertions: [{ selector: { id: 'sign-in' }, condition: 'enabled' }],
+            },
+          ],
+        },
+        createTrackingExecutor(calls),
+        { axeHelpers },
+      );
+
+      expect(calls.map((command) => command[1])).toEqual([
+        'describe-ui',
+        'tap',
+        'type',
+        'key',
+        'describe-ui',
+      ]);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text:
+              'UI script completed: all 4 steps passed.\n\n' +
+              '1. tap passed: Tap on element id="email-field" at (195, 122) simulated successfully.\n' +
+              '2. type_text passed: Text typing simulated successfully.\n' +
+              '3. key_press passed: Key press (code: 40) simulated successfully.\n' +
+              '4. assert passed: Assertion passed.\n' +
+              '   ```json\n' +
+              '   {\n' +
+              '     "passed": true,\n' +
+              '     "results": [\n' +
+              '       {\n' +
+              '         "condition": "enabled",\n' +
+              '         "selector": "id=\\"sign-in\\"",\n' +
+              '         "passed": true,\n' +
+              '         "message": "Element id=\\"sign-in\\" is enabled."\n' +
+              '       }\n' +
+              '     ]\n' +
+              '   }\n' +
+              '   ```',
+          },
+        ],
+        isError: false,
+      });
+    });
+
+    it('should stop at the first failing step and skip the rest', async () => {
+      const calls: string[][] = [];
+      const result = await run_ui_scriptLogic(
+        {
+          simulatorId,
+          steps: [
+            {
+              action: 'assert',
+              assertions: [{ selector: { label: 'Welcome' }, condition: 'exists' }],
+            },
+            { action: 'tap', selector: { id: 'sign-in' } },
+            { action: 'key_press', keyCode: 40 },
+          ],
+        },
+        createTrackingExecutor(calls),
+        { axeHelpers },
+      );
+
+      expect(calls).toHaveLength(1);
+      expect(result.isError).toBe(true);
+      const text = result.content[0].text as string;
+      expect(text).toMatch(
+        /^UI script stopped at step 1 of 3 \(assert\)\.\n\n1\. assert failed: Assertion failed\.\n/,
+      );
+      expect(text).toContain('"message": "No element matches label=\\"Welcome\\"."');
+      expect(text).toMatch(/\n2\. tap skipped\n3\. key_press skipped$/);
+    });
+
+    it('should include multi-line step output in the report', async () => {
+      const result = await run_ui_scriptLogic(
+        {
+          simulatorId,
+          steps: [
+            { action: 'tap', x: 100, y: 200 },
+            {
+              action: 'assert',
+              assertions: [{ selector: { id: 'email-field' }, condition: 'absent' }],
+            },
+          ],
+        },
+        createTrackingExecutor([]),
+        { axeHelpers },
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        '1. tap passed: Tap at (100, 200) simulated successfully.\n' +
+          '\n' +
+          '   Warning: describe_ui has not been called yet.',
+      );
+      expect(result.content[0].text).toContain('2. assert failed: Assertion failed.');
+      expect(result.content[0].text).toContain(
+        '"message": "Found 1 element matching id=\\"email-field\\"."',
+      );
+    });
+
+    it('should wait for elements with the injected clock', async () => {
+      let clock = 0;
+      const result = await run_ui_scriptLogic(
+        {
+          simulatorId,
+          steps: [
+            { action: 'wait_for', selector: { id: 'sign-in' }, condition: 'disappear', timeout: 1 },
+          ],
+        },
+        createTrackingExecutor([]),
+        {
+          axeHelpers,
+          waitOptions: {
+            now: () => clock,
+            sleep: async (ms) => {
+              clock += ms;
+            },
+          },
+        },
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        '1. wait_for failed: Error: Timed out after 1s waiting for element id="sign-in" to disappear.',
+      );
+    });
+
+    it('should report a missing AXe binary as a failed step', async () => {
+      const result = await run_ui_scriptLogic(
+        { simulatorId, steps: [{ action: 'key_press', keyCode: 40 }] },
+        createTrackingExecutor([]),
+        { axeHelpers: { ...axeHelpers, getAxePath: () => null } },
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'UI script stopped at step 1 of 1 (key_press).\n\n1. key_press failed: AXe not available',
+          },
+        ],
+        isError: true,
+      });
+    });
+  });
+});
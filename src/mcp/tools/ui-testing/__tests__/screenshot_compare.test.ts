@@ -0,0 +1,228 @@
+/**
+ * Tests for screenshot_compare tool plugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as z from 'zod';
+import {
+  createMockExecutor,
+  createMockFileSystemExecutor,
+  createNoopExecutor,
+} from '../../../../test-utils/mock-executors.ts';
+import { createTestPngBase64 } from '../../../../test-utils/image-fixtures.ts';
+import type { FixturePixel } from '../../../../test-utils/image-fixtures.ts';
+import { getDefaultImageProcessor } from '../../../../utils/image/index.ts';
+import { sessionStore } from '../../../../utils/session-store.ts';
+import screenshotComparePlugin, { screenshot_compareLogic } from '../screenshot_compare.ts';
+
+const simulatorId = '12345678-1234-4234-8234-123456789012';
+const baselinePath = '/baselines/home.png';
+const white = (): FixturePixel => [255, 255, 255, 255];
+const withBlackSquare = (x: number, y: number): FixturePixel =>
+  x >= 10 && x < 20 && y >= 30 && y < 40 ? [0, 0, 0, 255] : [255, 255, 255, 255];
+
+function createFileSystem(files: Record<string, string>) {
+  return createMockFileSystemExecutor({
+    existsSync: (filePath) => filePath in files,
+    readFile: async (filePath) => {
+      if (filePath in files) return files[filePath];
+      if (filePath.endsWith('.png')) return files.capture;
+      throw new Error(`ENOENT: ${filePath}`);
+    },
+  });
+}
+
+describe('screenshot_compare plugin', () => {
+  beforeEach(() => {
+    sessionStore.clear();
+  });
+
+  describe('Export Field Validation (Literal)', () => {
+    it('should have correct name and description', () => {
+      expect(screenshotComparePlugin.name).toBe('screenshot_compare');
+      expect(screenshotComparePlugin.description).toBe(
+        'Captures a screenshot and compares it pixel-by-pixel with a baseline image. Returns the mismatch percentage, changed regions and a diff image with changes highlighted in red.',
+      );
+    });
+
+    it('should validate schema fields with safeParse', () => {
+      const schema = z.object(screenshotComparePlugin.schema);
+
+      expect(schema.safeParse({ baselinePath }).success).toBe(true);
+      expect(
+        schema.safeParse({
+          baselinePath,
+          threshold: 0.2,
+          failureThreshold: 1.5,
+          ignoreRegions: [{ x: 0, y: 0, width: 100, height: 20 }],
+        }).success,
+      ).toBe(true);
+      expect(schema.safeParse({}).success).toBe(false);
+      expect(schema.safeParse({ baselinePath, threshold: 2 }).success).toBe(false);
+      expect(schema.safeParse({ baselinePath, failureThreshold: -1 }).success).toBe(false);
+      expect(
+        schema.safeParse({ baselinePath, ignoreRegions: [{ x: 0, y: 0, width: 0, height: 1 }] })
+          .success,
+      ).toBe(false);
+    });
+  });
+
+  describe('Handler Behavior (Complete Literal Returns)', () => {
+    it('should require simulatorId session default when not provided', async () => {
+      const result = await screenshotComparePlugin.handler({ baselinePath });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('simulatorId is required');
+    });
+
+    it('should pass when the capture matches the baseline', async () => {
+      const png = createTestPngBase64(50, 60, white);
+
+      const result = await screenshot_compareLogic(
+        { simulatorId, baselinePath },
+        createMockExecutor({ success: true }),
+        createFileSystem({ [baselinePath]: png, capture: png }),
+      );
+
+      expect(result.isError).toBe(false);
+      expect(result.content[0]).toEqual({
+        type: 'text',
+        text:
+          'Visual comparison passed: 0.00% of pixels differ (allowed 0%).\n' +
+          `Compared 3000 of 3000 pixels (50x60) against ${baselinePath}.`,
+      });
+      expect(result.content[1]).toMatchObject({ type: 'image', mimeType: 'image/png' });
+    });
+
+    it('should fail with changed regions when the capture differs', async () => {
+      const result = await screenshot_compareLogic(
+        { simulatorId, baselinePath },
+        createMockExecutor({ success: true }),
+        createFileSystem({
+          [baselinePath]: createTestPngBase64(50, 60, white),
+          capture: createTestPngBase64(50, 60, withBlackSquare),
+        }),
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe(
+        'Visual comparison failed: 3.33% of pixels differ (allowed 0%).\n' +
+          `Compared 3000 of 3000 pixels (50x60) against ${baselinePath}.\n` +
+          'Changed regions (baseline image pixels):\n' +
+          '1. x=10 y=30 width=10 height=10 (100 pixels)',
+      );
+
+      const diff = await getDefaultImageProcessor().decode(
+        Buffer.from(result.content[1].data as string, 'base64'),
+      );
+      const changed = (35 * 50 + 15) * 4;
+      expect(Array.from(diff.data.slice(changed, changed + 4))).toEqual([255, 0, 0, 255]);
+    });
+
+    it('should pass within the failure threshold and honor ignore regions', async () => {
+      const files = {
+        [baselinePath]: createTestPngBase64(50, 60, white),
+        capture: createTestPngBase64(50, 60, withBlackSquare),
+      };
+
+      const tolerant = await screenshot_compareLogic(
+        { simulatorId, baselinePath, failureThreshold: 5 },
+        createMockExecutor({ success: true }),
+        createFileSystem(files),
+      );
+      const ignored = await screenshot_compareLogic(
+        { simulatorId, baselinePath, ignoreRegions: [{ x: 0, y: 25, width: 50, height: 20 }] },
+        createMockExecutor({ success: true }),
+        createFileSystem(files),
+      );
+
+      expect(tolerant.isError).toBe(false);
+      expect(ignored.isError).toBe(false);
+      expect(ignored.content[0].text).toContain('Compared 2000 of 3000 pixels');
+    });
+
+    it('should resample captures that match the baseline aspect ratio', async () => {
+      const result = await screenshot_compareLogic(
+        { simulatorId, baselinePath },
+        createMockExecutor({ success: true }),
+        createFileSystem({
+          [baselinePath]: createTestPngBase64(50, 60, white),
+          capture: createTestPngBase64(100, 120, white),
+        }),
+      );
+
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain('(50x60)');
+    });
+
+    it('should return an error when the capture size does not match the baseline', async () => {
+      const result = await screenshot_compareLogic(
+        { simulatorId, baselinePath },
+        createMockExecutor({ success: true }),
+        createFileSystem({
+          [baselinePath]: createTestPngBase64(50, 60, white),
+          capture: createTestPngBase64(60, 50, white),
+        }),
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Error: Screenshot captured but comparison failed: Screenshot size 60x50 does not match baseline size 50x60',
+          },
+        ],
+        isError: true,
+      });
+    });
+
+    it('should return an error when the baseline does not exist', async () => {
+      const result = await screenshot_compareLogic(
+        { simulatorId, baselinePath },
+        createNoopExecutor(),
+        createFileSystem({}),
+      );
+
+      expect(result).toEqual({
+        content: [{ type: 'text', text: `Error: Baseline image not found: ${baselinePath}` }],
+        isError: true,
+      });
+    });
+
+    it('should return an error when the baseline is not an image', async () => {
+      const result = await screenshot_compareLogic(
+        { simulatorId, baselinePath },
+        createNoopExecutor(),
+        createFileSystem({ [baselinePath]: Buffer.from('not an image').toString('base64') }),
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Error: Failed to read baseline image: Unsupported image data: expected PNG or JPEG',
+          },
+        ],
+        isError: true,
+      });
+    });
+
+    it('should handle screenshot command failure', async () => {
+      const result = await screenshot_compareLogic(
+        { simulatorId, baselinePath },
+        createMockExecutor({ success: false, error: 'Simulator not found' }),
+        createFileSystem({ [baselinePath]: createTestPngBase64(50, 60, white) }),
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Error: System error executing screenshot: Failed to capture screenshot: Simulator not found',
+          },
+        ],
+        isError: true,
+      });
+    });
+  });
+});
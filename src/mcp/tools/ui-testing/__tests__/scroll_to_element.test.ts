@@ -0,0 +1,289 @@
+/**
+ * Tests for scroll_to_element plugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as z from 'zod';
+import { createMockExecutor } from '../../../../test-utils/mock-executors.ts';
+import type { CommandExecutor } from '../../../../utils/execution/index.ts';
+import { sessionStore } from '../../../../utils/session-store.ts';
+import { uiRecorder } from '../../../../utils/ui-recorder.ts';
+import { uiStateStore } from '../../../../utils/ui-state-store.ts';
+import scrollToElementPlugin, { scroll_to_elementLogic } from '../scroll_to_element.ts';
+
+const simulatorId = '12345678-1234-4234-8234-123456789012';
+
+// A table at y 100-700 with 60pt rows, scrolled by offset points
+function table(offset: number, rows = 20): string {
+  return JSON.stringify([
+    {
+      type: 'Application',
+      AXLabel: 'Settings',
+      frame: { x: 0, y: 0, width: 390, height: 844 },
+      children: [
+        {
+          type: 'Table',
+          AXUniqueId: 'list',
+          frame: { x: 0, y: 100, width: 390, height: 600 },
+          children: Array.from({ length: rows }, (_, row) => ({
+            type: 'Cell',
+            AXLabel: `Row ${row}`,
+            frame: { x: 0, y: 100 + row * 60 - offset, width: 390, height: 60 },
+          })).filter((cell) => cell.frame.y + 60 > 0 && cell.frame.y < 844),
+        },
+      ],
+    },
+  ]);
+}
+
+// describe-ui returns the snapshots in order (repeating the last); swipes succeed
+function createScrollExecutor(snapshots: string[], calls: string[][] = []): CommandExecutor {
+  return async (command, ...rest) => {
+    calls.push(command);
+    if (!command.includes('describe-ui')) {
+      return createMockExecutor({ success: true, output: '' })(command, ...rest);
+    }
+    const output = snapshots.length > 1 ? (snapshots.shift() as string) : snapshots[0];
+    return createMockExecutor({ success: true, output })(command, ...rest);
+  };
+}
+
+const axeHelpers = {
+  getAxePath: () => '/usr/local/bin/axe',
+  getBundledAxeEnvironment: () => ({}),
+  createAxeNotAvailableResponse: () => ({
+    content: [{ type: 'text' as const, text: 'AXe not available' }],
+    isError: true,
+  }),
+};
+
+const sleeps: number[] = [];
+const waitOptions = {
+  sleep: async (ms: number): Promise<void> => {
+    sleeps.push(ms);
+  },
+};
+
+describe('Scroll To Element Plugin', () => {
+  beforeEach(() => {
+    sessionStore.clear();
+    uiStateStore.clear();
+    uiRecorder.clear();
+    sleeps.length = 0;
+  });
+
+  describe('Export Field Validation (Literal)', () => {
+    it('should have correct name and description', () => {
+      expect(scrollToElementPlugin.name).toBe('scroll_to_element');
+      expect(scrollToElementPlugin.description).toBe(
+        'Scrolls a container (or the screen) in one direction until an element matching a selector is fully visible, taking an accessibility snapshot between swipes. Stops after maxSwipes or when swiping no longer changes the content. Returns the final element frame.',
+      );
+    });
+
+    it('should validate schema fields', () => {
+      const schema = z.object(scrollToElementPlugin.schema);
+
+      expect(schema.safeParse({ selector: { label: 'Row 15' } }).success).toBe(true);
+      expect(
+        schema.safeParse({
+          selector: { label: 'Row 15' },
+          direction: 'up',
+          container: { id: 'list' },
+          maxSwipes: 5,
+        }).success,
+      ).toBe(true);
+      expect(schema.safeParse({ selector: {} }).success).toBe(false);
+      expect(schema.safeParse({ selector: { label: 'x' }, direction: 'sideways' }).success).toBe(
+        false,
+      );
+      expect(schema.safeParse({ selector: { label: 'x' }, maxSwipes: 51 }).success).toBe(false);
+    });
+  });
+
+  describe('Handler Behavior (Complete Literal Returns)', () => {
+    it('should return immediately when the element is already visible', async () => {
+      const calls: string[][] = [];
+      const result = await scroll_to_elementLogic(
+        { simulatorId, selector: { label: 'Row 2' } },
+        createScrollExecutor([table(0)], calls),
+        axeHelpers,
+        waitOptions,
+      );
+
+      expect(calls).toHaveLength(1);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: `Element label="Row 2" is fully visible after 0 swipes.\n${JSON.stringify(
+              {
+                role: 'Cell',
+                label: 'Row 2',
+                enabled: true,
+                frame: { x: 0, y: 220, width: 390, height: 60 },
+                center: { x: 195, y: 250 },
+              },
+              null,
+              2,
+            )}`,
+          },
+        ],
+        isError: false,
+      });
+      expect(uiStateStore.getCurrent(simulatorId)).toBeDefined();
+    });
+
+    it('should swipe within the container until the element is fully inside it', async () => {
+      const calls: string[][] = [];
+      const result = await scroll_to_elementLogic(
+        { simulatorId, selector: { label: 'Row 15' }, container: { id: 'list' } },
+        createScrollExecutor([table(0), table(300), table(400)], calls),
+        axeHelpers,
+        waitOptions,
+      );
+
+      expect(calls.filter((command) => command[1] === 'swipe')).toEqual([
+        [
+          '/usr/local/bin/axe',
+          'swipe',
+          '--start-x',
+          '195',
+          '--start-y',
+          '550',
+          '--end-x',
+          '195',
+          '--end-y',
+          '250',
+          '--duration',
+          '0.5',
+          '--udid',
+          simulatorId,
+        ],
+        // Row 15 is in the hierarchy but cut off at the bottom: swipe just far enough
+        [
+          '/usr/local/bin/axe',
+          'swipe',
+          '--start-x',
+          '195',
+          '--start-y',
+          '434',
+          '--end-x',
+          '195',
+          '--end-y',
+          '366',
+          '--duration',
+          '0.5',
+          '--udid',
+          simulatorId,
+        ],
+      ]);
+      expect(sleeps).toEqual([500, 500]);
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain(
+        'Element label="Row 15" is fully visible after 2 swipes.',
+      );
+      expect(result.content[0].text).toContain('"y": 600');
+      expect(uiRecorder.getSteps(simulatorId).map((step) => step.action)).toEqual([
+        'swipe',
+        'swipe',
+      ]);
+    });
+
+    it('should stop when swiping no longer changes the content', async () => {
+      const calls: string[][] = [];
+      const result = await scroll_to_elementLogic(
+        { simulatorId, selector: { label: 'Advanced' } },
+        createScrollExecutor([table(0, 8), table(0, 8)], calls),
+        axeHelpers,
+        waitOptions,
+      );
+
+      expect(calls.filter((command) => command[1] === 'swipe')).toHaveLength(1);
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        'Error: Element label="Advanced" not fully visible: scrolling down stopped changing the content after 1 swipes. No element matched.',
+      );
+    });
+
+    it('should stop after maxSwipes', async () => {
+      const result = await scroll_to_elementLogic(
+        {
+          simulatorId,
+          selector: { label: 'Row 13' },
+          container: { id: 'list' },
+          direction: 'down',
+          maxSwipes: 1,
+        },
+        createScrollExecutor([table(0), table(120)]),
+        axeHelpers,
+        waitOptions,
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        'Error: Element label="Row 13" not fully visible after 1 swipes. Last match: Cell "Row 13" (0,760 390x60).',
+      );
+    });
+
+    it('should report a missing container', async () => {
+      const result = await scroll_to_elementLogic(
+        { simulatorId, selector: { label: 'Row 1' }, container: { id: 'grid' } },
+        createScrollExecutor([table(0)]),
+        axeHelpers,
+        waitOptions,
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Error: No container matching id="grid" found.');
+    });
+
+    it('should not swipe when the screen frame is unknown', async () => {
+      const calls: string[][] = [];
+      const result = await scroll_to_elementLogic(
+        { simulatorId, selector: { label: 'Row 1' } },
+        createScrollExecutor(['[]'], calls),
+        axeHelpers,
+        waitOptions,
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        'Error: Unable to determine the screen frame from the accessibility hierarchy.',
+      );
+      expect(calls.filter((command) => command.includes('swipe'))).toEqual([]);
+    });
+
+    it('should handle DependencyError when axe is not available', async () => {
+      const result = await scroll_to_elementLogic(
+        { simulatorId, selector: { label: 'Row 1' } },
+        createScrollExecutor([table(0)]),
+        { ...axeHelpers, getAxePath: () => null },
+        waitOptions,
+      );
+
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'AXe not available' }],
+        isError: true,
+      });
+    });
+
+    it('should handle AxeError from describe-ui', async () => {
+      const result = await scroll_to_elementLogic(
+        { simulatorId, selector: { label: 'Row 1' } },
+        createMockExecutor({ success: false, error: 'Simulator not booted' }),
+        axeHelpers,
+        waitOptions,
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: "Error: Failed to scroll to element: axe command 'describe-ui' failed.\nDetails: Simulator not booted",
+          },
+        ],
+        isError: true,
+      });
+    });
+  });
+});
@@ -4,7 +4,11 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import * as z from 'zod';
-import { createMockExecutor, createNoopExecutor } from '../../../../test-utils/mock-executors.ts';
+import {
+  createCommandMatchingMockExecutor,
+  createMockExecutor,
+  createNoopExecutor,
+} from '../../../../test-utils/mock-executors.ts';
 import { SystemError, DependencyError } from '../../../../utils/responses/index.ts';
 import { sessionStore } from '../../../../utils/session-store.ts';
 
@@ -56,7 +60,7 @@ describe('Swipe Plugin', () => {
 
     it('should have correct description', () => {
       expect(swipePlugin.description).toBe(
-        "Swipe from one point to another. Use describe_ui for precise coordinates (don't guess from screenshots). Supports configurable timing.",
+        "Swipe from one point to another, or across an element found by selector in a direction (up/down/left/right). Use describe_ui for precise coordinates (don't guess from screenshots). Supports configurable timing.",
       );
     });
 
@@ -338,9 +342,7 @@ describe('Swipe Plugin', () => {
       expect(result.isError).toBe(true);
       expect(result.content[0].type).toBe('text');
       expect(result.content[0].text).toContain('Parameter validation failed');
-      expect(result.content[0].text).toContain(
-        'x1: Invalid input: expected number, received undefined',
-      );
+      expect(result.content[0].text).toContain('x1: x1 is required unless a selector is given.');
     });
 
     it('should return success for valid swipe execution', async () => {
@@ -559,4 +561,125 @@ describe('Swipe Plugin', () => {
       });
     });
   });
+
+  describe('Selector targeting', () => {
+    const hierarchy = JSON.stringify([
+      {
+        type: 'Application',
+        frame: { x: 0, y: 0, width: 390, height: 844 },
+        children: [
+          {
+            type: 'TextField',
+            AXLabel: 'Email',
+            AXUniqueId: 'email-field',
+            frame: { x: 20, y: 100, width: 350, height: 44 },
+          },
+          {
+            type: 'Table',
+            AXUniqueId: 'list',
+            frame: { x: 0, y: 200, width: 390, height: 600 },
+          },
+        ],
+      },
+    ]);
+    const axeHelpers = {
+      getAxePath: () => '/usr/local/bin/axe',
+      getBundledAxeEnvironment: () => ({}),
+      createAxeNotAvailableResponse: () => ({
+        content: [{ type: 'text' as const, text: 'AXe not available' }],
+        isError: true,
+      }),
+    };
+
+    function createTrackingExecutor(calls: string[][]) {
+      const executor = createCommandMatchingMockExecutor({
+        'describe-ui': { output: hierarchy },
+        '/usr/local/bin/axe': { output: '' },
+      });
+      return async (...args: Parameters<typeof executor>) => {
+        calls.push(args[0]);
+        return executor(...args);
+      };
+    }
+
+    it('should swipe across the resolved element in the given direction', async () => {
+      const calls: string[][] = [];
+      const result = await swipeLogic(
+        {
+          simulatorId: '12345678-1234-4234-8234-123456789012',
+          selector: { id: 'list' },
+          direction: 'up',
+          duration: 0.5,
+        },
+        createTrackingExecutor(calls),
+        axeHelpers,
+      );
+
+      expect(calls[1]).toEqual([
+        '/usr/local/bin/axe',
+        'swipe',
+        '--start-x',
+        '195',
+        '--start-y',
+        '680',
+        '--end-x',
+        '195',
+        '--end-y',
+        '320',
+        '--duration',
+        '0.5',
+        '--udid',
+        '12345678-1234-4234-8234-123456789012',
+      ]);
+      expect(result.content[0].text).toBe(
+        'Swipe up on element id="list" from (195, 680) to (195, 320) duration=0.5s simulated successfully.',
+      );
+    });
+
+    it('should honour an explicit distance', async () => {
+      const calls: string[][] = [];
+      await swipeLogic(
+        {
+          simulatorId: '12345678-1234-4234-8234-123456789012',
+          selector: { id: 'list' },
+          direction: 'right',
+          distance: 100,
+        },
+        createTrackingExecutor(calls),
+        axeHelpers,
+      );
+
+      expect(calls[1].slice(1, 9)).toEqual([
+        'swipe',
+        '--start-x',
+        '145',
+        '--start-y',
+        '500',
+        '--end-x',
+        '245',
+        '--end-y',
+      ]);
+    });
+
+    it('should require a direction with a selector and forbid mixing with coordinates', async () => {
+      sessionStore.setDefaults({ simulatorId: '12345678-1234-4234-8234-123456789012' });
+
+      const missingDirection = await swipePlugin.handler({ selector: { id: 'list' } });
+      expect(missingDirection.content[0].text).toContain(
+        'direction: direction is required when swiping by selector.',
+      );
+
+      const mixed = await swipePlugin.handler({
+        selector: { id: 'list' },
+        direction: 'up',
+        x1: 1,
+        y1: 2,
+        x2: 3,
+        y2: 4,
+      });
+      expect(mixed.content[0].text).toContain(
+        'selector: Provide either a selector or x1/y1/x2/y2 coordinates, not both.',
+      );
+    });
+  });
 });
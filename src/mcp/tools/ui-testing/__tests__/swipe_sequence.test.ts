@@ -0,0 +1,221 @@
+/**
+ * Tests for swipe_sequence plugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as z from 'zod';
+import { createMockExecutor, createNoopExecutor } from '../../../../test-utils/mock-executors.ts';
+import type { CommandExecutor } from '../../../../utils/execution/index.ts';
+import { sessionStore } from '../../../../utils/session-store.ts';
+import { uiRecorder } from '../../../../utils/ui-recorder.ts';
+import swipeSequencePlugin, { swipe_sequenceLogic } from '../swipe_sequence.ts';
+
+const simulatorId = '12345678-1234-4234-8234-123456789012';
+
+const axeHelpers = {
+  getAxePath: () => '/usr/local/bin/axe',
+  getBundledAxeEnvironment: () => ({}),
+  createAxeNotAvailableResponse: () => ({
+    content: [{ type: 'text' as const, text: 'AXe not available' }],
+    isError: true,
+  }),
+};
+
+function createTrackingExecutor(calls: string[][]): CommandExecutor {
+  const executor = createMockExecutor({ success: true, output: '' });
+  return async (command, ...rest) => {
+    calls.push(command);
+    return executor(command, ...rest);
+  };
+}
+
+describe('Swipe Sequence Plugin', () => {
+  beforeEach(() => {
+    sessionStore.clear();
+    uiRecorder.clear();
+  });
+
+  describe('Export Field Validation (Literal)', () => {
+    it('should have correct name and description', () => {
+      expect(swipeSequencePlugin.name).toBe('swipe_sequence');
+      expect(swipeSequencePlugin.description).toBe(
+        'Perform one straight swipe per pair of consecutive points, each with its own duration. The finger lifts between swipes (AXe has no touch-move), so this is not one continuous drag; two-finger gestures (pinch, rotate) are not supported. Use describe_ui for precise coordinates.',
+      );
+    });
+
+    it('should validate the point fields', () => {
+      const schema = z.object(swipeSequencePlugin.schema);
+
+      expect(
+        schema.safeParse({
+          points: [
+            { x: 10, y: 20 },
+            { x: 30, y: 40 },
+          ],
+        }).success,
+      ).toBe(true);
+      expect(schema.safeParse({ points: [{ x: 10, y: 20 }] }).success).toBe(false);
+      expect(
+        schema.safeParse({
+          points: [
+            { x: 10.5, y: 20 },
+            { x: 30, y: 40 },
+          ],
+        }).success,
+      ).toBe(false);
+      expect(schema.safeParse({}).success).toBe(false);
+    });
+
+    it('should not offer two-finger gestures', () => {
+      const schema = z.strictObject(swipeSequencePlugin.schema);
+
+      expect(
+        schema.safeParse({
+          points: [
+            { x: 10, y: 20 },
+            { x: 30, y: 40 },
+          ],
+          type: 'pinch',
+        }).success,
+      ).toBe(false);
+    });
+  });
+
+  describe('Handler Requirements', () => {
+    it('should require one duration per swipe', async () => {
+      const result = await swipeSequencePlugin.handler({
+        simulatorId,
+        points: [
+          { x: 10, y: 20 },
+          { x: 30, y: 40 },
+        ],
+        durations: [0.5, 0.5],
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Parameter validation failed');
+      expect(result.content[0].text).toContain(
+        'durations: durations must have one entry per swipe (1).',
+      );
+    });
+  });
+
+  describe('Handler Behavior (Complete Literal Returns)', () => {
+    it('should swipe between each pair of points with its duration', async () => {
+      const calls: string[][] = [];
+      const result = await swipe_sequenceLogic(
+        {
+          simulatorId,
+          points: [
+            { x: 100, y: 400 },
+            { x: 300, y: 400 },
+            { x: 300, y: 200 },
+          ],
+          durations: [0.1, 0.2],
+        },
+        createTrackingExecutor(calls),
+        axeHelpers,
+      );
+
+      expect(calls).toEqual([
+        [
+          '/usr/local/bin/axe',
+          'swipe',
+          '--start-x',
+          '100',
+          '--start-y',
+          '400',
+          '--end-x',
+          '300',
+          '--end-y',
+          '400',
+          '--duration',
+          '0.1',
+          '--udid',
+          simulatorId,
+        ],
+        [
+          '/usr/local/bin/axe',
+          'swipe',
+          '--start-x',
+          '300',
+          '--start-y',
+          '400',
+          '--end-x',
+          '300',
+          '--end-y',
+          '200',
+          '--duration',
+          '0.2',
+          '--udid',
+          simulatorId,
+        ],
+      ]);
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain(
+        'Swipe sequence through (100, 400) → (300, 400) → (300, 200) simulated successfully (2 swipes, 0.3s).',
+      );
+      expect(uiRecorder.getSteps(simulatorId)).toHaveLength(2);
+    });
+
+    it('should use the default swipe duration', async () => {
+      const calls: string[][] = [];
+      await swipe_sequenceLogic(
+        {
+          simulatorId,
+          points: [
+            { x: 0, y: 0 },
+            { x: 10, y: 10 },
+          ],
+        },
+        createTrackingExecutor(calls),
+        axeHelpers,
+      );
+
+      expect(calls[0].slice(-3)).toEqual(['0.3', '--udid', simulatorId]);
+    });
+
+    it('should handle AxeError from a swipe', async () => {
+      const result = await swipe_sequenceLogic(
+        {
+          simulatorId,
+          points: [
+            { x: 0, y: 0 },
+            { x: 10, y: 10 },
+          ],
+        },
+        createMockExecutor({ success: false, error: 'Simulator not booted' }),
+        axeHelpers,
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: "Error: Failed to simulate swipe sequence: axe command 'swipe' failed.\nDetails: Simulator not booted",
+          },
+        ],
+        isError: true,
+      });
+    });
+
+    it('should handle DependencyError when axe is not available', async () => {
+      const result = await swipe_sequenceLogic(
+        {
+          simulatorId,
+          points: [
+            { x: 0, y: 0 },
+            { x: 10, y: 10 },
+          ],
+        },
+        createNoopExecutor(),
+        { ...axeHelpers, getAxePath: () => null },
+      );
+
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'AXe not available' }],
+        isError: true,
+      });
+    });
+  });
+});
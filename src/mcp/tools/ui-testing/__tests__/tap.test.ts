@@ -4,8 +4,14 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import * as z from 'zod';
-import { createMockExecutor } from '../../../../test-utils/mock-executors.ts';
+import {
+  createCommandMatchingMockExecutor,
+  createMockExecutor,
+} from '../../../../test-utils/mock-executors.ts';
 import { sessionStore } from '../../../../utils/session-store.ts';
+import { uiRecorder } from '../../../../utils/ui-recorder.ts';
+import { uiStateStore } from '../../../../utils/ui-state-store.ts';
+import { describe_uiLogic } from '../describe_ui.ts';
 
 import tapPlugin, { AxeHelpers, tapLogic } from '../tap.ts';
 
@@ -46,6 +52,8 @@ function createMockAxeHelpersWithNullPath(): AxeHelpers {
 describe('Tap Plugin', () => {
   beforeEach(() => {
     sessionStore.clear();
+    uiStateStore.clear();
+    uiRecorder.clear();
   });
 
   describe('Export Field Validation (Literal)', () => {
@@ -55,7 +63,7 @@ describe('Tap Plugin', () => {
 
     it('should have correct description', () => {
       expect(tapPlugin.description).toBe(
-        "Tap at specific coordinates or target elements by accessibility id or label. Use describe_ui to get precise element coordinates prior to using x/y parameters (don't guess from screenshots). Supports optional timing delays.",
+        "Tap at specific coordinates or target elements by accessibility id, label, selector (id, label, role + index, ancestors; waits until the element is hittable) or number from an annotated screenshot. Use describe_ui to get precise element coordinates prior to using x/y parameters (don't guess from screenshots). Supports optional timing delays.",
       );
     });
 
@@ -964,4 +972,249 @@ describe('Tap Plugin', () => {
       });
     });
   });
+
+  describe('Selector targeting', () => {
+    const hierarchy = JSON.stringify([
+      {
+        type: 'Application',
+        frame: { x: 0, y: 0, width: 390, height: 844 },
+        children: [
+          {
+            type: 'TextField',
+            AXLabel: 'Email',
+            AXUniqueId: 'email-field',
+            frame: { x: 20, y: 100, width: 350, height: 44 },
+          },
+          {
+            type: 'Table',
+            AXUniqueId: 'list',
+            frame: { x: 0, y: 200, width: 390, height: 600 },
+          },
+        ],
+      },
+    ]);
+    const axeHelpers = {
+      getAxePath: () => '/usr/local/bin/axe',
+      getBundledAxeEnvironment: () => ({}),
+      createAxeNotAvailableResponse: () => ({
+        content: [{ type: 'text' as const, text: 'AXe not available' }],
+        isError: true,
+      }),
+    };
+
+    function createTrackingExecutor(calls: string[][]) {
+      const executor = createCommandMatchingMockExecutor({
+        'describe-ui': { output: hierarchy },
+        '/usr/local/bin/axe': { output: '' },
+      });
+      return async (...args: Parameters<typeof executor>) => {
+        calls.push(args[0]);
+        return executor(...args);
+      };
+    }
+
+    it('should tap the center of the resolved element', async () => {
+      const calls: string[][] = [];
+      const result = await tapLogic(
+        {
+          simulatorId: '12345678-1234-4234-8234-123456789012',
+          selector: { id: 'email-field' },
+          preDelay: 0.5,
+        },
+        createTrackingExecutor(calls),
+        axeHelpers,
+      );
+
+      expect(calls[1]).toEqual([
+        '/usr/local/bin/axe',
+        'tap',
+        '-x',
+        '195',
+        '-y',
+        '122',
+        '--pre-delay',
+        '0.5',
+        '--udid',
+        '12345678-1234-4234-8234-123456789012',
+      ]);
+      expect(result.content[0].text).toBe(
+        'Tap on element id="email-field" at (195, 122) simulated successfully.',
+      );
+    });
+
+    it('should report unresolved selectors with the hierarchy', async () => {
+      const calls: string[][] = [];
+      const result = await tapLogic(
+        {
+          simulatorId: '12345678-1234-4234-8234-123456789012',
+          selector: { label: 'Password', timeout: 0 },
+        },
+        createTrackingExecutor(calls),
+        axeHelpers,
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        'Error: No element matching label="Password" found within 0s.',
+      );
+      expect(result.content[0].text).toContain('TextField "Email" #email-field');
+      expect(calls).toHaveLength(1);
+    });
+
+    it('should reject a selector combined with coordinates', () => {
+      const schema = z.object(tapPlugin.schema);
+      expect(schema.safeParse({ selector: { role: 'Button', index: 1 } }).success).toBe(true);
+      expect(schema.safeParse({ selector: { index: 1 } }).success).toBe(false);
+    });
+  });
+
+  describe('Annotation targeting', () => {
+    const simulatorId = '12345678-1234-4234-8234-123456789012';
+    const button = {
+      role: 'AXButton',
+      type: 'Button',
+      label: 'Sign In',
+      identifier: 'login',
+      enabled: true,
+      frame: { x: 20, y: 700, width: 350, height: 44 },
+      children: [],
+    };
+    const screen = {
+      role: 'AXApplication',
+      enabled: true,
+      frame: { x: 0, y: 0, width: 390, height: 844 },
+      children: [button],
+    };
+
+    it('should tap the center of a numbered element from the last annotated screenshot', async () => {
+      uiStateStore.record(simulatorId, [screen], [button]);
+      const calls: string[][] = [];
+      const mockExecutor = createMockExecutor({ success: true, output: '' });
+      const executor = async (command: string[], ...rest: unknown[]) => {
+        calls.push(command);
+        return mockExecutor(command, ...(rest as []));
+      };
+
+      const result = await tapLogic(
+        { simulatorId, annotation: 1 },
+        executor,
+        createMockAxeHelpers(),
+      );
+
+      expect(calls).toEqual([
+        ['/mocked/axe/path', 'tap', '-x', '195', '-y', '722', '--udid', simulatorId],
+      ]);
+      expect(result.content[0].text).toBe(
+        'Tap on annotation 1 (Button "Sign In" #login (20,700 350x44)) at (195, 722) simulated successfully.',
+      );
+      expect(uiRecorder.getSteps(simulatorId)[0].element).toEqual({
+        identifier: 'login',
+        label: 'Sign In',
+        role: 'Button',
+      });
+    });
+
+    it('should reject missing, outdated and unknown annotation numbers', async () => {
+      const executor = createMockExecutor({ success: true, output: '' });
+
+      const missing = await tapLogic(
+        { simulatorId, annotation: 1 },
+        executor,
+        createMockAxeHelpers(),
+      );
+      uiStateStore.record(simulatorId, [screen], [button]);
+      const unknown = await tapLogic(
+        { simulatorId, annotation: 2 },
+        executor,
+        createMockAxeHelpers(),
+      );
+      uiStateStore.invalidate(simulatorId, 'swipe');
+      const outdated = await tapLogic(
+        { simulatorId, annotation: 1 },
+        executor,
+        createMockAxeHelpers(),
+      );
+
+      expect(missing).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Error: Cannot tap annotation 1.\nDetails: No annotated screenshot is available. Take a screenshot with annotate: true first.',
+          },
+        ],
+        isError: true,
+      });
+      expect(unknown.content[0].text).toContain(
+        'Annotation 2 does not exist; the last annotated screenshot numbered 1 elements.',
+      );
+      expect(outdated.content[0].text).toContain(
+        'Annotation numbers are outdated (swipe performed since the annotated screenshot).',
+      );
+    });
+
+    it('should reject an annotation combined with other targets', async () => {
+      sessionStore.setDefaults({ simulatorId });
+
+      const result = await tapPlugin.handler({ annotation: 1, x: 10, y: 20 });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        'annotation: Provide annotation on its own, without x/y, id, label or selector.',
+      );
+    });
+  });
+
+  describe('Shared UI state', () => {
+    const simulatorId = '12345678-1234-4234-8234-123456789012';
+    const executor = createCommandMatchingMockExecutor({
+      'describe-ui': {
+        output: JSON.stringify([
+          { type: 'Application', frame: { x: 0, y: 0, width: 390, height: 844 } },
+        ]),
+      },
+      tap: { output: '' },
+    });
+
+    it('should not warn right after describe_ui', async () => {
+      await describe_uiLogic({ simulatorId }, executor, createMockAxeHelpers());
+
+      const result = await tapLogic(
+        { simulatorId, x: 100, y: 200 },
+        executor,
+        createMockAxeHelpers(),
+      );
+
+      expect(result.content[0].text).toBe('Tap at (100, 200) simulated successfully.');
+    });
+
+    it('should warn once another interaction changed the UI', async () => {
+      await describe_uiLogic({ simulatorId }, executor, createMockAxeHelpers());
+      await tapLogic({ simulatorId, x: 100, y: 200 }, executor, createMockAxeHelpers());
+
+      const result = await tapLogic(
+        { simulatorId, x: 100, y: 300 },
+        executor,
+        createMockAxeHelpers(),
+      );
+
+      expect(result.content[0].text).toBe(
+        'Tap at (100, 300) simulated successfully.\n\nWarning: the UI may have changed since describe_ui was last called (tap performed since). Consider refreshing UI coordinates with describe_ui if the layout changed.',
+      );
+    });
+
+    it('should record taps with the element hit in the current hierarchy', async () => {
+      await describe_uiLogic({ simulatorId }, executor, createMockAxeHelpers());
+      await tapLogic({ simulatorId, x: 100, y: 200 }, executor, createMockAxeHelpers());
+      await tapLogic({ simulatorId, id: 'login' }, executor, createMockAxeHelpers());
+
+      expect(uiRecorder.getSteps(simulatorId)).toEqual([
+        { action: 'tap', point: { x: 100, y: 200 }, recordedAt: expect.any(Number) },
+        {
+          action: 'tap',
+          element: { identifier: 'login', label: undefined },
+          recordedAt: expect.any(Number),
+        },
+      ]);
+    });
+  });
 });
@@ -5,7 +5,10 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import * as z from 'zod';
-import { createMockExecutor } from '../../../../test-utils/mock-executors.ts';
+import {
+  createCommandMatchingMockExecutor,
+  createMockExecutor,
+} from '../../../../test-utils/mock-executors.ts';
 import { sessionStore } from '../../../../utils/session-store.ts';
 import touchPlugin, { touchLogic } from '../touch.ts';
 
@@ -21,7 +24,7 @@ describe('Touch Plugin', () => {
 
     it('should have correct description', () => {
       expect(touchPlugin.description).toBe(
-        "Perform touch down/up events at specific coordinates. Use describe_ui for precise coordinates (don't guess from screenshots).",
+        "Perform touch down/up events at specific coordinates or on an element found by selector. Use describe_ui for precise coordinates (don't guess from screenshots).",
       );
     });
 
@@ -110,7 +113,7 @@ describe('Touch Plugin', () => {
       expect(result.isError).toBe(true);
       const message = result.content[0].text;
       expect(message).toContain('Parameter validation failed');
-      expect(message).toContain('x: Invalid input: expected number, received undefined');
+      expect(message).toContain('x: x is required unless a selector is given.');
     });
   });
 
@@ -839,4 +842,84 @@ describe('Touch Plugin', () => {
       });
     });
   });
+
+  describe('Selector targeting', () => {
+    const hierarchy = JSON.stringify([
+      {
+        type: 'Application',
+        frame: { x: 0, y: 0, width: 390, height: 844 },
+        children: [
+          {
+            type: 'TextField',
+            AXLabel: 'Email',
+            AXUniqueId: 'email-field',
+            frame: { x: 20, y: 100, width: 350, height: 44 },
+          },
+          {
+            type: 'Table',
+            AXUniqueId: 'list',
+            frame: { x: 0, y: 200, width: 390, height: 600 },
+          },
+        ],
+      },
+    ]);
+    const axeHelpers = {
+      getAxePath: () => '/usr/local/bin/axe',
+      getBundledAxeEnvironment: () => ({}),
+      createAxeNotAvailableResponse: () => ({
+        content: [{ type: 'text' as const, text: 'AXe not available' }],
+        isError: true,
+      }),
+    };
+
+    function createTrackingExecutor(calls: string[][]) {
+      const executor = createCommandMatchingMockExecutor({
+        'describe-ui': { output: hierarchy },
+        '/usr/local/bin/axe': { output: '' },
+      });
+      return async (...args: Parameters<typeof executor>) => {
+        calls.push(args[0]);
+        return executor(...args);
+      };
+    }
+
+    it('should touch down on the center of the resolved element', async () => {
+      const calls: string[][] = [];
+      const result = await touchLogic(
+        {
+          simulatorId: '12345678-1234-4234-8234-123456789012',
+          selector: { id: 'list' },
+          down: true,
+        },
+        createTrackingExecutor(calls),
+        axeHelpers,
+      );
+
+      expect(calls[1]).toEqual([
+        '/usr/local/bin/axe',
+        'touch',
+        '-x',
+        '195',
+        '-y',
+        '500',
+        '--down',
+        '--udid',
+        '12345678-1234-4234-8234-123456789012',
+      ]);
+      expect(result.content[0].text).toBe(
+        'Touch event (touch down) on element id="list" at (195, 500) executed successfully.',
+      );
+    });
+
+    it('should reject a selector combined with coordinates', async () => {
+      sessionStore.setDefaults({ simulatorId: '12345678-1234-4234-8234-123456789012' });
+
+      const result = await touchPlugin.handler({ selector: { id: 'list' }, x: 1, down: true });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        'selector: Provide either a selector or x/y coordinates, not both.',
+      );
+    });
+  });
 });
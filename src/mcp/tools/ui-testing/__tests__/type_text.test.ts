@@ -5,6 +5,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import * as z from 'zod';
 import {
+  createCommandMatchingMockExecutor,
   createMockExecutor,
   createMockFileSystemExecutor,
   createNoopExecutor,
@@ -48,7 +49,7 @@ describe('Type Text Plugin', () => {
 
     it('should have correct description', () => {
       expect(typeTextPlugin.description).toBe(
-        'Type text (supports US keyboard characters). Use describe_ui to find text field, tap to focus, then type.',
+        'Type text (supports US keyboard characters). Pass a selector to focus a field first; otherwise use describe_ui to find the text field and tap to focus it before typing.',
       );
     });
 
@@ -515,4 +516,89 @@ describe('Type Text Plugin', () => {
       });
     });
   });
+
+  describe('Selector targeting', () => {
+    const hierarchy = JSON.stringify([
+      {
+        type: 'Application',
+        frame: { x: 0, y: 0, width: 390, height: 844 },
+        children: [
+          {
+            type: 'TextField',
+            AXLabel: 'Email',
+            AXUniqueId: 'email-field',
+            frame: { x: 20, y: 100, width: 350, height: 44 },
+          },
+          {
+            type: 'Table',
+            AXUniqueId: 'list',
+            frame: { x: 0, y: 200, width: 390, height: 600 },
+          },
+        ],
+      },
+    ]);
+    const axeHelpers = {
+      getAxePath: () => '/usr/local/bin/axe',
+      getBundledAxeEnvironment: () => ({}),
+      createAxeNotAvailableResponse: () => ({
+        content: [{ type: 'text' as const, text: 'AXe not available' }],
+        isError: true,
+      }),
+    };
+
+    function createTrackingExecutor(calls: string[][]) {
+      const executor = createCommandMatchingMockExecutor({
+        'describe-ui': { output: hierarchy },
+        '/usr/local/bin/axe': { output: '' },
+      });
+      return async (...args: Parameters<typeof executor>) => {
+        calls.push(args[0]);
+        return executor(...args);
+      };
+    }
+
+    it('should tap the field before typing', async () => {
+      const calls: string[][] = [];
+      const result = await type_textLogic(
+        {
+          simulatorId: '12345678-1234-4234-8234-123456789012',
+          text: 'user@example.com',
+          selector: { id: 'email-field' },
+        },
+        createTrackingExecutor(calls),
+        axeHelpers,
+      );
+
+      expect(calls.map((command) => command[1])).toEqual(['describe-ui', 'tap', 'type']);
+      expect(calls[1]).toEqual([
+        '/usr/local/bin/axe',
+        'tap',
+        '-x',
+        '195',
+        '-y',
+        '122',
+        '--udid',
+        '12345678-1234-4234-8234-123456789012',
+      ]);
+      expect(result.content[0].text).toBe(
+        'Text typing into element id="email-field" simulated successfully.',
+      );
+    });
+
+    it('should not type when the field cannot be resolved', async () => {
+      const calls: string[][] = [];
+      const result = await type_textLogic(
+        {
+          simulatorId: '12345678-1234-4234-8234-123456789012',
+          text: 'hello',
+          selector: { id: 'password-field', timeout: 0 },
+        },
+        createTrackingExecutor(calls),
+        axeHelpers,
+      );
+
+      expect(result.isError).toBe(true);
+      expect(calls).toHaveLength(1);
+    });
+  });
 });
@@ -0,0 +1,169 @@
+/**
+ * Tests for verify_snapshot tool plugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as z from 'zod';
+import {
+  createCommandMatchingMockExecutor,
+  createInMemoryFileSystemExecutor,
+} from '../../../../test-utils/mock-executors.ts';
+import { createTestPngBase64 } from '../../../../test-utils/image-fixtures.ts';
+import type { FixturePixel } from '../../../../test-utils/image-fixtures.ts';
+import { sessionStore } from '../../../../utils/session-store.ts';
+import verifySnapshotPlugin, { verify_snapshotLogic } from '../verify_snapshot.ts';
+
+const simulatorId = '12345678-1234-4234-8234-123456789012';
+const capturePath = '/tmp/screenshot_capture.png';
+const baselinePath = '/snaps/iPhone-16-Pro/light/home.png';
+const pathUtils = { tmpdir: () => '/tmp', join: (...paths: string[]) => paths.join('/') };
+const uuidUtils = { v4: () => 'capture' };
+const white = (): FixturePixel => [255, 255, 255, 255];
+const withBlackSquare = (x: number, y: number): FixturePixel =>
+  x < 10 && y < 10 ? [0, 0, 0, 255] : [255, 255, 255, 255];
+
+const executor = createCommandMatchingMockExecutor({
+  'simctl list': {
+    output: JSON.stringify({
+      devices: {
+        ios: [
+          {
+            udid: simulatorId,
+            name: 'My Phone',
+            deviceTypeIdentifier: 'com.apple.CoreSimulator.SimDeviceType.iPhone-16-Pro',
+          },
+        ],
+      },
+    }),
+  },
+  'simctl ui': { output: 'light' },
+  'simctl io': { output: '' },
+});
+
+function parseResult(text: string): Record<string, unknown> {
+  return JSON.parse(text.slice(text.indexOf('\n') + 1)) as Record<string, unknown>;
+}
+
+describe('verify_snapshot plugin', () => {
+  beforeEach(() => {
+    sessionStore.clear();
+  });
+
+  describe('Export Field Validation (Literal)', () => {
+    it('should have correct name and description', () => {
+      expect(verifySnapshotPlugin.name).toBe('verify_snapshot');
+      expect(verifySnapshotPlugin.description).toBe(
+        'Compares the simulator screen with a baseline recorded by record_snapshot for the same model and appearance. Returns pass/fail with diff metrics and a diff image.',
+      );
+    });
+
+    it('should validate schema fields with safeParse', () => {
+      const schema = z.object(verifySnapshotPlugin.schema);
+
+      expect(schema.safeParse({ name: 'home', failureThreshold: 1 }).success).toBe(true);
+      expect(schema.safeParse({ name: 'home', threshold: 5 }).success).toBe(false);
+      expect(schema.safeParse({}).success).toBe(false);
+    });
+  });
+
+  describe('Handler Behavior (Complete Literal Returns)', () => {
+    it('should pass when the screen matches the baseline', async () => {
+      const files = new Map([
+        [baselinePath, createTestPngBase64(40, 80, white)],
+        [capturePath, createTestPngBase64(40, 80, white)],
+      ]);
+
+      const result = await verify_snapshotLogic(
+        { simulatorId, name: 'home', snapshotDir: '/snaps' },
+        executor,
+        createInMemoryFileSystemExecutor(files),
+        pathUtils,
+        uuidUtils,
+      );
+
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toMatch(/^Snapshot passed:\n/);
+      expect(parseResult(result.content[0].text as string)).toEqual({
+        name: 'home',
+        model: 'iPhone-16-Pro',
+        appearance: 'light',
+        baselinePath,
+        passed: true,
+        mismatchPercentage: 0,
+        failureThreshold: 0,
+        mismatchedPixels: 0,
+        comparedPixels: 3200,
+        width: 40,
+        height: 80,
+        regions: [],
+        totalRegions: 0,
+      });
+      expect(result.content[1]).toMatchObject({ type: 'image', mimeType: 'image/png' });
+    });
+
+    it('should fail with diff metrics when the screen changed', async () => {
+      const files = new Map([
+        [baselinePath, createTestPngBase64(40, 80, white)],
+        [capturePath, createTestPngBase64(40, 80, withBlackSquare)],
+      ]);
+
+      const result = await verify_snapshotLogic(
+        { simulatorId, name: 'home', snapshotDir: '/snaps' },
+        executor,
+        createInMemoryFileSystemExecutor(files),
+        pathUtils,
+        uuidUtils,
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toMatch(/^Snapshot failed:\n/);
+      expect(parseResult(result.content[0].text as string)).toMatchObject({
+        passed: false,
+        mismatchPercentage: 3.125,
+        mismatchedPixels: 100,
+        regions: [{ x: 0, y: 0, width: 10, height: 10, pixels: 100 }],
+        totalRegions: 1,
+      });
+    });
+
+    it('should return an error when no baseline was recorded', async () => {
+      const result = await verify_snapshotLogic(
+        { simulatorId, name: 'home', snapshotDir: '/snaps' },
+        executor,
+        createInMemoryFileSystemExecutor(),
+        pathUtils,
+        uuidUtils,
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: `Error: No baseline 'home' recorded for iPhone-16-Pro (light): ${baselinePath}\nDetails: Use record_snapshot to record it first.`,
+          },
+        ],
+        isError: true,
+      });
+    });
+
+    it('should return an error when the simulator cannot be identified', async () => {
+      const result = await verify_snapshotLogic(
+        { simulatorId, name: 'home', snapshotDir: '/snaps' },
+        createCommandMatchingMockExecutor({
+          'simctl list': { success: false, error: 'CoreSimulator unavailable' },
+        }),
+        createInMemoryFileSystemExecutor(),
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: 'Error: System error verifying snapshot: Failed to list simulators: CoreSimulator unavailable',
+          },
+        ],
+        isError: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Tests for wait_for_element plugin
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as z from 'zod';
+import { createMockExecutor } from '../../../../test-utils/mock-executors.ts';
+import type { CommandExecutor } from '../../../../utils/execution/index.ts';
+import { sessionStore } from '../../../../utils/session-store.ts';
+import { uiStateStore } from '../../../../utils/ui-state-store.ts';
+import waitForElementPlugin, { wait_for_elementLogic } from '../wait_for_element.ts';
+
+const simulatorId = '12345678-1234-4234-8234-123456789012';
+
+function hierarchy(button?: { label?: string; value?: string; enabled?: boolean }): string {
+  return JSON.stringify([
+    {
+      type: 'Application',
+      AXLabel: 'Demo',
+      frame: { x: 0, y: 0, width: 390, height: 844 },
+      children: button
+        ? [
+            {
+              type: 'Button',
+              AXLabel: button.label ?? 'Continue',
+              AXUniqueId: 'continue',
+              AXValue: button.value,
+              enabled: button.enabled ?? true,
+              frame: { x: 20, y: 700, width: 350, height: 50 },
+            },
+          ]
+        : [],
+    },
+  ]);
+}
+
+// Returns the outputs in order, repeating the last one
+function createSequenceExecutor(outputs: string[], calls: string[][] = []): CommandExecutor {
+  return async (command, ...rest) => {
+    calls.push(command);
+    const output = outputs.length > 1 ? (outputs.shift() as string) : outputs[0];
+    return createMockExecutor({ success: true, output })(command, ...rest);
+  };
+}
+
+const axeHelpers = {
+  getAxePath: () => '/usr/local/bin/axe',
+  getBundledAxeEnvironment: () => ({}),
+  createAxeNotAvailableResponse: () => ({
+    content: [{ type: 'text' as const, text: 'AXe not available' }],
+    isError: true,
+  }),
+};
+
+function createFakeClock(): { now: () => number; sleep: (ms: number) => Promise<void> } {
+  let clock = 0;
+  return {
+    now: () => clock,
+    sleep: async (ms) => {
+      clock += ms;
+    },
+  };
+}
+
+describe('Wait For Element Plugin', () => {
+  beforeEach(() => {
+    sessionStore.clear();
+    uiStateStore.clear();
+  });
+
+  describe('Export Field Validation (Literal)', () => {
+    it('should have correct name and description', () => {
+      expect(waitForElementPlugin.name).toBe('wait_for_element');
+      expect(waitForElementPlugin.description).toBe(
+        'Waits for an element (by id, label, role + index or ancestors) to appear, disappear, or reach a value or enabled state by polling describe_ui. Returns the element frame, or on timeout an error with the last hierarchy. Use instead of fixed preDelay/postDelay.',
+      );
+      expect(waitForElementPlugin.annotations.readOnlyHint).toBe(true);
+    });
+
+    it('should validate schema fields', () => {
+      const schema = z.object(waitForElementPlugin.schema);
+
+      expect(schema.safeParse({ selector: { id: 'continue' } }).success).toBe(true);
+      expect(
+        schema.safeParse({ selector: { role: 'Button', index: 0 }, timeout: 30, pollInterval: 250 })
+          .success,
+      ).toBe(true);
+      expect(schema.safeParse({}).success).toBe(false);
+      expect(schema.safeParse({ selector: {} }).success).toBe(false);
+      expect(schema.safeParse({ selector: { id: 'x' }, timeout: 121 }).success).toBe(false);
+      expect(schema.safeParse({ selector: { id: 'x' }, pollInterval: 50 }).success).toBe(false);
+      expect(schema.safeParse({ selector: { id: 'x' }, simulatorId }).success).toBe(true);
+    });
+
+    it('should require value for the value condition', async () => {
+      sessionStore.setDefaults({ simulatorId });
+
+      const result = await waitForElementPlugin.handler({
+        selector: { id: 'continue' },
+        condition: 'value',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        'value: value is required when condition is "value".',
+      );
+    });
+  });
+
+  describe('Handler Behavior (Complete Literal Returns)', () => {
+    it('should return the frame once the element appears', async () => {
+      const calls: string[][] = [];
+      const result = await wait_for_elementLogic(
+        { simulatorId, selector: { id: 'continue' }, pollInterval: 200 },
+        createSequenceExecutor([hierarchy(), hierarchy(), hierarchy({})], calls),
+        axeHelpers,
+        createFakeClock(),
+      );
+
+      expect(calls).toHaveLength(3);
+      expect(calls[0]).toEqual(['/usr/local/bin/axe', 'describe-ui', '--udid', simulatorId]);
+      expect(result.isError).toBe(false);
+      // The last hierarchy is kept for coordinate tools
+      expect(uiStateStore.getCoordinateWarning(simulatorId)).toBeNull();
+      expect(result.content[0].text).toBe(
+        'Element id="continue" appeared after 0.4s (3 checks).\n' +
+          JSON.stringify(
+            {
+              role: 'Button',
+              label: 'Continue',
+              identifier: 'continue',
+              enabled: true,
+              frame: { x: 20, y: 700, width: 350, height: 50 },
+              center: { x: 195, y: 725 },
+            },
+            null,
+            2,
+          ),
+      );
+    });
+
+    it('should wait for the element to disappear', async () => {
+      const result = await wait_for_elementLogic(
+        { simulatorId, selector: { label: 'Continue' }, condition: 'disappear' },
+        createSequenceExecutor([hierarchy({}), hierarchy()]),
+        axeHelpers,
+        createFakeClock(),
+      );
+
+      expect(result.content[0].text).toBe(
+        'Element label="Continue" disappeared after 0.5s (2 checks).',
+      );
+    });
+
+    it('should wait for a value', async () => {
+      const result = await wait_for_elementLogic(
+        { simulatorId, selector: { id: 'continue' }, condition: 'value', value: 'done' },
+        createSequenceExecutor([hierarchy({ value: 'loading' }), hierarchy({ value: 'done' })]),
+        axeHelpers,
+        createFakeClock(),
+      );
+
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain('reached the expected value after 0.5s');
+      expect(result.content[0].text).toContain('"value": "done"');
+    });
+
+    it('should treat a missing value as empty when waiting for an empty value', async () => {
+      const result = await wait_for_elementLogic(
+        { simulatorId, selector: { id: 'continue' }, condition: 'value', value: '' },
+        createSequenceExecutor([hierarchy({ value: 'typed' }), hierarchy({ value: '' })]),
+        axeHelpers,
+        createFakeClock(),
+      );
+
+      expect(result.isError).toBe(false);
+      expect(result.content[0].text).toContain('reached the expected value after 0.5s');
+    });
+
+    it('should time out with the last state and hierarchy', async () => {
+      const result = await wait_for_elementLogic(
+        {
+          simulatorId,
+          selector: { id: 'continue' },
+          condition: 'enabled',
+          timeout: 2,
+          pollInterval: 1000,
+        },
+        createSequenceExecutor([hierarchy({ enabled: false })]),
+        axeHelpers,
+        createFakeClock(),
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe(
+        'Error: Timed out after 2s waiting for element id="continue" to become enabled. Last match: Button "Continue" #continue (20,700 350x50) [disabled].\n' +
+          'Details: Current hierarchy:\n' +
+          'Application "Demo" (0,0 390x844)\n' +
+          '  Button "Continue" #continue (20,700 350x50) [disabled]',
+      );
+    });
+
+    it('should handle DependencyError when axe is not available', async () => {
+      const result = await wait_for_elementLogic(
+        { simulatorId, selector: { id: 'continue' } },
+        createSequenceExecutor([hierarchy({})]),
+        { ...axeHelpers, getAxePath: () => null },
+      );
+
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'AXe not available' }],
+        isError: true,
+      });
+    });
+
+    it('should handle AxeError from describe-ui', async () => {
+      const result = await wait_for_elementLogic(
+        { simulatorId, selector: { id: 'continue' } },
+        createMockExecutor({ success: false, error: 'Simulator not booted' }),
+        axeHelpers,
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: "Error: Failed to get accessibility hierarchy: axe command 'describe-ui' failed.\nDetails: Simulator not booted",
+          },
+        ],
+        isError: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,434 @@
+/**
+ * UI Testing Plugin: Assert UI
+ *
+ * Checks assertions against one parsed describe_ui snapshot: an element exists or is absent,
+ * has a text or value, is enabled/selected, how many elements match a selector, and whether
+ * one element is above or left of another. Returns pass/fail per assertion with the
+ * offending nodes.
+ */
+
+import * as z from 'zod';
+import type { ToolResponse } from '../../../types/common.ts';
+import { log } from '../../../utils/logging/index.ts';
+import { createErrorResponse } from '../../../utils/responses/index.ts';
+import { DependencyError, AxeError, SystemError } from '../../../utils/errors.ts';
+import type { CommandExecutor } from '../../../utils/execution/index.ts';
+import { getDefaultCommandExecutor } from '../../../utils/execution/index.ts';
+import {
+  createAxeNotAvailableResponse,
+  getAxePath,
+  getBundledAxeEnvironment,
+} from '../../../utils/axe-helpers.ts';
+import type { AccessibilityElement } from '../../../utils/accessibility/index.ts';
+import {
+  fetchAccessibilityHierarchy,
+  isElementSelected,
+} from '../../../utils/accessibility/index.ts';
+import type { ElementLocator } from '../../../utils/element-selector/index.ts';
+import {
+  describeElementSelector,
+  elementLocatorSchema,
+  findElementsBySelector,
+} from '../../../utils/element-selector/index.ts';
+import {
+  createSessionAwareTool,
+  getSessionAwareToolSchemaShape,
+} from '../../../utils/typed-tool-factory.ts';
+import { uiStateStore } from '../../../utils/ui-state-store.ts';
+
+export interface AxeHelpers {
+  getAxePath: () => string | null;
+  getBundledAxeEnvironment: () => Record<string, string>;
+  createAxeNotAvailableResponse: () => ToolResponse;
+}
+
+const LOG_PREFIX = '[AXe]';
+
+const CONDITIONS = [
+  'exists',
+  'absent',
+  'text',
+  'value',
+  'enabled',
+  'disabled',
+  'selected',
+  'notSelected',
+  'count',
+  'above',
+  'leftOf',
+] as const;
+
+type AssertionCondition = (typeof CONDITIONS)[number];
+
+const baseAssertionSchema = z.object({
+  selector: elementLocatorSchema,
+  condition: z
+    .enum(CONDITIONS)
+    .describe(
+      'What to check: exists, absent, text (label or value), value, enabled, disabled, selected, notSelected, count, above or leftOf (relative to "other").',
+    ),
+  expected: z
+    .string()
+    .optional()
+    .describe('Expected text or value; required for conditions "text" and "value".'),
+  match: z
+    .enum(['equals', 'contains'])
+    .optional()
+    .describe('Optional: How "expected" is compared. Defaults to "equals".'),
+  count: z.number().int().min(0).optional().describe('Exact number of matches for "count".'),
+  minCount: z.number().int().min(0).optional().describe('Minimum number of matches for "count".'),
+  maxCount: z.number().int().min(0).optional().describe('Maximum number of matches for "count".'),
+  other: elementLocatorSchema
+    .optional()
+    .describe('Element to compare against; required for "above" and "leftOf".'),
+});
+
+const assertionSchema = baseAssertionSchema.superRefine((values, ctx) => {
+  const usesExpected = values.condition === 'text' || values.condition === 'value';
+  if (usesExpected && values.expected === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['expected'],
+      message: `expected is required when condition is "${values.condition}".`,
+    });
+  }
+  if (!usesExpected && (values.expected !== undefined || values.match !== undefined)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [values.expected !== undefined ? 'expected' : 'match'],
+      message: 'expected and match apply only to conditions "text" and "value".',
+    });
+  }
+
+  const countFields = (['count', 'minCount', 'maxCount'] as const).filter(
+    (field) => values[field] !== undefined,
+  );
+  if (values.condition === 'count' && countFields.length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['count'],
+      message: 'count, minCount or maxCount is required when condition is "count".',
+    });
+  }
+  if (values.condition !== 'count' && countFields.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [countFields[0]],
+      message: `${countFields[0]} applies only to condition "count".`,
+    });
+  }
+  if (
+    values.minCount !== undefined &&
+    values.maxCount !== undefined &&
+    values.minCount > values.maxCount
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['maxCount'],
+      message: 'maxCount must be greater than or equal to minCount.',
+    });
+  }
+
+  const usesOther = values.condition === 'above' || values.condition === 'leftOf';
+  if (usesOther && values.other === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['other'],
+      message: `other is required when condition is "${values.condition}".`,
+    });
+  }
+  if (!usesOther && values.other !== undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['other'],
+      message: 'other applies only to conditions "above" and "leftOf".',
+    });
+  }
+});
+
+type UIAssertion = z.infer<typeof assertionSchema>;
+
+// Define schema as ZodObject
+export const assertUiSchema = z.object({
+  simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
+  assertions: z
+    .array(assertionSchema)
+    .min(1, { message: 'assertions must contain at least one assertion' })
+    .describe('Assertions to check against a single describe_ui snapshot.'),
+});
+
+// Use z.infer for type safety
+type AssertUiParams = z.infer<typeof assertUiSchema>;
+
+const publicSchemaObject = z.strictObject(
+  assertUiSchema.omit({ simulatorId: true } as const).shape,
+);
+
+interface ElementSummary {
+  role: string;
+  label?: string;
+  identifier?: string;
+  value?: string;
+  enabled: boolean;
+  selected?: boolean;
+  frame: AccessibilityElement['frame'];
+}
+
+export interface AssertionResult {
+  condition: AssertionCondition;
+  selector: string;
+  passed: boolean;
+  message: string;
+  nodes?: ElementSummary[]; // Offending nodes, only for failed assertions
+}
+
+function summarizeElement(element: AccessibilityElement): ElementSummary {
+  return {
+    role: element.type ?? element.role,
+    label: element.label,
+    identifier: element.identifier,
+    value: element.value,
+    enabled: element.enabled,
+    selected: element.selected,
+    frame: element.frame,
+  };
+}
+
+type SingleElement =
+  | { element: AccessibilityElement }
+  | { failure: string; nodes: ElementSummary[] };
+
+// The element an assertion is about: the indexed match, or the only match
+function resolveSingleElement(
+  elements: AccessibilityElement[],
+  locator: ElementLocator,
+): SingleElement {
+  const description = describeElementSelector(locator);
+  const matches = findElementsBySelector(elements, locator);
+
+  if (locator.index !== undefined) {
+    const element = matches[locator.index];
+    return element
+      ? { element }
+      : {
+          failure: `No element matches ${description} (${matches.length} ${matches.length === 1 ? 'match' : 'matches'}).`,
+          nodes: matches.map(summarizeElement),
+        };
+  }
+  if (matches.length === 0) {
+    return { failure: `No element matches ${description}.`, nodes: [] };
+  }
+  if (matches.length > 1) {
+    return {
+      failure: `Selector ${description} matched ${matches.length} elements; add index or narrow it with role or ancestors.`,
+      nodes: matches.map(summarizeElement),
+    };
+  }
+  return { element: matches[0] };
+}
+
+// The parser drops empty labels and values, so a missing one is empty
+function matchesExpected(actual: string | undefined, assertion: UIAssertion): boolean {
+  const value = actual ?? '';
+  const expected = assertion.expected ?? '';
+  return assertion.match === 'contains' ? value.includes(expected) : value === expected;
+}
+
+function describeCountExpectation(assertion: UIAssertion): string {
+  if (assertion.count !== undefined) {
+    return `exactly ${assertion.count}`;
+  }
+  if (assertion.minCount !== undefined && assertion.maxCount !== undefined) {
+    return `between ${assertion.minCount} and ${assertion.maxCount}`;
+  }
+  return assertion.minCount !== undefined
+    ? `at least ${assertion.minCount}`
+    : `at most ${assertion.maxCount}`;
+}
+
+function evaluateAssertion(
+  elements: AccessibilityElement[],
+  assertion: UIAssertion,
+): Omit<AssertionResult, 'condition' | 'selector'> {
+  const { condition, selector } = assertion;
+  const description = describeElementSelector(selector);
+
+  if (condition === 'exists' || condition === 'absent' || condition === 'count') {
+    const matches = findElementsBySelector(elements, selector);
+    const found = `Found ${matches.length} ${matches.length === 1 ? 'element' : 'elements'} matching ${description}`;
+
+    if (condition === 'exists') {
+      return matches.length > 0
+        ? { passed: true, message: `${found}.` }
+        : { passed: false, message: `No element matches ${description}.`, nodes: [] };
+    }
+    if (condition === 'absent') {
+      return matches.length === 0
+        ? { passed: true, message: `No element matches ${description}.` }
+        : { passed: false, message: `${found}.`, nodes: matches.map(summarizeElement) };
+    }
+
+    const { count, minCount, maxCount } = assertion;
+    const passed =
+      (count === undefined || matches.length === count) &&
+      (minCount === undefined || matches.length >= minCount) &&
+      (maxCount === undefined || matches.length <= maxCount);
+    const message = `${found}, expected ${describeCountExpectation(assertion)}.`;
+    return passed ? { passed, message } : { passed, message, nodes: matches.map(summarizeElement) };
+  }
+
+  const target = resolveSingleElement(elements, selector);
+  if ('failure' in target) {
+    return { passed: false, message: target.failure, nodes: target.nodes };
+  }
+  const { element } = target;
+  const offending = [summarizeElement(element)];
+  const comparison = assertion.match === 'contains' ? 'contain' : 'equal';
+
+  switch (condition) {
+    case 'text': {
+      const passed =
+        matchesExpected(element.label, assertion) || matchesExpected(element.value, assertion);
+      const message = `Element ${description} has label ${JSON.stringify(element.label ?? '')} and value ${JSON.stringify(element.value ?? '')}, expected text to ${comparison} ${JSON.stringify(assertion.expected)}.`;
+      return passed ? { passed, message } : { passed, message, nodes: offending };
+    }
+    case 'value': {
+      const passed = matchesExpected(element.value, assertion);
+      const message = `Element ${description} has value ${JSON.stringify(element.value ?? '')}, expected value to ${comparison} ${JSON.stringify(assertion.expected)}.`;
+      return passed ? { passed, message } : { passed, message, nodes: offending };
+    }
+    case 'enabled':
+    case 'disabled': {
+      const passed = element.enabled === (condition === 'enabled');
+      const message = `Element ${description} is ${element.enabled ? 'enabled' : 'disabled'}.`;
+      return passed ? { passed, message } : { passed, message, nodes: offending };
+    }
+    case 'selected':
+    case 'notSelected': {
+      const selected = isElementSelected(element);
+      const passed = selected === (condition === 'selected');
+      const message = `Element ${description} is ${selected ? 'selected' : 'not selected'}.`;
+      return passed ? { passed, message } : { passed, message, nodes: offending };
+    }
+    default: {
+      // above / leftOf, comparing frame edges
+      const other = resolveSingleElement(elements, assertion.other ?? {});
+      if ('failure' in other) {
+        return { passed: false, message: other.failure, nodes: other.nodes };
+      }
+      const otherDescription = describeElementSelector(assertion.other ?? {});
+      const a = element.frame;
+      const b = other.element.frame;
+      const isAbove = condition === 'above';
+      const edge = isAbove ? a.y + a.height : a.x + a.width;
+      const otherEdge = isAbove ? b.y : b.x;
+      const passed = edge <= otherEdge;
+      const relation = isAbove ? 'above' : 'left of';
+      const message = passed
+        ? `Element ${description} is ${relation} ${otherDescription}.`
+        : `Element ${description} is not ${relation} ${otherDescription}: its ${isAbove ? 'bottom' : 'right'} edge is at ${edge}, the other element's ${isAbove ? 'top' : 'left'} edge at ${otherEdge}.`;
+      return passed
+        ? { passed, message }
+        : { passed, message, nodes: [...offending, summarizeElement(other.element)] };
+    }
+  }
+}
+
+/**
+ * Evaluate assertions against a parsed hierarchy, in order
+ */
+export function evaluateUIAssertions(
+  elements: AccessibilityElement[],
+  assertions: UIAssertion[],
+): AssertionResult[] {
+  return assertions.map((assertion) => ({
+    condition: assertion.condition,
+    selector: describeElementSelector(assertion.selector),
+    ...evaluateAssertion(elements, assertion),
+  }));
+}
+
+export async function assert_uiLogic(
+  params: AssertUiParams,
+  executor: CommandExecutor,
+  axeHelpers: AxeHelpers = {
+    getAxePath,
+    getBundledAxeEnvironment,
+    createAxeNotAvailableResponse,
+  },
+): Promise<ToolResponse> {
+  const toolName = 'assert_ui';
+  const { simulatorId, assertions } = params;
+
+  log(
+    'info',
+    `${LOG_PREFIX}/${toolName}: Checking ${assertions.length} assertions on ${simulatorId}`,
+  );
+
+  try {
+    const { elements } = await fetchAccessibilityHierarchy(simulatorId, executor, axeHelpers);
+    uiStateStore.record(simulatorId, elements);
+    const results = evaluateUIAssertions(elements, assertions);
+    const failed = results.filter((result) => !result.passed).length;
+    log(
+      'info',
+      `${LOG_PREFIX}/${toolName}: ${failed} of ${results.length} failed for ${simulatorId}`,
+    );
+
+    let summary = failed === 0 ? 'Assertion passed.' : 'Assertion failed.';
+    if (results.length > 1) {
+      summary =
+        failed === 0
+          ? `All ${results.length} assertions passed.`
+          : `${failed} of ${results.length} assertions failed.`;
+    }
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${summary}\n\`\`\`json\n${JSON.stringify({ passed: failed === 0, results }, null, 2)}\n\`\`\``,
+        },
+      ],
+      isError: failed > 0,
+    };
+  } catch (error) {
+    log('error', `${LOG_PREFIX}/${toolName}: Failed - ${error}`);
+    if (error instanceof DependencyError) {
+      return axeHelpers.createAxeNotAvailableResponse();
+    } else if (error instanceof AxeError) {
+      return createErrorResponse(
+        `Failed to get accessibility hierarchy: ${error.message}`,
+        error.axeOutput,
+      );
+    } else if (error instanceof SystemError) {
+      return createErrorResponse(
+        `System error executing axe: ${error.message}`,
+        error.originalError?.stack,
+      );
+    }
+    return createErrorResponse(
+      `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+export default {
+  name: 'assert_ui',
+  description:
+    'Checks assertions against the current accessibility hierarchy: element exists or is absent, has text/value, is enabled/disabled or selected, count of matches, or is above/left of another element. Returns pass/fail per assertion with the offending nodes; fails if any assertion fails.',
+  schema: getSessionAwareToolSchemaShape({
+    sessionAware: publicSchemaObject,
+    legacy: assertUiSchema,
+  }),
+  annotations: {
+    title: 'Assert UI',
+    readOnlyHint: true,
+  },
+  handler: createSessionAwareTool<AssertUiParams>({
+    internalSchema: assertUiSchema as unknown as z.ZodType<AssertUiParams, unknown>,
+    logicFunction: (params: AssertUiParams, executor: CommandExecutor) =>
+      assert_uiLogic(params, executor),
+    getExecutor: getDefaultCommandExecutor,
+    requirements: [{ allOf: ['simulatorId'], message: 'simulatorId is required' }],
+  }),
+};
@@ -0,0 +1,405 @@
+/**
+ * UI Testing Plugin: Audit Accessibility
+ *
+ * Walks one parsed describe_ui snapshot and reports common accessibility problems:
+ * interactive elements without a label, duplicate identifiers, hit targets below the
+ * minimum size, overlapping text and elements positioned offscreen. Each issue carries
+ * a severity and the frame of the element it is about.
+ */
+
+import * as z from 'zod';
+import type { ToolResponse } from '../../../types/common.ts';
+import { log } from '../../../utils/logging/index.ts';
+import { createErrorResponse } from '../../../utils/responses/index.ts';
+import { DependencyError, AxeError, SystemError } from '../../../utils/errors.ts';
+import type { CommandExecutor } from '../../../utils/execution/index.ts';
+import { getDefaultCommandExecutor } from '../../../utils/execution/index.ts';
+import {
+  createAxeNotAvailableResponse,
+  getAxePath,
+  getBundledAxeEnvironment,
+} from '../../../utils/axe-helpers.ts';
+import type {
+  AccessibilityElement,
+  AccessibilityFrame,
+} from '../../../utils/accessibility/index.ts';
+import {
+  describeAccessibilityElement,
+  fetchAccessibilityHierarchy,
+  flattenAccessibilityElements,
+  getScreenFrame,
+  isElementVisible,
+  isInteractiveElement,
+} from '../../../utils/accessibility/index.ts';
+import {
+  createSessionAwareTool,
+  getSessionAwareToolSchemaShape,
+} from '../../../utils/typed-tool-factory.ts';
+import { uiStateStore } from '../../../utils/ui-state-store.ts';
+
+export interface AxeHelpers {
+  getAxePath: () => string | null;
+  getBundledAxeEnvironment: () => Record<string, string>;
+  createAxeNotAvailableResponse: () => ToolResponse;
+}
+
+const LOG_PREFIX = '[AXe]';
+
+const AUDIT_CHECKS = [
+  'missingLabel',
+  'duplicateIdentifier',
+  'smallTarget',
+  'overlappingText',
+  'offscreen',
+] as const;
+
+type AuditCheck = (typeof AUDIT_CHECKS)[number];
+
+export type AuditSeverity = 'error' | 'warning' | 'info';
+
+const SEVERITY_ORDER: AuditSeverity[] = ['error', 'warning', 'info'];
+
+// Apple's Human Interface Guidelines minimum for tappable controls, in points
+const DEFAULT_MIN_TARGET_SIZE = 44;
+
+const TEXT_TYPES = new Set(['StaticText', 'TextView', 'TextArea']);
+
+// Keyboard keys are system UI and deliberately smaller than the minimum target size
+const TARGET_SIZE_EXEMPT_TYPES = new Set(['Key']);
+
+// Define schema as ZodObject
+const auditAccessibilitySchema = z.object({
+  simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
+  checks: z
+    .array(z.enum(AUDIT_CHECKS))
+    .min(1, { message: 'checks must contain at least one check' })
+    .optional()
+    .describe(
+      'Optional: Checks to run: missingLabel, duplicateIdentifier, smallTarget, overlappingText, offscreen. Defaults to all.',
+    ),
+  minTargetSize: z
+    .number()
+    .positive({ message: 'minTargetSize must be greater than 0' })
+    .optional()
+    .describe('Optional: Minimum hit target width and height in points. Defaults to 44.'),
+});
+
+// Use z.infer for type safety
+type AuditAccessibilityParams = z.infer<typeof auditAccessibilitySchema>;
+
+const publicSchemaObject = z.strictObject(
+  auditAccessibilitySchema.omit({ simulatorId: true } as const).shape,
+);
+
+export interface AccessibilityIssue {
+  check: AuditCheck;
+  severity: AuditSeverity;
+  message: string;
+  element: string;
+  frame: AccessibilityFrame;
+}
+
+export interface AccessibilityAuditOptions {
+  checks?: AuditCheck[];
+  minTargetSize?: number;
+}
+
+function elementType(element: AccessibilityElement): string {
+  return element.type ?? element.role.replace(/^AX/, '');
+}
+
+function hasText(value: string | undefined): boolean {
+  return value !== undefined && value.trim() !== '';
+}
+
+// Containers such as cells are read by VoiceOver through the labels of their children
+function hasAccessibleName(element: AccessibilityElement): boolean {
+  return flattenAccessibilityElements([element]).some((node) => hasText(node.label));
+}
+
+function createIssue(
+  check: AuditCheck,
+  severity: AuditSeverity,
+  element: AccessibilityElement,
+  message: string,
+): AccessibilityIssue {
+  return {
+    check,
+    severity,
+    message,
+    element: describeAccessibilityElement(element),
+    frame: element.frame,
+  };
+}
+
+function intersects(a: AccessibilityFrame, b: AccessibilityFrame): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+function isInside(frame: AccessibilityFrame, screen: AccessibilityFrame): boolean {
+  return (
+    frame.x >= screen.x &&
+    frame.y >= screen.y &&
+    frame.x + frame.width <= screen.x + screen.width &&
+    frame.y + frame.height <= screen.y + screen.height
+  );
+}
+
+function findMissingLabels(nodes: AccessibilityElement[]): AccessibilityIssue[] {
+  return nodes
+    .filter((element) => isInteractiveElement(element) && !hasAccessibleName(element))
+    .map((element) =>
+      createIssue(
+        'missingLabel',
+        'error',
+        element,
+        `${elementType(element)} has no accessibility label; VoiceOver cannot describe it.`,
+      ),
+    );
+}
+
+function findDuplicateIdentifiers(nodes: AccessibilityElement[]): AccessibilityIssue[] {
+  const byIdentifier = new Map<string, AccessibilityElement[]>();
+  for (const element of nodes) {
+    const { identifier } = element;
+    if (identifier !== undefined && hasText(identifier)) {
+      byIdentifier.set(identifier, [...(byIdentifier.get(identifier) ?? []), element]);
+    }
+  }
+
+  return [...byIdentifier.entries()]
+    .filter(([, group]) => group.length > 1)
+    .flatMap(([identifier, group]) =>
+      group.map((element) =>
+        createIssue(
+          'duplicateIdentifier',
+          'warning',
+          element,
+          `Identifier "${identifier}" is shared by ${group.length} elements; UI tests cannot target it reliably.`,
+        ),
+      ),
+    );
+}
+
+function findSmallTargets(
+  nodes: AccessibilityElement[],
+  minTargetSize: number,
+): AccessibilityIssue[] {
+  return nodes
+    .filter(
+      (element) =>
+        isInteractiveElement(element) &&
+        !TARGET_SIZE_EXEMPT_TYPES.has(elementType(element)) &&
+        (element.frame.width < minTargetSize || element.frame.height < minTargetSize),
+    )
+    .map((element) =>
+      createIssue(
+        'smallTarget',
+        'warning',
+        element,
+        `Hit target is ${element.frame.width}x${element.frame.height}pt, smaller than ${minTargetSize}x${minTargetSize}pt.`,
+      ),
+    );
+}
+
+function findOverlappingText(roots: AccessibilityElement[]): AccessibilityIssue[] {
+  // Pair each text element with its ancestors so nested text is not reported against itself
+  const texts: { element: AccessibilityElement; ancestors: Set<AccessibilityElement> }[] = [];
+  const visit = (element: AccessibilityElement, ancestors: Set<AccessibilityElement>): void => {
+    const { frame } = element;
+    if (TEXT_TYPES.has(elementType(element)) && frame.width > 0 && frame.height > 0) {
+      texts.push({ element, ancestors });
+    }
+    const childAncestors = new Set(ancestors).add(element);
+    element.children.forEach((child) => visit(child, childAncestors));
+  };
+  roots.forEach((root) => visit(root, new Set()));
+
+  const issues: AccessibilityIssue[] = [];
+  texts.forEach((first, index) => {
+    for (const second of texts.slice(index + 1)) {
+      if (
+        !second.ancestors.has(first.element) &&
+        intersects(first.element.frame, second.element.frame)
+      ) {
+        issues.push(
+          createIssue(
+            'overlappingText',
+            'warning',
+            first.element,
+            `Text overlaps ${describeAccessibilityElement(second.element)}.`,
+          ),
+        );
+      }
+    }
+  });
+  return issues;
+}
+
+function findOffscreenElements(
+  nodes: AccessibilityElement[],
+  screen: AccessibilityFrame | null,
+): AccessibilityIssue[] {
+  if (!screen) {
+    return [];
+  }
+
+  const issues: AccessibilityIssue[] = [];
+  for (const element of nodes) {
+    const { frame } = element;
+    if (frame.width <= 0 || frame.height <= 0 || isInside(frame, screen)) {
+      continue;
+    }
+    if (!isElementVisible(element, screen)) {
+      issues.push(
+        createIssue(
+          'offscreen',
+          'warning',
+          element,
+          'Element is positioned entirely offscreen but is still exposed to accessibility.',
+        ),
+      );
+    } else if (isInteractiveElement(element)) {
+      issues.push(
+        createIssue(
+          'offscreen',
+          'info',
+          element,
+          'Interactive element extends past the screen edge and may be clipped.',
+        ),
+      );
+    }
+  }
+  return issues;
+}
+
+/**
+ * Run the audit checks over a parsed hierarchy. Root elements (the application window)
+ * define the screen and are not audited themselves. Issues are ordered by severity, then
+ * by check and document order.
+ */
+export function auditAccessibilityElements(
+  elements: AccessibilityElement[],
+  options: AccessibilityAuditOptions = {},
+): AccessibilityIssue[] {
+  const checks = new Set(options.checks ?? AUDIT_CHECKS);
+  const nodes = flattenAccessibilityElements(elements.flatMap((root) => root.children));
+  const issues: AccessibilityIssue[] = [];
+
+  if (checks.has('missingLabel')) {
+    issues.push(...findMissingLabels(nodes));
+  }
+  if (checks.has('duplicateIdentifier')) {
+    issues.push(...findDuplicateIdentifiers(nodes));
+  }
+  if (checks.has('smallTarget')) {
+    issues.push(...findSmallTargets(nodes, options.minTargetSize ?? DEFAULT_MIN_TARGET_SIZE));
+  }
+  if (checks.has('overlappingText')) {
+    issues.push(...findOverlappingText(elements));
+  }
+  if (checks.has('offscreen')) {
+    issues.push(...findOffscreenElements(nodes, getScreenFrame(elements)));
+  }
+
+  return issues
+    .map((issue, order) => ({ issue, order }))
+    .sort(
+      (a, b) =>
+        SEVERITY_ORDER.indexOf(a.issue.severity) - SEVERITY_ORDER.indexOf(b.issue.severity) ||
+        a.order - b.order,
+    )
+    .map(({ issue }) => issue);
+}
+
+function summarizeIssues(issues: AccessibilityIssue[]): string {
+  if (issues.length === 0) {
+    return 'No accessibility issues found.';
+  }
+  const counts = SEVERITY_ORDER.map((severity) => ({
+    severity,
+    count: issues.filter((issue) => issue.severity === severity).length,
+  }))
+    .filter(({ count }) => count > 0)
+    .map(({ severity, count }) =>
+      severity === 'info' ? `${count} info` : `${count} ${severity}${count === 1 ? '' : 's'}`,
+    );
+  return `Found ${issues.length} accessibility ${issues.length === 1 ? 'issue' : 'issues'} (${counts.join(', ')}).`;
+}
+
+export async function audit_accessibilityLogic(
+  params: AuditAccessibilityParams,
+  executor: CommandExecutor,
+  axeHelpers: AxeHelpers = {
+    getAxePath,
+    getBundledAxeEnvironment,
+    createAxeNotAvailableResponse,
+  },
+): Promise<ToolResponse> {
+  const toolName = 'audit_accessibility';
+  const { simulatorId } = params;
+
+  log('info', `${LOG_PREFIX}/${toolName}: Auditing accessibility on ${simulatorId}`);
+
+  try {
+    const { elements } = await fetchAccessibilityHierarchy(simulatorId, executor, axeHelpers);
+    uiStateStore.record(simulatorId, elements);
+    const issues = auditAccessibilityElements(elements, {
+      checks: params.checks,
+      minTargetSize: params.minTargetSize,
+    });
+    log('info', `${LOG_PREFIX}/${toolName}: Found ${issues.length} issues on ${simulatorId}`);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${summarizeIssues(issues)}\n\`\`\`json\n${JSON.stringify({ issues }, null, 2)}\n\`\`\``,
+        },
+      ],
+      isError: false,
+    };
+  } catch (error) {
+    log('error', `${LOG_PREFIX}/${toolName}: Failed - ${error}`);
+    if (error instanceof DependencyError) {
+      return axeHelpers.createAxeNotAvailableResponse();
+    } else if (error instanceof AxeError) {
+      return createErrorResponse(
+        `Failed to get accessibility hierarchy: ${error.message}`,
+        error.axeOutput,
+      );
+    } else if (error instanceof SystemError) {
+      return createErrorResponse(
+        `System error executing axe: ${error.message}`,
+        error.originalError?.stack,
+      );
+    }
+    return createErrorResponse(
+      `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+export default {
+  name: 'audit_accessibility',
+  description:
+    'Audits the current accessibility hierarchy for common problems: interactive elements without a label, duplicate identifiers, hit targets smaller than 44x44pt, overlapping text and offscreen elements. Lists each issue with its severity and frame.',
+  schema: getSessionAwareToolSchemaShape({
+    sessionAware: publicSchemaObject,
+    legacy: auditAccessibilitySchema,
+  }),
+  annotations: {
+    title: 'Audit Accessibility',
+    readOnlyHint: true,
+  },
+  handler: createSessionAwareTool<AuditAccessibilityParams>({
+    internalSchema: auditAccessibilitySchema as unknown as z.ZodType<
+      AuditAccessibilityParams,
+      unknown
+    >,
+    logicFunction: (params: AuditAccessibilityParams, executor: CommandExecutor) =>
+      audit_accessibilityLogic(params, executor),
+    getExecutor: getDefaultCommandExecutor,
+    requirements: [{ allOf: ['simulatorId'], message: 'simulatorId is required' }],
+  }),
+};
@@ -14,6 +14,7 @@ import {
   createSessionAwareTool,
   getSessionAwareToolSchemaShape,
 } from '../../../utils/typed-tool-factory.ts';
+import { uiStateStore } from '../../../utils/ui-state-store.ts';
 
 // Define schema as ZodObject
 const buttonSchema = z.object({
@@ -54,6 +55,7 @@ export async function buttonLogic(
   try {
     await executeAxeCommand(commandArgs, simulatorId, 'button', executor, axeHelpers);
     log('info', `${LOG_PREFIX}/${toolName}: Success for ${simulatorId}`);
+    uiStateStore.invalidate(simulatorId, 'button');
     return createTextResponse(`Hardware button '${buttonType}' pressed successfully.`);
   } catch (error) {
     log('error', `${LOG_PREFIX}/${toolName}: Failed - ${error}`);
@@ -0,0 +1,97 @@
+/**
+ * Delete snapshot tool plugin - Remove recorded baselines from the snapshot store
+ */
+import * as z from 'zod';
+import { ToolResponse } from '../../../types/common.ts';
+import { log } from '../../../utils/logging/index.ts';
+import { createErrorResponse } from '../../../utils/responses/index.ts';
+import type { FileSystemExecutor } from '../../../utils/execution/index.ts';
+import {
+  getDefaultFileSystemExecutor,
+  getDefaultCommandExecutor,
+} from '../../../utils/execution/index.ts';
+import { listSnapshots, resolveSnapshotRoot } from '../../../utils/snapshot/index.ts';
+import {
+  createSessionAwareTool,
+  getSessionAwareToolSchemaShape,
+} from '../../../utils/typed-tool-factory.ts';
+import { snapshotLocationSchema, snapshotNameSchema } from './record_snapshot.ts';
+
+const LOG_PREFIX = '[Snapshot]';
+
+// Define schema as ZodObject
+const deleteSnapshotSchema = z.object({
+  name: snapshotNameSchema.describe('Name of the snapshot to delete.'),
+  model: z
+    .string()
+    .optional()
+    .describe(
+      'Optional: Only delete the baseline for this simulator model. Defaults to all models.',
+    ),
+  appearance: z
+    .enum(['light', 'dark', 'unknown'])
+    .optional()
+    .describe('Optional: Only delete the baseline for this appearance. Defaults to all.'),
+  ...snapshotLocationSchema.shape,
+});
+
+// Use z.infer for type safety
+type DeleteSnapshotParams = z.infer<typeof deleteSnapshotSchema>;
+
+const publicSchemaObject = z.strictObject(
+  deleteSnapshotSchema.omit({ projectPath: true, workspacePath: true } as const).shape,
+);
+
+export async function delete_snapshotLogic(
+  params: DeleteSnapshotParams,
+  fileSystemExecutor: FileSystemExecutor,
+): Promise<ToolResponse> {
+  const root = resolveSnapshotRoot(params);
+
+  try {
+    const snapshots = await listSnapshots(root, fileSystemExecutor, {
+      name: params.name,
+      model: params.model,
+      appearance: params.appearance,
+    });
+    if (snapshots.length === 0) {
+      return createErrorResponse(`No baselines named '${params.name}' found in ${root}`);
+    }
+
+    for (const snapshot of snapshots) {
+      await fileSystemExecutor.rm(snapshot.path, { force: true });
+      log('info', `${LOG_PREFIX}/delete_snapshot: Deleted ${snapshot.path}`);
+    }
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ root, deleted: snapshots }, null, 2) }],
+      isError: false,
+    };
+  } catch (error) {
+    log('error', `${LOG_PREFIX}/delete_snapshot: Failed - ${error}`);
+    return createErrorResponse(
+      `Failed to delete snapshot: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+export default {
+  name: 'delete_snapshot',
+  description:
+    'Deletes baselines recorded with record_snapshot by name, optionally limited to one simulator model or appearance.',
+  schema: getSessionAwareToolSchemaShape({
+    sessionAware: publicSchemaObject,
+    legacy: deleteSnapshotSchema,
+  }),
+  annotations: {
+    title: 'Delete Snapshot',
+    destructiveHint: true,
+  },
+  handler: createSessionAwareTool<DeleteSnapshotParams>({
+    internalSchema: deleteSnapshotSchema as unknown as z.ZodType<DeleteSnapshotParams, unknown>,
+    logicFunction: (params: DeleteSnapshotParams) => {
+      return delete_snapshotLogic(params, getDefaultFileSystemExecutor());
+    },
+    getExecutor: getDefaultCommandExecutor,
+  }),
+};
@@ -5,6 +5,13 @@ import { createErrorResponse } from '../../../utils/responses/index.ts';
 import { DependencyError, AxeError, SystemError } from '../../../utils/errors.ts';
 import type { CommandExecutor } from '../../../utils/execution/index.ts';
 import { getDefaultCommandExecutor } from '../../../utils/execution/index.ts';
+import type { AccessibilityElement } from '../../../utils/accessibility/index.ts';
+import {
+  fetchAccessibilityHierarchy,
+  formatAccessibilityOutline,
+  queryAccessibilityElements,
+  serializeAccessibilityElements,
+} from '../../../utils/accessibility/index.ts';
 import {
   createAxeNotAvailableResponse,
   getAxePath,
@@ -14,10 +21,49 @@ import {
   createSessionAwareTool,
   getSessionAwareToolSchemaShape,
 } from '../../../utils/typed-tool-factory.ts';
+import { uiStateStore } from '../../../utils/ui-state-store.ts';
 
 // Define schema as ZodObject
 const describeUiSchema = z.object({
   simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
+  role: z
+    .string()
+    .min(1, { message: 'role must be non-empty' })
+    .optional()
+    .describe(
+      'Optional: Only return elements with this role or type, e.g. "Button" or "AXButton".',
+    ),
+  label: z
+    .string()
+    .min(1, { message: 'label must be non-empty' })
+    .optional()
+    .describe('Optional: Only return elements whose label contains this text (case-insensitive).'),
+  identifier: z
+    .string()
+    .min(1, { message: 'identifier must be non-empty' })
+    .refine(
+      (pattern) => {
+        try {
+          new RegExp(pattern);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      { message: 'identifier must be a valid regular expression' },
+    )
+    .optional()
+    .describe('Optional: Only return elements whose accessibility identifier matches this regex.'),
+  visibleOnly: z
+    .boolean()
+    .optional()
+    .describe('Optional: Drop elements that have an empty frame or lie entirely off screen.'),
+  format: z
+    .enum(['json', 'outline'])
+    .optional()
+    .describe(
+      'Optional: "json" (default) returns the element tree as JSON; "outline" returns one indented line per element.',
+    ),
 });
 
 // Use z.infer for type safety
@@ -31,14 +77,10 @@ export interface AxeHelpers {
 
 const LOG_PREFIX = '[AXe]';
 
-// Session tracking for describe_ui warnings (shared across UI tools)
-const describeUITimestamps = new Map();
-
-function recordDescribeUICall(simulatorId: string): void {
-  describeUITimestamps.set(simulatorId, {
-    timestamp: Date.now(),
-    simulatorId,
-  });
+function formatElements(elements: AccessibilityElement[], format: 'json' | 'outline'): string {
+  return format === 'outline'
+    ? '```\n' + formatAccessibilityOutline(elements) + '\n```'
+    : '```json\n' + serializeAccessibilityElements(elements) + '\n```';
 }
 
 /**
@@ -55,29 +97,39 @@ export async function describe_uiLogic(
 ): Promise<ToolResponse> {
   const toolName = 'describe_ui';
   const { simulatorId } = params;
-  const commandArgs = ['describe-ui'];
+  const format = params.format ?? 'json';
 
   log('info', `${LOG_PREFIX}/${toolName}: Starting for ${simulatorId}`);
 
   try {
-    const responseText = await executeAxeCommand(
-      commandArgs,
-      simulatorId,
-      'describe-ui',
-      executor,
-      axeHelpers,
-    );
-
-    // Record the describe_ui call for warning system
-    recordDescribeUICall(simulatorId);
+    const hierarchy = await fetchAccessibilityHierarchy(simulatorId, executor, axeHelpers);
+
+    // Record the full hierarchy so coordinate-taking tools know it is current
+    uiStateStore.record(simulatorId, hierarchy.elements);
+
+    const isFiltered =
+      params.role !== undefined || params.label !== undefined || params.identifier !== undefined;
+    const elements = queryAccessibilityElements(hierarchy.elements, {
+      role: params.role,
+      label: params.label,
+      identifier: params.identifier !== undefined ? new RegExp(params.identifier) : undefined,
+      visibleOnly: params.visibleOnly,
+    });
+
+    let summary = 'Accessibility hierarchy retrieved successfully:';
+    if (isFiltered) {
+      summary =
+        elements.length === 0
+          ? 'No elements matched the query.'
+          : `Found ${elements.length} matching element${elements.length === 1 ? '' : 's'}:`;
+    }
 
     log('info', `${LOG_PREFIX}/${toolName}: Success for ${simulatorId}`);
     return {
       content: [
         {
           type: 'text',
-          text:
-            'Accessibility hierarchy retrieved successfully:\n```json\n' + responseText + '\n```',
+          text: elements.length === 0 ? summary : `${summary}\n${formatElements(elements, format)}`,
         },
         {
           type: 'text',
@@ -116,7 +168,7 @@ const publicSchemaObject = z.strictObject(
 export default {
   name: 'describe_ui',
   description:
-    'Gets entire view hierarchy with precise frame coordinates (x, y, width, height) for all visible elements. Use this before UI interactions or after layout changes - do NOT guess coordinates from screenshots. Returns JSON tree with frame data for accurate automation.',
+    'Gets entire view hierarchy with precise frame coordinates (x, y, width, height) for all visible elements. Use this before UI interactions or after layout changes - do NOT guess coordinates from screenshots. Returns a typed element tree (role, label, identifier, value, frame, enabled, children) as JSON or a compact outline; filter by role, label, identifier regex or visibleOnly to get just the elements you need.',
   schema: getSessionAwareToolSchemaShape({
     sessionAware: publicSchemaObject,
     legacy: describeUiSchema,
@@ -137,62 +189,3 @@ export default {
     requirements: [{ allOf: ['simulatorId'], message: 'simulatorId is required' }],
   }),
 };
-
-// Helper function for executing axe commands (inlined from src/tools/axe/index.ts)
-async function executeAxeCommand(
-  commandArgs: string[],
-  simulatorId: string,
-  commandName: string,
-  executor: CommandExecutor = getDefaultCommandExecutor(),
-  axeHelpers: AxeHelpers = { getAxePath, getBundledAxeEnvironment, createAxeNotAvailableResponse },
-): Promise<string> {
-  // Get the appropriate axe binary path
-  const axeBinary = axeHelpers.getAxePath();
-  if (!axeBinary) {
-    throw new DependencyError('AXe binary not found');
-  }
-
-  // Add --udid parameter to all commands
-  const fullArgs = [...commandArgs, '--udid', simulatorId];
-
-  // Construct the full command array with the axe binary as the first element
-  const fullCommand = [axeBinary, ...fullArgs];
-
-  try {
-    // Determine environment variables for bundled AXe
-    const axeEnv = axeBinary !== 'axe' ? axeHelpers.getBundledAxeEnvironment() : undefined;
-
-    const result = await executor(fullCommand, `${LOG_PREFIX}: ${commandName}`, false, axeEnv);
-
-    if (!result.success) {
-      throw new AxeError(
-        `axe command '${commandName}' failed.`,
-        commandName,
-        result.error ?? result.output,
-        simulatorId,
-      );
-    }
-
-    // Check for stderr output in successful commands
-    if (result.error) {
-      log(
-        'warn',
-        `${LOG_PREFIX}: Command '${commandName}' produced stderr output but exited successfully. Output: ${result.error}`,
-      );
-    }
-
-    return result.output.trim();
-  } catch (error) {
-    if (error instanceof Error) {
-      if (error instanceof AxeError) {
-        throw error;
-      }
-
-      // Otherwise wrap it in a SystemError
-      throw new SystemError(`Failed to execute axe command: ${error.message}`, error);
-    }
-
-    // For any other type of error
-    throw new SystemError(`Failed to execute axe command: ${String(error)}`);
-  }
-}
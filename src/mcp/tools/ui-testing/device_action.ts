@@ -0,0 +1,283 @@
+/**
+ * UI Testing Plugin: Device Action
+ *
+ * Device-level actions for reproducing orientation, shake, memory and lock-screen bugs.
+ *
+ * - shake posts the Darwin notification UIKit listens for in the simulator
+ *   (`simctl notify_post`), which delivers a motion-shake event to the key window.
+ * - lock presses the lock button through AXe; unlock presses home twice, once to wake
+ *   the screen and once to dismiss the lock screen. Simulators have no passcode by
+ *   default; a passcode prompt still has to be entered with type_text.
+ * - hardware_keyboard writes Simulator.app's ConnectHardwareKeyboard preference. It
+ *   applies to every simulator and is read when Simulator.app opens a device window.
+ * - rotate and memory_warning have no simctl or AXe primitive: Simulator.app implements
+ *   both in its own menus. They are rejected with the available alternatives instead of
+ *   scripting Simulator.app's UI, which would act on whichever window is in front.
+ */
+
+import * as z from 'zod';
+import type { ToolResponse } from '../../../types/common.ts';
+import { log } from '../../../utils/logging/index.ts';
+import { createTextResponse, createErrorResponse } from '../../../utils/responses/index.ts';
+import { DependencyError, AxeError, SystemError } from '../../../utils/errors.ts';
+import type { CommandExecutor } from '../../../utils/execution/index.ts';
+import { getDefaultCommandExecutor } from '../../../utils/execution/index.ts';
+import {
+  createAxeNotAvailableResponse,
+  getAxePath,
+  getBundledAxeEnvironment,
+} from '../../../utils/axe-helpers.ts';
+import {
+  createSessionAwareTool,
+  getSessionAwareToolSchemaShape,
+} from '../../../utils/typed-tool-factory.ts';
+import { uiStateStore } from '../../../utils/ui-state-store.ts';
+
+export interface AxeHelpers {
+  getAxePath: () => string | null;
+  getBundledAxeEnvironment: () => Record<string, string>;
+  createAxeNotAvailableResponse: () => ToolResponse;
+}
+
+const LOG_PREFIX = '[AXe]';
+
+const SHAKE_NOTIFICATION = 'com.apple.UIKit.SimulatorShake';
+const SIMULATOR_DEFAULTS_DOMAIN = 'com.apple.iphonesimulator';
+
+const ACTION_FIELDS = {
+  rotate: ['orientation'],
+  shake: [],
+  memory_warning: [],
+  hardware_keyboard: ['enabled'],
+  lock: [],
+  unlock: [],
+} as const;
+
+type DeviceAction = keyof typeof ACTION_FIELDS;
+
+// Define schema as ZodObject
+const baseDeviceActionSchema = z.object({
+  simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
+  action: z
+    .enum(['rotate', 'shake', 'memory_warning', 'hardware_keyboard', 'lock', 'unlock'])
+    .describe('Device action to perform.'),
+  orientation: z
+    .enum(['portrait', 'portrait_upside_down', 'landscape_left', 'landscape_right'])
+    .optional()
+    .describe('rotate: Target device orientation.'),
+  enabled: z
+    .boolean()
+    .optional()
+    .describe('hardware_keyboard: true connects the Mac keyboard, false shows the on-screen one.'),
+});
+
+const deviceActionSchema = baseDeviceActionSchema.superRefine((values, ctx) => {
+  const allowed: readonly string[] = ACTION_FIELDS[values.action];
+  for (const field of ['orientation', 'enabled'] as const) {
+    if (values[field] === undefined && allowed.includes(field)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [field],
+        message: `${field} is required when action is "${values.action}".`,
+      });
+    } else if (values[field] !== undefined && !allowed.includes(field)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [field],
+        message: `${field} does not apply to action "${values.action}".`,
+      });
+    }
+  }
+});
+
+// Use z.infer for type safety
+type DeviceActionParams = z.infer<typeof deviceActionSchema>;
+
+const publicSchemaObject = z.strictObject(
+  baseDeviceActionSchema.omit({ simulatorId: true } as const).shape,
+);
+
+function createUnsupportedResponse(action: DeviceAction): ToolResponse {
+  if (action === 'rotate') {
+    return createErrorResponse(
+      'Rotating the device is not supported: neither simctl nor AXe can change the orientation.',
+      'Simulator.app rotates from its Device menu (Rotate Left ⌘←, Rotate Right ⌘→). In an XCUITest, set XCUIDevice.shared.orientation; the generated code from export_xcuitest can be extended with it.',
+    );
+  }
+  return createErrorResponse(
+    'Triggering a memory warning is not supported: neither simctl nor AXe can send one.',
+    'Simulator.app sends it from Debug > Simulate Memory Warning (⇧⌘M). In a debug build, the app can call UIApplication.shared.perform(Selector(("_performMemoryWarning"))) from a test hook.',
+  );
+}
+
+export async function device_actionLogic(
+  params: DeviceActionParams,
+  executor: CommandExecutor,
+  axeHelpers: AxeHelpers = {
+    getAxePath,
+    getBundledAxeEnvironment,
+    createAxeNotAvailableResponse,
+  },
+): Promise<ToolResponse> {
+  const toolName = 'device_action';
+  const { simulatorId, action } = params;
+
+  log('info', `${LOG_PREFIX}/${toolName}: Starting ${action} on ${simulatorId}`);
+
+  if (action === 'rotate' || action === 'memory_warning') {
+    log('info', `${LOG_PREFIX}/${toolName}: Rejected ${action}: no simctl or AXe support`);
+    return createUnsupportedResponse(action);
+  }
+
+  if (action === 'shake' || action === 'hardware_keyboard') {
+    const command =
+      action === 'shake'
+        ? ['xcrun', 'simctl', 'notify_post', simulatorId, SHAKE_NOTIFICATION]
+        : [
+            'defaults',
+            'write',
+            SIMULATOR_DEFAULTS_DOMAIN,
+            'ConnectHardwareKeyboard',
+            '-bool',
+            params.enabled ? 'true' : 'false',
+          ];
+    const description = action === 'shake' ? 'Shake Device' : 'Set Hardware Keyboard';
+
+    try {
+      const result = await executor(command, description, false);
+      if (!result.success) {
+        log('error', `${LOG_PREFIX}/${toolName}: ${action} failed - ${result.error}`);
+        return createErrorResponse(
+          action === 'shake'
+            ? 'Failed to shake device: simctl notify_post failed. The simulator must be booted.'
+            : 'Failed to set hardware keyboard preference.',
+          result.error ?? result.output,
+        );
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log('error', `${LOG_PREFIX}/${toolName}: ${action} failed - ${message}`);
+      return createErrorResponse(`System error executing ${command[0]}: ${message}`);
+    }
+
+    log('info', `${LOG_PREFIX}/${toolName}: Success for ${simulatorId}`);
+    if (action === 'shake') {
+      uiStateStore.invalidate(simulatorId, 'device_action');
+      return createTextResponse('Shake gesture sent to the device.');
+    }
+    return createTextResponse(
+      `Hardware keyboard ${params.enabled ? 'connected' : 'disconnected'} for all simulators. Simulator.app reads this when it opens a device window: quit and reopen Simulator.app (or toggle I/O > Keyboard > Connect Hardware Keyboard, ⇧⌘K) to apply it to a window that is already open.`,
+    );
+  }
+
+  try {
+    if (action === 'lock') {
+      await executeAxeCommand(['button', 'lock'], simulatorId, 'button', executor, axeHelpers);
+    } else {
+      // The first press wakes the screen, the second dismisses the lock screen
+      for (let press = 0; press < 2; press++) {
+        await executeAxeCommand(['button', 'home'], simulatorId, 'button', executor, axeHelpers);
+      }
+    }
+    log('info', `${LOG_PREFIX}/${toolName}: Success for ${simulatorId}`);
+    uiStateStore.invalidate(simulatorId, 'device_action');
+    return createTextResponse(
+      action === 'lock'
+        ? 'Device locked.'
+        : 'Device unlocked. If a passcode is set, enter it with type_text.',
+    );
+  } catch (error) {
+    log('error', `${LOG_PREFIX}/${toolName}: Failed - ${error}`);
+    if (error instanceof DependencyError) {
+      return axeHelpers.createAxeNotAvailableResponse();
+    } else if (error instanceof AxeError) {
+      return createErrorResponse(`Failed to ${action} device: ${error.message}`, error.axeOutput);
+    } else if (error instanceof SystemError) {
+      return createErrorResponse(
+        `System error executing axe: ${error.message}`,
+        error.originalError?.stack,
+      );
+    }
+    return createErrorResponse(
+      `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+export default {
+  name: 'device_action',
+  description:
+    'Device-level actions: shake (motion shake event), lock, unlock, and hardware_keyboard (connect or disconnect the Mac keyboard for all simulators). rotate and memory_warning are accepted but reported as unsupported, since neither simctl nor AXe can trigger them.',
+  schema: getSessionAwareToolSchemaShape({
+    sessionAware: publicSchemaObject,
+    legacy: baseDeviceActionSchema,
+  }),
+  annotations: {
+    title: 'Device Action',
+    destructiveHint: true,
+  },
+  handler: createSessionAwareTool<DeviceActionParams>({
+    internalSchema: deviceActionSchema as unknown as z.ZodType<DeviceActionParams, unknown>,
+    logicFunction: (params: DeviceActionParams, executor: CommandExecutor) =>
+      device_actionLogic(params, executor),
+    getExecutor: getDefaultCommandExecutor,
+    requirements: [{ allOf: ['simulatorId'], message: 'simulatorId is required' }],
+  }),
+};
+
+// Helper function for executing axe commands (inlined from src/tools/axe/index.ts)
+async function executeAxeCommand(
+  commandArgs: string[],
+  simulatorId: string,
+  commandName: string,
+  executor: CommandExecutor = getDefaultCommandExecutor(),
+  axeHelpers: AxeHelpers = { getAxePath, getBundledAxeEnvironment, createAxeNotAvailableResponse },
+): Promise<void> {
+  // Get the appropriate axe binary path
+  const axeBinary = axeHelpers.getAxePath();
+  if (!axeBinary) {
+    throw new DependencyError('AXe binary not found');
+  }
+
+  // Add --udid parameter to all commands
+  const fullArgs = [...commandArgs, '--udid', simulatorId];
+
+  // Construct the full command array with the axe binary as the first element
+  const fullCommand = [axeBinary, ...fullArgs];
+
+  try {
+    // Determine environment variables for bundled AXe
+    const axeEnv = axeBinary !== 'axe' ? axeHelpers.getBundledAxeEnvironment() : undefined;
+
+    const result = await executor(fullCommand, `${LOG_PREFIX}: ${commandName}`, false, axeEnv);
+
+    if (!result.success) {
+      throw new AxeError(
+        `axe command '${commandName}' failed.`,
+        commandName,
+        result.error ?? result.output,
+        simulatorId,
+      );
+    }
+
+    // Check for stderr output in successful commands
+    if (result.error) {
+      log(
+        'warn',
+        `${LOG_PREFIX}: Command '${commandName}' produced stderr output but exited successfully. Output: ${result.error}`,
+      );
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error instanceof AxeError) {
+        throw error;
+      }
+
+      // Otherwise wrap it in a SystemError
+      throw new SystemError(`Failed to execute axe command: ${error.message}`, error);
+    }
+
+    // For any other type of error
+    throw new SystemError(`Failed to execute axe command: ${String(error)}`);
+  }
+}
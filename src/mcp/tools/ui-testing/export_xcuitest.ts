@@ -0,0 +1,138 @@
+/**
+ * UI Testing Plugin: Export XCUITest
+ *
+ * Exports the UI interactions recorded for a simulator (tap, type_text, swipe, gesture)
+ * as a Swift XCUITest method, so flows discovered interactively can be kept as
+ * regression tests in the project.
+ */
+
+import * as path from 'path';
+import * as z from 'zod';
+import type { ToolResponse } from '../../../types/common.ts';
+import { log } from '../../../utils/logging/index.ts';
+import { createErrorResponse, createTextResponse } from '../../../utils/responses/index.ts';
+import type { FileSystemExecutor } from '../../../utils/execution/index.ts';
+import {
+  getDefaultCommandExecutor,
+  getDefaultFileSystemExecutor,
+} from '../../../utils/execution/index.ts';
+import { generateXCUITestSource, SWIFT_IDENTIFIER_PATTERN } from '../../../utils/xcuitest/index.ts';
+import type { UIRecorder } from '../../../utils/ui-recorder.ts';
+import { uiRecorder } from '../../../utils/ui-recorder.ts';
+import {
+  createSessionAwareTool,
+  getSessionAwareToolSchemaShape,
+} from '../../../utils/typed-tool-factory.ts';
+
+const LOG_PREFIX = '[XCUITest]';
+
+// Define schema as ZodObject
+const exportXcuitestSchema = z.object({
+  simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
+  outputPath: z
+    .string()
+    .refine((value) => value.endsWith('.swift'), { message: 'outputPath must end in .swift' })
+    .optional()
+    .describe(
+      'Optional: Swift file to write, e.g. MyAppUITests/LoginFlowTests.swift. Without it the source is only returned.',
+    ),
+  className: z
+    .string()
+    .regex(SWIFT_IDENTIFIER_PATTERN, { message: 'className must be a valid Swift identifier' })
+    .optional()
+    .describe('Optional: Test class name. Defaults to RecordedUITests.'),
+  testName: z
+    .string()
+    .regex(/^test[A-Za-z0-9_]*$/, {
+      message: 'testName must start with "test" and be a valid Swift identifier',
+    })
+    .optional()
+    .describe('Optional: Test method name. Defaults to testRecordedFlow.'),
+  bundleId: z
+    .string()
+    .optional()
+    .describe('Optional: Bundle identifier of the app under test. Defaults to the target app.'),
+  overwrite: z
+    .boolean()
+    .optional()
+    .describe('Optional: Replace outputPath if it already exists. Defaults to false.'),
+  clear: z
+    .boolean()
+    .optional()
+    .describe('Optional: Clear the recorded session after exporting. Defaults to false.'),
+});
+
+// Use z.infer for type safety
+type ExportXcuitestParams = z.infer<typeof exportXcuitestSchema>;
+
+const publicSchemaObject = z.strictObject(
+  exportXcuitestSchema.omit({ simulatorId: true } as const).shape,
+);
+
+export async function export_xcuitestLogic(
+  params: ExportXcuitestParams,
+  fileSystemExecutor: FileSystemExecutor = getDefaultFileSystemExecutor(),
+  recorder: UIRecorder = uiRecorder,
+): Promise<ToolResponse> {
+  const { simulatorId } = params;
+  const className = params.className ?? 'RecordedUITests';
+  const testName = params.testName ?? 'testRecordedFlow';
+
+  const steps = recorder.getSteps(simulatorId);
+  if (steps.length === 0) {
+    return createErrorResponse(
+      `No UI interactions recorded for simulator ${simulatorId}.`,
+      'Successful tap, type_text, fill_field, swipe and gesture calls are recorded automatically; run the flow first.',
+    );
+  }
+
+  const source = generateXCUITestSource(steps, { className, testName, bundleId: params.bundleId });
+  const summary = `${steps.length} recorded ${steps.length === 1 ? 'step' : 'steps'} as ${className}.${testName}`;
+
+  try {
+    let message = `Generated XCUITest from ${summary}:`;
+    if (params.outputPath !== undefined) {
+      const outputPath = path.resolve(params.outputPath);
+      if (!params.overwrite && fileSystemExecutor.existsSync(outputPath)) {
+        return createErrorResponse(
+          `File already exists: ${outputPath}`,
+          'Pass overwrite: true to replace it.',
+        );
+      }
+      await fileSystemExecutor.mkdir(path.dirname(outputPath), { recursive: true });
+      await fileSystemExecutor.writeFile(outputPath, source, 'utf8');
+      log('info', `${LOG_PREFIX}/export_xcuitest: Wrote ${outputPath}`);
+      message = `Exported ${summary} to ${outputPath}. Add it to your UI test target.`;
+    }
+
+    if (params.clear) {
+      recorder.clear(simulatorId);
+    }
+    return createTextResponse(`${message}\n\`\`\`swift\n${source}\`\`\``);
+  } catch (error) {
+    log('error', `${LOG_PREFIX}/export_xcuitest: Failed - ${error}`);
+    return createErrorResponse(
+      `Failed to write XCUITest file: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+export default {
+  name: 'export_xcuitest',
+  description:
+    'Exports the UI interactions recorded for a simulator (successful tap, type_text, fill_field, swipe and gesture calls) as a Swift XCUITest method, using accessibility identifiers where known. Optionally writes it to a .swift file in your UI test target.',
+  schema: getSessionAwareToolSchemaShape({
+    sessionAware: publicSchemaObject,
+    legacy: exportXcuitestSchema,
+  }),
+  annotations: {
+    title: 'Export XCUITest',
+    destructiveHint: true,
+  },
+  handler: createSessionAwareTool<ExportXcuitestParams>({
+    internalSchema: exportXcuitestSchema as unknown as z.ZodType<ExportXcuitestParams, unknown>,
+    logicFunction: (params: ExportXcuitestParams) => export_xcuitestLogic(params),
+    getExecutor: getDefaultCommandExecutor,
+    requirements: [{ allOf: ['simulatorId'], message: 'simulatorId is required' }],
+  }),
+};
@@ -0,0 +1,386 @@
+/**
+ * UI Testing Plugin: Fill Field
+ *
+ * Replaces the content of a text field: resolves the field by selector, taps it to focus,
+ * selects and deletes the existing content, types the new value and optionally presses
+ * return. Both the cleared field and the resulting value are verified against fresh
+ * describe_ui snapshots.
+ */
+
+import * as z from 'zod';
+import type { ToolResponse } from '../../../types/common.ts';
+import { log } from '../../../utils/logging/index.ts';
+import { createTextResponse, createErrorResponse } from '../../../utils/responses/index.ts';
+import {
+  DependencyError,
+  AxeError,
+  ElementResolutionError,
+  SystemError,
+} from '../../../utils/errors.ts';
+import type { CommandExecutor } from '../../../utils/execution/index.ts';
+import { getDefaultCommandExecutor } from '../../../utils/execution/index.ts';
+import {
+  createAxeNotAvailableResponse,
+  getAxePath,
+  getBundledAxeEnvironment,
+} from '../../../utils/axe-helpers.ts';
+import type { AccessibilityElement } from '../../../utils/accessibility/index.ts';
+import {
+  describeAccessibilityElement,
+  fetchAccessibilityHierarchy,
+} from '../../../utils/accessibility/index.ts';
+import {
+  describeElementSelector,
+  elementSelectorSchema,
+  findElementsBySelector,
+  resolveElement,
+} from '../../../utils/element-selector/index.ts';
+import {
+  createSessionAwareTool,
+  getSessionAwareToolSchemaShape,
+} from '../../../utils/typed-tool-factory.ts';
+import { buildKeyChordArgs, MODIFIER_KEY_CODES } from '../../../utils/keymap/index.ts';
+import { toRecordedElement, uiRecorder } from '../../../utils/ui-recorder.ts';
+import { uiStateStore } from '../../../utils/ui-state-store.ts';
+
+export interface AxeHelpers {
+  getAxePath: () => string | null;
+  getBundledAxeEnvironment: () => Record<string, string>;
+  createAxeNotAvailableResponse: () => ToolResponse;
+}
+
+const LOG_PREFIX = '[AXe]';
+
+// HID usage codes (keyboard page)
+const KEY_A = 4;
+const KEY_RETURN = 40;
+const KEY_BACKSPACE = 42;
+const KEY_DELETE_FORWARD = 76;
+
+// Secure text fields expose one bullet per character instead of their value
+const SECURE_FIELD_TYPES = new Set(['SecureTextField']);
+const MASK_CHARACTER = '•';
+
+// Delete passes after select-all before giving up on clearing the field
+const MAX_CLEAR_PASSES = 3;
+
+// Define schema as ZodObject
+export const fillFieldSchema = z.object({
+  simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
+  selector: elementSelectorSchema.describe(
+    'Field to fill, e.g. {"id":"email-field"} or {"role":"TextField","label":"Email"}.',
+  ),
+  text: z.string().describe('New value for the field. An empty string just clears it.'),
+  submit: z
+    .boolean()
+    .optional()
+    .describe('Optional: Press return after typing, e.g. to submit a form. Defaults to false.'),
+  verify: z
+    .boolean()
+    .optional()
+    .describe(
+      'Optional: Check via describe_ui that the field is empty after clearing and holds the text after typing. Secure fields are checked by length. Defaults to true.',
+    ),
+});
+
+// Use z.infer for type safety
+type FillFieldParams = z.infer<typeof fillFieldSchema>;
+
+const publicSchemaObject = z.strictObject(
+  fillFieldSchema.omit({ simulatorId: true } as const).shape,
+);
+
+function isSecureField(element: AccessibilityElement): boolean {
+  return SECURE_FIELD_TYPES.has(element.type ?? element.role.replace(/^AX/, ''));
+}
+
+function findField(
+  elements: AccessibilityElement[],
+  selector: FillFieldParams['selector'],
+): AccessibilityElement | undefined {
+  const matches = findElementsBySelector(elements, selector);
+  return selector.index !== undefined ? matches[selector.index] : matches[0];
+}
+
+// Delete forward and backward once per character, wherever the caret is
+function deleteCharacterKeyCodes(value: string): number[] {
+  const length = Array.from(value).length;
+  return [
+    ...Array<number>(length).fill(KEY_DELETE_FORWARD),
+    ...Array<number>(length).fill(KEY_BACKSPACE),
+  ];
+}
+
+/**
+ * Clear the focused field with select-all (⌘A) and backspace. With verify, check a fresh
+ * snapshot afterwards and delete what is left character by character until the field is
+ * empty. A value that survives a pass of deletes unchanged is the placeholder, which empty
+ * fields report as their value. Returns a failure message, or null once the field is empty.
+ */
+async function clearField(
+  params: FillFieldParams,
+  verify: boolean,
+  executor: CommandExecutor,
+  axeHelpers: AxeHelpers,
+): Promise<string | null> {
+  const { simulatorId, selector } = params;
+  await executeAxeCommand(
+    buildKeyChordArgs({ keyCode: KEY_A, modifiers: [MODIFIER_KEY_CODES.cmd] }),
+    simulatorId,
+    'key-combo',
+    executor,
+    axeHelpers,
+  );
+  await executeAxeCommand(['key', String(KEY_BACKSPACE)], simulatorId, 'key', executor, axeHelpers);
+  if (!verify) {
+    return null;
+  }
+
+  const description = describeElementSelector(selector);
+  let deletedValue: string | null = null;
+  for (let pass = 0; pass <= MAX_CLEAR_PASSES; pass++) {
+    const { elements } = await fetchAccessibilityHierarchy(simulatorId, executor, axeHelpers);
+    const field = findField(elements, selector);
+    if (!field) {
+      return `Field ${description} was not found after clearing.`;
+    }
+    const value = field.value ?? '';
+    if (value === '' || value === deletedValue) {
+      return null;
+    }
+    if (pass === MAX_CLEAR_PASSES) {
+      return `Field ${description} still has value ${JSON.stringify(value)} after clearing.`;
+    }
+    await executeAxeCommand(
+      ['key-sequence', '--keycodes', deleteCharacterKeyCodes(value).join(',')],
+      simulatorId,
+      'key-sequence',
+      executor,
+      axeHelpers,
+    );
+    deletedValue = value;
+  }
+  return null;
+}
+
+/**
+ * Compare the field in a fresh snapshot with the typed text. Returns a failure message,
+ * or null when the value matches.
+ */
+function checkFieldValue(
+  elements: AccessibilityElement[],
+  params: FillFieldParams,
+  secure: boolean,
+): string | null {
+  const { selector, text } = params;
+  const field = findField(elements, selector);
+  const description = describeElementSelector(selector);
+
+  if (!field) {
+    return `Field ${description} was not found after typing.`;
+  }
+  const value = field.value ?? '';
+  if (secure) {
+    const length = Array.from(text).length;
+    return value === MASK_CHARACTER.repeat(length)
+      ? null
+      : `Secure field ${description} holds ${Array.from(value).length} characters, expected ${length}.`;
+  }
+  return value === text
+    ? null
+    : `Field ${description} has value ${JSON.stringify(value)}, expected ${JSON.stringify(text)}.`;
+}
+
+export async function fill_fieldLogic(
+  params: FillFieldParams,
+  executor: CommandExecutor,
+  axeHelpers: AxeHelpers = {
+    getAxePath,
+    getBundledAxeEnvironment,
+    createAxeNotAvailableResponse,
+  },
+): Promise<ToolResponse> {
+  const toolName = 'fill_field';
+  const { simulatorId, selector, text } = params;
+  const description = describeElementSelector(selector);
+
+  log('info', `${LOG_PREFIX}/${toolName}: Filling ${description} on ${simulatorId}`);
+
+  try {
+    const { element, center } = await resolveElement(simulatorId, selector, executor, axeHelpers);
+    const secure = isSecureField(element);
+
+    await executeAxeCommand(
+      ['tap', '-x', String(center.x), '-y', String(center.y)],
+      simulatorId,
+      'tap',
+      executor,
+      axeHelpers,
+    );
+    // Verify before pressing return, which often submits the form and navigates away
+    const verify = params.verify !== false;
+    // A field without a value is already empty
+    if ((element.value ?? '') !== '') {
+      const failure = await clearField(params, verify, executor, axeHelpers);
+      if (failure) {
+        log('warn', `${LOG_PREFIX}/${toolName}: ${failure}`);
+        uiStateStore.invalidate(simulatorId, 'fill_field');
+        return createErrorResponse(
+          failure,
+          `The field may not accept select-all (⌘A). Field before filling: ${describeAccessibilityElement(element)}`,
+        );
+      }
+    }
+    if (text !== '') {
+      await executeAxeCommand(['type', text], simulatorId, 'type', executor, axeHelpers);
+    }
+    uiStateStore.invalidate(simulatorId, 'fill_field');
+
+    if (verify && text !== '') {
+      const { elements } = await fetchAccessibilityHierarchy(simulatorId, executor, axeHelpers);
+      const failure = checkFieldValue(elements, params, secure);
+      if (failure) {
+        log('warn', `${LOG_PREFIX}/${toolName}: ${failure}`);
+        return createErrorResponse(
+          failure,
+          `Autocorrect, autocapitalization or input formatting may have changed the text. Field before filling: ${describeAccessibilityElement(element)}`,
+        );
+      }
+    }
+
+    if (params.submit) {
+      await executeAxeCommand(
+        ['key', String(KEY_RETURN)],
+        simulatorId,
+        'key',
+        executor,
+        axeHelpers,
+      );
+    }
+
+    log('info', `${LOG_PREFIX}/${toolName}: Success for ${simulatorId}`);
+    uiRecorder.record(simulatorId, {
+      action: 'type_text',
+      text,
+      element: toRecordedElement(element),
+      replace: true,
+      submit: params.submit,
+    });
+
+    const count = Array.from(text).length;
+    const parts = [
+      text === ''
+        ? `Cleared field ${description}`
+        : `Filled field ${description} with ${count} ${count === 1 ? 'character' : 'characters'}`,
+    ];
+    if (verify) {
+      parts.push(
+        text === ''
+          ? 'verified it is empty'
+          : secure
+            ? 'verified its length (secure field)'
+            : 'verified its value',
+      );
+    }
+    if (params.submit) {
+      parts.push('pressed return');
+    }
+    const last = parts.pop();
+    return createTextResponse(parts.length > 0 ? `${parts.join(', ')} and ${last}.` : `${last}.`);
+  } catch (error) {
+    log('error', `${LOG_PREFIX}/${toolName}: Failed - ${error}`);
+    if (error instanceof DependencyError) {
+      return axeHelpers.createAxeNotAvailableResponse();
+    } else if (error instanceof AxeError) {
+      return createErrorResponse(`Failed to fill field: ${error.message}`, error.axeOutput);
+    } else if (error instanceof ElementResolutionError) {
+      return createErrorResponse(error.message, error.details);
+    } else if (error instanceof SystemError) {
+      return createErrorResponse(
+        `System error executing axe: ${error.message}`,
+        error.originalError?.stack,
+      );
+    }
+    return createErrorResponse(
+      `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+export default {
+  name: 'fill_field',
+  description:
+    "Replaces a text field's content: finds the field by selector, focuses it, selects and deletes the existing text (⌘A, backspace), types the new value and optionally presses return. Verifies via describe_ui that the field was emptied and holds the new value (by length for secure fields). Prefer this over type_text for forms, since type_text appends.",
+  schema: getSessionAwareToolSchemaShape({
+    sessionAware: publicSchemaObject,
+    legacy: fillFieldSchema,
+  }),
+  annotations: {
+    title: 'Fill Field',
+    destructiveHint: true,
+  },
+  handler: createSessionAwareTool<FillFieldParams>({
+    internalSchema: fillFieldSchema as unknown as z.ZodType<FillFieldParams, unknown>,
+    logicFunction: (params: FillFieldParams, executor: CommandExecutor) =>
+      fill_fieldLogic(params, executor),
+    getExecutor: getDefaultCommandExecutor,
+    requirements: [{ allOf: ['simulatorId'], message: 'simulatorId is required' }],
+  }),
+};
+
+// Helper function for executing axe commands (inlined from src/tools/axe/index.ts)
+async function executeAxeCommand(
+  commandArgs: string[],
+  simulatorId: string,
+  commandName: string,
+  executor: CommandExecutor = getDefaultCommandExecutor(),
+  axeHelpers: AxeHelpers = { getAxePath, getBundledAxeEnvironment, createAxeNotAvailableResponse },
+): Promise<void> {
+  // Get the appropriate axe binary path
+  const axeBinary = axeHelpers.getAxePath();
+  if (!axeBinary) {
+    throw new DependencyError('AXe binary not found');
+  }
+
+  // Add --udid parameter to all commands
+  const fullArgs = [...commandArgs, '--udid', simulatorId];
+
+  // Construct the full command array with the axe binary as the first element
+  const fullCommand = [axeBinary, ...fullArgs];
+
+  try {
+    // Determine environment variables for bundled AXe
+    const axeEnv = axeBinary !== 'axe' ? axeHelpers.getBundledAxeEnvironment() : undefined;
+
+    const result = await executor(fullCommand, `${LOG_PREFIX}: ${commandName}`, false, axeEnv);
+
+    if (!result.success) {
+      throw new AxeError(
+        `axe command '${commandName}' failed.`,
+        commandName,
+        result.error ?? result.output,
+        simulatorId,
+      );
+    }
+
+    // Check for stderr output in successful commands
+    if (result.error) {
+      log(
+        'warn',
+        `${LOG_PREFIX}: Command '${commandName}' produced stderr output but exited successfully. Output: ${result.error}`,
+      );
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error instanceof AxeError) {
+        throw error;
+      }
+
+      // Otherwise wrap it in a SystemError
+      throw new SystemError(`Failed to execute axe command: ${error.message}`, error);
+    }
+
+    // For any other type of error
+    throw new SystemError(`Failed to execute axe command: ${String(error)}`);
+  }
+}
@@ -26,9 +26,12 @@ import {
   createSessionAwareTool,
   getSessionAwareToolSchemaShape,
 } from '../../../utils/typed-tool-factory.ts';
+import { getScreenFrame } from '../../../utils/accessibility/index.ts';
+import { uiRecorder } from '../../../utils/ui-recorder.ts';
+import { uiStateStore } from '../../../utils/ui-state-store.ts';
 
 // Define schema as ZodObject
-const gestureSchema = z.object({
+export const gestureSchema = z.object({
   simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
   preset: z
     .enum([
@@ -50,7 +53,7 @@ const gestureSchema = z.object({
     .min(1)
     .optional()
     .describe(
-      'Optional: Screen width in pixels. Used for gesture calculations. Auto-detected if not provided.',
+      'Optional: Screen width in pixels. Used for gesture calculations. Taken from the last describe_ui hierarchy or auto-detected if not provided.',
     ),
   screenHeight: z
     .number()
@@ -58,7 +61,7 @@ const gestureSchema = z.object({
     .min(1)
     .optional()
     .describe(
-      'Optional: Screen height in pixels. Used for gesture calculations. Auto-detected if not provided.',
+      'Optional: Screen height in pixels. Used for gesture calculations. Taken from the last describe_ui hierarchy or auto-detected if not provided.',
     ),
   duration: z
     .number()
@@ -107,11 +110,20 @@ export async function gestureLogic(
     params;
   const commandArgs = ['gesture', preset];
 
-  if (screenWidth !== undefined) {
-    commandArgs.push('--screen-width', String(screenWidth));
+  // Fall back to the screen size from a current describe_ui hierarchy
+  const cachedElements =
+    screenWidth === undefined || screenHeight === undefined
+      ? uiStateStore.getCurrent(simulatorId)
+      : undefined;
+  const cachedScreen = cachedElements ? getScreenFrame(cachedElements) : null;
+  const width = screenWidth ?? cachedScreen?.width;
+  const height = screenHeight ?? cachedScreen?.height;
+
+  if (width !== undefined) {
+    commandArgs.push('--screen-width', String(Math.round(width)));
   }
-  if (screenHeight !== undefined) {
-    commandArgs.push('--screen-height', String(screenHeight));
+  if (height !== undefined) {
+    commandArgs.push('--screen-height', String(Math.round(height)));
   }
   if (duration !== undefined) {
     commandArgs.push('--duration', String(duration));
@@ -131,7 +143,15 @@ export async function gestureLogic(
   try {
     await executeAxeCommand(commandArgs, simulatorId, 'gesture', executor, axeHelpers);
     log('info', `${LOG_PREFIX}/${toolName}: Success for ${simulatorId}`);
-    return createTextResponse(`Gesture '${preset}' executed successfully.`);
+    uiRecorder.record(simulatorId, { action: 'gesture', preset });
+    // Without explicit dimensions the gesture is placed using the last hierarchy
+    const warning =
+      screenWidth === undefined || screenHeight === undefined
+        ? uiStateStore.getCoordinateWarning(simulatorId)
+        : null;
+    uiStateStore.invalidate(simulatorId, 'gesture');
+    const message = `Gesture '${preset}' executed successfully.`;
+    return createTextResponse(warning ? `${message}\n\n${warning}` : message);
   } catch (error) {
     log('error', `${LOG_PREFIX}/${toolName}: Failed - ${error}`);
     if (error instanceof DependencyError) {
@@ -19,12 +19,59 @@ import {
   createSessionAwareTool,
   getSessionAwareToolSchemaShape,
 } from '../../../utils/typed-tool-factory.ts';
+import { uiStateStore } from '../../../utils/ui-state-store.ts';
+import {
+  buildKeyChordArgs,
+  KEY_COMBO_HINT,
+  KEY_NAME_HINT,
+  parseKeyChord,
+} from '../../../utils/keymap/index.ts';
 
 // Define schema as ZodObject
-const keyPressSchema = z.object({
+export const baseKeyPressSchema = z.object({
   simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
-  keyCode: z.number().int({ message: 'HID keycode to press (0-255)' }).min(0).max(255),
-  duration: z.number().min(0, { message: 'Duration must be non-negative' }).optional(),
+  keyCode: z
+    .number()
+    .int({ message: 'HID keycode to press (0-255)' })
+    .min(0)
+    .max(255)
+    .optional()
+    .describe('HID keycode to press (0-255). Use either keyCode or key.'),
+  key: z
+    .string()
+    .refine((value) => parseKeyChord(value) !== null, {
+      message: `Unknown key. ${KEY_NAME_HINT}`,
+    })
+    .optional()
+    .describe(
+      'Key name or shortcut to press, e.g. return, escape, tab, arrowDown, f5, a, cmd+a or shift+tab. Use either key or keyCode.',
+    ),
+  duration: z
+    .number()
+    .min(0, { message: 'Duration must be non-negative' })
+    .optional()
+    .describe('Seconds to hold a single key. Not supported for shortcuts.'),
+});
+
+export const keyPressSchema = baseKeyPressSchema.superRefine((values, ctx) => {
+  if ((values.keyCode === undefined) === (values.key === undefined)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [values.keyCode === undefined ? 'keyCode' : 'key'],
+      message: 'Provide exactly one of keyCode or key.',
+    });
+  }
+  if (
+    values.duration !== undefined &&
+    values.key !== undefined &&
+    (parseKeyChord(values.key)?.modifiers.length ?? 0) > 0
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['duration'],
+      message: 'duration does not apply to shortcuts.',
+    });
+  }
 });
 
 // Use z.infer for type safety
@@ -48,26 +95,42 @@ export async function key_pressLogic(
   },
 ): Promise<ToolResponse> {
   const toolName = 'key_press';
-  const { simulatorId, keyCode, duration } = params;
-  const commandArgs = ['key', String(keyCode)];
-  if (duration !== undefined) {
+  const { simulatorId, key, duration } = params;
+  const chord = key !== undefined ? parseKeyChord(key) : null;
+  if (key !== undefined && chord === null) {
+    return createErrorResponse(`Unknown key "${key}".`, KEY_NAME_HINT);
+  }
+  const keyCode = chord ? chord.keyCode : params.keyCode;
+  const modifiers = chord?.modifiers ?? [];
+  const commandArgs = buildKeyChordArgs({ keyCode: keyCode as number, modifiers });
+  if (duration !== undefined && modifiers.length === 0) {
     commandArgs.push('--duration', String(duration));
   }
+  const commandName = commandArgs[0];
+  const codeLabel =
+    modifiers.length > 0
+      ? `code: ${keyCode}, modifiers: ${modifiers.join(',')}`
+      : `code: ${keyCode}`;
 
   log('info', `${LOG_PREFIX}/${toolName}: Starting key press ${keyCode} on ${simulatorId}`);
 
   try {
-    await executeAxeCommand(commandArgs, simulatorId, 'key', executor, axeHelpers);
+    await executeAxeCommand(commandArgs, simulatorId, commandName, executor, axeHelpers);
     log('info', `${LOG_PREFIX}/${toolName}: Success for ${simulatorId}`);
-    return createTextResponse(`Key press (code: ${keyCode}) simulated successfully.`);
+    uiStateStore.invalidate(simulatorId, 'key_press');
+    return createTextResponse(
+      key !== undefined
+        ? `Key press ${key} (${codeLabel}) simulated successfully.`
+        : `Key press (${codeLabel}) simulated successfully.`,
+    );
   } catch (error) {
     log('error', `${LOG_PREFIX}/${toolName}: Failed - ${error}`);
     if (error instanceof DependencyError) {
       return axeHelpers.createAxeNotAvailableResponse();
     } else if (error instanceof AxeError) {
       return createErrorResponse(
-        `Failed to simulate key press (code: ${keyCode}): ${error.message}`,
-        error.axeOutput,
+        `Failed to simulate key press (${codeLabel}): ${error.message}`,
+        modifiers.length > 0 ? `${error.axeOutput}\n${KEY_COMBO_HINT}` : error.axeOutput,
       );
     } else if (error instanceof SystemError) {
       return createErrorResponse(
@@ -82,16 +145,16 @@ export async function key_pressLogic(
 }
 
 const publicSchemaObject = z.strictObject(
-  keyPressSchema.omit({ simulatorId: true } as const).shape,
+  baseKeyPressSchema.omit({ simulatorId: true } as const).shape,
 );
 
 export default {
   name: 'key_press',
   description:
-    'Press a single key by keycode on the simulator. Common keycodes: 40=Return, 42=Backspace, 43=Tab, 44=Space, 58-67=F1-F10.',
+    'Press a single key or shortcut on the simulator by name (key: return, escape, tab, space, backspace, arrowDown, f5, a, cmd+a, shift+tab) or HID keycode (keyCode: 40=Return, 42=Backspace, 43=Tab, 44=Space, 58-67=F1-F10). Shortcuts hold the modifiers while the key is pressed.',
   schema: getSessionAwareToolSchemaShape({
     sessionAware: publicSchemaObject,
-    legacy: keyPressSchema,
+    legacy: baseKeyPressSchema,
   }),
   annotations: {
     title: 'Key Press',
@@ -2,6 +2,9 @@
  * UI Testing Plugin: Key Sequence
  *
  * Press key sequence using HID keycodes on iOS simulator with configurable delay.
+ *
+ * Consecutive single keys are sent in one `key-sequence` call; each shortcut is sent with
+ * `key-combo` so its modifiers stay held while the key is pressed.
  */
 
 import * as z from 'zod';
@@ -25,14 +28,49 @@ import {
   createSessionAwareTool,
   getSessionAwareToolSchemaShape,
 } from '../../../utils/typed-tool-factory.ts';
+import { uiStateStore } from '../../../utils/ui-state-store.ts';
+import {
+  buildKeyChordArgs,
+  KEY_COMBO_HINT,
+  KEY_NAME_HINT,
+  parseKeyChord,
+} from '../../../utils/keymap/index.ts';
+import type { KeyChord } from '../../../utils/keymap/index.ts';
 
 // Define schema as ZodObject
-const keySequenceSchema = z.object({
+const baseKeySequenceSchema = z.object({
   simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
   keyCodes: z
     .array(z.number().int().min(0).max(255))
-    .min(1, { message: 'At least one key code required' }),
-  delay: z.number().min(0, { message: 'Delay must be non-negative' }).optional(),
+    .min(1, { message: 'At least one key code required' })
+    .optional()
+    .describe('HID keycodes to press in order. Use either keyCodes or keys.'),
+  keys: z
+    .array(
+      z.string().refine((value) => parseKeyChord(value) !== null, {
+        message: `Unknown key. ${KEY_NAME_HINT}`,
+      }),
+    )
+    .min(1, { message: 'At least one key required' })
+    .optional()
+    .describe(
+      'Key names or shortcuts to press in order, e.g. ["arrowDown","arrowDown","return"] or ["cmd+a","backspace"]. Use either keys or keyCodes.',
+    ),
+  delay: z
+    .number()
+    .min(0, { message: 'Delay must be non-negative' })
+    .optional()
+    .describe('Seconds to wait between keys.'),
+});
+
+const keySequenceSchema = baseKeySequenceSchema.superRefine((values, ctx) => {
+  if ((values.keyCodes === undefined) === (values.keys === undefined)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [values.keyCodes === undefined ? 'keyCodes' : 'keys'],
+      message: 'Provide exactly one of keyCodes or keys.',
+    });
+  }
 });
 
 // Use z.infer for type safety
@@ -56,21 +94,34 @@ export async function key_sequenceLogic(
   },
 ): Promise<ToolResponse> {
   const toolName = 'key_sequence';
-  const { simulatorId, keyCodes, delay } = params;
-  const commandArgs = ['key-sequence', '--keycodes', keyCodes.join(',')];
-  if (delay !== undefined) {
-    commandArgs.push('--delay', String(delay));
+  const { simulatorId, keys, delay } = params;
+  let chords: KeyChord[] = (params.keyCodes ?? []).map((keyCode) => ({ keyCode, modifiers: [] }));
+  if (keys !== undefined) {
+    chords = [];
+    for (const key of keys) {
+      const chord = parseKeyChord(key);
+      if (!chord) {
+        return createErrorResponse(`Unknown key "${key}".`, KEY_NAME_HINT);
+      }
+      chords.push(chord);
+    }
   }
+  const keyLabel = chords.map((chord) => [...chord.modifiers, chord.keyCode].join('+')).join(',');
+  const hasShortcuts = chords.some((chord) => chord.modifiers.length > 0);
 
-  log(
-    'info',
-    `${LOG_PREFIX}/${toolName}: Starting key sequence [${keyCodes.join(',')}] on ${simulatorId}`,
-  );
+  log('info', `${LOG_PREFIX}/${toolName}: Starting key sequence [${keyLabel}] on ${simulatorId}`);
 
   try {
-    await executeAxeCommand(commandArgs, simulatorId, 'key-sequence', executor, axeHelpers);
+    const commands = buildKeySequenceCommands(chords, delay);
+    for (const [index, commandArgs] of commands.entries()) {
+      if (index > 0 && delay !== undefined && delay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delay * 1000));
+      }
+      await executeAxeCommand(commandArgs, simulatorId, commandArgs[0], executor, axeHelpers);
+    }
     log('info', `${LOG_PREFIX}/${toolName}: Success for ${simulatorId}`);
-    return createTextResponse(`Key sequence [${keyCodes.join(',')}] executed successfully.`);
+    uiStateStore.invalidate(simulatorId, 'key_sequence');
+    return createTextResponse(`Key sequence [${keyLabel}] executed successfully.`);
   } catch (error) {
     log('error', `${LOG_PREFIX}/${toolName}: Failed - ${error}`);
     if (error instanceof DependencyError) {
@@ -78,7 +129,7 @@ export async function key_sequenceLogic(
     } else if (error instanceof AxeError) {
       return createErrorResponse(
         `Failed to execute key sequence: ${error.message}`,
-        error.axeOutput,
+        hasShortcuts ? `${error.axeOutput}\n${KEY_COMBO_HINT}` : error.axeOutput,
       );
     } else if (error instanceof SystemError) {
       return createErrorResponse(
@@ -92,16 +143,48 @@ export async function key_sequenceLogic(
   }
 }
 
+/**
+ * AXe commands for a key sequence: runs of single keys become one `key-sequence` call and
+ * each shortcut its own `key-combo` call
+ */
+function buildKeySequenceCommands(chords: KeyChord[], delay?: number): string[][] {
+  const commands: string[][] = [];
+  let run: number[] = [];
+  const flushRun = (): void => {
+    if (run.length === 0) {
+      return;
+    }
+    const commandArgs = ['key-sequence', '--keycodes', run.join(',')];
+    if (delay !== undefined) {
+      commandArgs.push('--delay', String(delay));
+    }
+    commands.push(commandArgs);
+    run = [];
+  };
+
+  for (const chord of chords) {
+    if (chord.modifiers.length === 0) {
+      run.push(chord.keyCode);
+      continue;
+    }
+    flushRun();
+    commands.push(buildKeyChordArgs(chord));
+  }
+  flushRun();
+  return commands;
+}
+
 const publicSchemaObject = z.strictObject(
-  keySequenceSchema.omit({ simulatorId: true } as const).shape,
+  baseKeySequenceSchema.omit({ simulatorId: true } as const).shape,
 );
 
 export default {
   name: 'key_sequence',
-  description: 'Press key sequence using HID keycodes on iOS simulator with configurable delay',
+  description:
+    'Press a sequence of keys or shortcuts on iOS simulator by name (keys: ["tab","arrowDown","return"] or ["cmd+a","backspace"]) or HID keycode (keyCodes) with configurable delay',
   schema: getSessionAwareToolSchemaShape({
     sessionAware: publicSchemaObject,
-    legacy: keySequenceSchema,
+    legacy: baseKeySequenceSchema,
   }),
   annotations: {
     title: 'Key Sequence',
@@ -0,0 +1,88 @@
+/**
+ * List snapshots tool plugin - Show recorded baselines in the snapshot store
+ */
+import * as z from 'zod';
+import { ToolResponse } from '../../../types/common.ts';
+import { log } from '../../../utils/logging/index.ts';
+import { createErrorResponse } from '../../../utils/responses/index.ts';
+import type { FileSystemExecutor } from '../../../utils/execution/index.ts';
+import {
+  getDefaultFileSystemExecutor,
+  getDefaultCommandExecutor,
+} from '../../../utils/execution/index.ts';
+import { listSnapshots, resolveSnapshotRoot } from '../../../utils/snapshot/index.ts';
+import {
+  createSessionAwareTool,
+  getSessionAwareToolSchemaShape,
+} from '../../../utils/typed-tool-factory.ts';
+import { snapshotLocationSchema, snapshotNameSchema } from './record_snapshot.ts';
+
+const LOG_PREFIX = '[Snapshot]';
+
+// Define schema as ZodObject
+const listSnapshotsSchema = z.object({
+  name: snapshotNameSchema.optional().describe('Optional: Only list snapshots with this name.'),
+  model: z
+    .string()
+    .optional()
+    .describe('Optional: Only list snapshots for this simulator model, e.g. "iPhone-16-Pro".'),
+  appearance: z
+    .enum(['light', 'dark', 'unknown'])
+    .optional()
+    .describe('Optional: Only list snapshots for this appearance.'),
+  ...snapshotLocationSchema.shape,
+});
+
+// Use z.infer for type safety
+type ListSnapshotsParams = z.infer<typeof listSnapshotsSchema>;
+
+const publicSchemaObject = z.strictObject(
+  listSnapshotsSchema.omit({ projectPath: true, workspacePath: true } as const).shape,
+);
+
+export async function list_snapshotsLogic(
+  params: ListSnapshotsParams,
+  fileSystemExecutor: FileSystemExecutor,
+): Promise<ToolResponse> {
+  const root = resolveSnapshotRoot(params);
+
+  try {
+    const snapshots = await listSnapshots(root, fileSystemExecutor, {
+      name: params.name,
+      model: params.model,
+      appearance: params.appearance,
+    });
+    log('info', `${LOG_PREFIX}/list_snapshots: Found ${snapshots.length} in ${root}`);
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ root, snapshots }, null, 2) }],
+      isError: false,
+    };
+  } catch (error) {
+    log('error', `${LOG_PREFIX}/list_snapshots: Failed - ${error}`);
+    return createErrorResponse(
+      `Failed to list snapshots: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+export default {
+  name: 'list_snapshots',
+  description:
+    'Lists baselines recorded with record_snapshot, optionally filtered by name, simulator model or appearance.',
+  schema: getSessionAwareToolSchemaShape({
+    sessionAware: publicSchemaObject,
+    legacy: listSnapshotsSchema,
+  }),
+  annotations: {
+    title: 'List Snapshots',
+    readOnlyHint: true,
+  },
+  handler: createSessionAwareTool<ListSnapshotsParams>({
+    internalSchema: listSnapshotsSchema as unknown as z.ZodType<ListSnapshotsParams, unknown>,
+    logicFunction: (params: ListSnapshotsParams) => {
+      return list_snapshotsLogic(params, getDefaultFileSystemExecutor());
+    },
+    getExecutor: getDefaultCommandExecutor,
+  }),
+};
@@ -1,7 +1,7 @@
 /**
  * UI Testing Plugin: Long Press
  *
- * Long press at specific coordinates for given duration (ms).
+ * Long press at specific coordinates, or on an element found by selector, for given duration (ms).
  * Use describe_ui for precise coordinates (don't guess from screenshots).
  */
 
@@ -13,8 +13,15 @@ import {
   createErrorResponse,
   DependencyError,
   AxeError,
+  ElementResolutionError,
   SystemError,
 } from '../../../utils/responses/index.ts';
+import {
+  describeElementSelector,
+  elementSelectorSchema,
+  refinePointTarget,
+  resolveElement,
+} from '../../../utils/element-selector/index.ts';
 import type { CommandExecutor } from '../../../utils/execution/index.ts';
 import { getDefaultCommandExecutor } from '../../../utils/execution/index.ts';
 import {
@@ -26,20 +33,24 @@ import {
   createSessionAwareTool,
   getSessionAwareToolSchemaShape,
 } from '../../../utils/typed-tool-factory.ts';
+import { uiStateStore } from '../../../utils/ui-state-store.ts';
 
 // Define schema as ZodObject
-const longPressSchema = z.object({
+const baseLongPressSchema = z.object({
   simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
-  x: z.number().int({ message: 'X coordinate for the long press' }),
-  y: z.number().int({ message: 'Y coordinate for the long press' }),
+  x: z.number().int({ message: 'X coordinate for the long press' }).optional(),
+  y: z.number().int({ message: 'Y coordinate for the long press' }).optional(),
+  selector: elementSelectorSchema.optional(),
   duration: z.number().positive({ message: 'Duration of the long press in milliseconds' }),
 });
 
+const longPressSchema = baseLongPressSchema.superRefine(refinePointTarget);
+
 // Use z.infer for type safety
 type LongPressParams = z.infer<typeof longPressSchema>;
 
 const publicSchemaObject = z.strictObject(
-  longPressSchema.omit({ simulatorId: true } as const).shape,
+  baseLongPressSchema.omit({ simulatorId: true } as const).shape,
 );
 
 export interface AxeHelpers {
@@ -60,32 +71,44 @@ export async function long_pressLogic(
   },
 ): Promise<ToolResponse> {
   const toolName = 'long_press';
-  const { simulatorId, x, y, duration } = params;
+  const { simulatorId, selector, duration } = params;
   // AXe uses touch command with --down, --up, and --delay for long press
   const delayInSeconds = Number(duration) / 1000; // Convert ms to seconds
-  const commandArgs = [
-    'touch',
-    '-x',
-    String(x),
-    '-y',
-    String(y),
-    '--down',
-    '--up',
-    '--delay',
-    String(delayInSeconds),
-  ];
+  let x = params.x;
+  let y = params.y;
+  const targetText = selector
+    ? `element ${describeElementSelector(selector)}`
+    : `(${String(x)}, ${String(y)})`;
 
   log(
     'info',
-    `${LOG_PREFIX}/${toolName}: Starting for (${x}, ${y}), ${duration}ms on ${simulatorId}`,
+    `${LOG_PREFIX}/${toolName}: Starting for ${targetText}, ${duration}ms on ${simulatorId}`,
   );
 
   try {
+    if (selector !== undefined) {
+      ({ x, y } = (await resolveElement(simulatorId, selector, executor, axeHelpers)).center);
+    }
+    const commandArgs = [
+      'touch',
+      '-x',
+      String(x),
+      '-y',
+      String(y),
+      '--down',
+      '--up',
+      '--delay',
+      String(delayInSeconds),
+    ];
+
     await executeAxeCommand(commandArgs, simulatorId, 'touch', executor, axeHelpers);
     log('info', `${LOG_PREFIX}/${toolName}: Success for ${simulatorId}`);
 
-    const warning = getCoordinateWarning(simulatorId);
-    const message = `Long press at (${x}, ${y}) for ${duration}ms simulated successfully.`;
+    const warning = selector ? null : uiStateStore.getCoordinateWarning(simulatorId);
+    uiStateStore.invalidate(simulatorId, 'long_press');
+    const message = selector
+      ? `Long press on ${targetText} at (${x}, ${y}) for ${duration}ms simulated successfully.`
+      : `Long press at (${x}, ${y}) for ${duration}ms simulated successfully.`;
 
     if (warning) {
       return createTextResponse(`${message}\n\n${warning}`);
@@ -98,9 +121,11 @@ export async function long_pressLogic(
       return axeHelpers.createAxeNotAvailableResponse();
     } else if (error instanceof AxeError) {
       return createErrorResponse(
-        `Failed to simulate long press at (${x}, ${y}): ${error.message}`,
+        `Failed to simulate long press at ${targetText}: ${error.message}`,
         error.axeOutput,
       );
+    } else if (error instanceof ElementResolutionError) {
+      return createErrorResponse(error.message, error.details);
     } else if (error instanceof SystemError) {
       return createErrorResponse(
         `System error executing axe: ${error.message}`,
@@ -116,10 +141,10 @@ export async function long_pressLogic(
 export default {
   name: 'long_press',
   description:
-    "Long press at specific coordinates for given duration (ms). Use describe_ui for precise coordinates (don't guess from screenshots).",
+    "Long press at specific coordinates or on an element found by selector for given duration (ms). Use describe_ui for precise coordinates (don't guess from screenshots).",
   schema: getSessionAwareToolSchemaShape({
     sessionAware: publicSchemaObject,
-    legacy: longPressSchema,
+    legacy: baseLongPressSchema,
   }),
   annotations: {
     title: 'Long Press',
@@ -138,30 +163,6 @@ export default {
   }),
 };
 
-// Session tracking for describe_ui warnings
-interface DescribeUISession {
-  timestamp: number;
-  simulatorId: string;
-}
-
-const describeUITimestamps = new Map<string, DescribeUISession>();
-const DESCRIBE_UI_WARNING_TIMEOUT = 60000; // 60 seconds
-
-function getCoordinateWarning(simulatorId: string): string | null {
-  const session = describeUITimestamps.get(simulatorId);
-  if (!session) {
-    return 'Warning: describe_ui has not been called yet. Consider using describe_ui for precise coordinates instead of guessing from screenshots.';
-  }
-
-  const timeSinceDescribe = Date.now() - session.timestamp;
-  if (timeSinceDescribe > DESCRIBE_UI_WARNING_TIMEOUT) {
-    const secondsAgo = Math.round(timeSinceDescribe / 1000);
-    return `Warning: describe_ui was last called ${secondsAgo} seconds ago. Consider refreshing UI coordinates with describe_ui instead of using potentially stale coordinates.`;
-  }
-
-  return null;
-}
-
 // Helper function for executing axe commands (inlined from src/tools/axe/index.ts)
 async function executeAxeCommand(
   commandArgs: string[],
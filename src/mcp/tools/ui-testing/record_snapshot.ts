@@ -0,0 +1,158 @@
+/**
+ * Record snapshot tool plugin - Save the current simulator screen as a named baseline
+ */
+import * as path from 'path';
+import * as z from 'zod';
+import { ToolResponse } from '../../../types/common.ts';
+import { log } from '../../../utils/logging/index.ts';
+import { createErrorResponse, SystemError } from '../../../utils/responses/index.ts';
+import type { CommandExecutor, FileSystemExecutor } from '../../../utils/execution/index.ts';
+import {
+  getDefaultFileSystemExecutor,
+  getDefaultCommandExecutor,
+} from '../../../utils/execution/index.ts';
+import type { ImageProcessor } from '../../../utils/image/index.ts';
+import { getDefaultImageProcessor } from '../../../utils/image/index.ts';
+import {
+  getSnapshotPath,
+  isSnapshotSegment,
+  resolveSnapshotRoot,
+  resolveSnapshotTraits,
+} from '../../../utils/snapshot/index.ts';
+import {
+  createSessionAwareTool,
+  getSessionAwareToolSchemaShape,
+} from '../../../utils/typed-tool-factory.ts';
+import {
+  captureSimulatorScreenshot,
+  readCapturedScreenshot,
+  type ScreenshotPathUtils,
+} from './screenshot.ts';
+
+const LOG_PREFIX = '[Snapshot]';
+
+// Snapshot names are file names; shared by all snapshot tools
+export const snapshotNameSchema = z
+  .string()
+  .min(1, { message: 'Snapshot name must be non-empty' })
+  .refine(isSnapshotSegment, {
+    message:
+      'Snapshot name may only contain letters, digits, ".", "-" and "_", must not start with "." or "-" and must not end with "-".',
+  });
+
+// Where baselines live; shared by all snapshot tools. projectPath/workspacePath come from
+// session defaults and anchor relative snapshot directories to the project.
+export const snapshotLocationSchema = z.object({
+  snapshotDir: z
+    .string()
+    .optional()
+    .describe(
+      'Optional: Snapshot directory. Relative paths resolve from the project/workspace folder (or cwd). Defaults to __snapshots__.',
+    ),
+  projectPath: z.string().optional().describe('Optional: Project used to locate snapshots'),
+  workspacePath: z.string().optional().describe('Optional: Workspace used to locate snapshots'),
+});
+
+// Define schema as ZodObject
+const recordSnapshotSchema = z.object({
+  simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
+  name: snapshotNameSchema.describe('Name of the snapshot, e.g. "login-screen".'),
+  overwrite: z
+    .boolean()
+    .optional()
+    .describe('Optional: Replace an existing baseline with the same key. Defaults to false.'),
+  ...snapshotLocationSchema.shape,
+});
+
+// Use z.infer for type safety
+type RecordSnapshotParams = z.infer<typeof recordSnapshotSchema>;
+
+const publicSchemaObject = z.strictObject(
+  recordSnapshotSchema.omit({
+    simulatorId: true,
+    projectPath: true,
+    workspacePath: true,
+  } as const).shape,
+);
+
+export async function record_snapshotLogic(
+  params: RecordSnapshotParams,
+  executor: CommandExecutor,
+  fileSystemExecutor: FileSystemExecutor = getDefaultFileSystemExecutor(),
+  pathUtils?: ScreenshotPathUtils,
+  uuidUtils?: { v4: () => string },
+  imageProcessor: ImageProcessor = getDefaultImageProcessor(),
+): Promise<ToolResponse> {
+  const { simulatorId, name } = params;
+
+  try {
+    const traits = await resolveSnapshotTraits(simulatorId, executor);
+    const snapshotPath = getSnapshotPath(resolveSnapshotRoot(params), { name, ...traits });
+
+    if (!params.overwrite && fileSystemExecutor.existsSync(snapshotPath)) {
+      return createErrorResponse(
+        `Baseline '${name}' already exists for ${traits.model} (${traits.appearance}): ${snapshotPath}`,
+        'Pass overwrite: true to replace it.',
+      );
+    }
+
+    const screenshotPath = await captureSimulatorScreenshot(
+      simulatorId,
+      executor,
+      pathUtils,
+      uuidUtils,
+    );
+    const pngData = await readCapturedScreenshot(screenshotPath, fileSystemExecutor);
+    const image = await imageProcessor.decode(pngData);
+
+    await fileSystemExecutor.mkdir(path.dirname(snapshotPath), { recursive: true });
+    await fileSystemExecutor.writeFile(snapshotPath, pngData.toString('base64'), 'base64');
+    log('info', `${LOG_PREFIX}/record_snapshot: Saved ${snapshotPath}`);
+
+    const result = {
+      name,
+      model: traits.model,
+      appearance: traits.appearance,
+      path: snapshotPath,
+      width: image.width,
+      height: image.height,
+    };
+    return {
+      content: [{ type: 'text', text: `Recorded baseline:\n${JSON.stringify(result, null, 2)}` }],
+      isError: false,
+    };
+  } catch (error) {
+    log('error', `${LOG_PREFIX}/record_snapshot: Failed - ${error}`);
+    if (error instanceof SystemError) {
+      return createErrorResponse(
+        `System error recording snapshot: ${error.message}`,
+        error.originalError?.stack,
+      );
+    }
+    return createErrorResponse(
+      `Failed to record snapshot: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+export default {
+  name: 'record_snapshot',
+  description:
+    'Records the current simulator screen as a named baseline, keyed by simulator model and appearance (light/dark). Use verify_snapshot to compare against it later.',
+  schema: getSessionAwareToolSchemaShape({
+    sessionAware: publicSchemaObject,
+    legacy: recordSnapshotSchema,
+  }),
+  annotations: {
+    title: 'Record Snapshot',
+    destructiveHint: true,
+  },
+  handler: createSessionAwareTool<RecordSnapshotParams>({
+    internalSchema: recordSnapshotSchema as unknown as z.ZodType<RecordSnapshotParams, unknown>,
+    logicFunction: (params: RecordSnapshotParams, executor: CommandExecutor) => {
+      return record_snapshotLogic(params, executor);
+    },
+    getExecutor: getDefaultCommandExecutor,
+    requirements: [{ allOf: ['simulatorId'], message: 'simulatorId is required' }],
+  }),
+};
@@ -0,0 +1,291 @@
+/**
+ * UI Testing Plugin: Run UI Script
+ *
+ * Runs an ordered list of UI steps (tap, type_text, swipe, gesture, key_press, wait_for,
+ * assert, screenshot) against one simulator in a single call. Each step reuses the logic
+ * of the matching tool. The script stops at the first failing step and returns a per-step report.
+ */
+
+import * as z from 'zod';
+import type { ToolResponse, ToolResponseContent } from '../../../types/common.ts';
+import { log } from '../../../utils/logging/index.ts';
+import { createErrorResponse } from '../../../utils/responses/index.ts';
+import type { CommandExecutor, FileSystemExecutor } from '../../../utils/execution/index.ts';
+import { getDefaultCommandExecutor } from '../../../utils/execution/index.ts';
+import type { ImageProcessor } from '../../../utils/image/index.ts';
+import {
+  createAxeNotAvailableResponse,
+  getAxePath,
+  getBundledAxeEnvironment,
+} from '../../../utils/axe-helpers.ts';
+import type { ElementWaitOptions } from '../../../utils/element-selector/index.ts';
+import {
+  createSessionAwareTool,
+  getSessionAwareToolSchemaShape,
+} from '../../../utils/typed-tool-factory.ts';
+import { baseTapSchema, tapLogic, tapSchema } from './tap.ts';
+import { typeTextSchema, type_textLogic } from './type_text.ts';
+import { baseSwipeSchema, swipeLogic, swipeSchema } from './swipe.ts';
+import { gestureLogic, gestureSchema } from './gesture.ts';
+import { baseKeyPressSchema, keyPressSchema, key_pressLogic } from './key_press.ts';
+import {
+  baseWaitForElementSchema,
+  wait_for_elementLogic,
+  waitForElementSchema,
+} from './wait_for_element.ts';
+import { assertUiSchema, assert_uiLogic } from './assert_ui.ts';
+import type { ScreenshotPathUtils } from './screenshot.ts';
+import { baseScreenshotSchema, screenshotLogic, screenshotSchema } from './screenshot.ts';
+
+export interface AxeHelpers {
+  getAxePath: () => string | null;
+  getBundledAxeEnvironment: () => Record<string, string>;
+  createAxeNotAvailableResponse: () => ToolResponse;
+}
+
+export interface UIScriptDependencies {
+  axeHelpers?: AxeHelpers;
+  waitOptions?: ElementWaitOptions;
+  fileSystemExecutor?: FileSystemExecutor;
+  pathUtils?: ScreenshotPathUtils;
+  uuidUtils?: { v4: () => string };
+  imageProcessor?: ImageProcessor;
+}
+
+const LOG_PREFIX = '[AXe]';
+const MAX_STEPS = 50;
+
+const uiStepSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('tap'),
+    ...baseTapSchema.omit({ simulatorId: true } as const).shape,
+  }),
+  z.object({
+    action: z.literal('type_text'),
+    ...typeTextSchema.omit({ simulatorId: true } as const).shape,
+  }),
+  z.object({
+    action: z.literal('swipe'),
+    ...baseSwipeSchema.omit({ simulatorId: true } as const).shape,
+  }),
+  z.object({
+    action: z.literal('gesture'),
+    ...gestureSchema.omit({ simulatorId: true } as const).shape,
+  }),
+  z.object({
+    action: z.literal('key_press'),
+    ...baseKeyPressSchema.omit({ simulatorId: true } as const).shape,
+  }),
+  z.object({
+    action: z.literal('wait_for'),
+    ...baseWaitForElementSchema.omit({ simulatorId: true } as const).shape,
+  }),
+  z.object({
+    action: z.literal('assert'),
+    ...assertUiSchema.omit({ simulatorId: true } as const).shape,
+  }),
+  z.object({
+    action: z.literal('screenshot'),
+    ...baseScreenshotSchema.omit({ simulatorId: true } as const).shape,
+  }),
+]);
+
+type UIStep = z.infer<typeof uiStepSchema>;
+type UIStepAction = UIStep['action'];
+
+// Cross-field rules of the underlying tools, checked before any step runs
+const STEP_REFINEMENTS: Partial<Record<UIStepAction, z.ZodType>> = {
+  tap: tapSchema,
+  swipe: swipeSchema,
+  key_press: keyPressSchema,
+  wait_for: waitForElementSchema,
+  screenshot: screenshotSchema,
+};
+
+// Define schema as ZodObject
+const baseRunUiScriptSchema = z.object({
+  simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
+  steps: z
+    .array(uiStepSchema)
+    .min(1, { message: 'steps must contain at least one step' })
+    .max(MAX_STEPS, { message: `steps must contain at most ${MAX_STEPS} steps` })
+    .describe(
+      'Ordered steps. Each has an "action" (tap, type_text, swipe, gesture, key_press, wait_for, assert, screenshot) plus the parameters of the matching tool, without simulatorId. wait_for and assert take the parameters of wait_for_element and assert_ui.',
+    ),
+});
+
+const runUiScriptSchema = baseRunUiScriptSchema.superRefine((values, ctx) => {
+  values.steps.forEach((step, index) => {
+    const { action, ...stepParams } = step;
+    const refinement = STEP_REFINEMENTS[action];
+    const result = refinement?.safeParse({ ...stepParams, simulatorId: values.simulatorId });
+    if (!result || result.success) {
+      return;
+    }
+    for (const issue of result.error.issues) {
+      if (issue.path[0] === 'simulatorId') {
+        continue;
+      }
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['steps', index, ...issue.path],
+        message: issue.message,
+      });
+    }
+  });
+});
+
+// Use z.infer for type safety
+type RunUiScriptParams = z.infer<typeof runUiScriptSchema>;
+
+const publicSchemaObject = z.strictObject(
+  baseRunUiScriptSchema.omit({ simulatorId: true } as const).shape,
+);
+
+// Step parameters without "action", for the matching tool's logic function
+function toToolParams<T extends UIStep>(
+  step: T,
+  simulatorId: string,
+): Omit<T, 'action'> & { simulatorId: string } {
+  const params: Omit<T, 'action'> & { action?: UIStepAction; simulatorId: string } = {
+    ...step,
+    simulatorId,
+  };
+  delete params.action;
+  return params;
+}
+
+function runStep(
+  simulatorId: string,
+  step: UIStep,
+  executor: CommandExecutor,
+  axeHelpers: AxeHelpers,
+  dependencies: UIScriptDependencies,
+): Promise<ToolResponse> {
+  switch (step.action) {
+    case 'tap':
+      return tapLogic(toToolParams(step, simulatorId), executor, axeHelpers);
+    case 'type_text':
+      return type_textLogic(toToolParams(step, simulatorId), executor, axeHelpers);
+    case 'swipe':
+      return swipeLogic(toToolParams(step, simulatorId), executor, axeHelpers);
+    case 'gesture':
+      return gestureLogic(toToolParams(step, simulatorId), executor, axeHelpers);
+    case 'key_press':
+      return key_pressLogic(toToolParams(step, simulatorId), executor, axeHelpers);
+    case 'wait_for':
+      return wait_for_elementLogic(
+        toToolParams(step, simulatorId),
+        executor,
+        axeHelpers,
+        dependencies.waitOptions,
+      );
+    case 'assert':
+      return assert_uiLogic(toToolParams(step, simulatorId), executor, axeHelpers);
+    case 'screenshot':
+      return screenshotLogic(
+        toToolParams(step, simulatorId),
+        executor,
+        dependencies.fileSystemExecutor,
+        dependencies.pathUtils,
+        dependencies.uuidUtils,
+        dependencies.imageProcessor,
+        axeHelpers,
+      );
+  }
+}
+
+function summarizeStepResponse(response: ToolResponse): string {
+  const text = response.content
+    .filter((item) => item.type === 'text')
+    .map((item) => item.text)
+    .join('\n')
+    .trim();
+  if (text) {
+    return text.replace(/\n(?=.)/g, '\n   ');
+  }
+  return response.content.some((item) => item.type === 'image') ? 'Image attached.' : 'Done.';
+}
+
+export async function run_ui_scriptLogic(
+  params: RunUiScriptParams,
+  executor: CommandExecutor,
+  dependencies: UIScriptDependencies = {},
+): Promise<ToolResponse> {
+  const toolName = 'run_ui_script';
+  const { simulatorId, steps } = params;
+  const axeHelpers = dependencies.axeHelpers ?? {
+    getAxePath,
+    getBundledAxeEnvironment,
+    createAxeNotAvailableResponse,
+  };
+
+  log('info', `${LOG_PREFIX}/${toolName}: Running ${steps.length} steps on ${simulatorId}`);
+
+  const reportLines: string[] = [];
+  const attachments: ToolResponseContent[] = [];
+  let failedIndex: number | null = null;
+
+  for (const [index, step] of steps.entries()) {
+    let response: ToolResponse;
+    try {
+      response = await runStep(simulatorId, step, executor, axeHelpers, dependencies);
+    } catch (error) {
+      response = createErrorResponse(
+        `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    const status = response.isError ? 'failed' : 'passed';
+    reportLines.push(`${index + 1}. ${step.action} ${status}: ${summarizeStepResponse(response)}`);
+    attachments.push(...response.content.filter((item) => item.type === 'image'));
+
+    if (response.isError) {
+      failedIndex = index;
+      break;
+    }
+  }
+
+  if (failedIndex !== null) {
+    log(
+      'warning',
+      `${LOG_PREFIX}/${toolName}: Step ${failedIndex + 1} (${steps[failedIndex].action}) failed on ${simulatorId}`,
+    );
+    steps.slice(failedIndex + 1).forEach((step, offset) => {
+      reportLines.push(`${failedIndex + offset + 2}. ${step.action} skipped`);
+    });
+  } else {
+    log('info', `${LOG_PREFIX}/${toolName}: Success for ${simulatorId}`);
+  }
+
+  const header =
+    failedIndex === null
+      ? `UI script completed: all ${steps.length} steps passed.`
+      : `UI script stopped at step ${failedIndex + 1} of ${steps.length} (${steps[failedIndex].action}).`;
+
+  return {
+    content: [{ type: 'text', text: `${header}\n\n${reportLines.join('\n')}` }, ...attachments],
+    isError: failedIndex !== null,
+  };
+}
+
+export default {
+  name: 'run_ui_script',
+  description:
+    'Runs an ordered list of UI steps (tap, type_text, swipe, gesture, key_press, wait_for, assert, screenshot) on one simulator in a single call. Each step takes the parameters of the matching tool plus "action". Stops at the first failing step and returns a per-step report with any screenshots attached.',
+  schema: getSessionAwareToolSchemaShape({
+    sessionAware: publicSchemaObject,
+    legacy: baseRunUiScriptSchema,
+  }),
+  annotations: {
+    title: 'Run UI Script',
+    destructiveHint: true,
+  },
+  handler: createSessionAwareTool<RunUiScriptParams>({
+    internalSchema: runUiScriptSchema as unknown as z.ZodType<RunUiScriptParams, unknown>,
+    logicFunction: (params: RunUiScriptParams, executor: CommandExecutor) =>
+      run_ui_scriptLogic(params, executor),
+    getExecutor: getDefaultCommandExecutor,
+    requirements: [{ allOf: ['simulatorId'], message: 'simulatorId is required' }],
+  }),
+};
@@ -5,46 +5,299 @@ import * as path from 'path';
 import { tmpdir } from 'os';
 import * as z from 'zod';
 import { v4 as uuidv4 } from 'uuid';
-import { ToolResponse, createImageContent } from '../../../types/common.ts';
+import { ToolResponse, createImageContent, createTextContent } from '../../../types/common.ts';
 import { log } from '../../../utils/logging/index.ts';
-import { createErrorResponse, SystemError } from '../../../utils/responses/index.ts';
+import {
+  createErrorResponse,
+  SystemError,
+  AxeError,
+  DependencyError,
+  ValidationError,
+} from '../../../utils/responses/index.ts';
 import type { CommandExecutor, FileSystemExecutor } from '../../../utils/execution/index.ts';
 import {
   getDefaultFileSystemExecutor,
   getDefaultCommandExecutor,
 } from '../../../utils/execution/index.ts';
+import type { ImageProcessor } from '../../../utils/image/index.ts';
+import {
+  cropImage,
+  drawAnnotations,
+  encodeImageWithinBudget,
+  getDefaultImageProcessor,
+  getImageMimeType,
+} from '../../../utils/image/index.ts';
+import {
+  createAxeNotAvailableResponse,
+  getAxePath,
+  getBundledAxeEnvironment,
+} from '../../../utils/axe/index.ts';
+import {
+  fetchAccessibilityHierarchy,
+  findAccessibilityElement,
+  flattenAccessibilityElements,
+  getElementCenter,
+  getScreenFrame,
+  isInteractiveElement,
+} from '../../../utils/accessibility/index.ts';
+import type {
+  AccessibilityElement,
+  AccessibilityFrame,
+} from '../../../utils/accessibility/index.ts';
 import {
   createSessionAwareTool,
   getSessionAwareToolSchemaShape,
 } from '../../../utils/typed-tool-factory.ts';
+import { uiStateStore } from '../../../utils/ui-state-store.ts';
 
 const LOG_PREFIX = '[Screenshot]';
 
+const cropSchema = z
+  .object({
+    x: z.number().optional().describe('Left edge of the crop rectangle in points.'),
+    y: z.number().optional().describe('Top edge of the crop rectangle in points.'),
+    width: z
+      .number()
+      .positive({ message: 'Crop width must be positive' })
+      .optional()
+      .describe('Width of the crop rectangle in points.'),
+    height: z
+      .number()
+      .positive({ message: 'Crop height must be positive' })
+      .optional()
+      .describe('Height of the crop rectangle in points.'),
+    id: z
+      .string()
+      .min(1, { message: 'Id must be non-empty' })
+      .optional()
+      .describe('Crop to the element with this accessibility id.'),
+    label: z
+      .string()
+      .min(1, { message: 'Label must be non-empty' })
+      .optional()
+      .describe('Crop to the element with this accessibility label.'),
+    padding: z
+      .number()
+      .min(0, { message: 'Padding must be non-negative' })
+      .optional()
+      .describe('Optional: Points of padding added around an element crop.'),
+  })
+  .superRefine((values, ctx) => {
+    const rectKeys = ['x', 'y', 'width', 'height'] as const;
+    const providedRect = rectKeys.filter((key) => values[key] !== undefined);
+    const hasRect = providedRect.length > 0;
+    const hasId = values.id !== undefined;
+    const hasLabel = values.label !== undefined;
+    const targetCount = [hasRect, hasId, hasLabel].filter(Boolean).length;
+
+    if (targetCount === 0) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Provide an x/y/width/height rectangle or an element id/label.',
+      });
+    } else if (targetCount > 1) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Provide only one of: rectangle, id or label.',
+      });
+    }
+
+    if (hasRect && providedRect.length < rectKeys.length) {
+      for (const key of rectKeys.filter((k) => values[k] === undefined)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: [key],
+          message: `${key} is required for a crop rectangle.`,
+        });
+      }
+    }
+
+    if (hasRect && values.padding !== undefined) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['padding'],
+        message: 'padding applies only to an element crop (id or label), not a rectangle.',
+      });
+    }
+  });
+
 // Define schema as ZodObject
-const screenshotSchema = z.object({
+export const baseScreenshotSchema = z.object({
   simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
+  maxDimension: z
+    .number()
+    .int()
+    .min(64, { message: 'maxDimension must be at least 64 pixels' })
+    .optional()
+    .describe(
+      'Optional: Longest side of the returned image in pixels. Defaults to SCREENSHOT_MAX_DIMENSION or 1024.',
+    ),
+  format: z
+    .enum(['jpeg', 'png', 'webp'])
+    .optional()
+    .describe(
+      'Optional: Output image format. Defaults to jpeg. png and webp are lossless, so quality applies to jpeg only.',
+    ),
+  quality: z
+    .number()
+    .int()
+    .min(1, { message: 'Quality must be between 1 and 100' })
+    .max(100, { message: 'Quality must be between 1 and 100' })
+    .optional()
+    .describe('Optional: JPEG quality (1-100). Defaults to 75. Only valid with format jpeg.'),
+  maxBytes: z
+    .number()
+    .int()
+    .positive({ message: 'maxBytes must be positive' })
+    .optional()
+    .describe(
+      'Optional: Maximum encoded image size in bytes. Quality and then size are stepped down until the image fits.',
+    ),
+  crop: cropSchema
+    .optional()
+    .describe(
+      'Optional: Crop to a rectangle in points ({x, y, width, height}) or to an element by accessibility id/label (as reported by describe_ui).',
+    ),
+  annotate: z
+    .boolean()
+    .optional()
+    .describe(
+      'Optional: Draw numbered boxes around interactive elements and return a legend with each number’s id, label and center coordinates (in points). Pass a number to tap as annotation to tap that element.',
+    ),
+});
+
+export const screenshotSchema = baseScreenshotSchema.superRefine((values, ctx) => {
+  if (values.quality !== undefined && (values.format ?? 'jpeg') !== 'jpeg') {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['quality'],
+      message: `quality only applies to jpeg; ${values.format} is encoded losslessly.`,
+    });
+  }
 });
 
 // Use z.infer for type safety
 type ScreenshotParams = z.infer<typeof screenshotSchema>;
 
 const publicSchemaObject = z.strictObject(
-  screenshotSchema.omit({ simulatorId: true } as const).shape,
+  baseScreenshotSchema.omit({ simulatorId: true } as const).shape,
 );
 
-export async function screenshotLogic(
-  params: ScreenshotParams,
+export interface AxeHelpers {
+  getAxePath: () => string | null;
+  getBundledAxeEnvironment: () => Record<string, string>;
+  createAxeNotAvailableResponse: () => ToolResponse;
+}
+
+interface AccessibilityOverlay {
+  elements: AccessibilityElement[];
+  screen: AccessibilityFrame;
+  cropRegion?: AccessibilityFrame;
+  annotatedElements: AccessibilityElement[];
+}
+
+const DEFAULT_MAX_DIMENSION = 1024;
+// Size of one badge font pixel in the final (downscaled) image
+const ANNOTATION_FONT_SCALE = 3;
+
+export function getMaxDimension(): number {
+  const configured = Number(process.env.SCREENSHOT_MAX_DIMENSION);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_DIMENSION;
+}
+
+/**
+ * Resolve a crop request to a rectangle in points
+ */
+function resolveCropRegion(
+  elements: AccessibilityElement[],
+  crop: NonNullable<ScreenshotParams['crop']>,
+): AccessibilityFrame {
+  if (crop.id !== undefined || crop.label !== undefined) {
+    const element = findAccessibilityElement(elements, { id: crop.id, label: crop.label });
+    if (!element) {
+      const target = crop.id !== undefined ? `id "${crop.id}"` : `label "${crop.label}"`;
+      throw new ValidationError(
+        `No element with ${target} found in the accessibility hierarchy`,
+        'crop',
+      );
+    }
+    const padding = crop.padding ?? 0;
+    return {
+      x: element.frame.x - padding,
+      y: element.frame.y - padding,
+      width: element.frame.width + padding * 2,
+      height: element.frame.height + padding * 2,
+    };
+  }
+
+  return { x: crop.x ?? 0, y: crop.y ?? 0, width: crop.width ?? 0, height: crop.height ?? 0 };
+}
+
+function framesIntersect(a: AccessibilityFrame, b: AccessibilityFrame): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * Fetch the accessibility hierarchy and derive everything the image pipeline needs
+ * from it: the screen size for point-to-pixel scaling, the crop rectangle and the
+ * interactive elements to annotate (limited to those visible in the crop).
+ */
+async function resolveAccessibilityOverlay(
+  simulatorId: string,
+  params: Pick<ScreenshotParams, 'crop' | 'annotate'>,
   executor: CommandExecutor,
-  fileSystemExecutor: FileSystemExecutor = getDefaultFileSystemExecutor(),
-  pathUtils: { tmpdir: () => string; join: (...paths: string[]) => string } = { ...path, tmpdir },
+  axeHelpers: AxeHelpers,
+): Promise<AccessibilityOverlay> {
+  const { elements } = await fetchAccessibilityHierarchy(simulatorId, executor, axeHelpers);
+  const screen = getScreenFrame(elements);
+  if (!screen) {
+    throw new ValidationError('Unable to determine screen size from the accessibility hierarchy');
+  }
+
+  const cropRegion = params.crop ? resolveCropRegion(elements, params.crop) : undefined;
+  const annotatedElements = params.annotate
+    ? flattenAccessibilityElements(elements).filter(
+        (element) =>
+          isInteractiveElement(element) &&
+          (!cropRegion || framesIntersect(element.frame, cropRegion)),
+      )
+    : [];
+
+  return { elements, screen, cropRegion, annotatedElements };
+}
+
+function formatAnnotationLegend(elements: AccessibilityElement[]): string {
+  if (elements.length === 0) {
+    return 'No interactive elements found to annotate.';
+  }
+  const lines = elements.map((element, index) => {
+    const center = getElementCenter(element);
+    const parts = [`${index + 1}. ${element.type ?? element.role}`];
+    if (element.label) parts.push(`"${element.label}"`);
+    if (element.identifier) parts.push(`id=${element.identifier}`);
+    parts.push(`center=(${center.x}, ${center.y})`);
+    return parts.join(' ');
+  });
+  return `Annotated elements (tap one with annotation: <number>; center coordinates are in points):\n${lines.join('\n')}`;
+}
+
+export interface ScreenshotPathUtils {
+  tmpdir: () => string;
+  join: (...paths: string[]) => string;
+}
+
+/**
+ * Capture a simulator screenshot to a temporary PNG with simctl and return its path.
+ * Throws SystemError when the capture fails.
+ */
+export async function captureSimulatorScreenshot(
+  simulatorId: string,
+  executor: CommandExecutor,
+  pathUtils: ScreenshotPathUtils = { ...path, tmpdir },
   uuidUtils: { v4: () => string } = { v4: uuidv4 },
-): Promise<ToolResponse> {
-  const { simulatorId } = params;
-  const tempDir = pathUtils.tmpdir();
+): Promise<string> {
   const screenshotFilename = `screenshot_${uuidUtils.v4()}.png`;
-  const screenshotPath = pathUtils.join(tempDir, screenshotFilename);
-  const optimizedFilename = `screenshot_optimized_${uuidUtils.v4()}.jpg`;
-  const optimizedPath = pathUtils.join(tempDir, optimizedFilename);
+  const screenshotPath = pathUtils.join(pathUtils.tmpdir(), screenshotFilename);
   // Use xcrun simctl to take screenshot
   const commandArgs: string[] = [
     'xcrun',
@@ -57,74 +310,160 @@ export async function screenshotLogic(
 
   log('info', `${LOG_PREFIX}/screenshot: Starting capture to ${screenshotPath} on ${simulatorId}`);
 
+  // Execute the screenshot command
+  const result = await executor(commandArgs, `${LOG_PREFIX}: screenshot`, false);
+
+  if (!result.success) {
+    throw new SystemError(`Failed to capture screenshot: ${result.error ?? result.output}`);
+  }
+
+  log('info', `${LOG_PREFIX}/screenshot: Success for ${simulatorId}`);
+  return screenshotPath;
+}
+
+/**
+ * Read a captured screenshot and remove the temporary file as soon as it has been read
+ */
+export async function readCapturedScreenshot(
+  screenshotPath: string,
+  fileSystemExecutor: FileSystemExecutor,
+): Promise<Buffer> {
+  const pngData = Buffer.from(
+    await fileSystemExecutor.readFile(screenshotPath, 'base64'),
+    'base64',
+  );
+
   try {
-    // Execute the screenshot command
-    const result = await executor(commandArgs, `${LOG_PREFIX}: screenshot`, false);
+    await fileSystemExecutor.rm(screenshotPath);
+  } catch (err) {
+    log('warning', `${LOG_PREFIX}/screenshot: Failed to delete temp file: ${err}`);
+  }
 
-    if (!result.success) {
-      throw new SystemError(`Failed to capture screenshot: ${result.error ?? result.output}`);
+  return pngData;
+}
+
+export async function screenshotLogic(
+  params: ScreenshotParams,
+  executor: CommandExecutor,
+  fileSystemExecutor: FileSystemExecutor = getDefaultFileSystemExecutor(),
+  pathUtils: ScreenshotPathUtils = { ...path, tmpdir },
+  uuidUtils: { v4: () => string } = { v4: uuidv4 },
+  imageProcessor: ImageProcessor = getDefaultImageProcessor(),
+  axeHelpers: AxeHelpers = {
+    getAxePath,
+    getBundledAxeEnvironment,
+    createAxeNotAvailableResponse,
+  },
+): Promise<ToolResponse> {
+  const { simulatorId, format = 'jpeg', quality, maxBytes, crop, annotate } = params;
+
+  try {
+    // Resolve crop and annotation targets before capturing so lookup failures leave
+    // no temp files behind
+    let overlay: AccessibilityOverlay | undefined;
+    if (crop || annotate) {
+      try {
+        overlay = await resolveAccessibilityOverlay(
+          simulatorId,
+          { crop, annotate },
+          executor,
+          axeHelpers,
+        );
+      } catch (error) {
+        if (error instanceof DependencyError) {
+          return axeHelpers.createAxeNotAvailableResponse();
+        } else if (error instanceof AxeError) {
+          return createErrorResponse(
+            `Failed to get accessibility hierarchy: ${error.message}`,
+            error.axeOutput,
+          );
+        } else if (error instanceof ValidationError) {
+          return createErrorResponse(error.message);
+        }
+        throw error;
+      }
     }
 
-    log('info', `${LOG_PREFIX}/screenshot: Success for ${simulatorId}`);
+    const screenshotPath = await captureSimulatorScreenshot(
+      simulatorId,
+      executor,
+      pathUtils,
+      uuidUtils,
+    );
 
     try {
-      // Get configurable max dimension from environment variable, default to 1024
-      const maxDimension = process.env.SCREENSHOT_MAX_DIMENSION || '1024';
-
-      // Optimize the image for LLM consumption: resize to configurable max dimension and convert to JPEG
-      const optimizeArgs = [
-        'sips',
-        '-Z',
-        maxDimension, // Resize to max dimension (maintains aspect ratio)
-        '-s',
-        'format',
-        'jpeg', // Convert to JPEG
-        '-s',
-        'formatOptions',
-        '75', // 75% quality compression
-        screenshotPath,
-        '--out',
-        optimizedPath,
-      ];
-
-      const optimizeResult = await executor(optimizeArgs, `${LOG_PREFIX}: optimize image`, false);
-
-      if (!optimizeResult.success) {
-        log('warning', `${LOG_PREFIX}/screenshot: Image optimization failed, using original PNG`);
-        // Fallback to original PNG if optimization fails
-        const base64Image = await fileSystemExecutor.readFile(screenshotPath, 'base64');
-
-        // Clean up
-        try {
-          await fileSystemExecutor.rm(screenshotPath);
-        } catch (err) {
-          log('warning', `${LOG_PREFIX}/screenshot: Failed to delete temp file: ${err}`);
-        }
+      const maxDimension = params.maxDimension ?? getMaxDimension();
 
-        return {
-          content: [createImageContent(base64Image, 'image/png')],
-          isError: false,
-        };
-      }
+      // Read the captured PNG and optimize it for LLM consumption: resize to the
+      // requested max dimension and re-encode within the byte budget. Processing
+      // errors are surfaced rather than falling back to the full-size PNG.
+      const pngData = await readCapturedScreenshot(screenshotPath, fileSystemExecutor);
+      const decoded = await imageProcessor.decode(pngData);
+      let source = decoded;
+      if (overlay) {
+        // Convert from points to pixels using the captured image size
+        const { screen } = overlay;
+        const scaleX = decoded.width / screen.width;
+        const scaleY = decoded.height / screen.height;
+        const toPixels = (frame: AccessibilityFrame): AccessibilityFrame => ({
+          x: (frame.x - screen.x) * scaleX,
+          y: (frame.y - screen.y) * scaleY,
+          width: frame.width * scaleX,
+          height: frame.height * scaleY,
+        });
+        const pixelCrop = overlay.cropRegion ? toPixels(overlay.cropRegion) : undefined;
 
-      log('info', `${LOG_PREFIX}/screenshot: Image optimized to max ${maxDimension}px successfully`);
+        if (annotate) {
+          // Scale badges up by the expected downscale so numbers stay legible
+          const outputSide = pixelCrop
+            ? Math.max(pixelCrop.width, pixelCrop.height)
+            : Math.max(decoded.width, decoded.height);
+          const downscale = Math.max(1, outputSide / maxDimension);
+          source = drawAnnotations(
+            source,
+            overlay.annotatedElements.map((element, index) => ({
+              label: index + 1,
+              ...toPixels(element.frame),
+            })),
+            ANNOTATION_FONT_SCALE * downscale,
+          );
+        }
+        if (pixelCrop) {
+          source = cropImage(source, pixelCrop);
+        }
+      }
 
-      // Read the optimized image file as base64
-      const base64Image = await fileSystemExecutor.readFile(optimizedPath, 'base64');
+      const encoded = await encodeImageWithinBudget(imageProcessor, source, {
+        format,
+        quality,
+        maxDimension,
+        maxBytes,
+      });
 
-      log('info', `${LOG_PREFIX}/screenshot: Successfully encoded image as Base64`);
+      const qualityText = encoded.quality !== undefined ? ` q${encoded.quality}` : '';
+      log(
+        'info',
+        `${LOG_PREFIX}/screenshot: Image optimized from ${decoded.width}x${decoded.height} to ${encoded.width}x${encoded.height} ${format}${qualityText} (${encoded.data.length} bytes)`,
+      );
 
-      // Clean up both temporary files
-      try {
-        await fileSystemExecutor.rm(screenshotPath);
-        await fileSystemExecutor.rm(optimizedPath);
-      } catch (err) {
-        log('warning', `${LOG_PREFIX}/screenshot: Failed to delete temporary files: ${err}`);
+      if (overlay) {
+        // The hierarchy is fresh; annotated numbers stay tappable until the next interaction
+        uiStateStore.record(
+          simulatorId,
+          overlay.elements,
+          annotate ? overlay.annotatedElements : undefined,
+        );
       }
 
-      // Return the optimized image (JPEG format, smaller size)
+      const imageContent = createImageContent(
+        encoded.data.toString('base64'),
+        getImageMimeType(format),
+      );
       return {
-        content: [createImageContent(base64Image, 'image/jpeg')],
+        content:
+          annotate && overlay
+            ? [imageContent, createTextContent(formatAnnotationLegend(overlay.annotatedElements))]
+            : [imageContent],
         isError: false,
       };
     } catch (fileError) {
@@ -150,10 +489,10 @@ export async function screenshotLogic(
 export default {
   name: 'screenshot',
   description:
-    "Captures screenshot for visual verification. For UI coordinates, use describe_ui instead (don't determine coordinates from screenshots).",
+    "Captures screenshot for visual verification. Supports per-call size, format, quality and byte budget, cropping to a rectangle or element, and numbered annotations of interactive elements. For UI coordinates, use describe_ui instead (don't determine coordinates from screenshots).",
   schema: getSessionAwareToolSchemaShape({
     sessionAware: publicSchemaObject,
-    legacy: screenshotSchema,
+    legacy: baseScreenshotSchema,
   }),
   annotations: {
     title: 'Screenshot',
@@ -0,0 +1,312 @@
+/**
+ * Screenshot compare tool plugin - Visual diff of the simulator against a baseline image
+ */
+import * as path from 'path';
+import * as z from 'zod';
+import { ToolResponse, createImageContent, createTextContent } from '../../../types/common.ts';
+import { log } from '../../../utils/logging/index.ts';
+import { createErrorResponse, SystemError } from '../../../utils/responses/index.ts';
+import type { CommandExecutor, FileSystemExecutor } from '../../../utils/execution/index.ts';
+import {
+  getDefaultFileSystemExecutor,
+  getDefaultCommandExecutor,
+} from '../../../utils/execution/index.ts';
+import type {
+  EncodedImage,
+  ImageDiffResult,
+  ImageProcessor,
+  ImageRegion,
+  RawImage,
+} from '../../../utils/image/index.ts';
+import {
+  compareImages,
+  encodeImageWithinBudget,
+  getDefaultImageProcessor,
+  getImageMimeType,
+  resampleImage,
+} from '../../../utils/image/index.ts';
+import {
+  createSessionAwareTool,
+  getSessionAwareToolSchemaShape,
+} from '../../../utils/typed-tool-factory.ts';
+import {
+  captureSimulatorScreenshot,
+  getMaxDimension,
+  readCapturedScreenshot,
+  type ScreenshotPathUtils,
+} from './screenshot.ts';
+
+const LOG_PREFIX = '[Screenshot]';
+
+// Captures whose aspect ratio is within this tolerance of the baseline are resampled to match
+const ASPECT_RATIO_TOLERANCE = 0.01;
+const MAX_LISTED_REGIONS = 20;
+
+const regionSchema = z.object({
+  x: z.number().min(0, { message: 'x must be non-negative' }),
+  y: z.number().min(0, { message: 'y must be non-negative' }),
+  width: z.number().positive({ message: 'width must be positive' }),
+  height: z.number().positive({ message: 'height must be positive' }),
+});
+
+// Comparison settings shared with verify_snapshot
+export const comparisonOptionsSchema = z.object({
+  threshold: z
+    .number()
+    .min(0, { message: 'threshold must be between 0 and 1' })
+    .max(1, { message: 'threshold must be between 0 and 1' })
+    .optional()
+    .describe(
+      'Optional: Per-pixel color tolerance from 0 (exact) to 1. Defaults to 0.1, which ignores anti-aliasing noise.',
+    ),
+  failureThreshold: z
+    .number()
+    .min(0, { message: 'failureThreshold must be between 0 and 100' })
+    .max(100, { message: 'failureThreshold must be between 0 and 100' })
+    .optional()
+    .describe(
+      'Optional: Maximum percentage of differing pixels for the comparison to pass. Defaults to 0.',
+    ),
+  ignoreRegions: z
+    .array(regionSchema)
+    .optional()
+    .describe(
+      'Optional: Rectangles ({x, y, width, height}) in baseline image pixels to exclude, e.g. the status bar.',
+    ),
+  maxDimension: z
+    .number()
+    .int()
+    .min(64, { message: 'maxDimension must be at least 64 pixels' })
+    .optional()
+    .describe(
+      'Optional: Longest side of the returned diff image in pixels. Defaults to SCREENSHOT_MAX_DIMENSION or 1024.',
+    ),
+});
+
+// Define schema as ZodObject
+const screenshotCompareSchema = z.object({
+  simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
+  baselinePath: z
+    .string()
+    .min(1, { message: 'baselinePath must be non-empty' })
+    .describe('Path to the baseline PNG or JPEG image (relative paths resolve from the cwd).'),
+  ...comparisonOptionsSchema.shape,
+});
+
+// Use z.infer for type safety
+type ScreenshotCompareParams = z.infer<typeof screenshotCompareSchema>;
+
+const publicSchemaObject = z.strictObject(
+  screenshotCompareSchema.omit({ simulatorId: true } as const).shape,
+);
+
+/**
+ * Bring the capture to the baseline size. Captures with the same aspect ratio are
+ * resampled (so downscaled baselines still compare); anything else is an error.
+ */
+function matchBaselineSize(actual: RawImage, baseline: RawImage): RawImage {
+  if (actual.width === baseline.width && actual.height === baseline.height) {
+    return actual;
+  }
+  const actualRatio = actual.width / actual.height;
+  const baselineRatio = baseline.width / baseline.height;
+  if (Math.abs(actualRatio - baselineRatio) > ASPECT_RATIO_TOLERANCE * baselineRatio) {
+    throw new Error(
+      `Screenshot size ${actual.width}x${actual.height} does not match baseline size ${baseline.width}x${baseline.height}`,
+    );
+  }
+  return resampleImage(actual, baseline.width, baseline.height);
+}
+
+function formatComparisonSummary(
+  diff: ImageDiffResult,
+  baselinePath: string,
+  failureThreshold: number,
+  passed: boolean,
+): string {
+  const lines = [
+    `Visual comparison ${passed ? 'passed' : 'failed'}: ${diff.mismatchPercentage.toFixed(2)}% of pixels differ (allowed ${failureThreshold}%).`,
+    `Compared ${diff.comparedPixels} of ${diff.width * diff.height} pixels (${diff.width}x${diff.height}) against ${baselinePath}.`,
+  ];
+
+  if (diff.regions.length > 0) {
+    lines.push('Changed regions (baseline image pixels):');
+    diff.regions.slice(0, MAX_LISTED_REGIONS).forEach((region, index) => {
+      lines.push(
+        `${index + 1}. x=${region.x} y=${region.y} width=${region.width} height=${region.height} (${region.pixels} pixels)`,
+      );
+    });
+    if (diff.regions.length > MAX_LISTED_REGIONS) {
+      lines.push(`... and ${diff.regions.length - MAX_LISTED_REGIONS} more`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export interface ScreenshotComparisonOptions {
+  baselinePath: string;
+  threshold?: number;
+  failureThreshold?: number;
+  ignoreRegions?: ImageRegion[];
+  maxDimension?: number;
+}
+
+export interface ScreenshotComparison {
+  baselinePath: string;
+  failureThreshold: number;
+  passed: boolean;
+  diff: ImageDiffResult;
+  diffImage: EncodedImage;
+}
+
+/**
+ * Capture the simulator and compare it with a baseline image on disk.
+ * Failures are returned as ready-made error responses so callers can pass them through.
+ */
+export async function runScreenshotComparison(
+  simulatorId: string,
+  options: ScreenshotComparisonOptions,
+  executor: CommandExecutor,
+  fileSystemExecutor: FileSystemExecutor = getDefaultFileSystemExecutor(),
+  pathUtils?: ScreenshotPathUtils,
+  uuidUtils?: { v4: () => string },
+  imageProcessor: ImageProcessor = getDefaultImageProcessor(),
+): Promise<{ comparison?: ScreenshotComparison; error?: ToolResponse }> {
+  const baselinePath = path.resolve(options.baselinePath);
+  const failureThreshold = options.failureThreshold ?? 0;
+
+  if (!fileSystemExecutor.existsSync(baselinePath)) {
+    return { error: createErrorResponse(`Baseline image not found: ${baselinePath}`) };
+  }
+
+  let baseline: RawImage;
+  try {
+    baseline = await imageProcessor.decode(
+      Buffer.from(await fileSystemExecutor.readFile(baselinePath, 'base64'), 'base64'),
+    );
+  } catch (error) {
+    return {
+      error: createErrorResponse(
+        `Failed to read baseline image: ${error instanceof Error ? error.message : String(error)}`,
+      ),
+    };
+  }
+
+  try {
+    const screenshotPath = await captureSimulatorScreenshot(
+      simulatorId,
+      executor,
+      pathUtils,
+      uuidUtils,
+    );
+
+    try {
+      const pngData = await readCapturedScreenshot(screenshotPath, fileSystemExecutor);
+      const actual = matchBaselineSize(await imageProcessor.decode(pngData), baseline);
+      const diff = compareImages(actual, baseline, {
+        threshold: options.threshold,
+        ignoreRegions: options.ignoreRegions,
+      });
+
+      const diffImage = await encodeImageWithinBudget(imageProcessor, diff.diffImage, {
+        format: 'png',
+        maxDimension: options.maxDimension ?? getMaxDimension(),
+      });
+
+      log(
+        'info',
+        `${LOG_PREFIX}/screenshot_compare: ${diff.mismatchedPixels} of ${diff.comparedPixels} pixels differ from ${baselinePath}`,
+      );
+
+      return {
+        comparison: {
+          baselinePath,
+          failureThreshold,
+          passed: diff.mismatchPercentage <= failureThreshold,
+          diff,
+          diffImage,
+        },
+      };
+    } catch (compareError) {
+      log('error', `${LOG_PREFIX}/screenshot_compare: Failed to compare images: ${compareError}`);
+      return {
+        error: createErrorResponse(
+          `Screenshot captured but comparison failed: ${compareError instanceof Error ? compareError.message : String(compareError)}`,
+        ),
+      };
+    }
+  } catch (_error) {
+    log('error', `${LOG_PREFIX}/screenshot_compare: Failed - ${_error}`);
+    if (_error instanceof SystemError) {
+      return {
+        error: createErrorResponse(
+          `System error executing screenshot: ${_error.message}`,
+          _error.originalError?.stack,
+        ),
+      };
+    }
+    return {
+      error: createErrorResponse(
+        `An unexpected error occurred: ${_error instanceof Error ? _error.message : String(_error)}`,
+      ),
+    };
+  }
+}
+
+export async function screenshot_compareLogic(
+  params: ScreenshotCompareParams,
+  executor: CommandExecutor,
+  fileSystemExecutor: FileSystemExecutor = getDefaultFileSystemExecutor(),
+  pathUtils?: ScreenshotPathUtils,
+  uuidUtils?: { v4: () => string },
+  imageProcessor: ImageProcessor = getDefaultImageProcessor(),
+): Promise<ToolResponse> {
+  const { simulatorId, ...options } = params;
+  const { comparison, error } = await runScreenshotComparison(
+    simulatorId,
+    options,
+    executor,
+    fileSystemExecutor,
+    pathUtils,
+    uuidUtils,
+    imageProcessor,
+  );
+  if (!comparison) {
+    return error ?? createErrorResponse('Screenshot comparison failed');
+  }
+
+  const { diff, diffImage, baselinePath, failureThreshold, passed } = comparison;
+  return {
+    content: [
+      createTextContent(formatComparisonSummary(diff, baselinePath, failureThreshold, passed)),
+      createImageContent(diffImage.data.toString('base64'), getImageMimeType('png')),
+    ],
+    isError: !passed,
+  };
+}
+
+export default {
+  name: 'screenshot_compare',
+  description:
+    'Captures a screenshot and compares it pixel-by-pixel with a baseline image. Returns the mismatch percentage, changed regions and a diff image with changes highlighted in red.',
+  schema: getSessionAwareToolSchemaShape({
+    sessionAware: publicSchemaObject,
+    legacy: screenshotCompareSchema,
+  }),
+  annotations: {
+    title: 'Screenshot Compare',
+    readOnlyHint: true,
+  },
+  handler: createSessionAwareTool<ScreenshotCompareParams>({
+    internalSchema: screenshotCompareSchema as unknown as z.ZodType<
+      ScreenshotCompareParams,
+      unknown
+    >,
+    logicFunction: (params: ScreenshotCompareParams, executor: CommandExecutor) => {
+      return screenshot_compareLogic(params, executor);
+    },
+    getExecutor: getDefaultCommandExecutor,
+    requirements: [{ allOf: ['simulatorId'], message: 'simulatorId is required' }],
+  }),
+};
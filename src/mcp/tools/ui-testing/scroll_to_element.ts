@@ -0,0 +1,393 @@
+/**
+ * UI Testing Plugin: Scroll To Element
+ *
+ * Scrolls a container (or the whole screen) in one direction until an element matching a
+ * selector is fully inside its visible frame. Each step takes an accessibility snapshot
+ * and swipes only when needed; scrolling stops after maxSwipes or once a swipe no longer
+ * changes the content, i.e. the end of the list was reached.
+ */
+
+import * as z from 'zod';
+import type { ToolResponse } from '../../../types/common.ts';
+import { log } from '../../../utils/logging/index.ts';
+import { createTextResponse, createErrorResponse } from '../../../utils/responses/index.ts';
+import {
+  DependencyError,
+  AxeError,
+  ElementResolutionError,
+  SystemError,
+} from '../../../utils/errors.ts';
+import type { CommandExecutor } from '../../../utils/execution/index.ts';
+import { getDefaultCommandExecutor } from '../../../utils/execution/index.ts';
+import {
+  createAxeNotAvailableResponse,
+  getAxePath,
+  getBundledAxeEnvironment,
+} from '../../../utils/axe-helpers.ts';
+import type {
+  AccessibilityElement,
+  AccessibilityFrame,
+} from '../../../utils/accessibility/index.ts';
+import {
+  describeAccessibilityElement,
+  fetchAccessibilityHierarchy,
+  flattenAccessibilityElements,
+  formatAccessibilityOutline,
+  getElementCenter,
+  getScreenFrame,
+} from '../../../utils/accessibility/index.ts';
+import type { ElementLocator, ElementWaitOptions } from '../../../utils/element-selector/index.ts';
+import {
+  describeElementSelector,
+  elementLocatorSchema,
+  findElementsBySelector,
+} from '../../../utils/element-selector/index.ts';
+import {
+  createSessionAwareTool,
+  getSessionAwareToolSchemaShape,
+} from '../../../utils/typed-tool-factory.ts';
+import { uiRecorder } from '../../../utils/ui-recorder.ts';
+import { uiStateStore } from '../../../utils/ui-state-store.ts';
+import { getDirectionalSwipePoints } from './swipe.ts';
+
+export interface AxeHelpers {
+  getAxePath: () => string | null;
+  getBundledAxeEnvironment: () => Record<string, string>;
+  createAxeNotAvailableResponse: () => ToolResponse;
+}
+
+const LOG_PREFIX = '[AXe]';
+
+const DEFAULT_MAX_SWIPES = 10;
+const MAX_SWIPES_LIMIT = 50;
+// Fraction of the visible frame covered by one full swipe
+const SWIPE_EXTENT = 0.5;
+// Slow swipes keep momentum scrolling short, so snapshots see where the swipe ended
+const SWIPE_DURATION = 0.5;
+// Time for momentum scrolling to settle before the next snapshot
+const SETTLE_DELAY_MS = 500;
+// Extra distance so an element brought into view is not flush with the edge
+const EDGE_MARGIN = 8;
+// Hierarchy lines included in failure details
+const SUMMARY_MAX_LINES = 40;
+
+type ScrollDirection = 'up' | 'down' | 'left' | 'right';
+
+// Content scrolls opposite to the finger: revealing content below takes an upward swipe
+const SWIPE_DIRECTION: Record<ScrollDirection, ScrollDirection> = {
+  down: 'up',
+  up: 'down',
+  right: 'left',
+  left: 'right',
+};
+
+// Define schema as ZodObject
+export const scrollToElementSchema = z.object({
+  simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
+  selector: elementLocatorSchema.describe(
+    'Element to scroll to, e.g. {"role":"Cell","label":"Privacy"}.',
+  ),
+  direction: z
+    .enum(['up', 'down', 'left', 'right'])
+    .optional()
+    .describe(
+      'Optional: Direction to scroll; "down" reveals content further down the list. Defaults to "down".',
+    ),
+  container: elementLocatorSchema
+    .optional()
+    .describe(
+      'Optional: Scrollable container to swipe in, e.g. {"role":"Table"}. Defaults to the whole screen.',
+    ),
+  maxSwipes: z
+    .number()
+    .int()
+    .min(0, { message: 'maxSwipes must be non-negative' })
+    .max(MAX_SWIPES_LIMIT, { message: `maxSwipes must be at most ${MAX_SWIPES_LIMIT}` })
+    .optional()
+    .describe(`Optional: Maximum number of swipes. Defaults to ${DEFAULT_MAX_SWIPES}.`),
+});
+
+// Use z.infer for type safety
+type ScrollToElementParams = z.infer<typeof scrollToElementSchema>;
+
+const publicSchemaObject = z.strictObject(
+  scrollToElementSchema.omit({ simulatorId: true } as const).shape,
+);
+
+function findOne(
+  elements: AccessibilityElement[],
+  locator: ElementLocator,
+): AccessibilityElement | undefined {
+  const matches = findElementsBySelector(elements, locator);
+  return locator.index !== undefined ? matches[locator.index] : matches[0];
+}
+
+function intersectFrames(a: AccessibilityFrame, b: AccessibilityFrame): AccessibilityFrame {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(a.x + a.width, b.x + b.width) - x),
+    height: Math.max(0, Math.min(a.y + a.height, b.y + b.height) - y),
+  };
+}
+
+function isFullyInside(frame: AccessibilityFrame, area: AccessibilityFrame): boolean {
+  return (
+    frame.width > 0 &&
+    frame.height > 0 &&
+    frame.x >= area.x &&
+    frame.y >= area.y &&
+    frame.x + frame.width <= area.x + area.width &&
+    frame.y + frame.height <= area.y + area.height
+  );
+}
+
+/**
+ * How far to swipe: the distance that brings a known target just inside the visible
+ * area, capped at a normal swipe; a normal swipe when the target is not in the hierarchy
+ */
+function getSwipeDistance(
+  target: AccessibilityElement | undefined,
+  area: AccessibilityFrame,
+  direction: ScrollDirection,
+): number {
+  const vertical = direction === 'up' || direction === 'down';
+  const fullSwipe = (vertical ? area.height : area.width) * SWIPE_EXTENT;
+  if (!target) {
+    return fullSwipe;
+  }
+
+  const { frame } = target;
+  const overflow = {
+    down: frame.y + frame.height - (area.y + area.height),
+    up: area.y - frame.y,
+    right: frame.x + frame.width - (area.x + area.width),
+    left: area.x - frame.x,
+  }[direction];
+  return overflow > 0 ? Math.min(overflow + EDGE_MARGIN, fullSwipe) : fullSwipe;
+}
+
+// Snapshot of what is on screen inside the area, to detect when swiping stops changing it
+function getContentSignature(elements: AccessibilityElement[], area: AccessibilityFrame): string {
+  return flattenAccessibilityElements(elements)
+    .filter(({ frame }) => intersectFrames(frame, area).width > 0)
+    .map(({ role, label, identifier, value, frame }) =>
+      [role, label, identifier, value, frame.x, frame.y, frame.width, frame.height].join('|'),
+    )
+    .join('\n');
+}
+
+export async function scroll_to_elementLogic(
+  params: ScrollToElementParams,
+  executor: CommandExecutor,
+  axeHelpers: AxeHelpers = {
+    getAxePath,
+    getBundledAxeEnvironment,
+    createAxeNotAvailableResponse,
+  },
+  waitOptions: ElementWaitOptions = {},
+): Promise<ToolResponse> {
+  const toolName = 'scroll_to_element';
+  const { simulatorId, selector, container } = params;
+  const direction = params.direction ?? 'down';
+  const maxSwipes = params.maxSwipes ?? DEFAULT_MAX_SWIPES;
+  const description = describeElementSelector(selector);
+  const sleep =
+    waitOptions.sleep ??
+    ((ms: number): Promise<void> => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+  log(
+    'info',
+    `${LOG_PREFIX}/${toolName}: Scrolling ${direction} to ${description} on ${simulatorId}`,
+  );
+
+  try {
+    let previousSignature: string | undefined;
+    for (let swipes = 0; ; swipes++) {
+      const { elements } = await fetchAccessibilityHierarchy(simulatorId, executor, axeHelpers);
+      uiStateStore.record(simulatorId, elements);
+
+      const screen = getScreenFrame(elements);
+      if (!screen) {
+        throw new ElementResolutionError(
+          'Unable to determine the screen frame from the accessibility hierarchy.',
+          formatAccessibilityOutline(elements, SUMMARY_MAX_LINES),
+        );
+      }
+      let area = screen;
+      if (container !== undefined) {
+        const containerElement = findOne(elements, container);
+        if (!containerElement) {
+          throw new ElementResolutionError(
+            `No container matching ${describeElementSelector(container)} found.`,
+            formatAccessibilityOutline(elements, SUMMARY_MAX_LINES),
+          );
+        }
+        area = intersectFrames(containerElement.frame, screen);
+      }
+
+      const target = findOne(elements, selector);
+      if (target && isFullyInside(target.frame, area)) {
+        log('info', `${LOG_PREFIX}/${toolName}: Found ${description} after ${swipes} swipes`);
+        const details = {
+          role: target.role,
+          label: target.label,
+          identifier: target.identifier,
+          value: target.value,
+          enabled: target.enabled,
+          frame: target.frame,
+          center: getElementCenter(target),
+        };
+        return createTextResponse(
+          `Element ${description} is fully visible after ${swipes} ${swipes === 1 ? 'swipe' : 'swipes'}.\n${JSON.stringify(details, null, 2)}`,
+        );
+      }
+
+      const signature = getContentSignature(elements, area);
+      const reachedEnd = previousSignature !== undefined && signature === previousSignature;
+      if (reachedEnd || swipes >= maxSwipes) {
+        const lastState = target
+          ? ` Last match: ${describeAccessibilityElement(target)}.`
+          : ' No element matched.';
+        throw new ElementResolutionError(
+          reachedEnd
+            ? `Element ${description} not fully visible: scrolling ${direction} stopped changing the content after ${swipes} swipes.${lastState}`
+            : `Element ${description} not fully visible after ${swipes} swipes.${lastState}`,
+          formatAccessibilityOutline(elements, SUMMARY_MAX_LINES),
+        );
+      }
+      previousSignature = signature;
+
+      const swipeDirection = SWIPE_DIRECTION[direction];
+      const { x1, y1, x2, y2 } = getDirectionalSwipePoints(
+        area,
+        swipeDirection,
+        getSwipeDistance(target, area, direction),
+      );
+      await executeAxeCommand(
+        [
+          'swipe',
+          '--start-x',
+          String(x1),
+          '--start-y',
+          String(y1),
+          '--end-x',
+          String(x2),
+          '--end-y',
+          String(y2),
+          '--duration',
+          String(SWIPE_DURATION),
+        ],
+        simulatorId,
+        'swipe',
+        executor,
+        axeHelpers,
+      );
+      uiRecorder.record(simulatorId, {
+        action: 'swipe',
+        from: { x: x1, y: y1 },
+        to: { x: x2, y: y2 },
+        duration: SWIPE_DURATION,
+      });
+      uiStateStore.invalidate(simulatorId, 'scroll_to_element');
+      await sleep(SETTLE_DELAY_MS);
+    }
+  } catch (error) {
+    log('error', `${LOG_PREFIX}/${toolName}: Failed - ${error}`);
+    if (error instanceof DependencyError) {
+      return axeHelpers.createAxeNotAvailableResponse();
+    } else if (error instanceof AxeError) {
+      return createErrorResponse(`Failed to scroll to element: ${error.message}`, error.axeOutput);
+    } else if (error instanceof ElementResolutionError) {
+      return createErrorResponse(error.message, error.details);
+    } else if (error instanceof SystemError) {
+      return createErrorResponse(
+        `System error executing axe: ${error.message}`,
+        error.originalError?.stack,
+      );
+    }
+    return createErrorResponse(
+      `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+export default {
+  name: 'scroll_to_element',
+  description:
+    'Scrolls a container (or the screen) in one direction until an element matching a selector is fully visible, taking an accessibility snapshot between swipes. Stops after maxSwipes or when swiping no longer changes the content. Returns the final element frame.',
+  schema: getSessionAwareToolSchemaShape({
+    sessionAware: publicSchemaObject,
+    legacy: scrollToElementSchema,
+  }),
+  annotations: {
+    title: 'Scroll To Element',
+    destructiveHint: true,
+  },
+  handler: createSessionAwareTool<ScrollToElementParams>({
+    internalSchema: scrollToElementSchema as unknown as z.ZodType<ScrollToElementParams, unknown>,
+    logicFunction: (params: ScrollToElementParams, executor: CommandExecutor) =>
+      scroll_to_elementLogic(params, executor),
+    getExecutor: getDefaultCommandExecutor,
+    requirements: [{ allOf: ['simulatorId'], message: 'simulatorId is required' }],
+  }),
+};
+
+// Helper function for executing axe commands (inlined from src/tools/axe/index.ts)
+async function executeAxeCommand(
+  commandArgs: string[],
+  simulatorId: string,
+  commandName: string,
+  executor: CommandExecutor = getDefaultCommandExecutor(),
+  axeHelpers: AxeHelpers = { getAxePath, getBundledAxeEnvironment, createAxeNotAvailableResponse },
+): Promise<void> {
+  // Get the appropriate axe binary path
+  const axeBinary = axeHelpers.getAxePath();
+  if (!axeBinary) {
+    throw new DependencyError('AXe binary not found');
+  }
+
+  // Add --udid parameter to all commands
+  const fullArgs = [...commandArgs, '--udid', simulatorId];
+
+  // Construct the full command array with the axe binary as the first element
+  const fullCommand = [axeBinary, ...fullArgs];
+
+  try {
+    // Determine environment variables for bundled AXe
+    const axeEnv = axeBinary !== 'axe' ? axeHelpers.getBundledAxeEnvironment() : undefined;
+
+    const result = await executor(fullCommand, `${LOG_PREFIX}: ${commandName}`, false, axeEnv);
+
+    if (!result.success) {
+      throw new AxeError(
+        `axe command '${commandName}' failed.`,
+        commandName,
+        result.error ?? result.output,
+        simulatorId,
+      );
+    }
+
+    // Check for stderr output in successful commands
+    if (result.error) {
+      log(
+        'warn',
+        `${LOG_PREFIX}: Command '${commandName}' produced stderr output but exited successfully. Output: ${result.error}`,
+      );
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error instanceof AxeError) {
+        throw error;
+      }
+
+      // Otherwise wrap it in a SystemError
+      throw new SystemError(`Failed to execute axe command: ${error.message}`, error);
+    }
+
+    // For any other type of error
+    throw new SystemError(`Failed to execute axe command: ${String(error)}`);
+  }
+}
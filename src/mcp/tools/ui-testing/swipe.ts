@@ -1,14 +1,26 @@
 /**
  * UI Testing Plugin: Swipe
  *
- * Swipe from one coordinate to another on iOS simulator with customizable duration and delta.
+ * Swipe from one coordinate to another on iOS simulator with customizable duration and delta,
+ * or swipe across an element located by selector in a given direction.
  */
 
 import * as z from 'zod';
 import { ToolResponse } from '../../../types/common.ts';
 import { log } from '../../../utils/logging/index.ts';
 import { createTextResponse, createErrorResponse } from '../../../utils/responses/index.ts';
-import { DependencyError, AxeError, SystemError } from '../../../utils/errors.ts';
+import {
+  DependencyError,
+  AxeError,
+  ElementResolutionError,
+  SystemError,
+} from '../../../utils/errors.ts';
+import type { AccessibilityFrame } from '../../../utils/accessibility/index.ts';
+import {
+  describeElementSelector,
+  elementSelectorSchema,
+  resolveElement,
+} from '../../../utils/element-selector/index.ts';
 import type { CommandExecutor } from '../../../utils/execution/index.ts';
 import { getDefaultCommandExecutor } from '../../../utils/execution/index.ts';
 import {
@@ -20,24 +32,83 @@ import {
   createSessionAwareTool,
   getSessionAwareToolSchemaShape,
 } from '../../../utils/typed-tool-factory.ts';
+import type { RecordedElement } from '../../../utils/ui-recorder.ts';
+import { toRecordedElement, uiRecorder } from '../../../utils/ui-recorder.ts';
+import { uiStateStore } from '../../../utils/ui-state-store.ts';
+
+const COORDINATE_FIELDS = ['x1', 'y1', 'x2', 'y2'] as const;
+// Share of the element's height or width covered by a selector swipe
+const DEFAULT_SWIPE_EXTENT = 0.6;
 
 // Define schema as ZodObject
-const swipeSchema = z.object({
+export const baseSwipeSchema = z.object({
   simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
-  x1: z.number().int({ message: 'Start X coordinate' }),
-  y1: z.number().int({ message: 'Start Y coordinate' }),
-  x2: z.number().int({ message: 'End X coordinate' }),
-  y2: z.number().int({ message: 'End Y coordinate' }),
+  x1: z.number().int({ message: 'Start X coordinate' }).optional(),
+  y1: z.number().int({ message: 'Start Y coordinate' }).optional(),
+  x2: z.number().int({ message: 'End X coordinate' }).optional(),
+  y2: z.number().int({ message: 'End Y coordinate' }).optional(),
+  selector: elementSelectorSchema.optional(),
+  direction: z
+    .enum(['up', 'down', 'left', 'right'])
+    .optional()
+    .describe('Finger direction for a selector swipe ("up" reveals content further down).'),
+  distance: z
+    .number()
+    .positive({ message: 'Distance must be positive' })
+    .optional()
+    .describe('Points travelled by a selector swipe. Defaults to 60% of the element size.'),
   duration: z.number().min(0, { message: 'Duration must be non-negative' }).optional(),
   delta: z.number().min(0, { message: 'Delta must be non-negative' }).optional(),
   preDelay: z.number().min(0, { message: 'Pre-delay must be non-negative' }).optional(),
   postDelay: z.number().min(0, { message: 'Post-delay must be non-negative' }).optional(),
 });
 
+export const swipeSchema = baseSwipeSchema.superRefine((values, ctx) => {
+  const missing = COORDINATE_FIELDS.filter((field) => values[field] === undefined);
+
+  if (values.selector !== undefined) {
+    if (missing.length < COORDINATE_FIELDS.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['selector'],
+        message: 'Provide either a selector or x1/y1/x2/y2 coordinates, not both.',
+      });
+    }
+    if (values.direction === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['direction'],
+        message: 'direction is required when swiping by selector.',
+      });
+    }
+    return;
+  }
+
+  for (const field of missing) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [field],
+      message: `${field} is required unless a selector is given.`,
+    });
+  }
+  for (const field of ['direction', 'distance'] as const) {
+    if (values[field] !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [field],
+        message: `${field} applies only to selector swipes.`,
+      });
+    }
+  }
+});
+
 // Use z.infer for type safety
 type SwipeParams = z.infer<typeof swipeSchema>;
+type SwipeDirection = NonNullable<SwipeParams['direction']>;
 
-const publicSchemaObject = z.strictObject(swipeSchema.omit({ simulatorId: true } as const).shape);
+const publicSchemaObject = z.strictObject(
+  baseSwipeSchema.omit({ simulatorId: true } as const).shape,
+);
 
 export interface AxeHelpers {
   getAxePath: () => string | null;
@@ -47,6 +118,30 @@ export interface AxeHelpers {
 
 const LOG_PREFIX = '[AXe]';
 
+/**
+ * Start and end points for a swipe centred on a frame, travelling in the given direction
+ */
+export function getDirectionalSwipePoints(
+  frame: AccessibilityFrame,
+  direction: SwipeDirection,
+  distance?: number,
+): { x1: number; y1: number; x2: number; y2: number } {
+  const centerX = frame.x + frame.width / 2;
+  const centerY = frame.y + frame.height / 2;
+  const vertical = direction === 'up' || direction === 'down';
+  const travel = distance ?? (vertical ? frame.height : frame.width) * DEFAULT_SWIPE_EXTENT;
+  const sign = direction === 'down' || direction === 'right' ? 1 : -1;
+  const offsetX = vertical ? 0 : (sign * travel) / 2;
+  const offsetY = vertical ? (sign * travel) / 2 : 0;
+
+  return {
+    x1: Math.round(centerX - offsetX),
+    y1: Math.round(centerY - offsetY),
+    x2: Math.round(centerX + offsetX),
+    y2: Math.round(centerY + offsetY),
+  };
+}
+
 /**
  * Core swipe logic implementation
  */
@@ -61,43 +156,70 @@ export async function swipeLogic(
 ): Promise<ToolResponse> {
   const toolName = 'swipe';
 
-  const { simulatorId, x1, y1, x2, y2, duration, delta, preDelay, postDelay } = params;
-  const commandArgs = [
-    'swipe',
-    '--start-x',
-    String(x1),
-    '--start-y',
-    String(y1),
-    '--end-x',
-    String(x2),
-    '--end-y',
-    String(y2),
-  ];
-  if (duration !== undefined) {
-    commandArgs.push('--duration', String(duration));
-  }
-  if (delta !== undefined) {
-    commandArgs.push('--delta', String(delta));
-  }
-  if (preDelay !== undefined) {
-    commandArgs.push('--pre-delay', String(preDelay));
-  }
-  if (postDelay !== undefined) {
-    commandArgs.push('--post-delay', String(postDelay));
-  }
-
+  const { simulatorId, selector, direction, duration, delta, preDelay, postDelay } = params;
   const optionsText = duration ? ` duration=${duration}s` : '';
+  const targetText = selector
+    ? ` ${direction} on element ${describeElementSelector(selector)}`
+    : ` (${params.x1},${params.y1})->(${params.x2},${params.y2})`;
   log(
     'info',
-    `${LOG_PREFIX}/${toolName}: Starting swipe (${x1},${y1})->(${x2},${y2})${optionsText} on ${simulatorId}`,
+    `${LOG_PREFIX}/${toolName}: Starting swipe${targetText}${optionsText} on ${simulatorId}`,
   );
 
   try {
+    let points = { x1: params.x1, y1: params.y1, x2: params.x2, y2: params.y2 };
+    let resolvedElement: RecordedElement | undefined;
+    if (selector !== undefined && direction !== undefined) {
+      const { element } = await resolveElement(simulatorId, selector, executor, axeHelpers);
+      resolvedElement = toRecordedElement(element);
+      points = getDirectionalSwipePoints(element.frame, direction, params.distance);
+    }
+    const { x1, y1, x2, y2 } = points;
+
+    const commandArgs = [
+      'swipe',
+      '--start-x',
+      String(x1),
+      '--start-y',
+      String(y1),
+      '--end-x',
+      String(x2),
+      '--end-y',
+      String(y2),
+    ];
+    if (duration !== undefined) {
+      commandArgs.push('--duration', String(duration));
+    }
+    if (delta !== undefined) {
+      commandArgs.push('--delta', String(delta));
+    }
+    if (preDelay !== undefined) {
+      commandArgs.push('--pre-delay', String(preDelay));
+    }
+    if (postDelay !== undefined) {
+      commandArgs.push('--post-delay', String(postDelay));
+    }
+
     await executeAxeCommand(commandArgs, simulatorId, 'swipe', executor, axeHelpers);
     log('info', `${LOG_PREFIX}/${toolName}: Success for ${simulatorId}`);
 
-    const warning = getCoordinateWarning(simulatorId);
-    const message = `Swipe from (${x1}, ${y1}) to (${x2}, ${y2})${optionsText} simulated successfully.`;
+    const swipeText = selector
+      ? `Swipe ${direction} on element ${describeElementSelector(selector)} from (${x1}, ${y1}) to (${x2}, ${y2})`
+      : `Swipe from (${x1}, ${y1}) to (${x2}, ${y2})`;
+    if (x1 !== undefined && y1 !== undefined && x2 !== undefined && y2 !== undefined) {
+      uiRecorder.record(simulatorId, {
+        action: 'swipe',
+        from: { x: x1, y: y1 },
+        to: { x: x2, y: y2 },
+        duration,
+        element: resolvedElement,
+        direction: resolvedElement ? direction : undefined,
+      });
+    }
+
+    const warning = selector ? null : uiStateStore.getCoordinateWarning(simulatorId);
+    uiStateStore.invalidate(simulatorId, 'swipe');
+    const message = `${swipeText}${optionsText} simulated successfully.`;
 
     if (warning) {
       return createTextResponse(`${message}\n\n${warning}`);
@@ -110,6 +232,8 @@ export async function swipeLogic(
       return axeHelpers.createAxeNotAvailableResponse();
     } else if (error instanceof AxeError) {
       return createErrorResponse(`Failed to simulate swipe: ${error.message}`, error.axeOutput);
+    } else if (error instanceof ElementResolutionError) {
+      return createErrorResponse(error.message, error.details);
     } else if (error instanceof SystemError) {
       return createErrorResponse(
         `System error executing axe: ${error.message}`,
@@ -125,10 +249,10 @@ export async function swipeLogic(
 export default {
   name: 'swipe',
   description:
-    "Swipe from one point to another. Use describe_ui for precise coordinates (don't guess from screenshots). Supports configurable timing.",
+    "Swipe from one point to another, or across an element found by selector in a direction (up/down/left/right). Use describe_ui for precise coordinates (don't guess from screenshots). Supports configurable timing.",
   schema: getSessionAwareToolSchemaShape({
     sessionAware: publicSchemaObject,
-    legacy: swipeSchema,
+    legacy: baseSwipeSchema,
   }),
   annotations: {
     title: 'Swipe',
@@ -147,30 +271,6 @@ export default {
   }),
 };
 
-// Session tracking for describe_ui warnings
-interface DescribeUISession {
-  timestamp: number;
-  simulatorId: string;
-}
-
-const describeUITimestamps = new Map<string, DescribeUISession>();
-const DESCRIBE_UI_WARNING_TIMEOUT = 60000; // 60 seconds
-
-function getCoordinateWarning(simulatorId: string): string | null {
-  const session = describeUITimestamps.get(simulatorId);
-  if (!session) {
-    return 'Warning: describe_ui has not been called yet. Consider using describe_ui for precise coordinates instead of guessing from screenshots.';
-  }
-
-  const timeSinceDescribe = Date.now() - session.timestamp;
-  if (timeSinceDescribe > DESCRIBE_UI_WARNING_TIMEOUT) {
-    const secondsAgo = Math.round(timeSinceDescribe / 1000);
-    return `Warning: describe_ui was last called ${secondsAgo} seconds ago. Consider refreshing UI coordinates with describe_ui instead of using potentially stale coordinates.`;
-  }
-
-  return null;
-}
-
 // Helper function for executing axe commands (inlined from src/tools/axe/index.ts)
 async function executeAxeCommand(
   commandArgs: string[],
@@ -0,0 +1,250 @@
+/**
+ * UI Testing Plugin: Swipe Sequence
+ *
+ * Performs one straight swipe per pair of consecutive points, each with its own
+ * duration, for movements beyond the fixed presets of `gesture`.
+ *
+ * AXe only drives a single finger and has no touch-move primitive: `touch` presses or
+ * releases it at one point and `swipe` drags it along one straight line. The finger
+ * therefore lifts between swipes, so this is not a continuous multi-point drag (fine for
+ * panning maps or moving sliders, not for drawing a stroke). Two-finger gestures such as
+ * pinch and rotate cannot be expressed at all and are not offered.
+ */
+
+import * as z from 'zod';
+import type { ToolResponse } from '../../../types/common.ts';
+import { log } from '../../../utils/logging/index.ts';
+import { createTextResponse, createErrorResponse } from '../../../utils/responses/index.ts';
+import { DependencyError, AxeError, SystemError } from '../../../utils/errors.ts';
+import type { CommandExecutor } from '../../../utils/execution/index.ts';
+import { getDefaultCommandExecutor } from '../../../utils/execution/index.ts';
+import {
+  createAxeNotAvailableResponse,
+  getAxePath,
+  getBundledAxeEnvironment,
+} from '../../../utils/axe-helpers.ts';
+import {
+  createSessionAwareTool,
+  getSessionAwareToolSchemaShape,
+} from '../../../utils/typed-tool-factory.ts';
+import { uiRecorder } from '../../../utils/ui-recorder.ts';
+import { uiStateStore } from '../../../utils/ui-state-store.ts';
+
+export interface AxeHelpers {
+  getAxePath: () => string | null;
+  getBundledAxeEnvironment: () => Record<string, string>;
+  createAxeNotAvailableResponse: () => ToolResponse;
+}
+
+const LOG_PREFIX = '[AXe]';
+
+const MAX_PATH_POINTS = 50;
+const DEFAULT_SWIPE_DURATION = 0.3;
+
+const pointSchema = z.object({
+  x: z.number().int({ message: 'X coordinate must be an integer' }),
+  y: z.number().int({ message: 'Y coordinate must be an integer' }),
+});
+
+type GesturePoint = z.infer<typeof pointSchema>;
+
+// Define schema as ZodObject
+const baseSwipeSequenceSchema = z.object({
+  simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
+  points: z
+    .array(pointSchema)
+    .min(2, { message: 'points must contain at least 2 points' })
+    .max(MAX_PATH_POINTS, { message: `points must contain at most ${MAX_PATH_POINTS} points` })
+    .describe(
+      'Points in order; each consecutive pair is one swipe, e.g. [{"x":100,"y":400},{"x":300,"y":400}].',
+    ),
+  durations: z
+    .array(z.number().positive({ message: 'Durations must be greater than 0' }))
+    .optional()
+    .describe(
+      `Seconds for each swipe (one fewer than points). Defaults to ${DEFAULT_SWIPE_DURATION}s each.`,
+    ),
+});
+
+const swipeSequenceSchema = baseSwipeSequenceSchema.superRefine((values, ctx) => {
+  if (values.durations !== undefined && values.durations.length !== values.points.length - 1) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['durations'],
+      message: `durations must have one entry per swipe (${values.points.length - 1}).`,
+    });
+  }
+});
+
+// Use z.infer for type safety
+type SwipeSequenceParams = z.infer<typeof swipeSequenceSchema>;
+
+const publicSchemaObject = z.strictObject(
+  baseSwipeSequenceSchema.omit({ simulatorId: true } as const).shape,
+);
+
+function formatPoint(point: GesturePoint): string {
+  return `(${point.x}, ${point.y})`;
+}
+
+export async function swipe_sequenceLogic(
+  params: SwipeSequenceParams,
+  executor: CommandExecutor,
+  axeHelpers: AxeHelpers = {
+    getAxePath,
+    getBundledAxeEnvironment,
+    createAxeNotAvailableResponse,
+  },
+): Promise<ToolResponse> {
+  const toolName = 'swipe_sequence';
+  const { simulatorId } = params;
+
+  const { points } = params;
+  const durations =
+    params.durations ?? Array<number>(points.length - 1).fill(DEFAULT_SWIPE_DURATION);
+
+  log(
+    'info',
+    `${LOG_PREFIX}/${toolName}: Starting ${points.length - 1} swipes through ${points.length} points on ${simulatorId}`,
+  );
+
+  try {
+    for (let swipe = 0; swipe < points.length - 1; swipe++) {
+      const from = points[swipe];
+      const to = points[swipe + 1];
+      await executeAxeCommand(
+        [
+          'swipe',
+          '--start-x',
+          String(from.x),
+          '--start-y',
+          String(from.y),
+          '--end-x',
+          String(to.x),
+          '--end-y',
+          String(to.y),
+          '--duration',
+          String(durations[swipe]),
+        ],
+        simulatorId,
+        'swipe',
+        executor,
+        axeHelpers,
+      );
+      uiRecorder.record(simulatorId, {
+        action: 'swipe',
+        from,
+        to,
+        duration: durations[swipe],
+      });
+    }
+    log('info', `${LOG_PREFIX}/${toolName}: Success for ${simulatorId}`);
+
+    const warning = uiStateStore.getCoordinateWarning(simulatorId);
+    uiStateStore.invalidate(simulatorId, 'swipe_sequence');
+    const swipes = points.length - 1;
+    const totalDuration = Number(durations.reduce((sum, value) => sum + value, 0).toFixed(3));
+    const message = `Swipe sequence through ${points.map(formatPoint).join(' → ')} simulated successfully (${swipes} ${swipes === 1 ? 'swipe' : 'swipes'}, ${totalDuration}s).`;
+
+    if (warning) {
+      return createTextResponse(`${message}\n\n${warning}`);
+    }
+    return createTextResponse(message);
+  } catch (error) {
+    log('error', `${LOG_PREFIX}/${toolName}: Failed - ${error}`);
+    if (error instanceof DependencyError) {
+      return axeHelpers.createAxeNotAvailableResponse();
+    } else if (error instanceof AxeError) {
+      return createErrorResponse(
+        `Failed to simulate swipe sequence: ${error.message}`,
+        error.axeOutput,
+      );
+    } else if (error instanceof SystemError) {
+      return createErrorResponse(
+        `System error executing axe: ${error.message}`,
+        error.originalError?.stack,
+      );
+    }
+    return createErrorResponse(
+      `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+export default {
+  name: 'swipe_sequence',
+  description:
+    'Perform one straight swipe per pair of consecutive points, each with its own duration. The finger lifts between swipes (AXe has no touch-move), so this is not one continuous drag; two-finger gestures (pinch, rotate) are not supported. Use describe_ui for precise coordinates.',
+  schema: getSessionAwareToolSchemaShape({
+    sessionAware: publicSchemaObject,
+    legacy: baseSwipeSequenceSchema,
+  }),
+  annotations: {
+    title: 'Swipe Sequence',
+    destructiveHint: true,
+  },
+  handler: createSessionAwareTool<SwipeSequenceParams>({
+    internalSchema: swipeSequenceSchema as unknown as z.ZodType<SwipeSequenceParams, unknown>,
+    logicFunction: (params: SwipeSequenceParams, executor: CommandExecutor) =>
+      swipe_sequenceLogic(params, executor),
+    getExecutor: getDefaultCommandExecutor,
+    requirements: [{ allOf: ['simulatorId'], message: 'simulatorId is required' }],
+  }),
+};
+
+// Helper function for executing axe commands (inlined from src/tools/axe/index.ts)
+async function executeAxeCommand(
+  commandArgs: string[],
+  simulatorId: string,
+  commandName: string,
+  executor: CommandExecutor = getDefaultCommandExecutor(),
+  axeHelpers: AxeHelpers = { getAxePath, getBundledAxeEnvironment, createAxeNotAvailableResponse },
+): Promise<void> {
+  // Get the appropriate axe binary path
+  const axeBinary = axeHelpers.getAxePath();
+  if (!axeBinary) {
+    throw new DependencyError('AXe binary not found');
+  }
+
+  // Add --udid parameter to all commands
+  const fullArgs = [...commandArgs, '--udid', simulatorId];
+
+  // Construct the full command array with the axe binary as the first element
+  const fullCommand = [axeBinary, ...fullArgs];
+
+  try {
+    // Determine environment variables for bundled AXe
+    const axeEnv = axeBinary !== 'axe' ? axeHelpers.getBundledAxeEnvironment() : undefined;
+
+    const result = await executor(fullCommand, `${LOG_PREFIX}: ${commandName}`, false, axeEnv);
+
+    if (!result.success) {
+      throw new AxeError(
+        `axe command '${commandName}' failed.`,
+        commandName,
+        result.error ?? result.output,
+        simulatorId,
+      );
+    }
+
+    // Check for stderr output in successful commands
+    if (result.error) {
+      log(
+        'warn',
+        `${LOG_PREFIX}: Command '${commandName}' produced stderr output but exited successfully. Output: ${result.error}`,
+      );
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error instanceof AxeError) {
+        throw error;
+      }
+
+      // Otherwise wrap it in a SystemError
+      throw new SystemError(`Failed to execute axe command: ${error.message}`, error);
+    }
+
+    // For any other type of error
+    throw new SystemError(`Failed to execute axe command: ${String(error)}`);
+  }
+}
@@ -9,11 +9,28 @@ import {
   getAxePath,
   getBundledAxeEnvironment,
 } from '../../../utils/axe-helpers.ts';
-import { DependencyError, AxeError, SystemError } from '../../../utils/errors.ts';
+import {
+  DependencyError,
+  AxeError,
+  ElementResolutionError,
+  SystemError,
+} from '../../../utils/errors.ts';
+import type { AccessibilityElement } from '../../../utils/accessibility/index.ts';
+import {
+  describeAccessibilityElement,
+  getElementCenter,
+} from '../../../utils/accessibility/index.ts';
+import {
+  describeElementSelector,
+  elementSelectorSchema,
+  resolveElement,
+} from '../../../utils/element-selector/index.ts';
 import {
   createSessionAwareTool,
   getSessionAwareToolSchemaShape,
 } from '../../../utils/typed-tool-factory.ts';
+import { findRecordedTarget, toRecordedElement, uiRecorder } from '../../../utils/ui-recorder.ts';
+import { uiStateStore } from '../../../utils/ui-state-store.ts';
 
 export interface AxeHelpers {
   getAxePath: () => string | null;
@@ -22,21 +39,48 @@ export interface AxeHelpers {
 }
 
 // Define schema as ZodObject
-const baseTapSchema = z.object({
+export const baseTapSchema = z.object({
   simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
   x: z.number().int({ message: 'X coordinate must be an integer' }).optional(),
   y: z.number().int({ message: 'Y coordinate must be an integer' }).optional(),
   id: z.string().min(1, { message: 'Id must be non-empty' }).optional(),
   label: z.string().min(1, { message: 'Label must be non-empty' }).optional(),
+  selector: elementSelectorSchema.optional(),
+  annotation: z
+    .number()
+    .int({ message: 'Annotation must be an integer' })
+    .min(1, { message: 'Annotation must be at least 1' })
+    .optional()
+    .describe(
+      'Number of an element on the last screenshot taken with annotate: true. Valid until the next interaction.',
+    ),
   preDelay: z.number().min(0, { message: 'Pre-delay must be non-negative' }).optional(),
   postDelay: z.number().min(0, { message: 'Post-delay must be non-negative' }).optional(),
 });
 
-const tapSchema = baseTapSchema.superRefine((values, ctx) => {
+export const tapSchema = baseTapSchema.superRefine((values, ctx) => {
   const hasX = values.x !== undefined;
   const hasY = values.y !== undefined;
   const hasId = values.id !== undefined;
   const hasLabel = values.label !== undefined;
+  const hasSelector = values.selector !== undefined;
+  const hasAnnotation = values.annotation !== undefined;
+
+  if (hasAnnotation && (hasX || hasY || hasId || hasLabel || hasSelector)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['annotation'],
+      message: 'Provide annotation on its own, without x/y, id, label or selector.',
+    });
+  }
+
+  if (hasSelector && (hasX || hasY || hasId || hasLabel)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['selector'],
+      message: 'Provide selector on its own, without x/y, id or label.',
+    });
+  }
 
   if (!hasX && !hasY && hasId && hasLabel) {
     ctx.addIssue({
@@ -63,11 +107,11 @@ const tapSchema = baseTapSchema.superRefine((values, ctx) => {
     }
   }
 
-  if (!hasX && !hasY && !hasId && !hasLabel) {
+  if (!hasX && !hasY && !hasId && !hasLabel && !hasSelector && !hasAnnotation) {
     ctx.addIssue({
       code: z.ZodIssueCode.custom,
       path: ['x'],
-      message: 'Provide x/y coordinates or an element id/label.',
+      message: 'Provide x/y coordinates, an element id/label, a selector or an annotation number.',
     });
   }
 });
@@ -79,25 +123,6 @@ const publicSchemaObject = z.strictObject(baseTapSchema.omit({ simulatorId: true
 
 const LOG_PREFIX = '[AXe]';
 
-// Session tracking for describe_ui warnings (shared across UI tools)
-const describeUITimestamps = new Map<string, { timestamp: number }>();
-const DESCRIBE_UI_WARNING_TIMEOUT = 60000; // 60 seconds
-
-function getCoordinateWarning(simulatorId: string): string | null {
-  const session = describeUITimestamps.get(simulatorId);
-  if (!session) {
-    return 'Warning: describe_ui has not been called yet. Consider using describe_ui for precise coordinates instead of guessing from screenshots.';
-  }
-
-  const timeSinceDescribe = Date.now() - session.timestamp;
-  if (timeSinceDescribe > DESCRIBE_UI_WARNING_TIMEOUT) {
-    const secondsAgo = Math.round(timeSinceDescribe / 1000);
-    return `Warning: describe_ui was last called ${secondsAgo} seconds ago. Consider refreshing UI coordinates with describe_ui instead of using potentially stale coordinates.`;
-  }
-
-  return null;
-}
-
 export async function tapLogic(
   params: TapParams,
   executor: CommandExecutor,
@@ -108,11 +133,12 @@ export async function tapLogic(
   },
 ): Promise<ToolResponse> {
   const toolName = 'tap';
-  const { simulatorId, x, y, id, label, preDelay, postDelay } = params;
+  const { simulatorId, x, y, id, label, selector, annotation, preDelay, postDelay } = params;
 
   let targetDescription = '';
   let actionDescription = '';
   let usesCoordinates = false;
+  let annotatedElement: AccessibilityElement | undefined;
   const commandArgs = ['tap'];
 
   if (x !== undefined && y !== undefined) {
@@ -128,6 +154,19 @@ export async function tapLogic(
     targetDescription = `element label "${label}"`;
     actionDescription = `Tap on ${targetDescription}`;
     commandArgs.push('--label', label);
+  } else if (selector !== undefined) {
+    targetDescription = `element ${describeElementSelector(selector)}`;
+    actionDescription = `Tap on ${targetDescription}`;
+  } else if (annotation !== undefined) {
+    const { element, error } = uiStateStore.getAnnotatedElement(simulatorId, annotation);
+    if (!element) {
+      return createErrorResponse(`Cannot tap annotation ${annotation}.`, error);
+    }
+    annotatedElement = element;
+    const center = getElementCenter(element);
+    targetDescription = `annotation ${annotation} (${describeAccessibilityElement(element)})`;
+    actionDescription = `Tap on ${targetDescription} at (${center.x}, ${center.y})`;
+    commandArgs.push('-x', String(center.x), '-y', String(center.y));
   } else {
     return createErrorResponse(
       'Parameter validation failed',
@@ -135,20 +174,35 @@ export async function tapLogic(
     );
   }
 
-  if (preDelay !== undefined) {
-    commandArgs.push('--pre-delay', String(preDelay));
-  }
-  if (postDelay !== undefined) {
-    commandArgs.push('--post-delay', String(postDelay));
-  }
-
   log('info', `${LOG_PREFIX}/${toolName}: Starting for ${targetDescription} on ${simulatorId}`);
 
   try {
+    let resolvedElement = annotatedElement ? toRecordedElement(annotatedElement) : undefined;
+    if (selector !== undefined) {
+      const { element, center } = await resolveElement(simulatorId, selector, executor, axeHelpers);
+      resolvedElement = toRecordedElement(element);
+      actionDescription = `${actionDescription} at (${center.x}, ${center.y})`;
+      commandArgs.push('-x', String(center.x), '-y', String(center.y));
+    }
+    if (preDelay !== undefined) {
+      commandArgs.push('--pre-delay', String(preDelay));
+    }
+    if (postDelay !== undefined) {
+      commandArgs.push('--post-delay', String(postDelay));
+    }
+
     await executeAxeCommand(commandArgs, simulatorId, 'tap', executor, axeHelpers);
     log('info', `${LOG_PREFIX}/${toolName}: Success for ${simulatorId}`);
 
-    const warning = usesCoordinates ? getCoordinateWarning(simulatorId) : null;
+    const point = usesCoordinates && x !== undefined && y !== undefined ? { x, y } : undefined;
+    uiRecorder.record(simulatorId, {
+      action: 'tap',
+      element: resolvedElement ?? findRecordedTarget(simulatorId, { id, label, point }),
+      point,
+    });
+
+    const warning = usesCoordinates ? uiStateStore.getCoordinateWarning(simulatorId) : null;
+    uiStateStore.invalidate(simulatorId, 'tap');
     const message = `${actionDescription} simulated successfully.`;
 
     if (warning) {
@@ -166,6 +220,8 @@ export async function tapLogic(
         `Failed to simulate ${actionDescription.toLowerCase()}: ${error.message}`,
         error.axeOutput,
       );
+    } else if (error instanceof ElementResolutionError) {
+      return createErrorResponse(error.message, error.details);
     } else if (error instanceof SystemError) {
       return createErrorResponse(
         `System error executing axe: ${error.message}`,
@@ -181,7 +237,7 @@ export async function tapLogic(
 export default {
   name: 'tap',
   description:
-    "Tap at specific coordinates or target elements by accessibility id or label. Use describe_ui to get precise element coordinates prior to using x/y parameters (don't guess from screenshots). Supports optional timing delays.",
+    "Tap at specific coordinates or target elements by accessibility id, label, selector (id, label, role + index, ancestors; waits until the element is hittable) or number from an annotated screenshot. Use describe_ui to get precise element coordinates prior to using x/y parameters (don't guess from screenshots). Supports optional timing delays.",
   schema: getSessionAwareToolSchemaShape({
     sessionAware: publicSchemaObject,
     legacy: baseTapSchema,
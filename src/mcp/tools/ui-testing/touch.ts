@@ -1,14 +1,25 @@
 /**
  * UI Testing Plugin: Touch
  *
- * Perform touch down/up events at specific coordinates.
+ * Perform touch down/up events at specific coordinates or on an element found by selector.
  * Use describe_ui for precise coordinates (don't guess from screenshots).
  */
 
 import * as z from 'zod';
 import { log } from '../../../utils/logging/index.ts';
 import { createTextResponse, createErrorResponse } from '../../../utils/responses/index.ts';
-import { DependencyError, AxeError, SystemError } from '../../../utils/errors.ts';
+import {
+  DependencyError,
+  AxeError,
+  ElementResolutionError,
+  SystemError,
+} from '../../../utils/errors.ts';
+import {
+  describeElementSelector,
+  elementSelectorSchema,
+  refinePointTarget,
+  resolveElement,
+} from '../../../utils/element-selector/index.ts';
 import type { CommandExecutor } from '../../../utils/execution/index.ts';
 import { getDefaultCommandExecutor } from '../../../utils/execution/index.ts';
 import {
@@ -21,21 +32,27 @@ import {
   createSessionAwareTool,
   getSessionAwareToolSchemaShape,
 } from '../../../utils/typed-tool-factory.ts';
+import { uiStateStore } from '../../../utils/ui-state-store.ts';
 
 // Define schema as ZodObject
-const touchSchema = z.object({
+const baseTouchSchema = z.object({
   simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
-  x: z.number().int({ message: 'X coordinate must be an integer' }),
-  y: z.number().int({ message: 'Y coordinate must be an integer' }),
+  x: z.number().int({ message: 'X coordinate must be an integer' }).optional(),
+  y: z.number().int({ message: 'Y coordinate must be an integer' }).optional(),
+  selector: elementSelectorSchema.optional(),
   down: z.boolean().optional(),
   up: z.boolean().optional(),
   delay: z.number().min(0, { message: 'Delay must be non-negative' }).optional(),
 });
 
+const touchSchema = baseTouchSchema.superRefine(refinePointTarget);
+
 // Use z.infer for type safety
 type TouchParams = z.infer<typeof touchSchema>;
 
-const publicSchemaObject = z.strictObject(touchSchema.omit({ simulatorId: true } as const).shape);
+const publicSchemaObject = z.strictObject(
+  baseTouchSchema.omit({ simulatorId: true } as const).shape,
+);
 
 interface AxeHelpers {
   getAxePath: () => string | null;
@@ -52,36 +69,51 @@ export async function touchLogic(
   const toolName = 'touch';
 
   // Params are already validated by createTypedTool - use directly
-  const { simulatorId, x, y, down, up, delay } = params;
+  const { simulatorId, selector, down, up, delay } = params;
+  let x = params.x;
+  let y = params.y;
 
   // Validate that at least one of down or up is specified
   if (!down && !up) {
     return createErrorResponse('At least one of "down" or "up" must be true');
   }
 
-  const commandArgs = ['touch', '-x', String(x), '-y', String(y)];
-  if (down) {
-    commandArgs.push('--down');
-  }
-  if (up) {
-    commandArgs.push('--up');
-  }
-  if (delay !== undefined) {
-    commandArgs.push('--delay', String(delay));
-  }
-
   const actionText = down && up ? 'touch down+up' : down ? 'touch down' : 'touch up';
-  log(
-    'info',
-    `${LOG_PREFIX}/${toolName}: Starting ${actionText} at (${x}, ${y}) on ${simulatorId}`,
-  );
+  const targetText = selector
+    ? `on element ${describeElementSelector(selector)}`
+    : `at (${String(x)}, ${String(y)})`;
+  log('info', `${LOG_PREFIX}/${toolName}: Starting ${actionText} ${targetText} on ${simulatorId}`);
 
   try {
+    if (selector !== undefined) {
+      ({ x, y } = (
+        await resolveElement(
+          simulatorId,
+          selector,
+          executor,
+          axeHelpers ?? { getAxePath, getBundledAxeEnvironment },
+        )
+      ).center);
+    }
+    const commandArgs = ['touch', '-x', String(x), '-y', String(y)];
+    if (down) {
+      commandArgs.push('--down');
+    }
+    if (up) {
+      commandArgs.push('--up');
+    }
+    if (delay !== undefined) {
+      commandArgs.push('--delay', String(delay));
+    }
+
     await executeAxeCommand(commandArgs, simulatorId, 'touch', executor, axeHelpers);
     log('info', `${LOG_PREFIX}/${toolName}: Success for ${simulatorId}`);
 
-    const warning = getCoordinateWarning(simulatorId);
-    const message = `Touch event (${actionText}) at (${x}, ${y}) executed successfully.`;
+    const warning = selector ? null : uiStateStore.getCoordinateWarning(simulatorId);
+    uiStateStore.invalidate(simulatorId, 'touch');
+    const message = selector
+      ? `Touch event (${actionText}) ${targetText} at (${x}, ${y}) executed successfully.`
+      : `Touch event (${actionText}) at (${x}, ${y}) executed successfully.`;
 
     if (warning) {
       return createTextResponse(`${message}\n\n${warning}`);
@@ -100,6 +132,8 @@ export async function touchLogic(
         `Failed to execute touch event: ${error.message}`,
         error.axeOutput,
       );
+    } else if (error instanceof ElementResolutionError) {
+      return createErrorResponse(error.message, error.details);
     } else if (error instanceof SystemError) {
       return createErrorResponse(
         `System error executing axe: ${error.message}`,
@@ -115,10 +149,10 @@ export async function touchLogic(
 export default {
   name: 'touch',
   description:
-    "Perform touch down/up events at specific coordinates. Use describe_ui for precise coordinates (don't guess from screenshots).",
+    "Perform touch down/up events at specific coordinates or on an element found by selector. Use describe_ui for precise coordinates (don't guess from screenshots).",
   schema: getSessionAwareToolSchemaShape({
     sessionAware: publicSchemaObject,
-    legacy: touchSchema,
+    legacy: baseTouchSchema,
   }),
   annotations: {
     title: 'Touch',
@@ -132,30 +166,6 @@ export default {
   }),
 };
 
-// Session tracking for describe_ui warnings
-interface DescribeUISession {
-  timestamp: number;
-  simulatorId: string;
-}
-
-const describeUITimestamps = new Map<string, DescribeUISession>();
-const DESCRIBE_UI_WARNING_TIMEOUT = 60000; // 60 seconds
-
-function getCoordinateWarning(simulatorId: string): string | null {
-  const session = describeUITimestamps.get(simulatorId);
-  if (!session) {
-    return 'Warning: describe_ui has not been called yet. Consider using describe_ui for precise coordinates instead of guessing from screenshots.';
-  }
-
-  const timeSinceDescribe = Date.now() - session.timestamp;
-  if (timeSinceDescribe > DESCRIBE_UI_WARNING_TIMEOUT) {
-    const secondsAgo = Math.round(timeSinceDescribe / 1000);
-    return `Warning: describe_ui was last called ${secondsAgo} seconds ago. Consider refreshing UI coordinates with describe_ui instead of using potentially stale coordinates.`;
-  }
-
-  return null;
-}
-
 // Helper function for executing axe commands (inlined from src/tools/axe/index.ts)
 async function executeAxeCommand(
   commandArgs: string[],
@@ -2,14 +2,25 @@
  * UI Testing Plugin: Type Text
  *
  * Types text into the iOS Simulator using keyboard input.
- * Supports standard US keyboard characters.
+ * Supports standard US keyboard characters. With a selector, the target field is tapped
+ * to focus it before typing.
  */
 
 import * as z from 'zod';
 import { ToolResponse } from '../../../types/common.ts';
 import { log } from '../../../utils/logging/index.ts';
 import { createTextResponse, createErrorResponse } from '../../../utils/responses/index.ts';
-import { DependencyError, AxeError, SystemError } from '../../../utils/errors.ts';
+import {
+  DependencyError,
+  AxeError,
+  ElementResolutionError,
+  SystemError,
+} from '../../../utils/errors.ts';
+import {
+  describeElementSelector,
+  elementSelectorSchema,
+  resolveElement,
+} from '../../../utils/element-selector/index.ts';
 import type { CommandExecutor } from '../../../utils/execution/index.ts';
 import { getDefaultCommandExecutor } from '../../../utils/execution/index.ts';
 import {
@@ -21,13 +32,19 @@ import {
   createSessionAwareTool,
   getSessionAwareToolSchemaShape,
 } from '../../../utils/typed-tool-factory.ts';
+import type { RecordedElement } from '../../../utils/ui-recorder.ts';
+import { toRecordedElement, uiRecorder } from '../../../utils/ui-recorder.ts';
+import { uiStateStore } from '../../../utils/ui-state-store.ts';
 
 const LOG_PREFIX = '[AXe]';
 
 // Define schema as ZodObject
-const typeTextSchema = z.object({
+export const typeTextSchema = z.object({
   simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
   text: z.string().min(1, { message: 'Text cannot be empty' }),
+  selector: elementSelectorSchema
+    .optional()
+    .describe('Optional: Field to tap before typing, e.g. {"id":"email-field"}.'),
 });
 
 // Use z.infer for type safety
@@ -50,7 +67,7 @@ export async function type_textLogic(
   const toolName = 'type_text';
 
   // Params are already validated by the factory, use directly
-  const { simulatorId, text } = params;
+  const { simulatorId, text, selector } = params;
   const commandArgs = ['type', text];
 
   log(
@@ -59,9 +76,32 @@ export async function type_textLogic(
   );
 
   try {
+    let resolvedElement: RecordedElement | undefined;
+    if (selector !== undefined) {
+      const { element, center } = await resolveElement(
+        simulatorId,
+        selector,
+        executor,
+        axeHelpers ?? { getAxePath, getBundledAxeEnvironment },
+      );
+      resolvedElement = toRecordedElement(element);
+      await executeAxeCommand(
+        ['tap', '-x', String(center.x), '-y', String(center.y)],
+        simulatorId,
+        'tap',
+        executor,
+        axeHelpers,
+      );
+    }
     await executeAxeCommand(commandArgs, simulatorId, 'type', executor, axeHelpers);
     log('info', `${LOG_PREFIX}/${toolName}: Success for ${simulatorId}`);
-    return createTextResponse('Text typing simulated successfully.');
+    uiRecorder.record(simulatorId, { action: 'type_text', text, element: resolvedElement });
+    uiStateStore.invalidate(simulatorId, 'type_text');
+    return createTextResponse(
+      selector
+        ? `Text typing into element ${describeElementSelector(selector)} simulated successfully.`
+        : 'Text typing simulated successfully.',
+    );
   } catch (error) {
     log(
       'error',
@@ -74,6 +114,8 @@ export async function type_textLogic(
         `Failed to simulate text typing: ${error.message}`,
         error.axeOutput,
       );
+    } else if (error instanceof ElementResolutionError) {
+      return createErrorResponse(error.message, error.details);
     } else if (error instanceof SystemError) {
       return createErrorResponse(
         `System error executing axe: ${error.message}`,
@@ -89,7 +131,7 @@ export async function type_textLogic(
 export default {
   name: 'type_text',
   description:
-    'Type text (supports US keyboard characters). Use describe_ui to find text field, tap to focus, then type.',
+    'Type text (supports US keyboard characters). Pass a selector to focus a field first; otherwise use describe_ui to find the text field and tap to focus it before typing.',
   schema: getSessionAwareToolSchemaShape({
     sessionAware: publicSchemaObject,
     legacy: typeTextSchema,
@@ -0,0 +1,153 @@
+/**
+ * Verify snapshot tool plugin - Compare the simulator screen with a recorded baseline
+ */
+import * as z from 'zod';
+import { ToolResponse, createImageContent, createTextContent } from '../../../types/common.ts';
+import { log } from '../../../utils/logging/index.ts';
+import { createErrorResponse, SystemError } from '../../../utils/responses/index.ts';
+import type { CommandExecutor, FileSystemExecutor } from '../../../utils/execution/index.ts';
+import {
+  getDefaultFileSystemExecutor,
+  getDefaultCommandExecutor,
+} from '../../../utils/execution/index.ts';
+import type { ImageProcessor } from '../../../utils/image/index.ts';
+import { getDefaultImageProcessor, getImageMimeType } from '../../../utils/image/index.ts';
+import type { SnapshotTraits } from '../../../utils/snapshot/index.ts';
+import {
+  getSnapshotPath,
+  resolveSnapshotRoot,
+  resolveSnapshotTraits,
+} from '../../../utils/snapshot/index.ts';
+import {
+  createSessionAwareTool,
+  getSessionAwareToolSchemaShape,
+} from '../../../utils/typed-tool-factory.ts';
+import type { ScreenshotPathUtils } from './screenshot.ts';
+import { comparisonOptionsSchema, runScreenshotComparison } from './screenshot_compare.ts';
+import { snapshotLocationSchema, snapshotNameSchema } from './record_snapshot.ts';
+
+const LOG_PREFIX = '[Snapshot]';
+const MAX_REPORTED_REGIONS = 20;
+
+// Define schema as ZodObject
+const verifySnapshotSchema = z.object({
+  simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
+  name: snapshotNameSchema.describe('Name of the snapshot recorded with record_snapshot.'),
+  ...comparisonOptionsSchema.shape,
+  ...snapshotLocationSchema.shape,
+});
+
+// Use z.infer for type safety
+type VerifySnapshotParams = z.infer<typeof verifySnapshotSchema>;
+
+const publicSchemaObject = z.strictObject(
+  verifySnapshotSchema.omit({
+    simulatorId: true,
+    projectPath: true,
+    workspacePath: true,
+  } as const).shape,
+);
+
+export async function verify_snapshotLogic(
+  params: VerifySnapshotParams,
+  executor: CommandExecutor,
+  fileSystemExecutor: FileSystemExecutor = getDefaultFileSystemExecutor(),
+  pathUtils?: ScreenshotPathUtils,
+  uuidUtils?: { v4: () => string },
+  imageProcessor: ImageProcessor = getDefaultImageProcessor(),
+): Promise<ToolResponse> {
+  const { simulatorId, name } = params;
+
+  let traits: SnapshotTraits;
+  try {
+    traits = await resolveSnapshotTraits(simulatorId, executor);
+  } catch (error) {
+    log('error', `${LOG_PREFIX}/verify_snapshot: Failed - ${error}`);
+    const message = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(
+      error instanceof SystemError
+        ? `System error verifying snapshot: ${message}`
+        : `Failed to verify snapshot: ${message}`,
+    );
+  }
+
+  const baselinePath = getSnapshotPath(resolveSnapshotRoot(params), { name, ...traits });
+  if (!fileSystemExecutor.existsSync(baselinePath)) {
+    return createErrorResponse(
+      `No baseline '${name}' recorded for ${traits.model} (${traits.appearance}): ${baselinePath}`,
+      'Use record_snapshot to record it first.',
+    );
+  }
+
+  const { comparison, error } = await runScreenshotComparison(
+    simulatorId,
+    {
+      baselinePath,
+      threshold: params.threshold,
+      failureThreshold: params.failureThreshold,
+      ignoreRegions: params.ignoreRegions,
+      maxDimension: params.maxDimension,
+    },
+    executor,
+    fileSystemExecutor,
+    pathUtils,
+    uuidUtils,
+    imageProcessor,
+  );
+  if (!comparison) {
+    return error ?? createErrorResponse('Snapshot comparison failed');
+  }
+
+  const { diff, passed } = comparison;
+  const result = {
+    name,
+    model: traits.model,
+    appearance: traits.appearance,
+    baselinePath,
+    passed,
+    mismatchPercentage: Number(diff.mismatchPercentage.toFixed(4)),
+    failureThreshold: comparison.failureThreshold,
+    mismatchedPixels: diff.mismatchedPixels,
+    comparedPixels: diff.comparedPixels,
+    width: diff.width,
+    height: diff.height,
+    regions: diff.regions.slice(0, MAX_REPORTED_REGIONS),
+    totalRegions: diff.regions.length,
+  };
+  log(
+    'info',
+    `${LOG_PREFIX}/verify_snapshot: '${name}' ${passed ? 'passed' : 'failed'} (${result.mismatchPercentage}%)`,
+  );
+
+  return {
+    content: [
+      createTextContent(
+        `Snapshot ${passed ? 'passed' : 'failed'}:\n${JSON.stringify(result, null, 2)}`,
+      ),
+      createImageContent(comparison.diffImage.data.toString('base64'), getImageMimeType('png')),
+    ],
+    isError: !passed,
+  };
+}
+
+export default {
+  name: 'verify_snapshot',
+  description:
+    'Compares the simulator screen with a baseline recorded by record_snapshot for the same model and appearance. Returns pass/fail with diff metrics and a diff image.',
+  schema: getSessionAwareToolSchemaShape({
+    sessionAware: publicSchemaObject,
+    legacy: verifySnapshotSchema,
+  }),
+  annotations: {
+    title: 'Verify Snapshot',
+    readOnlyHint: true,
+  },
+  handler: createSessionAwareTool<VerifySnapshotParams>({
+    internalSchema: verifySnapshotSchema as unknown as z.ZodType<VerifySnapshotParams, unknown>,
+    logicFunction: (params: VerifySnapshotParams, executor: CommandExecutor) => {
+      return verify_snapshotLogic(params, executor);
+    },
+    getExecutor: getDefaultCommandExecutor,
+    requirements: [{ allOf: ['simulatorId'], message: 'simulatorId is required' }],
+  }),
+};
@@ -0,0 +1,229 @@
+/**
+ * UI Testing Plugin: Wait For Element
+ *
+ * Polls the accessibility hierarchy until an element appears, disappears, or reaches
+ * a given value or enabled state. Replaces fixed preDelay/postDelay guesses.
+ */
+
+import * as z from 'zod';
+import type { ToolResponse } from '../../../types/common.ts';
+import { log } from '../../../utils/logging/index.ts';
+import { createErrorResponse, createTextResponse } from '../../../utils/responses/index.ts';
+import {
+  DependencyError,
+  AxeError,
+  ElementResolutionError,
+  SystemError,
+} from '../../../utils/errors.ts';
+import type { CommandExecutor } from '../../../utils/execution/index.ts';
+import { getDefaultCommandExecutor } from '../../../utils/execution/index.ts';
+import {
+  createAxeNotAvailableResponse,
+  getAxePath,
+  getBundledAxeEnvironment,
+} from '../../../utils/axe-helpers.ts';
+import { getElementCenter } from '../../../utils/accessibility/index.ts';
+import type {
+  ElementCondition,
+  ElementWaitOptions,
+} from '../../../utils/element-selector/index.ts';
+import {
+  describeElementSelector,
+  elementLocatorSchema,
+  waitForElementCondition,
+} from '../../../utils/element-selector/index.ts';
+import {
+  createSessionAwareTool,
+  getSessionAwareToolSchemaShape,
+} from '../../../utils/typed-tool-factory.ts';
+import { uiStateStore } from '../../../utils/ui-state-store.ts';
+
+export interface AxeHelpers {
+  getAxePath: () => string | null;
+  getBundledAxeEnvironment: () => Record<string, string>;
+  createAxeNotAvailableResponse: () => ToolResponse;
+}
+
+const LOG_PREFIX = '[AXe]';
+const DEFAULT_TIMEOUT = 10;
+const MAX_TIMEOUT = 120;
+const DEFAULT_POLL_INTERVAL = 500;
+
+// Define schema as ZodObject
+export const baseWaitForElementSchema = z.object({
+  simulatorId: z.uuid({ message: 'Invalid Simulator UUID format' }),
+  selector: elementLocatorSchema,
+  condition: z
+    .enum(['appear', 'disappear', 'value', 'enabled'])
+    .optional()
+    .describe('Optional: What to wait for. Defaults to "appear".'),
+  value: z
+    .string()
+    .optional()
+    .describe('Expected accessibility value; required when condition is "value".'),
+  enabled: z
+    .boolean()
+    .optional()
+    .describe('Expected enabled state for condition "enabled". Defaults to true.'),
+  timeout: z
+    .number()
+    .positive({ message: 'timeout must be positive' })
+    .max(MAX_TIMEOUT, { message: `timeout must be at most ${MAX_TIMEOUT}` })
+    .optional()
+    .describe(`Optional: Seconds to wait. Defaults to ${DEFAULT_TIMEOUT}.`),
+  pollInterval: z
+    .number()
+    .int()
+    .min(100, { message: 'pollInterval must be at least 100ms' })
+    .max(10000, { message: 'pollInterval must be at most 10000ms' })
+    .optional()
+    .describe(
+      `Optional: Milliseconds between describe-ui snapshots. Defaults to ${DEFAULT_POLL_INTERVAL}.`,
+    ),
+});
+
+export const waitForElementSchema = baseWaitForElementSchema.superRefine((values, ctx) => {
+  if (values.condition === 'value' && values.value === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['value'],
+      message: 'value is required when condition is "value".',
+    });
+  }
+  if (values.value !== undefined && values.condition !== 'value') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['value'],
+      message: 'value applies only to condition "value".',
+    });
+  }
+  if (values.enabled !== undefined && values.condition !== 'enabled') {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['enabled'],
+      message: 'enabled applies only to condition "enabled".',
+    });
+  }
+});
+
+// Use z.infer for type safety
+type WaitForElementParams = z.infer<typeof waitForElementSchema>;
+
+const publicSchemaObject = z.strictObject(
+  baseWaitForElementSchema.omit({ simulatorId: true } as const).shape,
+);
+
+function toElementCondition(params: WaitForElementParams): ElementCondition {
+  switch (params.condition) {
+    case 'disappear':
+      return { state: 'disappear' };
+    case 'value':
+      return { state: 'value', value: params.value ?? '' };
+    case 'enabled':
+      return { state: 'enabled', enabled: params.enabled ?? true };
+    default:
+      return { state: 'appear' };
+  }
+}
+
+const CONDITION_PAST_TENSE: Record<ElementCondition['state'], string> = {
+  appear: 'appeared',
+  disappear: 'disappeared',
+  value: 'reached the expected value',
+  enabled: 'reached the expected enabled state',
+};
+
+export async function wait_for_elementLogic(
+  params: WaitForElementParams,
+  executor: CommandExecutor,
+  axeHelpers: AxeHelpers = {
+    getAxePath,
+    getBundledAxeEnvironment,
+    createAxeNotAvailableResponse,
+  },
+  waitOptions: ElementWaitOptions = {},
+): Promise<ToolResponse> {
+  const toolName = 'wait_for_element';
+  const { simulatorId, selector } = params;
+  const condition = toElementCondition(params);
+  const timeout = params.timeout ?? DEFAULT_TIMEOUT;
+  const description = describeElementSelector(selector);
+
+  log(
+    'info',
+    `${LOG_PREFIX}/${toolName}: Waiting up to ${timeout}s for ${description} (${condition.state}) on ${simulatorId}`,
+  );
+
+  try {
+    const result = await waitForElementCondition(
+      simulatorId,
+      selector,
+      condition,
+      timeout,
+      executor,
+      axeHelpers,
+      { pollInterval: params.pollInterval ?? DEFAULT_POLL_INTERVAL, ...waitOptions },
+    );
+    log('info', `${LOG_PREFIX}/${toolName}: Success for ${simulatorId}`);
+    uiStateStore.record(simulatorId, result.elements);
+
+    const seconds = (result.elapsedMs / 1000).toFixed(1);
+    const message = `Element ${description} ${CONDITION_PAST_TENSE[condition.state]} after ${seconds}s (${result.polls} ${result.polls === 1 ? 'check' : 'checks'}).`;
+    if (!result.element) {
+      return createTextResponse(message);
+    }
+
+    const { element } = result;
+    const details = {
+      role: element.role,
+      label: element.label,
+      identifier: element.identifier,
+      value: element.value,
+      enabled: element.enabled,
+      frame: element.frame,
+      center: getElementCenter(element),
+    };
+    return createTextResponse(`${message}\n${JSON.stringify(details, null, 2)}`);
+  } catch (error) {
+    log('error', `${LOG_PREFIX}/${toolName}: Failed - ${error}`);
+    if (error instanceof DependencyError) {
+      return axeHelpers.createAxeNotAvailableResponse();
+    } else if (error instanceof AxeError) {
+      return createErrorResponse(
+        `Failed to get accessibility hierarchy: ${error.message}`,
+        error.axeOutput,
+      );
+    } else if (error instanceof ElementResolutionError) {
+      return createErrorResponse(error.message, error.details);
+    } else if (error instanceof SystemError) {
+      return createErrorResponse(
+        `System error executing axe: ${error.message}`,
+        error.originalError?.stack,
+      );
+    }
+    return createErrorResponse(
+      `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+export default {
+  name: 'wait_for_element',
+  description:
+    'Waits for an element (by id, label, role + index or ancestors) to appear, disappear, or reach a value or enabled state by polling describe_ui. Returns the element frame, or on timeout an error with the last hierarchy. Use instead of fixed preDelay/postDelay.',
+  schema: getSessionAwareToolSchemaShape({
+    sessionAware: publicSchemaObject,
+    legacy: baseWaitForElementSchema,
+  }),
+  annotations: {
+    title: 'Wait For Element',
+    readOnlyHint: true,
+  },
+  handler: createSessionAwareTool<WaitForElementParams>({
+    internalSchema: waitForElementSchema as unknown as z.ZodType<WaitForElementParams, unknown>,
+    logicFunction: (params: WaitForElementParams, executor: CommandExecutor) =>
+      wait_for_elementLogic(params, executor),
+    getExecutor: getDefaultCommandExecutor,
+    requirements: [{ allOf: ['simulatorId'], message: 'simulatorId is required' }],
+  }),
+};
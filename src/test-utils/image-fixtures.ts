@@ -0,0 +1,42 @@
+/**
+ * Image Fixtures for Testing
+ *
+ * Generates small PNG images in memory so image-processing code paths can be
+ * exercised without checking binary fixtures into the repository.
+ */
+
+import { PNG } from 'pngjs';
+
+export type FixturePixel = [number, number, number, number];
+
+/**
+ * Create a PNG whose pixels are produced by the given function
+ * @param width Image width in pixels
+ * @param height Image height in pixels
+ * @param pixel Function returning RGBA for each coordinate (defaults to a gradient)
+ * @returns Encoded PNG data
+ */
+export function createTestPng(
+  width: number,
+  height: number,
+  pixel: (x: number, y: number) => FixturePixel = (x, y) => [x % 256, y % 256, 128, 255],
+): Buffer {
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      png.data.set(pixel(x, y), (y * width + x) * 4);
+    }
+  }
+  return PNG.sync.write(png);
+}
+
+/**
+ * Create a base64 PNG suitable for returning from createMockFileSystemExecutor().readFile
+ */
+export function createTestPngBase64(
+  width: number,
+  height: number,
+  pixel?: (x: number, y: number) => FixturePixel,
+): string {
+  return createTestPng(width, height, pixel).toString('base64');
+}
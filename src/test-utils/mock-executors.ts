@@ -16,6 +16,7 @@
  */
 
 import { ChildProcess } from 'child_process';
+import { Writable } from 'stream';
 import { CommandExecutor } from '../utils/CommandExecutor.ts';
 import { FileSystemExecutor } from '../utils/FileSystemExecutor.ts';
 
@@ -168,7 +169,19 @@ export function createMockFileSystemExecutor(
   return {
     mkdir: async (): Promise<void> => {},
     readFile: async (): Promise<string> => 'mock file content',
+    readFileRange: async (
+      _path: string,
+      offset: number,
+      length: number,
+    ): Promise<{ data: Buffer; size: number }> => {
+      const content = Buffer.from('mock file content');
+      return { data: content.subarray(offset, offset + length), size: content.length };
+    },
     writeFile: async (): Promise<void> => {},
+    createWriteStream: (): Writable =>
+      new Writable({
+        write: (_chunk, _encoding, callback): void => callback(),
+      }),
     cp: async (): Promise<void> => {},
     readdir: async (): Promise<unknown[]> => [],
     rm: async (): Promise<void> => {},
@@ -180,6 +193,84 @@ export function createMockFileSystemExecutor(
   };
 }
 
+/**
+ * Create an in-memory file system executor backed by the given map of path to content.
+ * Content is stored exactly as written (e.g. base64 for binary files) and directories
+ * are derived from file paths plus any created with mkdir.
+ */
+export function createInMemoryFileSystemExecutor(
+  files: Map<string, string> = new Map(),
+): FileSystemExecutor {
+  const createdDirectories = new Set<string>();
+  const parentOf = (path: string): string => path.slice(0, Math.max(1, path.lastIndexOf('/')));
+  const directories = (): Set<string> => {
+    const result = new Set(createdDirectories);
+    for (const file of files.keys()) {
+      for (let dir = parentOf(file); !result.has(dir); dir = parentOf(dir)) {
+        result.add(dir);
+        if (dir === '/') break;
+      }
+    }
+    return result;
+  };
+
+  return createMockFileSystemExecutor({
+    mkdir: async (path: string): Promise<void> => {
+      createdDirectories.add(path);
+    },
+    readFile: async (path: string): Promise<string> => {
+      const content = files.get(path);
+      if (content === undefined) {
+        throw new Error(`ENOENT: no such file or directory, open '${path}'`);
+      }
+      return content;
+    },
+    readFileRange: async (
+      path: string,
+      offset: number,
+      length: number,
+    ): Promise<{ data: Buffer; size: number }> => {
+      const content = files.get(path);
+      if (content === undefined) {
+        throw new Error(`ENOENT: no such file or directory, open '${path}'`);
+      }
+      const data = Buffer.from(content);
+      return { data: data.subarray(offset, offset + length), size: data.length };
+    },
+    writeFile: async (path: string, content: string): Promise<void> => {
+      files.set(path, content);
+    },
+    createWriteStream: (path: string, options?: { flags?: string }): Writable => {
+      if (options?.flags !== 'a' || !files.has(path)) {
+        files.set(path, '');
+      }
+      return new Writable({
+        write: (chunk: Buffer, _encoding, callback): void => {
+          files.set(path, (files.get(path) ?? '') + chunk.toString());
+          callback();
+        },
+      });
+    },
+    readdir: async (path: string): Promise<unknown[]> => {
+      const entries = [...files.keys(), ...directories()].filter(
+        (entry) => entry !== path && parentOf(entry) === path,
+      );
+      return [...new Set(entries)].map((entry) => entry.slice(entry.lastIndexOf('/') + 1));
+    },
+    rm: async (path: string): Promise<void> => {
+      files.delete(path);
+    },
+    existsSync: (path: string): boolean => files.has(path) || directories().has(path),
+    stat: async (path: string): Promise<{ isDirectory(): boolean }> => {
+      const isDirectory = directories().has(path);
+      if (!isDirectory && !files.has(path)) {
+        throw new Error(`ENOENT: no such file or directory, stat '${path}'`);
+      }
+      return { isDirectory: (): boolean => isDirectory };
+    },
+  });
+}
+
 /**
  * Create a no-op file system executor that throws an error if called
  * Use this for tests where an executor is required but should never be called
@@ -203,6 +294,14 @@ export function createNoopFileSystemExecutor(): FileSystemExecutor {
           `Either fix the test to avoid this code path, or use createMockFileSystemExecutor() instead.`,
       );
     },
+    readFileRange: async (): Promise<{ data: Buffer; size: number }> => {
+      throw new Error(
+        `🚨 NOOP FILESYSTEM EXECUTOR CALLED! 🚨\n` +
+          `This executor should never be called in this test context.\n` +
+          `If you see this error, it means the test is exercising a code path that wasn't expected.\n` +
+          `Either fix the test to avoid this code path, or use createMockFileSystemExecutor() instead.`,
+      );
+    },
     writeFile: async (): Promise<void> => {
       throw new Error(
         `🚨 NOOP FILESYSTEM EXECUTOR CALLED! 🚨\n` +
@@ -211,6 +310,14 @@ export function createNoopFileSystemExecutor(): FileSystemExecutor {
           `Either fix the test to avoid this code path, or use createMockFileSystemExecutor() instead.`,
       );
     },
+    createWriteStream: (): Writable => {
+      throw new Error(
+        `🚨 NOOP FILESYSTEM EXECUTOR CALLED! 🚨\n` +
+          `This executor should never be called in this test context.\n` +
+          `If you see this error, it means the test is exercising a code path that wasn't expected.\n` +
+          `Either fix the test to avoid this code path, or use createMockFileSystemExecutor() instead.`,
+      );
+    },
     cp: async (): Promise<void> => {
       throw new Error(
         `🚨 NOOP FILESYSTEM EXECUTOR CALLED! 🚨\n` +
@@ -0,0 +1,194 @@
+/**
+ * VP8L Decoder for Testing
+ *
+ * Decodes lossless WebP files so the encoder's output can be checked pixel by pixel.
+ * Follows the WebP lossless bitstream specification for prefix codes (simple and
+ * normal, including max_symbol) and the subtract-green transform. Other transforms,
+ * color caches, meta prefix codes and backward references are rejected, since the
+ * encoder under test never writes them.
+ */
+
+const NUM_LITERAL_CODES = 256;
+const NUM_LENGTH_CODES = 24;
+const NUM_DISTANCE_CODES = 40;
+const SUBTRACT_GREEN_TRANSFORM = 2;
+const CODE_LENGTH_CODE_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+export interface DecodedWebP {
+  width: number;
+  height: number;
+  hasAlpha: boolean;
+  data: Uint8Array; // RGBA
+}
+
+class BitReader {
+  private position = 0; // In bits
+
+  constructor(private readonly data: Buffer) {}
+
+  readBits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const byte = this.data[this.position >> 3];
+      if (byte === undefined) {
+        throw new Error('VP8L bitstream ended early');
+      }
+      value |= ((byte >> (this.position & 7)) & 1) << i;
+      this.position++;
+    }
+    return value >>> 0;
+  }
+}
+
+// Canonical prefix code, keyed by code length and the code read most-significant bit first
+class PrefixCode {
+  private readonly symbols = new Map<string, number>();
+  private readonly singleSymbol: number | null;
+
+  constructor(lengths: number[]) {
+    const used = lengths.flatMap((length, symbol) => (length > 0 ? [symbol] : []));
+    if (used.length === 0) {
+      throw new Error('Prefix code has no symbols');
+    }
+    this.singleSymbol = used.length === 1 ? used[0] : null;
+
+    const maxLength = Math.max(...lengths);
+    let code = 0;
+    let assigned = 0;
+    for (let length = 1; length <= maxLength; length++) {
+      for (let symbol = 0; symbol < lengths.length; symbol++) {
+        if (lengths[symbol] === length) {
+          this.symbols.set(`${length}:${code}`, symbol);
+          code++;
+          assigned += 2 ** (maxLength - length);
+        }
+      }
+      code <<= 1;
+    }
+    if (this.singleSymbol === null && assigned !== 2 ** maxLength) {
+      throw new Error('Prefix code is not complete');
+    }
+  }
+
+  read(reader: BitReader): number {
+    if (this.singleSymbol !== null) {
+      return this.singleSymbol;
+    }
+    let code = 0;
+    for (let length = 1; length <= 15; length++) {
+      code = (code << 1) | reader.readBits(1);
+      const symbol = this.symbols.get(`${length}:${code}`);
+      if (symbol !== undefined) {
+        return symbol;
+      }
+    }
+    throw new Error('Invalid prefix code in bitstream');
+  }
+}
+
+function readPrefixCode(reader: BitReader, alphabetSize: number): PrefixCode {
+  const lengths = new Array<number>(alphabetSize).fill(0);
+
+  if (reader.readBits(1) === 1) {
+    const numSymbols = reader.readBits(1) + 1;
+    const firstSymbol = reader.readBits(reader.readBits(1) === 1 ? 8 : 1);
+    lengths[firstSymbol] = 1;
+    if (numSymbols === 2) {
+      lengths[reader.readBits(8)] = 1;
+    }
+    return new PrefixCode(lengths);
+  }
+
+  const codeLengthCodeLengths = new Array<number>(CODE_LENGTH_CODE_ORDER.length).fill(0);
+  const numCodes = reader.readBits(4) + 4;
+  for (let i = 0; i < numCodes; i++) {
+    codeLengthCodeLengths[CODE_LENGTH_CODE_ORDER[i]] = reader.readBits(3);
+  }
+  const codeLengthCode = new PrefixCode(codeLengthCodeLengths);
+
+  let maxSymbol = alphabetSize;
+  if (reader.readBits(1) === 1) {
+    const lengthBits = 2 + 2 * reader.readBits(3);
+    maxSymbol = 2 + reader.readBits(lengthBits);
+  }
+
+  let symbol = 0;
+  let previousLength = 8;
+  while (symbol < alphabetSize && maxSymbol-- > 0) {
+    const code = codeLengthCode.read(reader);
+    if (code < 16) {
+      lengths[symbol++] = code;
+      if (code !== 0) previousLength = code;
+      continue;
+    }
+    const repeat =
+      code === 16
+        ? 3 + reader.readBits(2)
+        : code === 17
+          ? 3 + reader.readBits(3)
+          : 11 + reader.readBits(7);
+    if (symbol + repeat > alphabetSize) {
+      throw new Error('Code length run exceeds the alphabet');
+    }
+    lengths.fill(code === 16 ? previousLength : 0, symbol, symbol + repeat);
+    symbol += repeat;
+  }
+  return new PrefixCode(lengths);
+}
+
+/**
+ * Decode a RIFF/WEBP file holding a VP8L bitstream into RGBA pixels
+ */
+export function decodeWebPLossless(file: Buffer): DecodedWebP {
+  if (file.toString('ascii', 0, 4) !== 'RIFF' || file.toString('ascii', 8, 16) !== 'WEBPVP8L') {
+    throw new Error('Not a lossless WebP file');
+  }
+  const payload = file.subarray(20, 20 + file.readUInt32LE(16));
+  const reader = new BitReader(payload);
+
+  if (reader.readBits(8) !== 0x2f) {
+    throw new Error('Missing VP8L signature');
+  }
+  const width = reader.readBits(14) + 1;
+  const height = reader.readBits(14) + 1;
+  const hasAlpha = reader.readBits(1) === 1;
+  if (reader.readBits(3) !== 0) {
+    throw new Error('Unknown VP8L version');
+  }
+
+  let subtractGreen = false;
+  while (reader.readBits(1) === 1) {
+    const transform = reader.readBits(2);
+    if (transform !== SUBTRACT_GREEN_TRANSFORM || subtractGreen) {
+      throw new Error(`Unsupported transform ${transform}`);
+    }
+    subtractGreen = true;
+  }
+  if (reader.readBits(1) === 1) {
+    throw new Error('Color caches are not supported');
+  }
+  if (reader.readBits(1) === 1) {
+    throw new Error('Meta prefix codes are not supported');
+  }
+
+  const green = readPrefixCode(reader, NUM_LITERAL_CODES + NUM_LENGTH_CODES);
+  const red = readPrefixCode(reader, NUM_LITERAL_CODES);
+  const blue = readPrefixCode(reader, NUM_LITERAL_CODES);
+  const alpha = readPrefixCode(reader, NUM_LITERAL_CODES);
+  readPrefixCode(reader, NUM_DISTANCE_CODES);
+
+  const data = new Uint8Array(width * height * 4);
+  for (let offset = 0; offset < data.length; offset += 4) {
+    const g = green.read(reader);
+    if (g >= NUM_LITERAL_CODES) {
+      throw new Error('Backward references are not supported');
+    }
+    const r = red.read(reader);
+    const b = blue.read(reader);
+    data[offset] = subtractGreen ? (r + g) & 0xff : r;
+    data[offset + 1] = g;
+    data[offset + 2] = subtractGreen ? (b + g) & 0xff : b;
+    data[offset + 3] = alpha.read(reader);
+  }
+  return { width, height, hasAlpha, data };
+}
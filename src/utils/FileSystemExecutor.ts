@@ -2,10 +2,20 @@
  * File system executor interface for dependency injection
  */
 
+import type { Writable } from 'stream';
+
 export interface FileSystemExecutor {
   mkdir(path: string, options?: { recursive?: boolean }): Promise<void>;
   readFile(path: string, encoding?: BufferEncoding): Promise<string>;
+  // Raw bytes from offset (at most length of them) and the file size at the time of the read
+  readFileRange(
+    path: string,
+    offset: number,
+    length: number,
+  ): Promise<{ data: Buffer; size: number }>;
   writeFile(path: string, content: string, encoding?: BufferEncoding): Promise<void>;
+  // Stream for incremental writes, e.g. { flags: 'a' } to append to an existing file
+  createWriteStream(path: string, options?: { flags?: string }): Writable;
   cp(source: string, destination: string, options?: { recursive?: boolean }): Promise<void>;
   readdir(path: string, options?: { withFileTypes?: boolean }): Promise<unknown[]>;
   rm(path: string, options?: { recursive?: boolean; force?: boolean }): Promise<void>;
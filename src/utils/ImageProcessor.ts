@@ -0,0 +1,38 @@
+/**
+ * Image processor interface for dependency injection
+ */
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp';
+
+/**
+ * Decoded image as tightly packed 8-bit RGBA pixels (row-major, 4 bytes per pixel)
+ */
+export interface RawImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface ImageEncodeOptions {
+  format: ImageFormat;
+  quality?: number; // 1-100, ignored by lossless formats (png, webp)
+}
+
+export interface ImageBudgetOptions extends ImageEncodeOptions {
+  maxDimension: number;
+  maxBytes?: number; // Upper bound on the encoded size, before base64
+}
+
+export interface EncodedImage {
+  data: Buffer;
+  width: number;
+  height: number;
+  format: ImageFormat;
+  quality?: number;
+}
+
+export interface ImageProcessor {
+  decode(buffer: Buffer): Promise<RawImage>;
+  resize(image: RawImage, maxDimension: number): Promise<RawImage>;
+  encode(image: RawImage, options: ImageEncodeOptions): Promise<Buffer>;
+}
@@ -0,0 +1,263 @@
+/**
+ * Tests for the accessibility hierarchy utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createCommandMatchingMockExecutor,
+  createMockExecutor,
+} from '../../test-utils/mock-executors.ts';
+import {
+  fetchAccessibilityHierarchy,
+  findAccessibilityElement,
+  findElementAtPoint,
+  flattenAccessibilityElements,
+  formatAccessibilityOutline,
+  getElementCenter,
+  getScreenFrame,
+  isElementSelected,
+  isElementVisible,
+  isInteractiveElement,
+  parseAccessibilityHierarchy,
+  queryAccessibilityElements,
+  serializeAccessibilityElements,
+} from '../accessibility/index.ts';
+import { AxeError, DependencyError } from '../errors.ts';
+
+const sampleOutput = JSON.stringify([
+  {
+    type: 'Application',
+    role: 'AXApplication',
+    AXLabel: 'Calculator',
+    frame: { x: 0, y: 0, width: 390, height: 844 },
+    enabled: true,
+    children: [
+      {
+        type: 'Button',
+        role: 'AXButton',
+        AXLabel: 'Sign In',
+        AXUniqueId: 'login',
+        frame: { x: 20, y: 100, width: 350, height: 44 },
+        enabled: false,
+        children: [],
+      },
+      {
+        type: 'TextField',
+        role: 'AXTextField',
+        AXLabel: 'Email',
+        AXValue: 'user@example.com',
+        frame: { x: 20, y: 40, width: 350, height: 44 },
+        children: [],
+      },
+    ],
+  },
+]);
+
+const axeHelpers = {
+  getAxePath: () => '/usr/local/bin/axe',
+  getBundledAxeEnvironment: () => ({ DYLD_FRAMEWORK_PATH: '/frameworks' }),
+};
+
+describe('accessibility utilities', () => {
+  describe('parseAccessibilityHierarchy', () => {
+    it('should parse AXe output into typed elements', () => {
+      const [root] = parseAccessibilityHierarchy(sampleOutput);
+
+      expect(root.role).toBe('AXApplication');
+      expect(root.label).toBe('Calculator');
+      expect(root.children).toHaveLength(2);
+      expect(root.children[0]).toMatchObject({
+        type: 'Button',
+        label: 'Sign In',
+        identifier: 'login',
+        enabled: false,
+        frame: { x: 20, y: 100, width: 350, height: 44 },
+      });
+      expect(root.children[1].value).toBe('user@example.com');
+      expect(root.children[1].enabled).toBe(true);
+    });
+
+    it('should accept a wrapper object or a single element', () => {
+      const element = { type: 'Button', frame: { x: 1, y: 2, width: 3, height: 4 } };
+
+      expect(parseAccessibilityHierarchy(JSON.stringify({ elements: [element] }))).toHaveLength(1);
+      expect(parseAccessibilityHierarchy(JSON.stringify(element))[0].role).toBe('Button');
+    });
+
+    it('should throw on invalid JSON', () => {
+      expect(() => parseAccessibilityHierarchy('not json')).toThrow(
+        'Failed to parse accessibility hierarchy',
+      );
+    });
+  });
+
+  describe('element lookup', () => {
+    const elements = parseAccessibilityHierarchy(sampleOutput);
+
+    it('should flatten depth-first', () => {
+      expect(flattenAccessibilityElements(elements).map((e) => e.label)).toEqual([
+        'Calculator',
+        'Sign In',
+        'Email',
+      ]);
+    });
+
+    it('should find elements by id or label', () => {
+      expect(findAccessibilityElement(elements, { id: 'login' })?.label).toBe('Sign In');
+      expect(findAccessibilityElement(elements, { label: 'Email' })?.type).toBe('TextField');
+      expect(findAccessibilityElement(elements, { id: 'missing' })).toBeUndefined();
+    });
+
+    it('should classify interactive elements', () => {
+      const [root] = elements;
+
+      expect(isInteractiveElement(root)).toBe(false);
+      expect(isInteractiveElement(root.children[0])).toBe(true);
+      expect(isInteractiveElement(root.children[1])).toBe(true);
+      expect(
+        isInteractiveElement({ ...root.children[0], frame: { x: 0, y: 0, width: 0, height: 0 } }),
+      ).toBe(false);
+    });
+
+    it('should compute rounded element centers', () => {
+      expect(getElementCenter(elements[0].children[0])).toEqual({ x: 195, y: 122 });
+    });
+
+    it('should read selection from the selected flag or the value', () => {
+      const [button] = elements[0].children;
+
+      expect(isElementSelected(button)).toBe(false);
+      expect(isElementSelected({ ...button, selected: true })).toBe(true);
+      expect(isElementSelected({ ...button, value: '1' })).toBe(true);
+      expect(isElementSelected({ ...button, value: '1', selected: false })).toBe(false);
+    });
+
+    it('should hit-test the deepest element under a point', () => {
+      expect(findElementAtPoint(elements, { x: 100, y: 120 })?.identifier).toBe('login');
+      expect(findElementAtPoint(elements, { x: 100, y: 60 })?.label).toBe('Email');
+      expect(findElementAtPoint(elements, { x: 100, y: 400 })).toBeUndefined();
+    });
+
+    it('should derive the screen frame from root elements', () => {
+      expect(getScreenFrame(elements)).toEqual({ x: 0, y: 0, width: 390, height: 844 });
+      expect(getScreenFrame([])).toBeNull();
+    });
+  });
+
+  describe('queries and formatting', () => {
+    const elements = parseAccessibilityHierarchy(sampleOutput);
+    const screen = getScreenFrame(elements);
+
+    it('should decide visibility from the frame and the screen', () => {
+      const [root] = elements;
+
+      expect(isElementVisible(root.children[0], screen)).toBe(true);
+      expect(
+        isElementVisible(
+          { ...root.children[0], frame: { x: 0, y: 0, width: 0, height: 10 } },
+          screen,
+        ),
+      ).toBe(false);
+      expect(
+        isElementVisible(
+          { ...root.children[0], frame: { x: 400, y: 0, width: 10, height: 10 } },
+          screen,
+        ),
+      ).toBe(false);
+      expect(
+        isElementVisible(
+          { ...root.children[0], frame: { x: 400, y: 0, width: 10, height: 10 } },
+          null,
+        ),
+      ).toBe(true);
+    });
+
+    it('should match roles with or without the AX prefix and by type', () => {
+      expect(queryAccessibilityElements(elements, { role: 'button' }).map((e) => e.label)).toEqual([
+        'Sign In',
+      ]);
+      expect(queryAccessibilityElements(elements, { role: 'AXTextField' })).toHaveLength(1);
+    });
+
+    it('should match label substrings and identifier patterns', () => {
+      expect(queryAccessibilityElements(elements, { label: 'mai' })[0].label).toBe('Email');
+      expect(queryAccessibilityElements(elements, { identifier: /^log/ })[0].label).toBe('Sign In');
+      expect(queryAccessibilityElements(elements, { identifier: /^log/, label: 'Email' })).toEqual(
+        [],
+      );
+    });
+
+    it('should return the full tree when no filters are given', () => {
+      expect(queryAccessibilityElements(elements, {})).toBe(elements);
+    });
+
+    it('should render an indented outline', () => {
+      expect(formatAccessibilityOutline(elements)).toBe(
+        [
+          'Application "Calculator" (0,0 390x844)',
+          '  Button "Sign In" #login (20,100 350x44) [disabled]',
+          '  TextField "Email" ="user@example.com" (20,40 350x44)',
+        ].join('\n'),
+      );
+    });
+
+    it('should serialize without empty child lists', () => {
+      const [button] = queryAccessibilityElements(elements, { identifier: /login/ });
+
+      expect(JSON.parse(serializeAccessibilityElements([button]))).toEqual([
+        {
+          role: 'AXButton',
+          type: 'Button',
+          label: 'Sign In',
+          identifier: 'login',
+          frame: { x: 20, y: 100, width: 350, height: 44 },
+          enabled: false,
+        },
+      ]);
+    });
+  });
+
+  describe('fetchAccessibilityHierarchy', () => {
+    it('should run describe-ui with the bundled environment', async () => {
+      const calls: { command: string[]; env?: Record<string, string> }[] = [];
+      const executor = createMockExecutor({ success: true, output: sampleOutput });
+
+      const hierarchy = await fetchAccessibilityHierarchy(
+        'SIM-1',
+        async (command, logPrefix, useShell, env) => {
+          calls.push({ command, env });
+          return executor(command, logPrefix, useShell, env);
+        },
+        axeHelpers,
+      );
+
+      expect(calls).toEqual([
+        {
+          command: ['/usr/local/bin/axe', 'describe-ui', '--udid', 'SIM-1'],
+          env: { DYLD_FRAMEWORK_PATH: '/frameworks' },
+        },
+      ]);
+      expect(hierarchy.raw).toBe(sampleOutput);
+      expect(hierarchy.elements).toHaveLength(1);
+    });
+
+    it('should throw DependencyError when AXe is missing', async () => {
+      await expect(
+        fetchAccessibilityHierarchy('SIM-1', createMockExecutor({ success: true }), {
+          ...axeHelpers,
+          getAxePath: () => null,
+        }),
+      ).rejects.toBeInstanceOf(DependencyError);
+    });
+
+    it('should throw AxeError when describe-ui fails', async () => {
+      const executor = createCommandMatchingMockExecutor({
+        'describe-ui': { success: false, error: 'Simulator not booted' },
+      });
+
+      await expect(fetchAccessibilityHierarchy('SIM-1', executor, axeHelpers)).rejects.toThrow(
+        AxeError,
+      );
+    });
+  });
+});
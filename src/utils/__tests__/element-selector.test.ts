@@ -0,0 +1,273 @@
+/**
+ * Tests for element selector resolution
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as z from 'zod';
+import {
+  createCommandMatchingMockExecutor,
+  createMockExecutor,
+} from '../../test-utils/mock-executors.ts';
+import type { CommandExecutor } from '../execution/index.ts';
+import { parseAccessibilityHierarchy } from '../accessibility/index.ts';
+import {
+  describeElementSelector,
+  elementSelectorSchema,
+  findElementsBySelector,
+  isElementHittable,
+  resolveElement,
+} from '../element-selector/index.ts';
+import { AxeError, ElementResolutionError } from '../errors.ts';
+
+const screenFrame = { x: 0, y: 0, width: 390, height: 844 };
+
+function cell(label: string, y: number, children: unknown[] = []): Record<string, unknown> {
+  return {
+    type: 'Cell',
+    AXLabel: label,
+    frame: { x: 0, y, width: 390, height: 44 },
+    children,
+  };
+}
+
+const sampleOutput = JSON.stringify([
+  {
+    type: 'Application',
+    AXLabel: 'Settings',
+    frame: screenFrame,
+    children: [
+      {
+        type: 'Table',
+        AXUniqueId: 'settings-list',
+        frame: screenFrame,
+        children: [
+          cell('Wi-Fi', 100, [
+            {
+              type: 'Switch',
+              AXLabel: 'Enabled',
+              frame: { x: 320, y: 106, width: 51, height: 31 },
+            },
+          ]),
+          cell('Bluetooth', 144, [
+            {
+              type: 'Switch',
+              AXLabel: 'Enabled',
+              frame: { x: 320, y: 150, width: 51, height: 31 },
+            },
+          ]),
+          cell('About', 900),
+        ],
+      },
+      {
+        type: 'Button',
+        AXLabel: 'Done',
+        AXUniqueId: 'done',
+        enabled: false,
+        frame: { x: 300, y: 50, width: 80, height: 44 },
+      },
+    ],
+  },
+]);
+
+const axeHelpers = {
+  getAxePath: () => '/usr/local/bin/axe',
+  getBundledAxeEnvironment: () => ({}),
+};
+const simulatorId = '12345678-1234-4234-8234-123456789012';
+
+describe('element selector', () => {
+  const elements = parseAccessibilityHierarchy(sampleOutput);
+
+  describe('schema', () => {
+    it('should require at least one matcher field', () => {
+      expect(elementSelectorSchema.safeParse({ label: 'Done' }).success).toBe(true);
+      expect(elementSelectorSchema.safeParse({ index: 1 }).success).toBe(false);
+      expect(
+        elementSelectorSchema.safeParse({ role: 'Switch', ancestors: [{ index: 0 }] }).success,
+      ).toBe(false);
+    });
+
+    it('should bound index and timeout', () => {
+      expect(elementSelectorSchema.safeParse({ role: 'Cell', index: -1 }).success).toBe(false);
+      expect(elementSelectorSchema.safeParse({ role: 'Cell', timeout: 61 }).success).toBe(false);
+      expect(
+        z.object({ selector: elementSelectorSchema }).safeParse({
+          selector: { role: 'Cell', timeout: 0, waitUntil: 'exists' },
+        }).success,
+      ).toBe(true);
+    });
+  });
+
+  describe('matching', () => {
+    it('should match by id, label and role', () => {
+      expect(findElementsBySelector(elements, { id: 'done' })).toHaveLength(1);
+      expect(findElementsBySelector(elements, { label: 'Wi-Fi' })[0].type).toBe('Cell');
+      expect(findElementsBySelector(elements, { role: 'AXCell' })).toHaveLength(3);
+      expect(findElementsBySelector(elements, { label: 'Wi' })).toEqual([]);
+    });
+
+    it('should restrict matches to ancestor paths', () => {
+      const matches = findElementsBySelector(elements, {
+        role: 'Switch',
+        ancestors: [{ id: 'settings-list' }, { role: 'Cell', label: 'Bluetooth' }],
+      });
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0].frame.y).toBe(150);
+      expect(
+        findElementsBySelector(elements, {
+          role: 'Switch',
+          ancestors: [{ label: 'Bluetooth' }, { id: 'settings-list' }],
+        }),
+      ).toEqual([]);
+    });
+
+    it('should decide hittability from enabled state and position', () => {
+      const [done] = findElementsBySelector(elements, { id: 'done' });
+      const [about] = findElementsBySelector(elements, { label: 'About' });
+      const [wifi] = findElementsBySelector(elements, { label: 'Wi-Fi' });
+
+      expect(isElementHittable(done, screenFrame)).toBe(false);
+      expect(isElementHittable(about, screenFrame)).toBe(false);
+      expect(isElementHittable(wifi, screenFrame)).toBe(true);
+    });
+
+    it('should describe selectors', () => {
+      expect(
+        describeElementSelector({
+          role: 'Switch',
+          label: 'Enabled',
+          index: 1,
+          ancestors: [{ id: 'settings-list' }],
+        }),
+      ).toBe('role=Switch label="Enabled" index=1 in [id="settings-list"]');
+    });
+  });
+
+  describe('resolveElement', () => {
+    it('should resolve a unique element to its center', async () => {
+      const resolved = await resolveElement(
+        simulatorId,
+        { label: 'Bluetooth' },
+        createMockExecutor({ success: true, output: sampleOutput }),
+        axeHelpers,
+      );
+
+      expect(resolved.center).toEqual({ x: 195, y: 166 });
+      expect(resolved.element.label).toBe('Bluetooth');
+    });
+
+    it('should pick the indexed match', async () => {
+      const resolved = await resolveElement(
+        simulatorId,
+        { role: 'Switch', index: 1 },
+        createMockExecutor({ success: true, output: sampleOutput }),
+        axeHelpers,
+      );
+
+      expect(resolved.center).toEqual({ x: 346, y: 166 });
+    });
+
+    it('should reject ambiguous selectors without waiting', async () => {
+      await expect(
+        resolveElement(
+          simulatorId,
+          { role: 'Switch' },
+          createMockExecutor({ success: true, output: sampleOutput }),
+          axeHelpers,
+        ),
+      ).rejects.toThrow('matched 2 elements; add index');
+    });
+
+    it('should accept existing but unhittable elements when waiting for existence', async () => {
+      const resolved = await resolveElement(
+        simulatorId,
+        { id: 'done', waitUntil: 'exists' },
+        createMockExecutor({ success: true, output: sampleOutput }),
+        axeHelpers,
+      );
+
+      expect(resolved.element.enabled).toBe(false);
+    });
+
+    it('should poll until the element appears', async () => {
+      const outputs = ['[]', '[]', sampleOutput];
+      const commands: string[][] = [];
+      const executor: CommandExecutor = async (command, ...rest) => {
+        commands.push(command);
+        const output = outputs.shift() ?? sampleOutput;
+        return createMockExecutor({ success: true, output })(command, ...rest);
+      };
+      const sleeps: number[] = [];
+      let clock = 0;
+
+      const resolved = await resolveElement(
+        simulatorId,
+        { id: 'settings-list' },
+        executor,
+        axeHelpers,
+        {
+          pollInterval: 100,
+          now: () => clock,
+          sleep: async (ms) => {
+            sleeps.push(ms);
+            clock += ms;
+          },
+        },
+      );
+
+      expect(resolved.element.type).toBe('Table');
+      expect(commands).toHaveLength(3);
+      expect(sleeps).toEqual([100, 100]);
+    });
+
+    it('should time out with a hierarchy summary', async () => {
+      let clock = 0;
+      const error = await resolveElement(
+        simulatorId,
+        { id: 'done', timeout: 1 },
+        createMockExecutor({ success: true, output: sampleOutput }),
+        axeHelpers,
+        {
+          pollInterval: 400,
+          now: () => clock,
+          sleep: async (ms) => {
+            clock += ms;
+          },
+        },
+      ).catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ElementResolutionError);
+      expect((error as ElementResolutionError).message).toBe(
+        'Element id="done" exists but was not hittable (disabled or off screen) within 1s.',
+      );
+      expect((error as ElementResolutionError).details).toContain(
+        'Current hierarchy:\nApplication "Settings" (0,0 390x844)',
+      );
+    });
+
+    it('should check once with a zero timeout', async () => {
+      await expect(
+        resolveElement(
+          simulatorId,
+          { label: 'Privacy', timeout: 0 },
+          createMockExecutor({ success: true, output: sampleOutput }),
+          axeHelpers,
+        ),
+      ).rejects.toThrow('No element matching label="Privacy" found within 0s.');
+    });
+
+    it('should propagate AXe failures', async () => {
+      await expect(
+        resolveElement(
+          simulatorId,
+          { label: 'Wi-Fi' },
+          createCommandMatchingMockExecutor({
+            'describe-ui': { success: false, error: 'boom' },
+          }),
+          axeHelpers,
+        ),
+      ).rejects.toBeInstanceOf(AxeError);
+    });
+  });
+});
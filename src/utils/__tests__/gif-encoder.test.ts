@@ -0,0 +1,171 @@
+/**
+ * Tests for the animated GIF encoder
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encodeAnimatedGif } from '../image/index.ts';
+import type { RawImage } from '../image/index.ts';
+
+function createImage(
+  width: number,
+  height: number,
+  pixel: (x: number, y: number) => [number, number, number],
+): RawImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([...pixel(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+// Reference LZW decoder for GIF image data, independent of the encoder
+function decodeLzw(data: Buffer, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let table: number[][] = [];
+  let codeSize = 0;
+  let previous: number[] | null = null;
+  const reset = (): void => {
+    table = Array.from({ length: clearCode + 2 }, (_, index) => [index]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+
+  let bitPosition = 0;
+  while (bitPosition + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let bit = 0; bit < codeSize; bit++) {
+      const position = bitPosition + bit;
+      code |= ((data[position >> 3] >> (position & 7)) & 1) << bit;
+    }
+    bitPosition += codeSize;
+
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === endCode) {
+      break;
+    }
+    let entry: number[];
+    if (previous === null) {
+      entry = table[code];
+    } else {
+      entry = code < table.length ? table[code] : [...previous, previous[0]];
+      table.push([...previous, entry[0]]);
+      if (table.length === 1 << codeSize && codeSize < 12) {
+        codeSize++;
+      }
+    }
+    output.push(...entry);
+    previous = entry;
+  }
+  return output;
+}
+
+interface DecodedFrame {
+  delay: number;
+  width: number;
+  height: number;
+  indices: number[];
+}
+
+function decodeGif(gif: Buffer): { width: number; height: number; frames: DecodedFrame[] } {
+  expect(gif.toString('ascii', 0, 6)).toBe('GIF89a');
+  const width = gif.readUInt16LE(6);
+  const height = gif.readUInt16LE(8);
+  let offset = 13 + 256 * 3;
+  const frames: DecodedFrame[] = [];
+  let delay = 0;
+
+  const readSubBlocks = (): Buffer => {
+    const parts: Buffer[] = [];
+    while (gif[offset] !== 0) {
+      const length = gif[offset];
+      parts.push(gif.subarray(offset + 1, offset + 1 + length));
+      offset += length + 1;
+    }
+    offset++;
+    return Buffer.concat(parts);
+  };
+
+  while (gif[offset] !== 0x3b) {
+    if (gif[offset] === 0x21) {
+      if (gif[offset + 1] === 0xf9) {
+        delay = gif.readUInt16LE(offset + 4);
+      }
+      offset += 2;
+      readSubBlocks();
+    } else if (gif[offset] === 0x2c) {
+      const frameWidth = gif.readUInt16LE(offset + 5);
+      const frameHeight = gif.readUInt16LE(offset + 7);
+      const minCodeSize = gif[offset + 10];
+      offset += 11;
+      frames.push({
+        delay,
+        width: frameWidth,
+        height: frameHeight,
+        indices: decodeLzw(readSubBlocks(), minCodeSize),
+      });
+    } else {
+      throw new Error(`Unexpected block 0x${gif[offset].toString(16)} at ${offset}`);
+    }
+  }
+  return { width, height, frames };
+}
+
+function paletteColor(gif: Buffer, index: number): number[] {
+  return Array.from(gif.subarray(13 + index * 3, 13 + index * 3 + 3));
+}
+
+describe('encodeAnimatedGif', () => {
+  it('should write a looping GIF with one image per frame and its delay', () => {
+    const red = createImage(4, 3, () => [255, 0, 0]);
+    const blue = createImage(4, 3, () => [0, 0, 255]);
+
+    const gif = encodeAnimatedGif([
+      { image: red, delayMs: 250 },
+      { image: blue, delayMs: 1000 },
+    ]);
+    const decoded = decodeGif(gif);
+
+    expect(decoded.width).toBe(4);
+    expect(decoded.height).toBe(3);
+    expect(gif.includes(Buffer.from('NETSCAPE2.0', 'ascii'))).toBe(true);
+    expect(decoded.frames.map((frame) => frame.delay)).toEqual([25, 100]);
+    expect(decoded.frames[0].indices).toHaveLength(12);
+    expect(paletteColor(gif, decoded.frames[0].indices[0])).toEqual([255, 0, 0]);
+    expect(paletteColor(gif, decoded.frames[1].indices[11])).toEqual([0, 0, 255]);
+  });
+
+  it('should round-trip pixel data large enough to grow and reset the code table', () => {
+    const image = createImage(200, 150, (x, y) => [(x * 7) % 256, (y * 13) % 256, (x * y) % 256]);
+
+    const gif = encodeAnimatedGif([{ image, delayMs: 100 }]);
+    const [frame] = decodeGif(gif).frames;
+
+    expect(frame.indices).toHaveLength(200 * 150);
+    let maxError = 0;
+    for (let pixel = 0; pixel < 200 * 150; pixel++) {
+      const color = paletteColor(gif, frame.indices[pixel]);
+      for (let channel = 0; channel < 3; channel++) {
+        maxError = Math.max(maxError, Math.abs(color[channel] - image.data[pixel * 4 + channel]));
+      }
+    }
+    // Half a step of the coarsest (6-level) channel
+    expect(maxError).toBeLessThanOrEqual(26);
+  });
+
+  it('should reject frames of different sizes', () => {
+    expect(() =>
+      encodeAnimatedGif([
+        { image: createImage(2, 2, () => [0, 0, 0]), delayMs: 100 },
+        { image: createImage(3, 2, () => [0, 0, 0]), delayMs: 100 },
+      ]),
+    ).toThrow('All GIF frames must have the same dimensions');
+  });
+});
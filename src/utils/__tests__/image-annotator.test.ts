@@ -0,0 +1,87 @@
+/**
+ * Tests for the image annotation overlay
+ */
+
+import { describe, it, expect } from 'vitest';
+import { drawAnnotations, drawLabel } from '../image/index.ts';
+import type { RawImage } from '../image/index.ts';
+
+function createBlankImage(width: number, height: number): RawImage {
+  return { width, height, data: new Uint8Array(width * height * 4).fill(0) };
+}
+
+function pixelAt(image: RawImage, x: number, y: number): number[] {
+  const offset = (y * image.width + x) * 4;
+  return Array.from(image.data.slice(offset, offset + 4));
+}
+
+describe('drawAnnotations', () => {
+  it('should outline each box without filling its interior', () => {
+    const image = createBlankImage(100, 100);
+
+    const annotated = drawAnnotations(
+      image,
+      [{ label: 1, x: 40, y: 40, width: 50, height: 50 }],
+      2,
+    );
+
+    expect(pixelAt(annotated, 89, 89)).toEqual([230, 25, 75, 255]);
+    expect(pixelAt(annotated, 65, 65)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('should render the number in a badge at the top-left corner', () => {
+    const image = createBlankImage(100, 100);
+
+    const annotated = drawAnnotations(
+      image,
+      [{ label: 7, x: 10, y: 10, width: 60, height: 60 }],
+      2,
+    );
+
+    // Badge background, then the top bar of the digit 7 one font pixel in
+    expect(pixelAt(annotated, 10, 10)).toEqual([230, 25, 75, 255]);
+    expect(pixelAt(annotated, 12, 12)).toEqual([255, 255, 255, 255]);
+    // The middle row of a 7 has no stroke on the left
+    expect(pixelAt(annotated, 12, 16)).toEqual([230, 25, 75, 255]);
+  });
+
+  it('should cycle palette colors and keep badges inside the image', () => {
+    const image = createBlankImage(50, 50);
+
+    const annotated = drawAnnotations(
+      image,
+      [
+        { label: 1, x: 0, y: 0, width: 10, height: 10 },
+        { label: 12, x: 45, y: 45, width: 10, height: 10 },
+      ],
+      1,
+    );
+
+    expect(pixelAt(annotated, 49, 49)).toEqual([0, 130, 200, 255]);
+    // Two-digit badge (9x7) clamped to the bottom-right corner
+    expect(pixelAt(annotated, 41, 43)).toEqual([0, 130, 200, 255]);
+  });
+
+  it('should not modify the source image', () => {
+    const image = createBlankImage(20, 20);
+
+    drawAnnotations(image, [{ label: 3, x: 0, y: 0, width: 20, height: 20 }], 1);
+
+    expect(image.data.every((value) => value === 0)).toBe(true);
+  });
+});
+
+describe('drawLabel', () => {
+  it('should render a timestamp on a dark badge without modifying the source', () => {
+    const image = createBlankImage(40, 20);
+
+    const labelled = drawLabel(image, '1.5s', 0, 0, 1);
+
+    // Badge of 4 glyphs is 17x7; the first glyph (1) has its stem in the middle column
+    expect(pixelAt(labelled, 0, 0)).toEqual([32, 32, 32, 255]);
+    expect(pixelAt(labelled, 2, 1)).toEqual([255, 255, 255, 255]);
+    expect(pixelAt(labelled, 16, 6)).toEqual([32, 32, 32, 255]);
+    expect(pixelAt(labelled, 17, 0)).toEqual([0, 0, 0, 0]);
+    expect(image.data.every((value) => value === 0)).toBe(true);
+  });
+});
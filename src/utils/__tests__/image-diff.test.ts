@@ -0,0 +1,83 @@
+/**
+ * Tests for pixel-level image comparison
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareImages } from '../image/index.ts';
+import type { RawImage } from '../image/index.ts';
+
+function createSolidImage(width: number, height: number, pixel: number[]): RawImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(pixel, i);
+  return { width, height, data };
+}
+
+function paint(image: RawImage, x: number, y: number, width: number, height: number): RawImage {
+  const data = new Uint8Array(image.data);
+  for (let row = y; row < y + height; row++) {
+    for (let col = x; col < x + width; col++) {
+      data.set([0, 0, 0, 255], (row * image.width + col) * 4);
+    }
+  }
+  return { ...image, data };
+}
+
+describe('compareImages', () => {
+  const baseline = createSolidImage(100, 100, [255, 255, 255, 255]);
+
+  it('should report no differences for identical images', () => {
+    const result = compareImages(baseline, baseline);
+
+    expect(result.mismatchedPixels).toBe(0);
+    expect(result.mismatchPercentage).toBe(0);
+    expect(result.regions).toEqual([]);
+    expect(result.comparedPixels).toBe(100 * 100);
+  });
+
+  it('should count changed pixels and highlight them in the diff image', () => {
+    const actual = paint(baseline, 10, 20, 5, 4);
+
+    const result = compareImages(actual, baseline);
+
+    expect(result.mismatchedPixels).toBe(20);
+    expect(result.mismatchPercentage).toBeCloseTo(0.2);
+    const changed = (20 * 100 + 10) * 4;
+    expect(Array.from(result.diffImage.data.slice(changed, changed + 4))).toEqual([255, 0, 0, 255]);
+    expect(result.regions).toEqual([{ x: 10, y: 20, width: 5, height: 4, pixels: 20 }]);
+  });
+
+  it('should tolerate small color differences below the threshold', () => {
+    const actual = createSolidImage(100, 100, [250, 250, 250, 255]);
+
+    expect(compareImages(actual, baseline).mismatchedPixels).toBe(0);
+    expect(compareImages(actual, baseline, { threshold: 0 }).mismatchedPixels).toBe(100 * 100);
+  });
+
+  it('should group nearby changes and separate distant ones', () => {
+    const actual = paint(paint(paint(baseline, 2, 2, 2, 2), 8, 8, 2, 2), 80, 80, 3, 3);
+
+    const result = compareImages(actual, baseline);
+
+    expect(result.regions).toEqual([
+      { x: 2, y: 2, width: 8, height: 8, pixels: 8 },
+      { x: 80, y: 80, width: 3, height: 3, pixels: 9 },
+    ]);
+  });
+
+  it('should skip ignored regions', () => {
+    const actual = paint(baseline, 0, 0, 100, 10);
+
+    const result = compareImages(actual, baseline, {
+      ignoreRegions: [{ x: 0, y: 0, width: 100, height: 10 }],
+    });
+
+    expect(result.mismatchedPixels).toBe(0);
+    expect(result.comparedPixels).toBe(100 * 90);
+  });
+
+  it('should throw when dimensions differ', () => {
+    expect(() => compareImages(createSolidImage(10, 20, [0, 0, 0, 255]), baseline)).toThrow(
+      'Image dimensions differ: actual 10x20, baseline 100x100',
+    );
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Tests for the in-process image processor
+ */
+
+import { describe, it, expect } from 'vitest';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { createTestPng } from '../../test-utils/image-fixtures.ts';
+import { decodeWebPLossless } from '../../test-utils/vp8l-decoder.ts';
+import {
+  cropImage,
+  encodeImageWithinBudget,
+  getDefaultImageProcessor,
+  getImageMimeType,
+  resampleImage,
+} from '../image/index.ts';
+
+const processor = getDefaultImageProcessor();
+
+describe('image processor', () => {
+  describe('decode', () => {
+    it('should decode PNG data into RGBA pixels', async () => {
+      const image = await processor.decode(createTestPng(3, 2, () => [10, 20, 30, 255]));
+
+      expect(image.width).toBe(3);
+      expect(image.height).toBe(2);
+      expect(image.data.length).toBe(3 * 2 * 4);
+      expect(Array.from(image.data.slice(0, 4))).toEqual([10, 20, 30, 255]);
+    });
+
+    it('should decode JPEG data into RGBA pixels', async () => {
+      const source = await processor.decode(createTestPng(8, 8, () => [200, 200, 200, 255]));
+      const jpegData = await processor.encode(source, { format: 'jpeg', quality: 90 });
+
+      const image = await processor.decode(jpegData);
+
+      expect(image.width).toBe(8);
+      expect(image.height).toBe(8);
+      expect(Math.abs(image.data[0] - 200)).toBeLessThanOrEqual(3);
+    });
+
+    it('should reject unsupported data', async () => {
+      await expect(processor.decode(Buffer.from('not-an-image'))).rejects.toThrow(
+        'Unsupported image data: expected PNG or JPEG',
+      );
+    });
+  });
+
+  describe('resize', () => {
+    it('should fit the longest side to the max dimension preserving aspect ratio', async () => {
+      const image = await processor.decode(createTestPng(400, 200));
+
+      const resized = await processor.resize(image, 100);
+
+      expect(resized.width).toBe(100);
+      expect(resized.height).toBe(50);
+      expect(resized.data.length).toBe(100 * 50 * 4);
+    });
+
+    it('should fit portrait images by height', async () => {
+      const image = await processor.decode(createTestPng(150, 600));
+
+      const resized = await processor.resize(image, 120);
+
+      expect(resized.width).toBe(30);
+      expect(resized.height).toBe(120);
+    });
+
+    it('should leave images that already fit unchanged', async () => {
+      const image = await processor.decode(createTestPng(40, 30));
+
+      const resized = await processor.resize(image, 1024);
+
+      expect(resized).toBe(image);
+    });
+
+    it('should preserve solid colors when resampling', () => {
+      const data = new Uint8Array(64 * 64 * 4);
+      for (let i = 0; i < data.length; i += 4) data.set([12, 34, 56, 255], i);
+
+      const resized = resampleImage({ width: 64, height: 64, data }, 17, 9);
+
+      for (let i = 0; i < resized.data.length; i += 4) {
+        expect(Array.from(resized.data.slice(i, i + 4))).toEqual([12, 34, 56, 255]);
+      }
+    });
+
+    it('should average fine detail instead of sampling single pixels', () => {
+      // Alternating black/white columns should blend to mid grey when halved
+      const width = 32;
+      const height = 4;
+      const data = new Uint8Array(width * height * 4);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const value = x % 2 === 0 ? 0 : 255;
+          data.set([value, value, value, 255], (y * width + x) * 4);
+        }
+      }
+
+      const resized = resampleImage({ width, height, data }, 16, 2);
+      const center = (1 * 16 + 8) * 4;
+
+      expect(resized.data[center]).toBeGreaterThan(100);
+      expect(resized.data[center]).toBeLessThan(155);
+    });
+  });
+
+  describe('cropImage', () => {
+    it('should extract the requested pixel region', async () => {
+      const image = await processor.decode(
+        createTestPng(10, 10, (x, y) => [x * 10, y * 10, 0, 255]),
+      );
+
+      const cropped = cropImage(image, { x: 2, y: 3, width: 4, height: 5 });
+
+      expect(cropped.width).toBe(4);
+      expect(cropped.height).toBe(5);
+      expect(Array.from(cropped.data.slice(0, 4))).toEqual([20, 30, 0, 255]);
+    });
+
+    it('should clamp regions that extend past the image', async () => {
+      const image = await processor.decode(createTestPng(10, 10));
+
+      const cropped = cropImage(image, { x: -5, y: 8, width: 8, height: 10 });
+
+      expect(cropped.width).toBe(3);
+      expect(cropped.height).toBe(2);
+    });
+
+    it('should throw when the region is outside the image', async () => {
+      const image = await processor.decode(createTestPng(10, 10));
+
+      expect(() => cropImage(image, { x: 20, y: 0, width: 5, height: 5 })).toThrow(
+        'Crop region (20, 0, 5x5) is outside the 10x10 image',
+      );
+    });
+  });
+
+  describe('encode', () => {
+    it('should encode JPEG with the requested quality', async () => {
+      const image = await processor.decode(createTestPng(64, 64));
+
+      const high = await processor.encode(image, { format: 'jpeg', quality: 95 });
+      const low = await processor.encode(image, { format: 'jpeg', quality: 10 });
+
+      expect(high.subarray(0, 3)).toEqual(Buffer.from([0xff, 0xd8, 0xff]));
+      expect(low.length).toBeLessThan(high.length);
+      expect(jpeg.decode(low).width).toBe(64);
+    });
+
+    it('should encode PNG losslessly', async () => {
+      const image = await processor.decode(createTestPng(16, 9));
+
+      const encoded = await processor.encode(image, { format: 'png' });
+      const roundTrip = PNG.sync.read(encoded);
+
+      expect(roundTrip.width).toBe(16);
+      expect(roundTrip.height).toBe(9);
+      expect(Buffer.compare(roundTrip.data, Buffer.from(image.data))).toBe(0);
+    });
+
+    it('should encode WebP with a lossless VP8L bitstream', async () => {
+      const image = await processor.decode(createTestPng(33, 17));
+
+      const encoded = await processor.encode(image, { format: 'webp' });
+
+      expect(encoded.toString('ascii', 0, 4)).toBe('RIFF');
+      expect(encoded.readUInt32LE(4)).toBe(encoded.length - 8);
+      expect(encoded.toString('ascii', 8, 16)).toBe('WEBPVP8L');
+      expect(encoded[20]).toBe(0x2f);
+      // 14-bit width-1 and height-1 follow the signature byte
+      const header = encoded.readUInt32LE(21);
+      expect((header & 0x3fff) + 1).toBe(33);
+      expect(((header >>> 14) & 0x3fff) + 1).toBe(17);
+    });
+
+    it('should round-trip WebP pixels through a VP8L decoder', async () => {
+      const images = [
+        // Many colors and partial alpha, so every channel gets a normal prefix code
+        createTestPng(33, 17, (x, y) => [
+          (x * 37 + y * 11) % 256,
+          (x * y * 13) % 256,
+          (255 - x * 7) % 256,
+          y % 3 === 0 ? 255 : (x * 29) % 256,
+        ]),
+        // Two colors, which use simple prefix codes
+        createTestPng(5, 3, (x, y) => ((x + y) % 2 === 0 ? [255, 0, 0, 255] : [0, 0, 255, 255])),
+        // A single color, whose codes decode without reading any bits
+        createTestPng(1, 4, () => [12, 34, 56, 255]),
+      ];
+
+      for (const png of images) {
+        const image = await processor.decode(png);
+
+        const decoded = decodeWebPLossless(await processor.encode(image, { format: 'webp' }));
+
+        expect(decoded.width).toBe(image.width);
+        expect(decoded.height).toBe(image.height);
+        expect(Buffer.compare(Buffer.from(decoded.data), Buffer.from(image.data))).toBe(0);
+      }
+    });
+  });
+
+  describe('encodeImageWithinBudget', () => {
+    const noisyPixel = (x: number, y: number): [number, number, number, number] => {
+      const v = (x * 7919 + y * 104729 + x * y * 31) % 251;
+      return [v, (v * 3) % 256, (v * 7) % 256, 255];
+    };
+
+    it('should encode at the requested size and quality without a budget', async () => {
+      const image = await processor.decode(createTestPng(300, 100));
+
+      const encoded = await encodeImageWithinBudget(processor, image, {
+        format: 'jpeg',
+        quality: 80,
+        maxDimension: 150,
+      });
+
+      expect(encoded.width).toBe(150);
+      expect(encoded.height).toBe(50);
+      expect(encoded.quality).toBe(80);
+      expect(encoded.format).toBe('jpeg');
+    });
+
+    it('should lower JPEG quality before shrinking the image', async () => {
+      const image = await processor.decode(createTestPng(160, 160, noisyPixel));
+      const atDefault = await processor.encode(image, { format: 'jpeg', quality: 75 });
+      const atThirty = await processor.encode(image, { format: 'jpeg', quality: 30 });
+
+      const encoded = await encodeImageWithinBudget(processor, image, {
+        format: 'jpeg',
+        maxDimension: 160,
+        maxBytes: Math.floor((atDefault.length + atThirty.length) / 2),
+      });
+
+      expect(encoded.width).toBe(160);
+      expect(encoded.quality).toBeLessThan(75);
+    });
+
+    it('should shrink lossless images to fit the budget', async () => {
+      const image = await processor.decode(createTestPng(256, 256, noisyPixel));
+      const full = await processor.encode(image, { format: 'png' });
+
+      const encoded = await encodeImageWithinBudget(processor, image, {
+        format: 'png',
+        maxDimension: 256,
+        maxBytes: Math.floor(full.length / 2),
+      });
+
+      expect(encoded.width).toBeLessThan(256);
+      expect(encoded.data.length).toBeLessThanOrEqual(Math.floor(full.length / 2));
+      expect(encoded.quality).toBeUndefined();
+    });
+
+    it('should throw when the budget cannot be met', async () => {
+      const image = await processor.decode(createTestPng(128, 128, noisyPixel));
+
+      await expect(
+        encodeImageWithinBudget(processor, image, {
+          format: 'webp',
+          maxDimension: 128,
+          maxBytes: 5,
+        }),
+      ).rejects.toThrow('Unable to encode image within 5 bytes (smallest attempt: 72x72 webp');
+    });
+  });
+
+  describe('getImageMimeType', () => {
+    it('should map formats to MIME types', () => {
+      expect(getImageMimeType('jpeg')).toBe('image/jpeg');
+      expect(getImageMimeType('png')).toBe('image/png');
+      expect(getImageMimeType('webp')).toBe('image/webp');
+    });
+  });
+});
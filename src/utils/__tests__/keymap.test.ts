@@ -0,0 +1,49 @@
+/**
+ * Tests for key name and shortcut translation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildKeyChordArgs, getKeyCode, parseKeyChord } from '../keymap/index.ts';
+
+describe('keymap', () => {
+  it('should translate key names case-insensitively', () => {
+    expect(getKeyCode('return')).toBe(40);
+    expect(getKeyCode('Escape')).toBe(41);
+    expect(getKeyCode('arrowDown')).toBe(81);
+    expect(getKeyCode('arrow-down')).toBe(81);
+    expect(getKeyCode('page_up')).toBe(75);
+    expect(getKeyCode('F12')).toBe(69);
+    expect(getKeyCode('f13')).toBeNull();
+    expect(getKeyCode('hyper')).toBeNull();
+  });
+
+  it('should translate single characters', () => {
+    expect(getKeyCode('a')).toBe(4);
+    expect(getKeyCode('Z')).toBe(29);
+    expect(getKeyCode('1')).toBe(30);
+    expect(getKeyCode('0')).toBe(39);
+    expect(getKeyCode('/')).toBe(56);
+    expect(getKeyCode('!')).toBeNull();
+  });
+
+  it('should parse shortcuts into modifiers and a key', () => {
+    expect(parseKeyChord('tab')).toEqual({ keyCode: 43, modifiers: [] });
+    expect(parseKeyChord('cmd+a')).toEqual({ keyCode: 4, modifiers: [227] });
+    expect(parseKeyChord('Shift + Tab')).toEqual({ keyCode: 43, modifiers: [225] });
+    expect(parseKeyChord('ctrl+option+delete')).toEqual({ keyCode: 42, modifiers: [224, 226] });
+    expect(parseKeyChord('a+b')).toBeNull();
+    expect(parseKeyChord('cmd+')).toBeNull();
+    expect(parseKeyChord('cmd+nothing')).toBeNull();
+  });
+
+  it('should build key-combo arguments only for shortcuts', () => {
+    expect(buildKeyChordArgs({ keyCode: 43, modifiers: [] })).toEqual(['key', '43']);
+    expect(buildKeyChordArgs({ keyCode: 29, modifiers: [227, 225] })).toEqual([
+      'key-combo',
+      '--modifiers',
+      '227,225',
+      '--key',
+      '29',
+    ]);
+  });
+});
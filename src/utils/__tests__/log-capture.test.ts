@@ -0,0 +1,191 @@
+/**
+ * Tests for the shared log capture service
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventEmitter } from 'events';
+import type { ChildProcess } from 'child_process';
+import type { CommandExecutor } from '../execution/index.ts';
+import type { FileSystemExecutor } from '../FileSystemExecutor.ts';
+import { createInMemoryFileSystemExecutor } from '../../test-utils/mock-executors.ts';
+import {
+  activeLogSessions,
+  readLogSession,
+  startLogCapture,
+  stopLogSession,
+} from '../log-capture/index.ts';
+
+class FakeProcess extends EventEmitter {
+  stdout = new EventEmitter();
+  stderr = new EventEmitter();
+  exitCode: number | null = null;
+  killed = false;
+
+  kill(): boolean {
+    this.killed = true;
+    this.exitCode = 0;
+    this.emit('close', 0);
+    return true;
+  }
+}
+
+function createProcessExecutor(
+  calls: string[][],
+  processes: FakeProcess[],
+  failOn?: string,
+): CommandExecutor {
+  return async (command) => {
+    calls.push(command);
+    if (failOn && command.includes(failOn)) {
+      return { success: false, output: '', error: `${failOn} failed`, process: undefined as never };
+    }
+    const process = new FakeProcess();
+    processes.push(process);
+    return { success: true, output: '', process: process as unknown as ChildProcess };
+  };
+}
+
+describe('log capture service', () => {
+  let files: Map<string, string>;
+  let fileSystem: FileSystemExecutor;
+
+  beforeEach(() => {
+    activeLogSessions.clear();
+    files = new Map();
+    fileSystem = createInMemoryFileSystemExecutor(files);
+  });
+
+  it('should start console and OS log sources into one session file', async () => {
+    const calls: string[][] = [];
+    const processes: FakeProcess[] = [];
+
+    const result = await startLogCapture(
+      { simulatorUuid: 'sim-uuid', bundleId: 'com.example.App', captureConsole: true },
+      createProcessExecutor(calls, processes),
+      fileSystem,
+    );
+
+    expect(result.error).toBeUndefined();
+    expect(calls).toEqual([
+      [
+        'xcrun',
+        'simctl',
+        'launch',
+        '--console-pty',
+        '--terminate-running-process',
+        'sim-uuid',
+        'com.example.App',
+      ],
+      [
+        'xcrun',
+        'simctl',
+        'spawn',
+        'sim-uuid',
+        'log',
+        'stream',
+        '--level=debug',
+        '--predicate',
+        'subsystem == "com.example.App"',
+      ],
+    ]);
+    const session = activeLogSessions.get(result.sessionId);
+    expect(session?.target).toBe('simulator');
+    expect(session?.sources.map((source) => source.kind)).toEqual(['console', 'os_log']);
+
+    processes[0].stdout.emit('data', 'print from app\n');
+    processes[1].stderr.emit('data', Buffer.from('os_log line\n'));
+
+    const stopped = await stopLogSession(result.sessionId, fileSystem);
+
+    expect(stopped.error).toBeUndefined();
+    expect(stopped.logContent).toBe(files.get(result.logFilePath));
+    expect(stopped.logContent).toContain('--- Log capture for bundle ID: com.example.App ---');
+    expect(stopped.logContent).toContain('print from app\nos_log line\n');
+    expect(processes.every((process) => process.killed)).toBe(true);
+    expect(activeLogSessions.size).toBe(0);
+  });
+
+  it('should stream with the requested level and predicate without a shell', async () => {
+    const calls: Array<{ command: string[]; useShell?: boolean }> = [];
+    const executor: CommandExecutor = async (command, _logPrefix, useShell) => {
+      calls.push({ command, useShell });
+      return { success: true, output: '', process: new FakeProcess() as unknown as ChildProcess };
+    };
+
+    const result = await startLogCapture(
+      {
+        simulatorUuid: 'sim-uuid',
+        bundleId: 'com.example.App"; rm -rf ~; "',
+        osLog: { level: 'info', subsystemPresets: ['webkit'], processes: ['MyApp'] },
+      },
+      executor,
+      fileSystem,
+    );
+
+    expect(result.error).toBeUndefined();
+    expect(calls).toEqual([
+      {
+        command: [
+          'xcrun',
+          'simctl',
+          'spawn',
+          'sim-uuid',
+          'log',
+          'stream',
+          '--level=info',
+          '--predicate',
+          'subsystem == "com.example.App\\"; rm -rf ~; \\"" OR subsystem == "com.apple.WebKit" OR process == "MyApp"',
+        ],
+        useShell: false,
+      },
+    ]);
+    await stopLogSession(result.sessionId, fileSystem);
+  });
+
+  it('should terminate started sources when a later source fails', async () => {
+    const processes: FakeProcess[] = [];
+
+    const result = await startLogCapture(
+      { simulatorUuid: 'sim-uuid', bundleId: 'com.example.App', captureConsole: true },
+      createProcessExecutor([], processes, 'spawn'),
+      fileSystem,
+    );
+
+    expect(result).toEqual({
+      sessionId: '',
+      logFilePath: '',
+      processes: [],
+      error: 'spawn failed',
+    });
+    expect(processes).toHaveLength(1);
+    expect(processes[0].killed).toBe(true);
+    expect(activeLogSessions.size).toBe(0);
+  });
+
+  it('should read new lines from the log file while sources keep running', async () => {
+    const processes: FakeProcess[] = [];
+    const { sessionId } = await startLogCapture(
+      { simulatorUuid: 'sim-uuid', bundleId: 'com.example.App' },
+      createProcessExecutor([], processes),
+      fileSystem,
+    );
+    const limits = { maxLines: 100, maxBytes: 4096 };
+
+    processes[0].stdout.emit('data', 'first line\nsecond ');
+    const first = await readLogSession(sessionId, 0, limits, fileSystem);
+    processes[0].stdout.emit('data', 'line\n');
+    const second = await readLogSession(sessionId, undefined, limits, fileSystem);
+
+    expect(first.read?.lines).toEqual([
+      '',
+      '--- Log capture for bundle ID: com.example.App ---',
+      'first line',
+    ]);
+    expect(second.read?.lines).toEqual(['second line']);
+    expect(second.read?.startCursor).toBe(first.read?.cursor);
+    expect(second.read?.cursor).toBe(second.read?.fileSize);
+    expect(processes[0].killed).toBe(false);
+
+    await stopLogSession(sessionId, fileSystem);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Tests for the log stream predicate builder
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildLogPredicate, quotePredicateString } from '../log-capture/index.ts';
+
+describe('quotePredicateString', () => {
+  it('should escape quotes, backslashes and control characters', () => {
+    expect(quotePredicateString('com.example.app')).toBe('"com.example.app"');
+    expect(quotePredicateString('a"b\\c\nd')).toBe('"a\\"b\\\\c\\nd"');
+  });
+});
+
+describe('buildLogPredicate', () => {
+  it('should match only the app subsystem by default', () => {
+    expect(buildLogPredicate('com.example.app')).toBe('subsystem == "com.example.app"');
+  });
+
+  it('should add subsystems, presets, processes and a custom predicate as alternatives', () => {
+    expect(
+      buildLogPredicate('com.example.app', {
+        subsystems: ['com.example.app.widget', 'com.apple.WebKit'],
+        subsystemPresets: ['webkit', 'networking'],
+        processes: ['MyApp', 'MyApp'],
+        predicate: ' category == "net" ',
+      }),
+    ).toBe(
+      [
+        'subsystem == "com.example.app"',
+        'subsystem == "com.apple.WebKit"',
+        'subsystem == "com.apple.network"',
+        'subsystem == "com.apple.CFNetwork"',
+        'subsystem == "com.example.app.widget"',
+        'process == "MyApp"',
+        '(category == "net")',
+      ].join(' OR '),
+    );
+  });
+
+  it('should narrow or replace the scope with a custom predicate', () => {
+    const options = {
+      processes: ['MyApp'],
+      predicate: 'messageType == error',
+    };
+
+    expect(buildLogPredicate('com.example.app', { ...options, predicateMode: 'narrow' })).toBe(
+      '(subsystem == "com.example.app" OR process == "MyApp") AND (messageType == error)',
+    );
+    expect(buildLogPredicate('com.example.app', { ...options, predicateMode: 'replace' })).toBe(
+      'messageType == error',
+    );
+    expect(buildLogPredicate('com.example.app', { predicateMode: 'narrow' })).toBe(
+      'subsystem == "com.example.app"',
+    );
+  });
+
+  it('should keep a hostile bundle ID inside its string literal', () => {
+    expect(buildLogPredicate('x" OR 1 == 1 OR subsystem == "$(touch /tmp/pwned)')).toBe(
+      'subsystem == "x\\" OR 1 == 1 OR subsystem == \\"$(touch /tmp/pwned)"',
+    );
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Tests for log line parsing, filtering and summaries
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  filterLogLines,
+  formatLogLines,
+  formatLogSummary,
+  logFilterSchema,
+  parseLogLine,
+  summarizeLogLines,
+} from '../log-capture/index.ts';
+
+function streamLine(
+  time: string,
+  type: string,
+  subsystem: string,
+  category: string,
+  message: string,
+): string {
+  return `2025-01-15 ${time}-0800 0x1a2b     ${type.padEnd(11)} 0x0                  4321   0    MyApp: (Network) [${subsystem}:${category}] ${message}`;
+}
+
+const LINES = [
+  'Filtering the log data using "subsystem == \\"com.example.app\\""',
+  'Timestamp                       Thread     Type        Activity             PID    TTL  ',
+  streamLine('10:00:00.100000', 'Debug', 'com.example.app', 'ui', 'layout pass'),
+  streamLine('10:00:01.000000', 'Error', 'com.example.app', 'api', 'Request failed: timeout'),
+  'print from the app',
+  streamLine('10:00:02.000000', 'Debug', 'com.example.app', 'ui', 'layout pass'),
+  streamLine('10:00:03.000000', 'Info', 'com.apple.network', 'connection', 'connected'),
+  streamLine('10:00:04.000000', 'Fault', 'com.example.app', 'db', 'Corrupt store'),
+  streamLine('10:00:05.500000', 'Error', 'com.example.app', 'api', 'Request failed: timeout'),
+  streamLine('10:00:06.000000', 'Debug', 'com.example.app', 'ui', 'layout pass'),
+];
+
+describe('parseLogLine', () => {
+  it('should parse a log stream line', () => {
+    expect(parseLogLine(LINES[3], 4)).toEqual({
+      line: 4,
+      raw: LINES[3],
+      time: '2025-01-15 10:00:01.000000',
+      timestamp: Date.parse('2025-01-15T10:00:01.000-08:00'),
+      level: 'error',
+      process: 'MyApp',
+      subsystem: 'com.example.app',
+      category: 'api',
+      message: 'Request failed: timeout',
+    });
+  });
+
+  it('should leave other lines unstructured', () => {
+    expect(parseLogLine('print from the app', 5)).toEqual({
+      line: 5,
+      raw: 'print from the app',
+      message: 'print from the app',
+    });
+  });
+});
+
+describe('filterLogLines', () => {
+  it('should keep lines at or above the minimum level, counting unstructured lines as default', () => {
+    expect(filterLogLines(LINES, { minLevel: 'default' }).lines).toEqual([
+      LINES[0],
+      LINES[1],
+      LINES[3],
+      LINES[4],
+      LINES[7],
+      LINES[8],
+    ]);
+    expect(filterLogLines(LINES, { minLevel: 'error' }).lines).toEqual([
+      LINES[3],
+      LINES[7],
+      LINES[8],
+    ]);
+  });
+
+  it('should filter by subsystem and category', () => {
+    expect(filterLogLines(LINES, { subsystems: ['com.apple.network'] }).lines).toEqual([LINES[6]]);
+    expect(filterLogLines(LINES, { categories: ['api', 'db'] }).lines).toEqual([
+      LINES[3],
+      LINES[7],
+      LINES[8],
+    ]);
+  });
+
+  it('should apply include and exclude patterns', () => {
+    expect(filterLogLines(LINES, { include: 'Request|Corrupt', exclude: 'Corrupt' }).lines).toEqual(
+      [LINES[3], LINES[8]],
+    );
+  });
+
+  it('should keep timestamped entries inside the time window', () => {
+    expect(
+      filterLogLines(LINES, {
+        since: '2025-01-15T18:00:02Z',
+        until: '2025-01-15T10:00:04-08:00',
+      }).lines,
+    ).toEqual([LINES[5], LINES[6], LINES[7]]);
+  });
+
+  it('should dedupe repeated messages with counts at the first occurrence', () => {
+    const result = filterLogLines(LINES, { subsystems: ['com.example.app'], dedupe: true });
+
+    expect(result.matched).toBe(6);
+    expect(result.lines).toEqual([`[3×] ${LINES[2]}`, `[2×] ${LINES[3]}`, LINES[7]]);
+  });
+});
+
+describe('logFilterSchema', () => {
+  it('should reject invalid patterns and times', () => {
+    expect(logFilterSchema.safeParse({ include: '(' }).success).toBe(false);
+    expect(logFilterSchema.safeParse({ since: 'yesterday' }).success).toBe(false);
+    expect(logFilterSchema.safeParse({ minLevel: 'warning' }).success).toBe(false);
+    expect(
+      logFilterSchema.safeParse({ minLevel: 'error', since: '2025-01-15T10:00:00-08:00' }).success,
+    ).toBe(true);
+  });
+});
+
+describe('summarizeLogLines', () => {
+  it('should group errors and faults and list repeated messages', () => {
+    const summary = summarizeLogLines(LINES);
+
+    expect(summary.levelCounts).toEqual({ debug: 3, info: 1, default: 0, error: 2, fault: 1 });
+    expect(summary.unstructuredLines).toBe(3);
+    expect(summary.problems.map((group) => [group.message, group.count])).toEqual([
+      ['Request failed: timeout', 2],
+      ['Corrupt store', 1],
+    ]);
+    expect(formatLogSummary(summary)).toBe(
+      [
+        '10 of 10 lines matched. Levels: fault 1, error 2, default 0, info 1, debug 3, unstructured 3.',
+        'Time range: 2025-01-15 10:00:00.100000 to 2025-01-15 10:00:06.000000.',
+        [
+          'Errors and faults (2 distinct):',
+          '- 2× [error] com.example.app:api Request failed: timeout',
+          '  first: 2025-01-15 10:00:01.000000 (line 4), last: 2025-01-15 10:00:05.500000 (line 9)',
+          '- 1× [fault] com.example.app:db Corrupt store',
+          '  first: 2025-01-15 10:00:04.000000 (line 8), last: 2025-01-15 10:00:04.000000 (line 8)',
+        ].join('\n'),
+        [
+          'Most repeated messages:',
+          '- 3× [debug] com.example.app:ui layout pass',
+          '- 2× [error] com.example.app:api Request failed: timeout',
+        ].join('\n'),
+      ].join('\n\n'),
+    );
+  });
+});
+
+describe('formatLogLines', () => {
+  it('should return lines unchanged without options', () => {
+    expect(formatLogLines(['a', 'b'], {})).toBe('a\nb');
+  });
+
+  it('should prefix filtered lines with the match count', () => {
+    expect(formatLogLines(LINES, { filter: { minLevel: 'fault' } })).toBe(
+      `1 of 10 lines match the filter.\n\n${LINES[7]}`,
+    );
+    expect(formatLogLines(LINES, { filter: { include: 'nothing' } })).toBe(
+      '0 of 10 lines match the filter.',
+    );
+  });
+
+  it('should render a summary of the filtered lines', () => {
+    expect(
+      formatLogLines(LINES, { filter: { categories: ['ui'] }, summary: true }).split('\n')[0],
+    ).toBe(
+      '3 of 10 lines matched. Levels: fault 0, error 0, default 0, info 0, debug 3, unstructured 0.',
+    );
+  });
+});
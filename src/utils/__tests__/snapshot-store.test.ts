@@ -0,0 +1,149 @@
+/**
+ * Tests for the snapshot store utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import {
+  createCommandMatchingMockExecutor,
+  createInMemoryFileSystemExecutor,
+} from '../../test-utils/mock-executors.ts';
+import {
+  getSnapshotPath,
+  listSnapshots,
+  resolveSnapshotRoot,
+  resolveSnapshotTraits,
+  isSnapshotSegment,
+  toSnapshotSegment,
+} from '../snapshot/index.ts';
+
+const simulatorId = '12345678-1234-4234-8234-123456789012';
+const deviceList = JSON.stringify({
+  devices: {
+    'com.apple.CoreSimulator.SimRuntime.iOS-18-0': [
+      {
+        udid: simulatorId,
+        name: 'My Phone',
+        deviceTypeIdentifier: 'com.apple.CoreSimulator.SimDeviceType.iPhone-16-Pro',
+      },
+    ],
+  },
+});
+
+describe('snapshot store', () => {
+  describe('paths', () => {
+    it('should sanitize names into single path segments', () => {
+      expect(toSnapshotSegment('Login Screen')).toBe('Login-Screen');
+      expect(toSnapshotSegment('../../etc/passwd')).toBe('etc-passwd');
+      expect(toSnapshotSegment('///')).toBe('unnamed');
+    });
+
+    it('should only accept names that are stored under their own name', () => {
+      expect(isSnapshotSegment('login-screen')).toBe(true);
+      expect(isSnapshotSegment('Login_Screen.v2')).toBe(true);
+      expect(isSnapshotSegment('login screen')).toBe(false);
+      expect(isSnapshotSegment('login/screen')).toBe(false);
+      expect(isSnapshotSegment('.hidden')).toBe(false);
+      expect(isSnapshotSegment('login-')).toBe(false);
+      expect(isSnapshotSegment('')).toBe(false);
+    });
+
+    it('should resolve the root relative to the project folder', () => {
+      expect(resolveSnapshotRoot({ projectPath: '/work/App/App.xcodeproj' })).toBe(
+        '/work/App/__snapshots__',
+      );
+      expect(
+        resolveSnapshotRoot({ workspacePath: '/work/App/App.xcworkspace', snapshotDir: 'UI' }),
+      ).toBe('/work/App/UI');
+      expect(resolveSnapshotRoot({ snapshotDir: '/abs/snaps' })).toBe('/abs/snaps');
+      expect(resolveSnapshotRoot({})).toBe(path.resolve('__snapshots__'));
+    });
+
+    it('should key snapshot paths by model, appearance and name', () => {
+      expect(
+        getSnapshotPath('/snaps', { name: 'Home', model: 'iPhone-16-Pro', appearance: 'dark' }),
+      ).toBe('/snaps/iPhone-16-Pro/dark/Home.png');
+    });
+  });
+
+  describe('resolveSnapshotTraits', () => {
+    it('should use the device type and current appearance', async () => {
+      const executor = createCommandMatchingMockExecutor({
+        'simctl list': { output: deviceList },
+        'simctl ui': { output: 'dark\n' },
+      });
+
+      expect(await resolveSnapshotTraits(simulatorId, executor)).toEqual({
+        model: 'iPhone-16-Pro',
+        appearance: 'dark',
+      });
+    });
+
+    it('should fall back to the simulator name and unknown appearance', async () => {
+      const executor = createCommandMatchingMockExecutor({
+        'simctl list': {
+          output: JSON.stringify({ devices: { ios: [{ udid: simulatorId, name: 'iPad Air' }] } }),
+        },
+        'simctl ui': { output: 'unsupported' },
+      });
+
+      expect(await resolveSnapshotTraits(simulatorId, executor)).toEqual({
+        model: 'iPad-Air',
+        appearance: 'unknown',
+      });
+    });
+
+    it('should throw when the simulator is unknown', async () => {
+      const executor = createCommandMatchingMockExecutor({
+        'simctl list': { output: JSON.stringify({ devices: {} }) },
+      });
+
+      await expect(resolveSnapshotTraits(simulatorId, executor)).rejects.toThrow(
+        `Simulator ${simulatorId} not found`,
+      );
+    });
+  });
+
+  describe('listSnapshots', () => {
+    const fileSystem = createInMemoryFileSystemExecutor(
+      new Map(
+        [
+          '/snaps/iPhone-16-Pro/light/home.png',
+          '/snaps/iPhone-16-Pro/dark/home.png',
+          '/snaps/iPad-Air/light/settings.png',
+          '/snaps/iPad-Air/light/notes.txt',
+          '/snaps/iPad-Air/misc/home.png',
+        ].map((file) => [file, 'png']),
+      ),
+    );
+
+    it('should list baselines sorted by model and appearance', async () => {
+      const snapshots = await listSnapshots('/snaps', fileSystem);
+
+      expect(snapshots.map((s) => `${s.model}/${s.appearance}/${s.name}`)).toEqual([
+        'iPad-Air/light/settings',
+        'iPhone-16-Pro/dark/home',
+        'iPhone-16-Pro/light/home',
+      ]);
+      expect(snapshots[0].path).toBe('/snaps/iPad-Air/light/settings.png');
+    });
+
+    it('should filter by name, model and appearance', async () => {
+      expect(
+        await listSnapshots('/snaps', fileSystem, { name: 'home', appearance: 'light' }),
+      ).toEqual([
+        {
+          name: 'home',
+          model: 'iPhone-16-Pro',
+          appearance: 'light',
+          path: '/snaps/iPhone-16-Pro/light/home.png',
+        },
+      ]);
+      expect(await listSnapshots('/snaps', fileSystem, { model: 'iPad Air' })).toHaveLength(1);
+    });
+
+    it('should return an empty list when the root does not exist', async () => {
+      expect(await listSnapshots('/missing', fileSystem)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { parseAccessibilityHierarchy } from '../accessibility/index.ts';
+import { findRecordedTarget, MAX_RECORDED_STEPS, UIRecorder } from '../ui-recorder.ts';
+import { uiStateStore } from '../ui-state-store.ts';
+
+const elements = parseAccessibilityHierarchy(
+  JSON.stringify([
+    {
+      type: 'Application',
+      AXLabel: 'Demo',
+      frame: { x: 0, y: 0, width: 390, height: 844 },
+      children: [
+        {
+          type: 'Cell',
+          frame: { x: 0, y: 100, width: 390, height: 44 },
+          children: [
+            {
+              type: 'StaticText',
+              AXLabel: 'Wi-Fi',
+              frame: { x: 20, y: 110, width: 100, height: 24 },
+            },
+          ],
+        },
+        {
+          type: 'Button',
+          AXLabel: 'Done',
+          AXUniqueId: 'done',
+          frame: { x: 300, y: 50, width: 80, height: 44 },
+        },
+      ],
+    },
+  ]),
+);
+
+describe('UIRecorder', () => {
+  beforeEach(() => {
+    uiStateStore.clear();
+  });
+
+  it('should record steps per simulator with timestamps', () => {
+    let clock = 100;
+    const recorder = new UIRecorder(() => clock++);
+
+    recorder.record('SIM-1', { action: 'gesture', preset: 'scroll-up' });
+    recorder.record('SIM-1', { action: 'type_text', text: 'hello' });
+    recorder.record('SIM-2', { action: 'tap', point: { x: 1, y: 2 } });
+
+    expect(recorder.getSteps('SIM-1')).toEqual([
+      { action: 'gesture', preset: 'scroll-up', recordedAt: 100 },
+      { action: 'type_text', text: 'hello', recordedAt: 101 },
+    ]);
+
+    recorder.clear('SIM-1');
+    expect(recorder.getSteps('SIM-1')).toEqual([]);
+    expect(recorder.getSteps('SIM-2')).toHaveLength(1);
+  });
+
+  it('should keep only the most recent steps', () => {
+    const recorder = new UIRecorder(() => 0);
+    for (let i = 0; i < MAX_RECORDED_STEPS + 5; i++) {
+      recorder.record('SIM-1', { action: 'tap', point: { x: i, y: 0 } });
+    }
+
+    const steps = recorder.getSteps('SIM-1');
+    expect(steps).toHaveLength(MAX_RECORDED_STEPS);
+    expect(steps[0]).toMatchObject({ point: { x: 5, y: 0 } });
+  });
+
+  it('should look up tap targets in the current hierarchy', () => {
+    expect(findRecordedTarget('SIM-1', { id: 'done' })).toEqual({ identifier: 'done' });
+
+    uiStateStore.record('SIM-1', elements);
+
+    expect(findRecordedTarget('SIM-1', { id: 'done' })).toEqual({
+      identifier: 'done',
+      label: 'Done',
+      role: 'Button',
+    });
+    expect(findRecordedTarget('SIM-1', { point: { x: 50, y: 120 } })).toEqual({
+      identifier: undefined,
+      label: 'Wi-Fi',
+      role: 'StaticText',
+    });
+    // The cell has neither identifier nor label, so the tap stays coordinate-based
+    expect(findRecordedTarget('SIM-1', { point: { x: 200, y: 140 } })).toBeUndefined();
+    expect(findRecordedTarget('SIM-1', { point: { x: 10, y: 600 } })).toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import type { AccessibilityElement } from '../accessibility/index.ts';
+import { UIStateStore, UI_STATE_MAX_AGE_MS } from '../ui-state-store.ts';
+
+const elements: AccessibilityElement[] = [
+  {
+    type: 'Application',
+    role: 'AXApplication',
+    label: 'Demo',
+    enabled: true,
+    frame: { x: 0, y: 0, width: 390, height: 844 },
+    children: [],
+  },
+];
+
+function createStore(): { store: UIStateStore; advance: (ms: number) => void } {
+  let clock = 1000;
+  return {
+    store: new UIStateStore(() => clock),
+    advance: (ms) => {
+      clock += ms;
+    },
+  };
+}
+
+describe('UIStateStore', () => {
+  it('should warn until describe_ui has been recorded', () => {
+    const { store } = createStore();
+
+    expect(store.getCoordinateWarning('SIM-1')).toContain('describe_ui has not been called yet');
+    store.record('SIM-1', elements);
+
+    expect(store.getCoordinateWarning('SIM-1')).toBeNull();
+    expect(store.getCurrent('SIM-1')).toBe(elements);
+    expect(store.getCoordinateWarning('SIM-2')).toContain('describe_ui has not been called yet');
+  });
+
+  it('should invalidate the hierarchy after an interaction', () => {
+    const { store } = createStore();
+    store.record('SIM-1', elements);
+
+    store.invalidate('SIM-1', 'tap');
+    store.invalidate('SIM-1', 'swipe');
+
+    expect(store.getCurrent('SIM-1')).toBeUndefined();
+    expect(store.get('SIM-1')?.invalidatedBy).toBe('tap');
+    expect(store.getCoordinateWarning('SIM-1')).toBe(
+      'Warning: the UI may have changed since describe_ui was last called (tap performed since). Consider refreshing UI coordinates with describe_ui if the layout changed.',
+    );
+
+    store.record('SIM-1', elements);
+    expect(store.getCoordinateWarning('SIM-1')).toBeNull();
+  });
+
+  it('should ignore invalidation without a recorded hierarchy', () => {
+    const { store } = createStore();
+    store.invalidate('SIM-1', 'tap');
+
+    expect(store.get('SIM-1')).toBeUndefined();
+  });
+
+  it('should treat old hierarchies as stale', () => {
+    const { store, advance } = createStore();
+    store.record('SIM-1', elements);
+
+    advance(UI_STATE_MAX_AGE_MS);
+    expect(store.getCurrent('SIM-1')).toBe(elements);
+
+    advance(30000);
+    expect(store.getCurrent('SIM-1')).toBeUndefined();
+    expect(store.getCoordinateWarning('SIM-1')).toBe(
+      'Warning: describe_ui was last called 90 seconds ago. Consider refreshing UI coordinates with describe_ui instead of using potentially stale coordinates.',
+    );
+  });
+
+  it('should return annotated elements by number while the screenshot is current', () => {
+    const { store, advance } = createStore();
+    expect(store.getAnnotatedElement('SIM-1', 1).error).toBe(
+      'No annotated screenshot is available. Take a screenshot with annotate: true first.',
+    );
+
+    store.record('SIM-1', elements, elements);
+    expect(store.getAnnotatedElement('SIM-1', 1)).toEqual({ element: elements[0] });
+    expect(store.getAnnotatedElement('SIM-1', 2).error).toBe(
+      'Annotation 2 does not exist; the last annotated screenshot numbered 1 elements.',
+    );
+
+    advance(UI_STATE_MAX_AGE_MS + 1);
+    expect(store.getAnnotatedElement('SIM-1', 1).error).toBe(
+      'Annotation numbers are outdated (the annotated screenshot is more than 60 seconds old). Take a new screenshot with annotate: true.',
+    );
+
+    store.record('SIM-1', elements);
+    expect(store.getAnnotatedElement('SIM-1', 1).error).toContain('No annotated screenshot');
+  });
+
+  it('should clear one or all simulators', () => {
+    const { store } = createStore();
+    store.record('SIM-1', elements);
+    store.record('SIM-2', elements);
+
+    store.clear('SIM-1');
+    expect(store.get('SIM-1')).toBeUndefined();
+    expect(store.get('SIM-2')).toBeDefined();
+
+    store.clear();
+    expect(store.get('SIM-2')).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for simulator video capture sessions
+ */
+
+import { EventEmitter } from 'events';
+import type { ChildProcess } from 'child_process';
+import { describe, it, expect } from 'vitest';
+import type { CommandExecutor } from '../execution/index.ts';
+import {
+  getSimulatorVideoCaptureStatus,
+  startSimulatorVideoCapture,
+  stopSimulatorVideoCapture,
+} from '../video-capture/index.ts';
+
+const axeHelpers = {
+  getAxePath: () => '/usr/local/bin/axe',
+  getBundledAxeEnvironment: () => ({}),
+};
+
+// A recording process that prints the MP4 path and exits when interrupted
+function createRecordingExecutor(videoPath: string): CommandExecutor {
+  return async () => {
+    const child = Object.assign(new EventEmitter(), {
+      stdout: new EventEmitter(),
+      stderr: new EventEmitter(),
+      exitCode: null as number | null,
+      kill: (): boolean => {
+        child.stdout.emit('data', `Video saved to ${videoPath}\n`);
+        child.exitCode = 0;
+        child.emit('exit', 0);
+        child.emit('close', 0);
+        return true;
+      },
+    });
+    return { success: true, output: '', process: child as unknown as ChildProcess };
+  };
+}
+
+async function waitForState(simulatorUuid: string, state: string): Promise<void> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (getSimulatorVideoCaptureStatus({ simulatorUuid }).state === state) return;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error(`Capture never reached state ${state}`);
+}
+
+describe('simulator video capture', () => {
+  it('should report the status of an active recording', async () => {
+    const simulatorUuid = '11111111-1111-4111-8111-111111111111';
+    const executor = createRecordingExecutor('/tmp/one.mp4');
+
+    expect(getSimulatorVideoCaptureStatus({ simulatorUuid })).toEqual({ state: 'idle' });
+    await startSimulatorVideoCapture({ simulatorUuid, fps: 15 }, executor, axeHelpers);
+
+    const status = getSimulatorVideoCaptureStatus({ simulatorUuid });
+    expect(status).toMatchObject({ state: 'recording', fps: 15 });
+
+    const stopped = await stopSimulatorVideoCapture({ simulatorUuid }, executor);
+    expect(stopped).toMatchObject({ stopped: true, parsedPath: '/tmp/one.mp4' });
+    expect(stopped.autoStopped).toBeUndefined();
+    expect(getSimulatorVideoCaptureStatus({ simulatorUuid })).toEqual({ state: 'idle' });
+  });
+
+  it('should stop at the maximum duration and keep the result for stop', async () => {
+    const simulatorUuid = '22222222-2222-4222-8222-222222222222';
+    const executor = createRecordingExecutor('/tmp/two.mp4');
+
+    await startSimulatorVideoCapture(
+      { simulatorUuid, maxDurationSeconds: 0.02 },
+      executor,
+      axeHelpers,
+    );
+    expect(getSimulatorVideoCaptureStatus({ simulatorUuid })).toMatchObject({
+      state: 'recording',
+      maxDurationSeconds: 0.02,
+    });
+
+    await waitForState(simulatorUuid, 'auto-stopped');
+    expect(getSimulatorVideoCaptureStatus({ simulatorUuid })).toMatchObject({
+      state: 'auto-stopped',
+      parsedPath: '/tmp/two.mp4',
+    });
+
+    const restart = await startSimulatorVideoCapture({ simulatorUuid }, executor, axeHelpers);
+    expect(restart.started).toBe(false);
+    expect(restart.error).toContain('stopped at its maximum duration');
+
+    const stopped = await stopSimulatorVideoCapture({ simulatorUuid }, executor);
+    expect(stopped).toMatchObject({
+      stopped: true,
+      parsedPath: '/tmp/two.mp4',
+      autoStopped: true,
+    });
+    expect(getSimulatorVideoCaptureStatus({ simulatorUuid })).toEqual({ state: 'idle' });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for extracting frames from recorded videos
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createInMemoryFileSystemExecutor,
+  createMockExecutor,
+  createMockFileSystemExecutor,
+} from '../../test-utils/mock-executors.ts';
+import type { CommandExecutor } from '../execution/index.ts';
+import { extractVideoFrames } from '../video-capture/index.ts';
+
+const WORK_DIR = '/tmp/mock-temp-123456';
+
+function createFrameScriptExecutor(
+  calls: string[][],
+  files: Map<string, string>,
+  frames: { requested: number; time: number }[],
+  duration = 4,
+): CommandExecutor {
+  return async (command, ...rest) => {
+    calls.push(command);
+    const output = {
+      duration,
+      frames: frames.map((frame, index) => {
+        const path = `${WORK_DIR}/frame-${index}.png`;
+        files.set(path, Buffer.from(`png ${index}`).toString('base64'));
+        return { ...frame, path };
+      }),
+    };
+    return createMockExecutor({
+      success: true,
+      output: `warning: 'duration' was deprecated in macOS 13.0\n${JSON.stringify(output)}\n`,
+    })(command, ...rest);
+  };
+}
+
+describe('extractVideoFrames', () => {
+  it('should request evenly spaced frames from first to last', async () => {
+    const calls: string[][] = [];
+    const files = new Map<string, string>();
+    const result = await extractVideoFrames(
+      '/videos/flow.mp4',
+      { count: 3 },
+      createFrameScriptExecutor(calls, files, [
+        { requested: 0, time: 0 },
+        { requested: 1.975, time: 1.975 },
+        { requested: 3.95, time: 3.95 },
+      ]),
+      createInMemoryFileSystemExecutor(files),
+    );
+
+    expect(calls).toEqual([
+      [
+        'xcrun',
+        'swift',
+        `${WORK_DIR}/extract-frames.swift`,
+        '/videos/flow.mp4',
+        WORK_DIR,
+        'fractions',
+        '0',
+        '0.5',
+        '1',
+      ],
+    ]);
+    expect(result.durationSeconds).toBe(4);
+    expect(result.frames.map((frame) => frame.time)).toEqual([0, 1.975, 3.95]);
+    expect(result.frames[1].data.toString()).toBe('png 1');
+    expect(result.skippedTimes).toEqual([]);
+  });
+
+  it('should report requested times without a frame', async () => {
+    const calls: string[][] = [];
+    const files = new Map<string, string>();
+    const result = await extractVideoFrames(
+      '/videos/flow.mp4',
+      { times: [0.5, 9] },
+      createFrameScriptExecutor(calls, files, [{ requested: 0.5, time: 0.5 }]),
+      createInMemoryFileSystemExecutor(files),
+    );
+
+    expect(calls[0].slice(5)).toEqual(['seconds', '0.5', '9']);
+    expect(result.frames).toHaveLength(1);
+    expect(result.skippedTimes).toEqual([9]);
+  });
+
+  it('should remove the work directory and throw when the script fails', async () => {
+    const removed: string[] = [];
+    const fileSystem = createMockFileSystemExecutor({
+      rm: async (path: string): Promise<void> => {
+        removed.push(path);
+      },
+    });
+
+    await expect(
+      extractVideoFrames(
+        '/videos/missing.mp4',
+        { count: 2 },
+        createMockExecutor({ success: false, error: 'error: no such file' }),
+        fileSystem,
+      ),
+    ).rejects.toThrow('Frame extraction failed: error: no such file');
+    expect(removed).toEqual([WORK_DIR]);
+  });
+});
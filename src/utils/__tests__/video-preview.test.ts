@@ -0,0 +1,129 @@
+/**
+ * Tests for contact sheets and GIF previews of recordings
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getDefaultImageProcessor } from '../image/index.ts';
+import type { RawImage } from '../image/index.ts';
+import {
+  createContactSheet,
+  createPreviewGif,
+  renderContactSheet,
+} from '../video-capture/index.ts';
+import type { PreviewFrame } from '../video-capture/index.ts';
+
+const processor = getDefaultImageProcessor();
+
+function createSolidImage(width: number, height: number, color: number[]): RawImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let offset = 0; offset < data.length; offset += 4) {
+    data.set([...color, 255], offset);
+  }
+  return { width, height, data };
+}
+
+function pixelAt(image: RawImage, x: number, y: number): number[] {
+  const offset = (y * image.width + x) * 4;
+  return Array.from(image.data.slice(offset, offset + 4));
+}
+
+function createFrames(count: number, width = 100, height = 200): PreviewFrame[] {
+  return Array.from({ length: count }, (_, index) => ({
+    time: index * 0.5,
+    image: createSolidImage(width, height, [index * 40, 100, 200]),
+  }));
+}
+
+describe('renderContactSheet', () => {
+  it('should lay frames out in a near-square grid with gaps', async () => {
+    const sheet = await renderContactSheet(createFrames(5), processor);
+
+    // 3 columns x 2 rows of 100x200 cells with 4px gaps
+    expect(sheet.width).toBe(3 * 100 + 4 * 4);
+    expect(sheet.height).toBe(2 * 200 + 3 * 4);
+    expect(pixelAt(sheet, 0, 0)).toEqual([24, 24, 24, 255]);
+    expect(pixelAt(sheet, 4 + 50, 4 + 10)).toEqual([0, 100, 200, 255]);
+    expect(pixelAt(sheet, 4 + 104 + 50, 4 + 10)).toEqual([40, 100, 200, 255]);
+    expect(pixelAt(sheet, 4 + 50, 8 + 200 + 10)).toEqual([120, 100, 200, 255]);
+    // Empty sixth cell keeps the background
+    expect(pixelAt(sheet, 8 + 208 + 50, 8 + 200 + 10)).toEqual([24, 24, 24, 255]);
+  });
+
+  it('should label each frame with its timestamp in the bottom-left corner', async () => {
+    const sheet = await renderContactSheet(createFrames(1), processor);
+
+    // Badge background at the bottom-left corner of the only cell
+    expect(pixelAt(sheet, 4, 4 + 199)).toEqual([32, 32, 32, 255]);
+    expect(pixelAt(sheet, 4 + 99, 4 + 199)).toEqual([0, 100, 200, 255]);
+  });
+});
+
+describe('createContactSheet', () => {
+  it('should encode the sheet as JPEG within the budget', async () => {
+    const sheet = await createContactSheet(
+      createFrames(4),
+      { maxDimension: 200, maxBytes: 50_000 },
+      processor,
+    );
+
+    expect(sheet.format).toBe('jpeg');
+    expect(Math.max(sheet.width, sheet.height)).toBeLessThanOrEqual(200);
+    expect(sheet.data.length).toBeLessThanOrEqual(50_000);
+  });
+});
+
+describe('createPreviewGif', () => {
+  it('should play frames at the recording pace', async () => {
+    const gif = await createPreviewGif(
+      createFrames(3),
+      { maxDimension: 100, maxBytes: 100_000 },
+      processor,
+    );
+
+    expect(gif.data.toString('ascii', 0, 6)).toBe('GIF89a');
+    expect(gif.width).toBe(50);
+    expect(gif.height).toBe(100);
+    // Graphic control extensions carry 50cs between frames and 200cs on the last
+    const delays: number[] = [];
+    for (let offset = 0; offset < gif.data.length - 4; offset++) {
+      if (gif.data[offset] === 0x21 && gif.data[offset + 1] === 0xf9) {
+        delays.push(gif.data.readUInt16LE(offset + 4));
+      }
+    }
+    expect(delays).toEqual([50, 50, 200]);
+  });
+
+  it('should shrink frames until the GIF fits the budget', async () => {
+    const frames = Array.from({ length: 4 }, (_, index) => {
+      const image = createSolidImage(300, 300, [0, 0, 0]);
+      for (let pixel = 0; pixel < 300 * 300; pixel++) {
+        image.data.set(
+          [(pixel * 31 + index) % 256, (pixel * 17) % 256, (pixel * 7) % 256],
+          pixel * 4,
+        );
+      }
+      return { time: index, image };
+    });
+
+    const unbounded = await createPreviewGif(
+      frames,
+      { maxDimension: 300, maxBytes: 10_000_000 },
+      processor,
+    );
+    const bounded = await createPreviewGif(
+      frames,
+      { maxDimension: 300, maxBytes: unbounded.data.length / 2 },
+      processor,
+    );
+
+    expect(unbounded.width).toBe(300);
+    expect(bounded.width).toBeLessThan(300);
+    expect(bounded.data.length).toBeLessThanOrEqual(unbounded.data.length / 2);
+  });
+
+  it('should throw when the GIF cannot fit the budget', async () => {
+    await expect(
+      createPreviewGif(createFrames(2), { maxDimension: 100, maxBytes: 10 }, processor),
+    ).rejects.toThrow('Unable to encode GIF within 10 bytes');
+  });
+});
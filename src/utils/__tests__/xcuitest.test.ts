@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import type { RecordedUIStep } from '../ui-recorder.ts';
+import { generateXCUITestSource, swiftStringLiteral } from '../xcuitest/index.ts';
+
+describe('XCUITest generator', () => {
+  it('should escape Swift string literals', () => {
+    expect(swiftStringLiteral('say "hi"\n\\(name)')).toBe('"say \\"hi\\"\\n\\\\(name)"');
+  });
+
+  it('should generate a test method for recorded steps', () => {
+    const steps: RecordedUIStep[] = [
+      {
+        action: 'tap',
+        element: { identifier: 'email-field', label: 'Email', role: 'TextField' },
+        recordedAt: 1,
+      },
+      {
+        action: 'type_text',
+        text: 'me@example.com',
+        element: { identifier: 'email-field', role: 'TextField' },
+        recordedAt: 2,
+      },
+      { action: 'type_text', text: 'secret', recordedAt: 3 },
+      { action: 'tap', element: { label: 'Sign In', role: 'Button' }, recordedAt: 4 },
+      { action: 'tap', element: { label: 'Banner' }, point: { x: 20, y: 40 }, recordedAt: 5 },
+      { action: 'tap', point: { x: 100, y: 200 }, recordedAt: 6 },
+      {
+        action: 'swipe',
+        from: { x: 195, y: 680 },
+        to: { x: 195, y: 320 },
+        element: { identifier: 'list', role: 'Table' },
+        direction: 'up',
+        recordedAt: 7,
+      },
+      {
+        action: 'swipe',
+        from: { x: 10, y: 20 },
+        to: { x: 30, y: 40 },
+        duration: 0.5,
+        recordedAt: 8,
+      },
+      { action: 'gesture', preset: 'swipe-from-left-edge', recordedAt: 9 },
+    ];
+
+    expect(
+      generateXCUITestSource(steps, {
+        className: 'LoginTests',
+        testName: 'testLogin',
+        bundleId: 'com.example.app',
+      }),
+    ).toBe(
+      [
+        'import XCTest',
+        '',
+        'final class LoginTests: XCTestCase {',
+        '    func testLogin() throws {',
+        '        let app = XCUIApplication(bundleIdentifier: "com.example.app")',
+        '        app.launch()',
+        '',
+        '        app.textFields["email-field"].tap()',
+        '        app.textFields["email-field"].tap()',
+        '        app.textFields["email-field"].typeText("me@example.com")',
+        '        app.typeText("secret")',
+        '        app.buttons["Sign In"].tap()',
+        '        app.descendants(matching: .any)["Banner"].tap()',
+        '        app.coordinate(withNormalizedOffset: .zero).withOffset(CGVector(dx: 100, dy: 200)).tap()',
+        '        app.tables["list"].swipeUp()',
+        '        app.coordinate(withNormalizedOffset: .zero).withOffset(CGVector(dx: 10, dy: 20)).press(forDuration: 0.5, thenDragTo: app.coordinate(withNormalizedOffset: .zero).withOffset(CGVector(dx: 30, dy: 40)))',
+        '        app.coordinate(withNormalizedOffset: CGVector(dx: 0.01, dy: 0.5)).press(forDuration: 0.05, thenDragTo: app.coordinate(withNormalizedOffset: CGVector(dx: 0.6, dy: 0.5)))',
+        '    }',
+        '}',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should clear fields before replacing their text', () => {
+    const source = generateXCUITestSource(
+      [
+        {
+          action: 'type_text',
+          text: 'Ada',
+          element: { identifier: 'name', role: 'TextField' },
+          replace: true,
+          submit: true,
+          recordedAt: 1,
+        },
+      ],
+      { className: 'FormTests', testName: 'testName' },
+    );
+
+    expect(source).toContain(
+      [
+        '        app.textFields["name"].tap()',
+        '        app.textFields["name"].typeText(String(repeating: XCUIKeyboardKey.delete.rawValue, count: (app.textFields["name"].value as? String)?.count ?? 0))',
+        '        app.textFields["name"].typeText("Ada\\n")',
+      ].join('\n'),
+    );
+  });
+});
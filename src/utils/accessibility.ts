@@ -0,0 +1,458 @@
+/**
+ * Accessibility Utilities - Parsed AXe accessibility hierarchy
+ *
+ * This utility module fetches the accessibility hierarchy that AXe's `describe-ui`
+ * command reports for a simulator and parses it into a typed element tree. Tools
+ * that need to locate elements (cropping, selectors, assertions) share this parser
+ * so they all interpret the hierarchy exactly as describe_ui does.
+ *
+ * Responsibilities:
+ * - Executing `axe describe-ui` with the bundled AXe binary
+ * - Parsing AXe JSON output into AccessibilityElement trees
+ * - Locating elements by accessibility identifier or label
+ * - Classifying interactive elements and computing tap points
+ * - Querying the tree (role, label, identifier, visibility) and rendering outlines
+ * - Determining the screen bounds (in points) covered by the hierarchy
+ */
+
+import { log } from './logger.ts';
+import { AxeError, DependencyError, SystemError } from './errors.ts';
+import type { CommandExecutor } from './execution/index.ts';
+
+const LOG_PREFIX = '[AXe]';
+
+// Element types (AXe `type`, or `role` without the AX prefix) that accept user interaction
+const INTERACTIVE_TYPES = new Set([
+  'Button',
+  'CheckBox',
+  'Cell',
+  'ComboBox',
+  'Incrementor',
+  'Key',
+  'Link',
+  'MenuItem',
+  'PickerWheel',
+  'PopUpButton',
+  'RadioButton',
+  'SearchField',
+  'SecureTextField',
+  'SegmentedControl',
+  'Slider',
+  'Stepper',
+  'Switch',
+  'Tab',
+  'TextArea',
+  'TextField',
+  'TextView',
+  'Toggle',
+]);
+
+export interface AccessibilityFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface AccessibilityElement {
+  role: string;
+  type?: string;
+  label?: string;
+  identifier?: string;
+  value?: string;
+  frame: AccessibilityFrame;
+  enabled: boolean;
+  selected?: boolean; // Only present when AXe reports it
+  children: AccessibilityElement[];
+}
+
+export interface AccessibilityHierarchy {
+  raw: string;
+  elements: AccessibilityElement[];
+}
+
+export interface AccessibilityQuery {
+  role?: string; // Matches role (with or without the AX prefix) or type, case-insensitive
+  label?: string; // Case-insensitive substring of the label
+  identifier?: RegExp;
+  visibleOnly?: boolean;
+}
+
+export interface AxeCommandHelpers {
+  getAxePath: () => string | null;
+  getBundledAxeEnvironment: () => Record<string, string>;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+function asOptionalString(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value.length > 0 ? value : undefined;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return undefined;
+}
+
+function asNumber(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+function parseFrame(value: unknown): AccessibilityFrame {
+  const frame = asRecord(value);
+  return {
+    x: asNumber(frame?.x),
+    y: asNumber(frame?.y),
+    width: asNumber(frame?.width),
+    height: asNumber(frame?.height),
+  };
+}
+
+function parseElement(value: unknown): AccessibilityElement | null {
+  const node = asRecord(value);
+  if (!node) {
+    return null;
+  }
+
+  const children = Array.isArray(node.children) ? node.children : [];
+  return {
+    role: asOptionalString(node.role) ?? asOptionalString(node.type) ?? 'unknown',
+    type: asOptionalString(node.type),
+    label: asOptionalString(node.AXLabel) ?? asOptionalString(node.label),
+    identifier: asOptionalString(node.AXUniqueId) ?? asOptionalString(node.identifier),
+    value: asOptionalString(node.AXValue) ?? asOptionalString(node.value),
+    frame: parseFrame(node.frame),
+    enabled: node.enabled !== false,
+    selected: typeof node.selected === 'boolean' ? node.selected : undefined,
+    children: children
+      .map(parseElement)
+      .filter((child): child is AccessibilityElement => child !== null),
+  };
+}
+
+/**
+ * Parse AXe describe-ui JSON output into element trees.
+ * Accepts a top-level array of elements, an object with an `elements` array, or a single element.
+ */
+export function parseAccessibilityHierarchy(output: string): AccessibilityElement[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(output);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse accessibility hierarchy: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const wrapper = asRecord(parsed);
+  const roots = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray(wrapper?.elements)
+      ? (wrapper.elements as unknown[])
+      : [parsed];
+
+  return roots
+    .map(parseElement)
+    .filter((element): element is AccessibilityElement => element !== null);
+}
+
+/**
+ * Flatten element trees into a depth-first list
+ */
+export function flattenAccessibilityElements(
+  elements: AccessibilityElement[],
+): AccessibilityElement[] {
+  const result: AccessibilityElement[] = [];
+  const visit = (element: AccessibilityElement): void => {
+    result.push(element);
+    element.children.forEach(visit);
+  };
+  elements.forEach(visit);
+  return result;
+}
+
+/**
+ * Find the first element (depth-first) with the given identifier or label
+ */
+export function findAccessibilityElement(
+  elements: AccessibilityElement[],
+  target: { id?: string; label?: string },
+): AccessibilityElement | undefined {
+  return flattenAccessibilityElements(elements).find((element) =>
+    target.id !== undefined ? element.identifier === target.id : element.label === target.label,
+  );
+}
+
+/**
+ * Whether an element is a control a user can interact with (and has a visible frame)
+ */
+export function isInteractiveElement(element: AccessibilityElement): boolean {
+  if (element.frame.width <= 0 || element.frame.height <= 0) {
+    return false;
+  }
+  const role = element.role.replace(/^AX/, '');
+  return (
+    INTERACTIVE_TYPES.has(role) ||
+    (element.type !== undefined && INTERACTIVE_TYPES.has(element.type))
+  );
+}
+
+/**
+ * Get the center point of an element frame, rounded to whole points
+ */
+export function getElementCenter(element: AccessibilityElement): { x: number; y: number } {
+  return {
+    x: Math.round(element.frame.x + element.frame.width / 2),
+    y: Math.round(element.frame.y + element.frame.height / 2),
+  };
+}
+
+/**
+ * The deepest element whose frame contains the point. Root elements are skipped because
+ * they cover the whole screen; later siblings win since they are drawn on top.
+ */
+export function findElementAtPoint(
+  elements: AccessibilityElement[],
+  point: { x: number; y: number },
+): AccessibilityElement | undefined {
+  const contains = ({ frame }: AccessibilityElement): boolean =>
+    frame.width > 0 &&
+    frame.height > 0 &&
+    point.x >= frame.x &&
+    point.x <= frame.x + frame.width &&
+    point.y >= frame.y &&
+    point.y <= frame.y + frame.height;
+
+  const search = (candidates: AccessibilityElement[]): AccessibilityElement | undefined => {
+    for (const element of [...candidates].reverse()) {
+      if (contains(element)) {
+        return search(element.children) ?? element;
+      }
+    }
+    return undefined;
+  };
+
+  for (const root of elements) {
+    const hit = search(root.children);
+    if (hit) {
+      return hit;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the screen bounds in points, taken as the union of the root element frames
+ */
+export function getScreenFrame(elements: AccessibilityElement[]): AccessibilityFrame | null {
+  const frames = elements.map((element) => element.frame).filter((f) => f.width > 0);
+  if (frames.length === 0) {
+    return null;
+  }
+  const minX = Math.min(...frames.map((f) => f.x));
+  const minY = Math.min(...frames.map((f) => f.y));
+  const maxX = Math.max(...frames.map((f) => f.x + f.width));
+  const maxY = Math.max(...frames.map((f) => f.y + f.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+function normalizeRole(role: string): string {
+  return role.replace(/^AX/, '').toLowerCase();
+}
+
+/**
+ * Whether an element has a non-empty frame that overlaps the screen (when known)
+ */
+export function isElementVisible(
+  element: AccessibilityElement,
+  screen: AccessibilityFrame | null,
+): boolean {
+  const { frame } = element;
+  if (frame.width <= 0 || frame.height <= 0) {
+    return false;
+  }
+  if (!screen) {
+    return true;
+  }
+  return (
+    frame.x < screen.x + screen.width &&
+    frame.x + frame.width > screen.x &&
+    frame.y < screen.y + screen.height &&
+    frame.y + frame.height > screen.y
+  );
+}
+
+/**
+ * Whether an element satisfies the role, label and identifier parts of a query
+ */
+export function matchesAccessibilityQuery(
+  element: AccessibilityElement,
+  query: AccessibilityQuery,
+): boolean {
+  if (query.role !== undefined) {
+    const role = normalizeRole(query.role);
+    const candidates = [element.role, element.type].filter(
+      (value): value is string => value !== undefined,
+    );
+    if (!candidates.some((candidate) => normalizeRole(candidate) === role)) {
+      return false;
+    }
+  }
+  if (
+    query.label !== undefined &&
+    !(element.label ?? '').toLowerCase().includes(query.label.toLowerCase())
+  ) {
+    return false;
+  }
+  if (query.identifier !== undefined && !query.identifier.test(element.identifier ?? '')) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Remove elements (and their subtrees) that are not visible on screen
+ */
+export function pruneInvisibleElements(
+  elements: AccessibilityElement[],
+  screen: AccessibilityFrame | null,
+): AccessibilityElement[] {
+  return elements
+    .filter((element) => isElementVisible(element, screen))
+    .map((element) => ({ ...element, children: pruneInvisibleElements(element.children, screen) }));
+}
+
+/**
+ * Apply a query to a hierarchy. Visibility prunes the tree; role, label and identifier
+ * filters return the matching elements as a flat, depth-first list without children.
+ */
+export function queryAccessibilityElements(
+  elements: AccessibilityElement[],
+  query: AccessibilityQuery,
+): AccessibilityElement[] {
+  const tree = query.visibleOnly
+    ? pruneInvisibleElements(elements, getScreenFrame(elements))
+    : elements;
+  if (query.role === undefined && query.label === undefined && query.identifier === undefined) {
+    return tree;
+  }
+  return flattenAccessibilityElements(tree)
+    .filter((element) => matchesAccessibilityQuery(element, query))
+    .map((element) => ({ ...element, children: [] }));
+}
+
+/**
+ * Describe a single element on one line, e.g. `Button "Sign In" #login (20,100 350x44)`
+ */
+export function describeAccessibilityElement(element: AccessibilityElement): string {
+  const { frame } = element;
+  const parts = [element.type ?? element.role];
+  if (element.label) parts.push(JSON.stringify(element.label));
+  if (element.identifier) parts.push(`#${element.identifier}`);
+  if (element.value) parts.push(`=${JSON.stringify(element.value)}`);
+  parts.push(`(${frame.x},${frame.y} ${frame.width}x${frame.height})`);
+  if (!element.enabled) parts.push('[disabled]');
+  if (element.selected) parts.push('[selected]');
+  return parts.join(' ');
+}
+
+/**
+ * Whether an element is selected. Uses the selected flag when AXe reports one; otherwise
+ * switches, checkboxes and tabs expose their state as a value of "1", "true" or "selected".
+ */
+export function isElementSelected(element: AccessibilityElement): boolean {
+  if (element.selected !== undefined) {
+    return element.selected;
+  }
+  return ['1', 'true', 'selected'].includes(element.value?.toLowerCase() ?? '');
+}
+
+/**
+ * Render element trees as an indented outline, one element per line.
+ * With maxLines, the outline is truncated and ends with a count of the omitted elements.
+ */
+export function formatAccessibilityOutline(
+  elements: AccessibilityElement[],
+  maxLines?: number,
+): string {
+  const lines: string[] = [];
+  const visit = (element: AccessibilityElement, depth: number): void => {
+    lines.push(`${'  '.repeat(depth)}${describeAccessibilityElement(element)}`);
+    element.children.forEach((child) => visit(child, depth + 1));
+  };
+  elements.forEach((element) => visit(element, 0));
+  if (maxLines !== undefined && lines.length > maxLines) {
+    const omitted = lines.length - maxLines;
+    return [
+      ...lines.slice(0, maxLines),
+      `... ${omitted} more element${omitted === 1 ? '' : 's'}`,
+    ].join('\n');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Serialize element trees as compact JSON, leaving out empty child lists
+ */
+export function serializeAccessibilityElements(elements: AccessibilityElement[]): string {
+  return JSON.stringify(elements, (key, value: unknown) =>
+    key === 'children' && Array.isArray(value) && value.length === 0 ? undefined : value,
+  );
+}
+
+/**
+ * Run `axe describe-ui` for a simulator and parse the resulting hierarchy.
+ * Throws DependencyError when AXe is missing, AxeError when the command fails and
+ * SystemError for execution failures, matching the inlined helpers in the UI tools.
+ */
+export async function fetchAccessibilityHierarchy(
+  simulatorId: string,
+  executor: CommandExecutor,
+  axeHelpers: AxeCommandHelpers,
+): Promise<AccessibilityHierarchy> {
+  const axeBinary = axeHelpers.getAxePath();
+  if (!axeBinary) {
+    throw new DependencyError('AXe binary not found');
+  }
+
+  const fullCommand = [axeBinary, 'describe-ui', '--udid', simulatorId];
+  let output: string;
+
+  try {
+    const axeEnv = axeBinary !== 'axe' ? axeHelpers.getBundledAxeEnvironment() : undefined;
+    const result = await executor(fullCommand, `${LOG_PREFIX}: describe-ui`, false, axeEnv);
+
+    if (!result.success) {
+      throw new AxeError(
+        `axe command 'describe-ui' failed.`,
+        'describe-ui',
+        result.error ?? result.output,
+        simulatorId,
+      );
+    }
+
+    if (result.error) {
+      log(
+        'warn',
+        `${LOG_PREFIX}: Command 'describe-ui' produced stderr output but exited successfully. Output: ${result.error}`,
+      );
+    }
+
+    output = result.output.trim();
+  } catch (error) {
+    if (error instanceof AxeError) {
+      throw error;
+    }
+    if (error instanceof Error) {
+      throw new SystemError(`Failed to execute axe command: ${error.message}`, error);
+    }
+    throw new SystemError(`Failed to execute axe command: ${String(error)}`);
+  }
+
+  return { raw: output, elements: parseAccessibilityHierarchy(output) };
+}
@@ -0,0 +1,27 @@
+export {
+  describeAccessibilityElement,
+  fetchAccessibilityHierarchy,
+  findAccessibilityElement,
+  findElementAtPoint,
+  flattenAccessibilityElements,
+  formatAccessibilityOutline,
+  getElementCenter,
+  getScreenFrame,
+  isElementSelected,
+  isElementVisible,
+  isInteractiveElement,
+  matchesAccessibilityQuery,
+  parseAccessibilityHierarchy,
+  pruneInvisibleElements,
+  queryAccessibilityElements,
+  serializeAccessibilityElements,
+} from '../accessibility.ts';
+
+// Types
+export type {
+  AccessibilityElement,
+  AccessibilityFrame,
+  AccessibilityHierarchy,
+  AccessibilityQuery,
+  AxeCommandHelpers,
+} from '../accessibility.ts';
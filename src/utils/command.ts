@@ -10,8 +10,9 @@
  */
 
 import { spawn } from 'child_process';
-import { existsSync } from 'fs';
+import { createWriteStream, existsSync } from 'fs';
 import { tmpdir as osTmpdir } from 'os';
+import type { Writable } from 'stream';
 import { log } from './logger.ts';
 import { FileSystemExecutor } from './FileSystemExecutor.ts';
 import { CommandExecutor, CommandResponse, CommandExecOptions } from './CommandExecutor.ts';
@@ -153,11 +154,32 @@ const defaultFileSystemExecutor: FileSystemExecutor = {
     return content;
   },
 
+  async readFileRange(
+    path: string,
+    offset: number,
+    length: number,
+  ): Promise<{ data: Buffer; size: number }> {
+    const fs = await import('fs/promises');
+    const handle = await fs.open(path, 'r');
+    try {
+      const { size } = await handle.stat();
+      const data = Buffer.alloc(Math.max(0, Math.min(length, size - offset)));
+      const { bytesRead } = await handle.read(data, 0, data.length, offset);
+      return { data: data.subarray(0, bytesRead), size };
+    } finally {
+      await handle.close();
+    }
+  },
+
   async writeFile(path: string, content: string, encoding: BufferEncoding = 'utf8'): Promise<void> {
     const fs = await import('fs/promises');
     await fs.writeFile(path, content, encoding);
   },
 
+  createWriteStream(path: string, options?: { flags?: string }): Writable {
+    return createWriteStream(path, options);
+  },
+
   async cp(source: string, destination: string, options?: { recursive?: boolean }): Promise<void> {
     const fs = await import('fs/promises');
     await fs.cp(source, destination, options);
@@ -0,0 +1,434 @@
+/**
+ * Element Selector - Resolve UI elements by selector instead of raw coordinates
+ *
+ * Interaction tools accept a selector and resolve it against a fresh AXe
+ * `describe-ui` snapshot. Resolution polls until the element exists (and, by
+ * default, is hittable) so actions do not race screen transitions.
+ *
+ * Selector fields combine; every given field must match:
+ *   id         exact accessibility identifier
+ *   label      exact accessibility label
+ *   role       role or type, with or without the AX prefix (e.g. "Button", "AXCell")
+ *   index      0-based position among the matches, depth-first
+ *   ancestors  id/label/role steps, outermost first, that must enclose the element
+ *
+ * Responsibilities:
+ * - Defining the selector schema and target refinement shared by the UI interaction tools
+ * - Matching selectors against an accessibility hierarchy
+ * - Waiting for an element to exist or become hittable, with a timeout
+ * - Waiting for an element to appear, disappear, or reach a value or enabled state
+ */
+
+import * as z from 'zod';
+import type { CommandExecutor } from './execution/index.ts';
+import type {
+  AccessibilityElement,
+  AccessibilityFrame,
+  AxeCommandHelpers,
+} from './accessibility.ts';
+import {
+  describeAccessibilityElement,
+  fetchAccessibilityHierarchy,
+  formatAccessibilityOutline,
+  getElementCenter,
+  getScreenFrame,
+  isElementVisible,
+  matchesAccessibilityQuery,
+} from './accessibility.ts';
+import { ElementResolutionError } from './errors.ts';
+
+export type ElementWaitCondition = 'exists' | 'hittable';
+
+export interface ElementMatcher {
+  id?: string;
+  label?: string;
+  role?: string;
+}
+
+export interface ElementLocator extends ElementMatcher {
+  index?: number;
+  ancestors?: ElementMatcher[];
+}
+
+export interface ElementSelector extends ElementLocator {
+  timeout?: number; // Seconds to wait for the element; 0 checks once
+  waitUntil?: ElementWaitCondition;
+}
+
+export interface ElementWaitOptions {
+  pollInterval?: number; // Milliseconds between snapshots
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+export interface ResolvedElement {
+  element: AccessibilityElement;
+  center: { x: number; y: number };
+  elements: AccessibilityElement[]; // The snapshot the element was resolved in
+}
+
+export type ElementCondition =
+  | { state: 'appear' }
+  | { state: 'disappear' }
+  | { state: 'value'; value: string }
+  | { state: 'enabled'; enabled: boolean };
+
+export interface ElementConditionResult {
+  element?: AccessibilityElement; // The element that satisfied the condition (none for disappear)
+  elements: AccessibilityElement[]; // Hierarchy of the last poll
+  elapsedMs: number;
+  polls: number;
+}
+
+export const DEFAULT_ELEMENT_TIMEOUT = 5;
+const MAX_ELEMENT_TIMEOUT = 60;
+const DEFAULT_POLL_INTERVAL = 250;
+// Hierarchy lines included in resolution errors
+const SUMMARY_MAX_LINES = 40;
+
+const elementMatcherShape = {
+  id: z.string().min(1, { message: 'id must be non-empty' }).optional(),
+  label: z.string().min(1, { message: 'label must be non-empty' }).optional(),
+  role: z.string().min(1, { message: 'role must be non-empty' }).optional(),
+};
+
+function hasMatcherField(matcher: ElementMatcher): boolean {
+  return matcher.id !== undefined || matcher.label !== undefined || matcher.role !== undefined;
+}
+
+const elementLocatorShape = {
+  ...elementMatcherShape,
+  index: z
+    .number()
+    .int()
+    .min(0, { message: 'index must be non-negative' })
+    .optional()
+    .describe('0-based position among matching elements (depth-first).'),
+  ancestors: z
+    .array(
+      z
+        .object(elementMatcherShape)
+        .refine(hasMatcherField, { message: 'Each ancestor needs an id, label or role' }),
+    )
+    .optional()
+    .describe('Enclosing elements, outermost first, e.g. [{"role":"Cell","label":"Wi-Fi"}].'),
+};
+
+// Locates an element without any waiting behaviour, for tools that manage their own polling
+export const elementLocatorSchema = z
+  .object(elementLocatorShape)
+  .refine(hasMatcherField, { message: 'Selector needs at least one of id, label or role' })
+  .describe('Element to find: {id?, label?, role?, index?, ancestors?}.');
+
+export const elementSelectorSchema = z
+  .object({
+    ...elementLocatorShape,
+    timeout: z
+      .number()
+      .min(0, { message: 'timeout must be non-negative' })
+      .max(MAX_ELEMENT_TIMEOUT, { message: `timeout must be at most ${MAX_ELEMENT_TIMEOUT}` })
+      .optional()
+      .describe(`Seconds to wait for the element. Defaults to ${DEFAULT_ELEMENT_TIMEOUT}.`),
+    waitUntil: z
+      .enum(['exists', 'hittable'])
+      .optional()
+      .describe('Wait until the element exists or is hittable (enabled and on screen, default).'),
+  })
+  .refine(hasMatcherField, { message: 'Selector needs at least one of id, label or role' })
+  .describe(
+    'Target an element instead of coordinates: {id?, label?, role?, index?, ancestors?, timeout?, waitUntil?}. Resolved via describe_ui.',
+  );
+
+/**
+ * Refinement for tools that act on a point: require x and y together, or a selector alone
+ */
+export function refinePointTarget(
+  values: { x?: number; y?: number; selector?: ElementSelector },
+  ctx: z.RefinementCtx,
+): void {
+  const hasX = values.x !== undefined;
+  const hasY = values.y !== undefined;
+
+  if (values.selector !== undefined) {
+    if (hasX || hasY) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['selector'],
+        message: 'Provide either a selector or x/y coordinates, not both.',
+      });
+    }
+    return;
+  }
+  if (!hasX) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['x'],
+      message: 'x is required unless a selector is given.',
+    });
+  }
+  if (!hasY) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['y'],
+      message: 'y is required unless a selector is given.',
+    });
+  }
+}
+
+/**
+ * Describe a selector for messages, e.g. `role=Button label="OK" index=1 in [id=list]`
+ */
+export function describeElementSelector(selector: ElementLocator): string {
+  const describeMatcher = (matcher: ElementMatcher): string =>
+    [
+      matcher.role !== undefined ? `role=${matcher.role}` : null,
+      matcher.id !== undefined ? `id=${JSON.stringify(matcher.id)}` : null,
+      matcher.label !== undefined ? `label=${JSON.stringify(matcher.label)}` : null,
+    ]
+      .filter((part): part is string => part !== null)
+      .join(' ');
+
+  let description = describeMatcher(selector);
+  if (selector.index !== undefined) {
+    description += ` index=${selector.index}`;
+  }
+  if (selector.ancestors && selector.ancestors.length > 0) {
+    description += ` in [${selector.ancestors.map(describeMatcher).join(' > ')}]`;
+  }
+  return description;
+}
+
+function matchesElementMatcher(element: AccessibilityElement, matcher: ElementMatcher): boolean {
+  if (matcher.id !== undefined && element.identifier !== matcher.id) {
+    return false;
+  }
+  if (matcher.label !== undefined && element.label !== matcher.label) {
+    return false;
+  }
+  return matcher.role === undefined || matchesAccessibilityQuery(element, { role: matcher.role });
+}
+
+// Ancestor steps must match the chain in order, but not necessarily as direct parents
+function matchesAncestors(chain: AccessibilityElement[], steps: ElementMatcher[]): boolean {
+  let step = 0;
+  for (const ancestor of chain) {
+    if (step < steps.length && matchesElementMatcher(ancestor, steps[step])) {
+      step++;
+    }
+  }
+  return step === steps.length;
+}
+
+/**
+ * Find every element matching a selector's id, label, role and ancestors, depth-first.
+ * The selector's index is not applied.
+ */
+export function findElementsBySelector(
+  elements: AccessibilityElement[],
+  selector: ElementLocator,
+): AccessibilityElement[] {
+  const matches: AccessibilityElement[] = [];
+  const steps = selector.ancestors ?? [];
+  const visit = (element: AccessibilityElement, chain: AccessibilityElement[]): void => {
+    if (matchesElementMatcher(element, selector) && matchesAncestors(chain, steps)) {
+      matches.push(element);
+    }
+    const childChain = [...chain, element];
+    element.children.forEach((child) => visit(child, childChain));
+  };
+  elements.forEach((element) => visit(element, []));
+  return matches;
+}
+
+/**
+ * Whether an element can receive a tap: enabled, visible and centred on screen
+ */
+export function isElementHittable(
+  element: AccessibilityElement,
+  screen: AccessibilityFrame | null,
+): boolean {
+  if (!element.enabled || !isElementVisible(element, screen)) {
+    return false;
+  }
+  if (!screen) {
+    return true;
+  }
+  const center = getElementCenter(element);
+  return (
+    center.x >= screen.x &&
+    center.x <= screen.x + screen.width &&
+    center.y >= screen.y &&
+    center.y <= screen.y + screen.height
+  );
+}
+
+function formatHierarchySummary(elements: AccessibilityElement[]): string {
+  return `Current hierarchy:\n${formatAccessibilityOutline(elements, SUMMARY_MAX_LINES)}`;
+}
+
+interface PollOutcome<T> {
+  result?: T;
+  elements: AccessibilityElement[]; // The last snapshot taken
+  elapsedMs: number;
+  polls: number;
+}
+
+/**
+ * Take snapshots until check returns a result or the timeout expires. At least one
+ * snapshot is always taken; errors thrown by check or AXe end polling immediately.
+ */
+async function pollAccessibilityHierarchy<T>(
+  simulatorId: string,
+  executor: CommandExecutor,
+  axeHelpers: AxeCommandHelpers,
+  timeoutMs: number,
+  options: ElementWaitOptions,
+  check: (elements: AccessibilityElement[]) => T | undefined,
+): Promise<PollOutcome<T>> {
+  const pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+  const sleep =
+    options.sleep ??
+    ((ms: number): Promise<void> => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  const now = options.now ?? Date.now;
+  const startedAt = now();
+  const deadline = startedAt + timeoutMs;
+
+  for (let polls = 1; ; polls++) {
+    const { elements } = await fetchAccessibilityHierarchy(simulatorId, executor, axeHelpers);
+    const result = check(elements);
+    const remaining = deadline - now();
+    if (result !== undefined || remaining <= 0) {
+      return { result, elements, elapsedMs: now() - startedAt, polls };
+    }
+    await sleep(Math.min(pollInterval, remaining));
+  }
+}
+
+/**
+ * Resolve a selector to a single element, polling fresh snapshots until it exists
+ * (or is hittable) or the timeout expires. Throws ElementResolutionError with a
+ * hierarchy summary on timeout or when several elements match without an index;
+ * AXe failures propagate as DependencyError, AxeError or SystemError.
+ */
+export async function resolveElement(
+  simulatorId: string,
+  selector: ElementSelector,
+  executor: CommandExecutor,
+  axeHelpers: AxeCommandHelpers,
+  options: ElementWaitOptions = {},
+): Promise<ResolvedElement> {
+  const timeout = selector.timeout ?? DEFAULT_ELEMENT_TIMEOUT;
+  const until = selector.waitUntil ?? 'hittable';
+  const description = describeElementSelector(selector);
+  let found = false;
+
+  const outcome = await pollAccessibilityHierarchy(
+    simulatorId,
+    executor,
+    axeHelpers,
+    timeout * 1000,
+    options,
+    (elements) => {
+      const screen = getScreenFrame(elements);
+      const matches = findElementsBySelector(elements, selector);
+      const candidates =
+        selector.index !== undefined ? matches.slice(selector.index, selector.index + 1) : matches;
+      const ready =
+        until === 'hittable'
+          ? candidates.filter((element) => isElementHittable(element, screen))
+          : candidates;
+      found = candidates.length > 0;
+
+      if (ready.length > 1) {
+        throw new ElementResolutionError(
+          `Selector ${description} matched ${ready.length} elements; add index or narrow it with role or ancestors.`,
+          `Matches:\n${formatAccessibilityOutline(ready, SUMMARY_MAX_LINES)}`,
+        );
+      }
+      return ready[0];
+    },
+  );
+
+  if (!outcome.result) {
+    throw new ElementResolutionError(
+      found
+        ? `Element ${description} exists but was not hittable (disabled or off screen) within ${timeout}s.`
+        : `No element matching ${description} found within ${timeout}s.`,
+      formatHierarchySummary(outcome.elements),
+    );
+  }
+  const element = outcome.result;
+  return { element, center: getElementCenter(element), elements: outcome.elements };
+}
+
+function describeElementCondition(condition: ElementCondition): string {
+  switch (condition.state) {
+    case 'appear':
+      return 'appear';
+    case 'disappear':
+      return 'disappear';
+    case 'value':
+      return `have value ${JSON.stringify(condition.value)}`;
+    case 'enabled':
+      return condition.enabled ? 'become enabled' : 'become disabled';
+  }
+}
+
+/**
+ * Poll until the located element satisfies a condition. Without an index the first
+ * match (depth-first) is observed; disappear requires that nothing matches at all.
+ * Throws ElementResolutionError with the last hierarchy summary on timeout.
+ */
+export async function waitForElementCondition(
+  simulatorId: string,
+  locator: ElementLocator,
+  condition: ElementCondition,
+  timeout: number,
+  executor: CommandExecutor,
+  axeHelpers: AxeCommandHelpers,
+  options: ElementWaitOptions = {},
+): Promise<ElementConditionResult> {
+  let observed: AccessibilityElement | undefined;
+
+  const outcome = await pollAccessibilityHierarchy(
+    simulatorId,
+    executor,
+    axeHelpers,
+    timeout * 1000,
+    options,
+    (elements): { element?: AccessibilityElement } | undefined => {
+      const matches = findElementsBySelector(elements, locator);
+      observed = locator.index !== undefined ? matches[locator.index] : matches[0];
+
+      switch (condition.state) {
+        case 'appear':
+          return observed ? { element: observed } : undefined;
+        case 'disappear':
+          return observed ? undefined : {};
+        case 'value':
+          // The parser drops empty values, so a missing value is an empty one
+          return observed && (observed.value ?? '') === condition.value
+            ? { element: observed }
+            : undefined;
+        case 'enabled':
+          return observed?.enabled === condition.enabled ? { element: observed } : undefined;
+      }
+    },
+  );
+
+  if (!outcome.result) {
+    const lastState = observed
+      ? ` Last match: ${describeAccessibilityElement(observed)}.`
+      : ' No element matched.';
+    throw new ElementResolutionError(
+      `Timed out after ${timeout}s waiting for element ${describeElementSelector(locator)} to ${describeElementCondition(condition)}.${condition.state === 'disappear' ? '' : lastState}`,
+      formatHierarchySummary(outcome.elements),
+    );
+  }
+  return {
+    element: outcome.result.element,
+    elements: outcome.elements,
+    elapsedMs: outcome.elapsedMs,
+    polls: outcome.polls,
+  };
+}
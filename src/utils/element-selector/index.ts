@@ -0,0 +1,23 @@
+export {
+  DEFAULT_ELEMENT_TIMEOUT,
+  describeElementSelector,
+  elementLocatorSchema,
+  elementSelectorSchema,
+  findElementsBySelector,
+  isElementHittable,
+  refinePointTarget,
+  resolveElement,
+  waitForElementCondition,
+} from '../element-selector.ts';
+
+// Types
+export type {
+  ElementCondition,
+  ElementConditionResult,
+  ElementLocator,
+  ElementMatcher,
+  ElementSelector,
+  ElementWaitCondition,
+  ElementWaitOptions,
+  ResolvedElement,
+} from '../element-selector.ts';
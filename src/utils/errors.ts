@@ -16,6 +16,7 @@ import { ToolResponse } from '../types/common.ts';
  *   - ConfigurationError: Application configuration problems
  *   - SimulatorError: iOS simulator-specific failures
  *   - AxeError: axe-specific errors
+ *   - ElementResolutionError: UI element selectors that match nothing usable
  *
  * The structured hierarchy allows error consumers to handle errors with the
  * appropriate level of specificity using instanceof checks or catch clauses.
@@ -107,6 +108,20 @@ export class AxeError extends XcodeBuildMCPError {
   }
 }
 
+/**
+ * Error thrown when an element selector cannot be resolved to a single usable element
+ */
+export class ElementResolutionError extends XcodeBuildMCPError {
+  constructor(
+    message: string,
+    public details?: string, // Summary of the hierarchy that was searched
+  ) {
+    super(message);
+    this.name = 'ElementResolutionError';
+    Object.setPrototypeOf(this, ElementResolutionError.prototype);
+  }
+}
+
 // Helper to create a standard error response
 export function createErrorResponse(message: string, details?: string): ToolResponse {
   const detailText = details ? `\nDetails: ${details}` : '';
@@ -0,0 +1,184 @@
+/**
+ * GIF Encoder - Minimal animated GIF encoder
+ *
+ * Writes RGBA frames as a looping GIF89a animation without native dependencies.
+ * Every frame is mapped onto one fixed 252-color palette (6 red x 7 green x 6 blue
+ * levels) without dithering, so no per-animation quantization pass is needed; the
+ * result is meant for previewing simulator recordings, not for faithful color.
+ * Alpha is ignored.
+ *
+ * Responsibilities:
+ * - Mapping RGBA pixels onto the fixed palette
+ * - LZW-compressing palette indices into GIF sub-blocks
+ * - Writing the header, looping extension and one image per frame
+ */
+
+import type { RawImage } from './ImageProcessor.ts';
+
+const RED_LEVELS = 6;
+const GREEN_LEVELS = 7;
+const BLUE_LEVELS = 6;
+const MIN_CODE_SIZE = 8;
+const MAX_CODE = 4096;
+const MAX_SUB_BLOCK = 255;
+const GIF_MAX_DIMENSION = 65535;
+
+export interface GifFrame {
+  image: RawImage;
+  delayMs: number;
+}
+
+function level(value: number, levels: number): number {
+  return Math.round((value * (levels - 1)) / 255);
+}
+
+function buildPalette(): Buffer {
+  // 256 entries; the last four are unused and stay black
+  const palette = Buffer.alloc(256 * 3);
+  for (let r = 0; r < RED_LEVELS; r++) {
+    for (let g = 0; g < GREEN_LEVELS; g++) {
+      for (let b = 0; b < BLUE_LEVELS; b++) {
+        const index = (r * GREEN_LEVELS + g) * BLUE_LEVELS + b;
+        palette[index * 3] = Math.round((r * 255) / (RED_LEVELS - 1));
+        palette[index * 3 + 1] = Math.round((g * 255) / (GREEN_LEVELS - 1));
+        palette[index * 3 + 2] = Math.round((b * 255) / (BLUE_LEVELS - 1));
+      }
+    }
+  }
+  return palette;
+}
+
+function toPaletteIndices(image: RawImage): Uint8Array {
+  const indices = new Uint8Array(image.width * image.height);
+  for (let pixel = 0; pixel < indices.length; pixel++) {
+    const offset = pixel * 4;
+    indices[pixel] =
+      (level(image.data[offset], RED_LEVELS) * GREEN_LEVELS +
+        level(image.data[offset + 1], GREEN_LEVELS)) *
+        BLUE_LEVELS +
+      level(image.data[offset + 2], BLUE_LEVELS);
+  }
+  return indices;
+}
+
+/**
+ * LZW-compress palette indices with GIF's variable-width codes, packed LSB first.
+ * The code table is reset with a clear code whenever it fills up.
+ */
+function compress(indices: Uint8Array): Buffer {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  const bytes: number[] = [];
+  let accumulator = 0;
+  let bitCount = 0;
+  const write = (code: number, size: number): void => {
+    accumulator |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      bytes.push(accumulator & 0xff);
+      accumulator >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  let table = new Map<number, number>();
+  let nextCode = endCode + 1;
+  let codeSize = MIN_CODE_SIZE + 1;
+  write(clearCode, codeSize);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const next = indices[i];
+    const key = (prefix << 8) | next;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    write(prefix, codeSize);
+    if (nextCode === MAX_CODE) {
+      write(clearCode, codeSize);
+      table = new Map();
+      nextCode = endCode + 1;
+      codeSize = MIN_CODE_SIZE + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = next;
+  }
+  write(prefix, codeSize);
+  write(endCode, codeSize);
+  if (bitCount > 0) {
+    bytes.push(accumulator & 0xff);
+  }
+  return Buffer.from(bytes);
+}
+
+function toSubBlocks(data: Buffer): Buffer {
+  const parts: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += MAX_SUB_BLOCK) {
+    const block = data.subarray(offset, offset + MAX_SUB_BLOCK);
+    parts.push(Buffer.from([block.length]), block);
+  }
+  parts.push(Buffer.from([0]));
+  return Buffer.concat(parts);
+}
+
+function uint16(value: number): Buffer {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16LE(value);
+  return buffer;
+}
+
+/**
+ * Encode frames of equal size as an endlessly looping GIF. Delays are rounded to
+ * GIF's 10ms resolution.
+ */
+export function encodeAnimatedGif(frames: GifFrame[]): Buffer {
+  if (frames.length === 0) {
+    throw new Error('GIF needs at least one frame');
+  }
+  const { width, height } = frames[0].image;
+  if (width > GIF_MAX_DIMENSION || height > GIF_MAX_DIMENSION) {
+    throw new Error(`GIF dimensions ${width}x${height} exceed ${GIF_MAX_DIMENSION}`);
+  }
+  if (frames.some((frame) => frame.image.width !== width || frame.image.height !== height)) {
+    throw new Error('All GIF frames must have the same dimensions');
+  }
+
+  const parts: Buffer[] = [
+    Buffer.from('GIF89a', 'ascii'),
+    uint16(width),
+    uint16(height),
+    // Global color table of 2^(7+1) entries, 8 bits per primary
+    Buffer.from([0xf7, 0, 0]),
+    buildPalette(),
+    // NETSCAPE2.0 application extension: loop forever
+    Buffer.from([0x21, 0xff, 0x0b]),
+    Buffer.from('NETSCAPE2.0', 'ascii'),
+    Buffer.from([0x03, 0x01, 0x00, 0x00, 0x00]),
+  ];
+
+  for (const frame of frames) {
+    const delay = Math.max(0, Math.min(0xffff, Math.round(frame.delayMs / 10)));
+    parts.push(
+      // Graphic control extension: leave the frame in place, no transparency
+      Buffer.from([0x21, 0xf9, 0x04, 0x04]),
+      uint16(delay),
+      Buffer.from([0x00, 0x00]),
+      // Image descriptor covering the whole canvas, no local color table
+      Buffer.from([0x2c]),
+      uint16(0),
+      uint16(0),
+      uint16(width),
+      uint16(height),
+      Buffer.from([0x00, MIN_CODE_SIZE]),
+      toSubBlocks(compress(toPaletteIndices(frame.image))),
+    );
+  }
+
+  parts.push(Buffer.from([0x3b]));
+  return Buffer.concat(parts);
+}
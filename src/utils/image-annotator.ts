@@ -0,0 +1,164 @@
+/**
+ * Image Annotator - Draw numbered bounding boxes onto RGBA images
+ *
+ * This utility module renders annotation overlays (outlined boxes with numbered
+ * badges) directly into RawImage pixel buffers. It uses a built-in bitmap font
+ * so annotations render identically on every host without font files.
+ *
+ * Responsibilities:
+ * - Drawing outlined rectangles clamped to the image bounds
+ * - Rendering numeric badges and short labels with a scalable 3x5 bitmap font
+ * - Cycling through a palette so neighbouring boxes stay distinguishable
+ */
+
+import type { RawImage } from './ImageProcessor.ts';
+
+export interface ImageAnnotation {
+  label: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type Color = [number, number, number];
+
+const PALETTE: Color[] = [
+  [230, 25, 75],
+  [0, 130, 200],
+  [60, 180, 75],
+  [245, 130, 48],
+  [145, 30, 180],
+  [0, 150, 150],
+];
+const TEXT_COLOR: Color = [255, 255, 255];
+const LABEL_COLOR: Color = [32, 32, 32];
+
+// 3x5 bitmap glyphs for digits and the characters of timestamps, one string per row
+const GLYPH_WIDTH = 3;
+const GLYPH_HEIGHT = 5;
+const GLYPHS: Record<string, string[]> = {
+  '0': ['111', '101', '101', '101', '111'],
+  '1': ['010', '110', '010', '010', '111'],
+  '2': ['111', '001', '111', '100', '111'],
+  '3': ['111', '001', '111', '001', '111'],
+  '4': ['101', '101', '111', '001', '001'],
+  '5': ['111', '100', '111', '001', '111'],
+  '6': ['111', '100', '111', '101', '111'],
+  '7': ['111', '001', '001', '001', '001'],
+  '8': ['111', '101', '111', '101', '111'],
+  '9': ['111', '101', '111', '001', '111'],
+  '.': ['000', '000', '000', '000', '010'],
+  ':': ['000', '010', '000', '010', '000'],
+  s: ['011', '100', '010', '001', '110'],
+  ' ': ['000', '000', '000', '000', '000'],
+};
+
+function fillRect(
+  image: RawImage,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  color: Color,
+): void {
+  const left = Math.max(0, Math.round(x));
+  const top = Math.max(0, Math.round(y));
+  const right = Math.min(image.width, Math.round(x + width));
+  const bottom = Math.min(image.height, Math.round(y + height));
+  for (let row = top; row < bottom; row++) {
+    for (let col = left; col < right; col++) {
+      image.data.set([color[0], color[1], color[2], 255], (row * image.width + col) * 4);
+    }
+  }
+}
+
+function strokeRect(image: RawImage, box: ImageAnnotation, thickness: number, color: Color): void {
+  fillRect(image, box.x, box.y, box.width, thickness, color);
+  fillRect(image, box.x, box.y + box.height - thickness, box.width, thickness, color);
+  fillRect(image, box.x, box.y, thickness, box.height, color);
+  fillRect(image, box.x + box.width - thickness, box.y, thickness, box.height, color);
+}
+
+/**
+ * Draw text on a filled badge whose top-left corner is at (x, y), kept fully inside the
+ * image. Characters without a glyph are skipped.
+ */
+function drawBadge(
+  image: RawImage,
+  text: string,
+  x: number,
+  y: number,
+  scale: number,
+  color: Color,
+): void {
+  const glyphs = text
+    .split('')
+    .map((character) => GLYPHS[character])
+    .filter((glyph) => glyph !== undefined);
+  const width = (glyphs.length * (GLYPH_WIDTH + 1) + 1) * scale;
+  const height = (GLYPH_HEIGHT + 2) * scale;
+  const left = Math.min(Math.max(0, Math.round(x)), Math.max(0, image.width - width));
+  const top = Math.min(Math.max(0, Math.round(y)), Math.max(0, image.height - height));
+
+  fillRect(image, left, top, width, height, color);
+  glyphs.forEach((glyph, index) => {
+    const glyphLeft = left + (index * (GLYPH_WIDTH + 1) + 1) * scale;
+    glyph.forEach((row, rowIndex) => {
+      for (let col = 0; col < GLYPH_WIDTH; col++) {
+        if (row[col] === '1') {
+          fillRect(
+            image,
+            glyphLeft + col * scale,
+            top + (rowIndex + 1) * scale,
+            scale,
+            scale,
+            TEXT_COLOR,
+          );
+        }
+      }
+    });
+  });
+}
+
+/**
+ * Draw numbered, outlined boxes onto a copy of an image.
+ * Box coordinates are in pixels; `scale` is the size in pixels of one font pixel.
+ */
+export function drawAnnotations(
+  image: RawImage,
+  annotations: ImageAnnotation[],
+  scale: number,
+): RawImage {
+  const output: RawImage = { ...image, data: new Uint8Array(image.data) };
+  const fontScale = Math.max(1, Math.round(scale));
+  const thickness = Math.max(1, Math.round(fontScale / 2));
+
+  annotations.forEach((box, index) => {
+    strokeRect(output, box, thickness, PALETTE[index % PALETTE.length]);
+  });
+  // Badges go on top of every outline so overlapping boxes never hide a number
+  annotations.forEach((box, index) => {
+    // Anchor at the box's top-left corner
+    drawBadge(output, String(box.label), box.x, box.y, fontScale, PALETTE[index % PALETTE.length]);
+  });
+
+  return output;
+}
+
+/**
+ * Draw a short label (digits, `.`, `:`, `s` and spaces, e.g. a timestamp like `1.25s`)
+ * in white on a dark badge at (x, y) onto a copy of an image. `scale` is the size in
+ * pixels of one font pixel.
+ */
+export function drawLabel(
+  image: RawImage,
+  text: string,
+  x: number,
+  y: number,
+  scale: number,
+): RawImage {
+  const output: RawImage = { ...image, data: new Uint8Array(image.data) };
+  drawBadge(output, text, x, y, Math.max(1, Math.round(scale)), LABEL_COLOR);
+  return output;
+}
@@ -0,0 +1,220 @@
+/**
+ * Image Diff - Pixel-level comparison of two RGBA images
+ *
+ * This utility module compares a captured image with a baseline and reports how
+ * much of it changed. Pixels are compared in YIQ color space (the perceptual
+ * metric popularised by pixelmatch) after blending alpha over white, so minor
+ * anti-aliasing noise can be tolerated with a small threshold.
+ *
+ * Responsibilities:
+ * - Counting mismatched pixels, honouring ignore regions
+ * - Rendering a diff image (faded baseline with changed pixels highlighted)
+ * - Grouping nearby changes into bounding boxes
+ */
+
+import type { RawImage } from './ImageProcessor.ts';
+
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageDiffRegion extends ImageRegion {
+  pixels: number;
+}
+
+export interface ImageDiffOptions {
+  threshold?: number; // 0-1 per-pixel color tolerance, 0 requires an exact match
+  ignoreRegions?: ImageRegion[]; // In pixels; changes inside these are not counted
+}
+
+export interface ImageDiffResult {
+  width: number;
+  height: number;
+  mismatchedPixels: number;
+  comparedPixels: number;
+  mismatchPercentage: number;
+  diffImage: RawImage;
+  regions: ImageDiffRegion[];
+}
+
+const DEFAULT_THRESHOLD = 0.1;
+// Maximum possible YIQ delta between two colors
+const MAX_YIQ_DELTA = 35215;
+// Changes in neighbouring cells of this size are merged into one region
+const REGION_CELL_SIZE = 16;
+// Opaque RGBA pixels written into the diff image
+const DIFF_COLOR = Uint8Array.of(255, 0, 0, 255);
+const IGNORED_COLOR = Uint8Array.of(120, 160, 255, 255);
+const FADED_BASELINE_ALPHA = 0.1;
+
+function blendOverWhite(value: number, alpha: number): number {
+  return 255 + (value - 255) * alpha;
+}
+
+function yiqDelta(a: Uint8Array, b: Uint8Array, offset: number): number {
+  const alphaA = a[offset + 3] / 255;
+  const alphaB = b[offset + 3] / 255;
+  const r1 = blendOverWhite(a[offset], alphaA);
+  const g1 = blendOverWhite(a[offset + 1], alphaA);
+  const b1 = blendOverWhite(a[offset + 2], alphaA);
+  const r2 = blendOverWhite(b[offset], alphaB);
+  const g2 = blendOverWhite(b[offset + 1], alphaB);
+  const b2 = blendOverWhite(b[offset + 2], alphaB);
+
+  const y = (r1 - r2) * 0.29889531 + (g1 - g2) * 0.58662247 + (b1 - b2) * 0.11448223;
+  const i = (r1 - r2) * 0.59597799 - (g1 - g2) * 0.2741761 - (b1 - b2) * 0.32180189;
+  const q = (r1 - r2) * 0.21147017 - (g1 - g2) * 0.52261711 + (b1 - b2) * 0.31114694;
+  return 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+}
+
+function buildIgnoreMask(width: number, height: number, regions: ImageRegion[]): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  for (const region of regions) {
+    const left = Math.max(0, Math.floor(region.x));
+    const top = Math.max(0, Math.floor(region.y));
+    const right = Math.min(width, Math.ceil(region.x + region.width));
+    const bottom = Math.min(height, Math.ceil(region.y + region.height));
+    for (let y = top; y < bottom; y++) {
+      mask.fill(1, y * width + left, y * width + Math.max(left, right));
+    }
+  }
+  return mask;
+}
+
+interface CellBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  pixels: number;
+}
+
+/**
+ * Group mismatched pixels into regions: pixels are bucketed into grid cells and
+ * touching cells (including diagonals) are flood-filled into one bounding box.
+ */
+function findChangedRegions(cells: Map<number, CellBounds>, columns: number): ImageDiffRegion[] {
+  const visited = new Set<number>();
+  const regions: ImageDiffRegion[] = [];
+
+  for (const start of cells.keys()) {
+    if (visited.has(start)) continue;
+    visited.add(start);
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    let pixels = 0;
+    const stack = [start];
+    while (stack.length > 0) {
+      const cellIndex = stack.pop() as number;
+      const bounds = cells.get(cellIndex) as CellBounds;
+      minX = Math.min(minX, bounds.minX);
+      minY = Math.min(minY, bounds.minY);
+      maxX = Math.max(maxX, bounds.maxX);
+      maxY = Math.max(maxY, bounds.maxY);
+      pixels += bounds.pixels;
+
+      const column = cellIndex % columns;
+      const row = Math.floor(cellIndex / columns);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const neighbourColumn = column + dx;
+          if (neighbourColumn < 0 || neighbourColumn >= columns) continue;
+          const neighbour = (row + dy) * columns + neighbourColumn;
+          if (cells.has(neighbour) && !visited.has(neighbour)) {
+            visited.add(neighbour);
+            stack.push(neighbour);
+          }
+        }
+      }
+    }
+
+    regions.push({ x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1, pixels });
+  }
+
+  return regions.sort((a, b) => a.y - b.y || a.x - b.x);
+}
+
+/**
+ * Compare two images of identical dimensions pixel by pixel.
+ * Throws when the dimensions differ; callers decide whether to resample first.
+ */
+export function compareImages(
+  actual: RawImage,
+  baseline: RawImage,
+  options: ImageDiffOptions = {},
+): ImageDiffResult {
+  const { width, height } = baseline;
+  if (actual.width !== width || actual.height !== height) {
+    throw new Error(
+      `Image dimensions differ: actual ${actual.width}x${actual.height}, baseline ${width}x${height}`,
+    );
+  }
+
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const maxDelta = MAX_YIQ_DELTA * threshold * threshold;
+  const ignoreMask = buildIgnoreMask(width, height, options.ignoreRegions ?? []);
+  const diffData = new Uint8Array(width * height * 4);
+  const columns = Math.ceil(width / REGION_CELL_SIZE);
+  const cells = new Map<number, CellBounds>();
+  let mismatchedPixels = 0;
+  let comparedPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+      const offset = pixel * 4;
+
+      if (ignoreMask[pixel]) {
+        diffData.set(IGNORED_COLOR, offset);
+        continue;
+      }
+      comparedPixels++;
+
+      if (yiqDelta(actual.data, baseline.data, offset) > maxDelta) {
+        mismatchedPixels++;
+        diffData.set(DIFF_COLOR, offset);
+
+        const cellIndex =
+          Math.floor(y / REGION_CELL_SIZE) * columns + Math.floor(x / REGION_CELL_SIZE);
+        const cell = cells.get(cellIndex);
+        if (cell) {
+          cell.minX = Math.min(cell.minX, x);
+          cell.minY = Math.min(cell.minY, y);
+          cell.maxX = Math.max(cell.maxX, x);
+          cell.maxY = Math.max(cell.maxY, y);
+          cell.pixels++;
+        } else {
+          cells.set(cellIndex, { minX: x, minY: y, maxX: x, maxY: y, pixels: 1 });
+        }
+      } else {
+        // Faded grayscale baseline gives context around the highlighted changes
+        const alpha = baseline.data[offset + 3] / 255;
+        const luma =
+          blendOverWhite(baseline.data[offset], alpha) * 0.29889531 +
+          blendOverWhite(baseline.data[offset + 1], alpha) * 0.58662247 +
+          blendOverWhite(baseline.data[offset + 2], alpha) * 0.11448223;
+        const faded = Math.round(255 + (luma - 255) * FADED_BASELINE_ALPHA);
+        diffData[offset] = faded;
+        diffData[offset + 1] = faded;
+        diffData[offset + 2] = faded;
+        diffData[offset + 3] = 255;
+      }
+    }
+  }
+
+  return {
+    width,
+    height,
+    mismatchedPixels,
+    comparedPixels,
+    mismatchPercentage: comparedPixels === 0 ? 0 : (mismatchedPixels / comparedPixels) * 100,
+    diffImage: { width, height, data: diffData },
+    regions: findChangedRegions(cells, columns),
+  };
+}
@@ -0,0 +1,313 @@
+/**
+ * Image Processor - In-process image decoding, resampling and encoding
+ *
+ * This utility module provides a pure JavaScript image pipeline used to prepare
+ * simulator screenshots for LLM consumption. It avoids shelling out to platform
+ * tools so results are identical on every host and can be unit tested anywhere.
+ *
+ * Responsibilities:
+ * - Decoding PNG and JPEG images into RGBA pixel buffers
+ * - Downscaling images with a Lanczos3 resampling filter
+ * - Encoding RGBA pixels as JPEG, PNG or lossless WebP
+ */
+
+import { PNG } from 'pngjs';
+import jpeg from 'jpeg-js';
+import type {
+  EncodedImage,
+  ImageBudgetOptions,
+  ImageEncodeOptions,
+  ImageFormat,
+  ImageProcessor,
+  RawImage,
+} from './ImageProcessor.ts';
+import { encodeWebPLossless } from './webp-encoder.ts';
+
+// Re-export types for convenience
+export type {
+  EncodedImage,
+  ImageBudgetOptions,
+  ImageEncodeOptions,
+  ImageFormat,
+  ImageProcessor,
+  RawImage,
+} from './ImageProcessor.ts';
+
+const DEFAULT_JPEG_QUALITY = 75;
+const LANCZOS_LOBES = 3;
+
+// Byte budget search: lossy quality is stepped down first, then the image is shrunk
+const BUDGET_QUALITY_STEPS = [60, 45, 30];
+const BUDGET_DIMENSION_FACTOR = 0.75;
+const BUDGET_MIN_DIMENSION = 64;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const JPEG_SIGNATURE = Buffer.from([0xff, 0xd8, 0xff]);
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+/**
+ * Get the MIME type for an encoded image format
+ */
+export function getImageMimeType(format: ImageFormat): string {
+  return MIME_TYPES[format];
+}
+
+function decodeImage(buffer: Buffer): RawImage {
+  if (buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    const png = PNG.sync.read(buffer);
+    return { width: png.width, height: png.height, data: new Uint8Array(png.data) };
+  }
+  if (buffer.subarray(0, JPEG_SIGNATURE.length).equals(JPEG_SIGNATURE)) {
+    const decoded = jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true });
+    return { width: decoded.width, height: decoded.height, data: decoded.data };
+  }
+  throw new Error('Unsupported image data: expected PNG or JPEG');
+}
+
+function lanczos(x: number): number {
+  if (x === 0) return 1;
+  if (x <= -LANCZOS_LOBES || x >= LANCZOS_LOBES) return 0;
+  const px = Math.PI * x;
+  return (LANCZOS_LOBES * Math.sin(px) * Math.sin(px / LANCZOS_LOBES)) / (px * px);
+}
+
+interface Contribution {
+  start: number;
+  weights: Float32Array;
+}
+
+/**
+ * Precompute normalised filter weights for each output sample along one axis.
+ * The kernel is widened when downscaling so every source pixel contributes.
+ */
+function computeContributions(srcSize: number, dstSize: number): Contribution[] {
+  const scale = srcSize / dstSize;
+  const filterScale = Math.max(scale, 1);
+  const support = LANCZOS_LOBES * filterScale;
+  const contributions: Contribution[] = [];
+
+  for (let i = 0; i < dstSize; i++) {
+    const center = (i + 0.5) * scale;
+    const start = Math.max(0, Math.floor(center - support));
+    const end = Math.min(srcSize, Math.ceil(center + support));
+    const weights = new Float32Array(end - start);
+    let total = 0;
+    for (let j = start; j < end; j++) {
+      const weight = lanczos((j + 0.5 - center) / filterScale);
+      weights[j - start] = weight;
+      total += weight;
+    }
+    if (total !== 0) {
+      for (let k = 0; k < weights.length; k++) weights[k] /= total;
+    }
+    contributions.push({ start, weights });
+  }
+
+  return contributions;
+}
+
+function clampByte(value: number): number {
+  return value <= 0 ? 0 : value >= 255 ? 255 : Math.round(value);
+}
+
+/**
+ * Resample an image to exact dimensions using a separable Lanczos3 filter
+ */
+export function resampleImage(image: RawImage, width: number, height: number): RawImage {
+  const { width: srcWidth, height: srcHeight, data } = image;
+  if (width === srcWidth && height === srcHeight) {
+    return { width, height, data: new Uint8Array(data) };
+  }
+
+  // Horizontal pass into a float buffer, then vertical pass into bytes
+  const horizontal = computeContributions(srcWidth, width);
+  const intermediate = new Float32Array(width * srcHeight * 4);
+  for (let y = 0; y < srcHeight; y++) {
+    const rowOffset = y * srcWidth * 4;
+    for (let x = 0; x < width; x++) {
+      const { start, weights } = horizontal[x];
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const offset = rowOffset + (start + k) * 4;
+        const weight = weights[k];
+        r += data[offset] * weight;
+        g += data[offset + 1] * weight;
+        b += data[offset + 2] * weight;
+        a += data[offset + 3] * weight;
+      }
+      const out = (y * width + x) * 4;
+      intermediate[out] = r;
+      intermediate[out + 1] = g;
+      intermediate[out + 2] = b;
+      intermediate[out + 3] = a;
+    }
+  }
+
+  const vertical = computeContributions(srcHeight, height);
+  const output = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const { start, weights } = vertical[y];
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const offset = ((start + k) * width + x) * 4;
+        const weight = weights[k];
+        r += intermediate[offset] * weight;
+        g += intermediate[offset + 1] * weight;
+        b += intermediate[offset + 2] * weight;
+        a += intermediate[offset + 3] * weight;
+      }
+      const out = (y * width + x) * 4;
+      output[out] = clampByte(r);
+      output[out + 1] = clampByte(g);
+      output[out + 2] = clampByte(b);
+      output[out + 3] = clampByte(a);
+    }
+  }
+
+  return { width, height, data: output };
+}
+
+/**
+ * Extract a rectangular region (in pixels) from an image.
+ * The region is clamped to the image bounds; an empty result throws.
+ */
+export function cropImage(
+  image: RawImage,
+  region: { x: number; y: number; width: number; height: number },
+): RawImage {
+  const left = Math.max(0, Math.floor(region.x));
+  const top = Math.max(0, Math.floor(region.y));
+  const right = Math.min(image.width, Math.ceil(region.x + region.width));
+  const bottom = Math.min(image.height, Math.ceil(region.y + region.height));
+  if (right <= left || bottom <= top) {
+    throw new Error(
+      `Crop region (${region.x}, ${region.y}, ${region.width}x${region.height}) is outside the ${image.width}x${image.height} image`,
+    );
+  }
+
+  const width = right - left;
+  const height = bottom - top;
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const sourceStart = ((top + y) * image.width + left) * 4;
+    data.set(image.data.subarray(sourceStart, sourceStart + width * 4), y * width * 4);
+  }
+  return { width, height, data };
+}
+
+/**
+ * Downscale an image so its longest side is at most maxDimension, preserving aspect ratio.
+ * Images that already fit are returned unchanged.
+ */
+function fitImage(image: RawImage, maxDimension: number): RawImage {
+  const longestSide = Math.max(image.width, image.height);
+  if (longestSide <= maxDimension) {
+    return image;
+  }
+  const scale = maxDimension / longestSide;
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  return resampleImage(image, width, height);
+}
+
+function encodeImage(image: RawImage, options: ImageEncodeOptions): Buffer {
+  switch (options.format) {
+    case 'jpeg': {
+      const encoded = jpeg.encode(
+        { width: image.width, height: image.height, data: image.data },
+        options.quality ?? DEFAULT_JPEG_QUALITY,
+      );
+      return encoded.data;
+    }
+    case 'png': {
+      const png = new PNG({ width: image.width, height: image.height });
+      png.data = Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength);
+      return PNG.sync.write(png);
+    }
+    case 'webp':
+      return encodeWebPLossless(image);
+  }
+}
+
+/**
+ * Resize and encode an image, shrinking it until it fits within an optional byte budget.
+ * For lossy formats each size is tried at the requested quality and then at lower
+ * qualities before the next, smaller size is attempted. Throws when the image cannot
+ * fit even at the smallest size so callers never fall back to an unbounded image.
+ */
+export async function encodeImageWithinBudget(
+  processor: ImageProcessor,
+  image: RawImage,
+  options: ImageBudgetOptions,
+): Promise<EncodedImage> {
+  const { format, maxDimension, maxBytes } = options;
+  const lossy = format === 'jpeg';
+  const startQuality = lossy ? (options.quality ?? DEFAULT_JPEG_QUALITY) : undefined;
+  const qualities =
+    startQuality === undefined
+      ? [undefined]
+      : [startQuality, ...BUDGET_QUALITY_STEPS.filter((quality) => quality < startQuality)];
+
+  let dimension = maxDimension;
+  let smallest: EncodedImage | undefined;
+  for (;;) {
+    const resized = await processor.resize(image, dimension);
+    for (const quality of qualities) {
+      const data = await processor.encode(resized, { format, quality });
+      const encoded = { data, width: resized.width, height: resized.height, format, quality };
+      if (maxBytes === undefined || data.length <= maxBytes) {
+        return encoded;
+      }
+      smallest = encoded;
+    }
+
+    const longestSide = Math.max(resized.width, resized.height);
+    const nextDimension = Math.floor(Math.min(dimension, longestSide) * BUDGET_DIMENSION_FACTOR);
+    if (nextDimension < BUDGET_MIN_DIMENSION) {
+      break;
+    }
+    dimension = nextDimension;
+  }
+
+  const qualityText = smallest?.quality !== undefined ? ` at quality ${smallest.quality}` : '';
+  throw new Error(
+    `Unable to encode image within ${maxBytes} bytes (smallest attempt: ${smallest?.width}x${smallest?.height} ${format}${qualityText}, ${smallest?.data.length} bytes)`,
+  );
+}
+
+/**
+ * Default image processor implementation
+ * Pure computation with no external side effects, so it is safe to use in tests
+ */
+const defaultImageProcessor: ImageProcessor = {
+  async decode(buffer: Buffer): Promise<RawImage> {
+    return decodeImage(buffer);
+  },
+
+  async resize(image: RawImage, maxDimension: number): Promise<RawImage> {
+    return fitImage(image, maxDimension);
+  },
+
+  async encode(image: RawImage, options: ImageEncodeOptions): Promise<Buffer> {
+    return encodeImage(image, options);
+  },
+};
+
+/**
+ * Get default image processor
+ */
+export function getDefaultImageProcessor(): ImageProcessor {
+  return defaultImageProcessor;
+}
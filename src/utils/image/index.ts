@@ -0,0 +1,32 @@
+/**
+ * Focused image processing facade.
+ * Prefer importing from 'utils/image/index.js' instead of the implementation module.
+ */
+export {
+  cropImage,
+  encodeImageWithinBudget,
+  getDefaultImageProcessor,
+  getImageMimeType,
+  resampleImage,
+} from '../image-processor.ts';
+export { drawAnnotations, drawLabel } from '../image-annotator.ts';
+export { encodeAnimatedGif } from '../gif-encoder.ts';
+export { compareImages } from '../image-diff.ts';
+
+// Types
+export type {
+  EncodedImage,
+  ImageBudgetOptions,
+  ImageProcessor,
+  ImageEncodeOptions,
+  ImageFormat,
+  RawImage,
+} from '../ImageProcessor.ts';
+export type { ImageAnnotation } from '../image-annotator.ts';
+export type { GifFrame } from '../gif-encoder.ts';
+export type {
+  ImageDiffOptions,
+  ImageDiffRegion,
+  ImageDiffResult,
+  ImageRegion,
+} from '../image-diff.ts';
@@ -0,0 +1,156 @@
+/**
+ * Keymap - Key names and shortcuts to HID keycodes
+ *
+ * Translates names such as `return`, `escape`, `arrowDown` or `f5`, single characters
+ * such as `a` or `/`, and shortcuts such as `cmd+a` or `shift+tab` into USB HID usage
+ * codes (keyboard page) as used by AXe's key, key-sequence and key-combo commands. Names are
+ * case-insensitive and ignore `-`, `_` and spaces, so `ArrowDown` and `arrow-down` match.
+ */
+
+export interface KeyChord {
+  keyCode: number;
+  modifiers: number[]; // Modifier keycodes held while keyCode is pressed, in the order given
+}
+
+export const MODIFIER_KEY_CODES: Record<string, number> = {
+  ctrl: 224,
+  control: 224,
+  shift: 225,
+  alt: 226,
+  option: 226,
+  opt: 226,
+  cmd: 227,
+  command: 227,
+  meta: 227,
+};
+
+const NAMED_KEY_CODES: Record<string, number> = {
+  return: 40,
+  enter: 40,
+  escape: 41,
+  esc: 41,
+  backspace: 42,
+  delete: 42,
+  tab: 43,
+  space: 44,
+  minus: 45,
+  equal: 46,
+  equals: 46,
+  leftbracket: 47,
+  rightbracket: 48,
+  backslash: 49,
+  semicolon: 51,
+  quote: 52,
+  apostrophe: 52,
+  grave: 53,
+  backtick: 53,
+  comma: 54,
+  period: 55,
+  dot: 55,
+  slash: 56,
+  capslock: 57,
+  home: 74,
+  pageup: 75,
+  deleteforward: 76,
+  forwarddelete: 76,
+  end: 77,
+  pagedown: 78,
+  arrowright: 79,
+  right: 79,
+  arrowleft: 80,
+  left: 80,
+  arrowdown: 81,
+  down: 81,
+  arrowup: 82,
+  up: 82,
+};
+
+// Characters on the unshifted US layout
+const CHARACTER_KEY_CODES: Record<string, number> = {
+  ' ': 44,
+  '-': 45,
+  '=': 46,
+  '[': 47,
+  ']': 48,
+  '\\': 49,
+  ';': 51,
+  "'": 52,
+  '`': 53,
+  ',': 54,
+  '.': 55,
+  '/': 56,
+};
+
+function normalizeKeyName(name: string): string {
+  return name.toLowerCase().replace(/[-_\s]/g, '');
+}
+
+/**
+ * HID keycode for a single key name or character, or null when it is unknown
+ */
+export function getKeyCode(name: string): number | null {
+  if (name.length === 1) {
+    const character = name.toLowerCase();
+    if (character >= 'a' && character <= 'z') {
+      return 4 + character.charCodeAt(0) - 'a'.charCodeAt(0);
+    }
+    if (character >= '1' && character <= '9') {
+      return 30 + character.charCodeAt(0) - '1'.charCodeAt(0);
+    }
+    if (character === '0') {
+      return 39;
+    }
+    return CHARACTER_KEY_CODES[character] ?? null;
+  }
+
+  const normalized = normalizeKeyName(name);
+  const functionKey = /^f([1-9]|1[0-2])$/.exec(normalized);
+  if (functionKey) {
+    return 57 + Number(functionKey[1]);
+  }
+  return NAMED_KEY_CODES[normalized] ?? MODIFIER_KEY_CODES[normalized] ?? null;
+}
+
+/**
+ * Parse a key name or shortcut like `cmd+shift+z`. The last part is the key, the parts
+ * before it must be modifiers. Returns null when any part is unknown.
+ */
+export function parseKeyChord(spec: string): KeyChord | null {
+  const parts = spec.trim().split('+');
+  if (parts.some((part) => part.trim() === '')) {
+    return null;
+  }
+
+  const keyCode = getKeyCode(parts[parts.length - 1].trim());
+  if (keyCode === null) {
+    return null;
+  }
+
+  const modifiers: number[] = [];
+  for (const part of parts.slice(0, -1)) {
+    const modifier = MODIFIER_KEY_CODES[normalizeKeyName(part)];
+    if (modifier === undefined) {
+      return null;
+    }
+    modifiers.push(modifier);
+  }
+  return { keyCode, modifiers };
+}
+
+export const KEY_NAME_HINT =
+  'Use a key name (return, escape, tab, space, backspace, arrowUp/Down/Left/Right, home, end, pageUp, pageDown, f1-f12), a single character, or a shortcut like cmd+a.';
+
+// Shown when a shortcut fails, since only newer AXe builds have key-combo
+export const KEY_COMBO_HINT =
+  "Shortcuts are sent with AXe's key-combo command, which holds the modifiers down while the key is pressed and releases them afterwards. If AXe does not recognize key-combo, update the bundled AXe.";
+
+/**
+ * AXe arguments that press a chord: `key` for a single key, `key-combo` for a shortcut,
+ * e.g. `key-combo --modifiers 227 --key 4` for cmd+a
+ */
+export function buildKeyChordArgs(chord: KeyChord): string[] {
+  if (chord.modifiers.length === 0) {
+    return ['key', String(chord.keyCode)];
+  }
+  return ['key-combo', '--modifiers', chord.modifiers.join(','), '--key', String(chord.keyCode)];
+}
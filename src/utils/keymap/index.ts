@@ -0,0 +1,11 @@
+export {
+  buildKeyChordArgs,
+  getKeyCode,
+  KEY_COMBO_HINT,
+  KEY_NAME_HINT,
+  MODIFIER_KEY_CODES,
+  parseKeyChord,
+} from '../keymap.ts';
+
+// Types
+export type { KeyChord } from '../keymap.ts';
@@ -1 +1,53 @@
-export { startLogCapture, stopLogCapture } from '../log_capture.ts';
+export {
+  activeLogSessions,
+  appendToLogSession,
+  createLogSession,
+  deviceConsoleSource,
+  discardLogSession,
+  isLogSessionRunning,
+  listLogSessions,
+  readLogSession,
+  simulatorConsoleSource,
+  simulatorOsLogSource,
+  startLogCapture,
+  startLogSource,
+  stopLogCapture,
+  stopLogSession,
+  tailLogSession,
+  type LogCaptureTarget,
+  type LogRead,
+  type LogReadLimits,
+  type LogSession,
+  type LogSource,
+  type LogSourceDefinition,
+  type LogSourceKind,
+  type OsLogStreamOptions,
+} from '../log_capture.ts';
+export {
+  LOG_LEVELS,
+  filterLogLines,
+  formatLogLines,
+  formatLogSummary,
+  logFilterSchema,
+  parseLogLine,
+  queryLogEntries,
+  splitLogLines,
+  summarizeLogLines,
+  type LogEntry,
+  type LogFilter,
+  type LogLevel,
+  type LogMessageGroup,
+  type LogSummary,
+} from '../log-query.ts';
+export {
+  LOG_PREDICATE_MODES,
+  LOG_STREAM_LEVELS,
+  LOG_SUBSYSTEM_PRESETS,
+  LOG_SUBSYSTEM_PRESET_NAMES,
+  buildLogPredicate,
+  quotePredicateString,
+  type LogPredicateMode,
+  type LogPredicateOptions,
+  type LogStreamLevel,
+  type LogSubsystemPreset,
+} from '../log-predicate.ts';
@@ -0,0 +1,90 @@
+/**
+ * Log Predicate - Build `log stream` predicates for simulator log capture
+ *
+ * By default only entries from the app's own subsystem are streamed. The scope can be
+ * widened with extra subsystems (directly or through named presets) and whole processes;
+ * an entry is captured when it matches any of them. A raw NSPredicate is added as one
+ * more alternative, narrows that scope, or replaces it, depending on its mode. Values are
+ * written as NSPredicate string literals with quotes and backslashes escaped, so a
+ * bundle ID or process name can only ever be compared against, never change the
+ * predicate's structure.
+ *
+ * Responsibilities:
+ * - Quoting values as NSPredicate string literals
+ * - Expanding subsystem presets
+ * - Combining the app subsystem, extra subsystems, processes and a custom predicate
+ */
+
+export const LOG_STREAM_LEVELS = ['default', 'info', 'debug'] as const;
+
+export type LogStreamLevel = (typeof LOG_STREAM_LEVELS)[number];
+
+export const LOG_SUBSYSTEM_PRESETS = {
+  webkit: ['com.apple.WebKit'],
+  networking: ['com.apple.network', 'com.apple.CFNetwork'],
+} as const;
+
+export type LogSubsystemPreset = keyof typeof LOG_SUBSYSTEM_PRESETS;
+
+export const LOG_SUBSYSTEM_PRESET_NAMES = Object.keys(LOG_SUBSYSTEM_PRESETS) as [
+  LogSubsystemPreset,
+  ...LogSubsystemPreset[],
+];
+
+// How a custom predicate combines with the subsystem and process scope
+export const LOG_PREDICATE_MODES = ['add', 'narrow', 'replace'] as const;
+
+export type LogPredicateMode = (typeof LOG_PREDICATE_MODES)[number];
+
+export interface LogPredicateOptions {
+  subsystems?: string[]; // Captured in addition to the app's subsystem
+  subsystemPresets?: LogSubsystemPreset[];
+  processes?: string[]; // Every entry logged by these processes, whatever its subsystem
+  predicate?: string; // Raw NSPredicate
+  predicateMode?: LogPredicateMode; // add (OR, default), narrow (AND) or replace the scope
+}
+
+/**
+ * Quote a value as an NSPredicate string literal
+ */
+export function quotePredicateString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+  return `"${escaped}"`;
+}
+
+/**
+ * Build the predicate for an app's log stream, e.g.
+ * `subsystem == "com.example.app" OR subsystem == "com.apple.WebKit" OR process == "MyApp"`.
+ * Duplicate subsystems and processes are dropped.
+ */
+export function buildLogPredicate(bundleId: string, options: LogPredicateOptions = {}): string {
+  const subsystems = new Set<string>([
+    bundleId,
+    ...(options.subsystemPresets ?? []).flatMap((preset) => LOG_SUBSYSTEM_PRESETS[preset]),
+    ...(options.subsystems ?? []),
+  ]);
+  const processes = new Set(options.processes ?? []);
+
+  const clauses = [
+    ...[...subsystems].map((subsystem) => `subsystem == ${quotePredicateString(subsystem)}`),
+    ...[...processes].map((process) => `process == ${quotePredicateString(process)}`),
+  ];
+  const predicate = options.predicate?.trim() ?? '';
+  if (predicate === '') {
+    return clauses.join(' OR ');
+  }
+
+  switch (options.predicateMode ?? 'add') {
+    case 'add':
+      return [...clauses, `(${predicate})`].join(' OR ');
+    case 'narrow':
+      return `(${clauses.join(' OR ')}) AND (${predicate})`;
+    case 'replace':
+      return predicate;
+  }
+}
@@ -0,0 +1,355 @@
+/**
+ * Log Query - Filter and summarize captured log lines
+ *
+ * Captured logs mix unified log entries from `log stream` (default style) with plain
+ * console output. Each line is parsed on its own: lines with a `log stream` header get
+ * a timestamp, level, process, subsystem and category; all other lines (console output,
+ * continuation lines of multi-line messages, capture markers) are unstructured.
+ *
+ * Responsibilities:
+ * - Defining the filter schema shared by the log capture tools
+ * - Parsing `log stream` lines
+ * - Filtering by level, subsystem, category, regex and time window, with optional dedupe
+ * - Summarizing errors, faults and the most repeated messages
+ */
+
+import * as z from 'zod';
+
+export const LOG_LEVELS = ['debug', 'info', 'default', 'error', 'fault'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export interface LogEntry {
+  line: number; // 1-based position in the lines being queried
+  raw: string;
+  time?: string; // Timestamp as printed by `log stream`
+  timestamp?: number; // Milliseconds since the epoch
+  level?: LogLevel;
+  process?: string;
+  subsystem?: string;
+  category?: string;
+  message: string;
+}
+
+export interface LogMessageGroup {
+  level?: LogLevel;
+  subsystem?: string;
+  category?: string;
+  message: string;
+  count: number;
+  first: LogEntry;
+  last: LogEntry;
+}
+
+export interface LogSummary {
+  totalLines: number;
+  matchedLines: number;
+  levelCounts: Record<LogLevel, number>;
+  unstructuredLines: number;
+  firstTime?: string;
+  lastTime?: string;
+  problems: LogMessageGroup[]; // Errors and faults, most frequent first
+  topRepeated: LogMessageGroup[];
+}
+
+const MAX_PROBLEM_GROUPS = 20;
+const MAX_REPEATED_GROUPS = 10;
+
+// e.g. "2025-01-15 10:42:07.123456-0800 0x1a2b     Error       0x0                  4321   0    MyApp: (Network) [com.example.app:api] Request failed"
+const HEADER_PATTERN =
+  /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2})(\.\d+)?([+-])(\d{2}):?(\d{2})\s+0x[0-9a-f]+\s+(\w+)\s+0x[0-9a-f]+\s+\d+\s+\d+\s+(.*)$/i;
+const BODY_PATTERN = /^(.+?): (?:\([^)]*\) )?(?:\[([^\]:]+)(?::([^\]]*))?\] )?(.*)$/;
+
+const LEVEL_BY_TYPE: Record<string, LogLevel> = {
+  debug: 'debug',
+  info: 'info',
+  default: 'default',
+  notice: 'default',
+  error: 'error',
+  fault: 'fault',
+};
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const regexSchema = z.string().refine(isValidRegex, { message: 'Invalid regular expression' });
+
+export const logFilterSchema = z
+  .object({
+    minLevel: z
+      .enum(LOG_LEVELS)
+      .optional()
+      .describe(
+        'Lowest level to keep: debug < info < default < error < fault. Lines without a level (e.g. console output) count as default.',
+      ),
+    subsystems: z
+      .array(z.string())
+      .optional()
+      .describe('Keep only log entries from these subsystems, e.g. ["com.example.app"].'),
+    categories: z
+      .array(z.string())
+      .optional()
+      .describe('Keep only log entries in these categories.'),
+    include: regexSchema
+      .optional()
+      .describe('Keep only lines matching this regular expression (case-sensitive).'),
+    exclude: regexSchema
+      .optional()
+      .describe('Drop lines matching this regular expression (case-sensitive).'),
+    since: z.iso
+      .datetime({ offset: true })
+      .optional()
+      .describe(
+        'Keep entries at or after this ISO 8601 time. Lines without a timestamp are dropped.',
+      ),
+    until: z.iso
+      .datetime({ offset: true })
+      .optional()
+      .describe(
+        'Keep entries at or before this ISO 8601 time. Lines without a timestamp are dropped.',
+      ),
+    dedupe: z
+      .boolean()
+      .optional()
+      .describe(
+        'Show each repeated message once, at its first occurrence, prefixed with its count.',
+      ),
+  })
+  .describe(
+    'Filter captured lines: {minLevel?, subsystems?, categories?, include?, exclude?, since?, until?, dedupe?}.',
+  );
+
+export type LogFilter = z.infer<typeof logFilterSchema>;
+
+/**
+ * Parse one captured line. Lines without a `log stream` header are returned with only
+ * their text as the message.
+ */
+export function parseLogLine(raw: string, line: number): LogEntry {
+  const header = HEADER_PATTERN.exec(raw);
+  if (!header) {
+    return { line, raw, message: raw };
+  }
+  const [, date, time, fraction = '', sign, offsetHours, offsetMinutes, type, rest] = header;
+  const body = BODY_PATTERN.exec(rest);
+  const timestamp = Date.parse(
+    `${date}T${time}${fraction.slice(0, 4)}${sign}${offsetHours}:${offsetMinutes}`,
+  );
+  return {
+    line,
+    raw,
+    time: `${date} ${time}${fraction}`,
+    timestamp: Number.isNaN(timestamp) ? undefined : timestamp,
+    level: LEVEL_BY_TYPE[type.toLowerCase()] ?? 'default',
+    process: body?.[1],
+    subsystem: body?.[2],
+    category: body?.[3],
+    message: body ? body[4] : rest,
+  };
+}
+
+function levelRank(level: LogLevel | undefined): number {
+  return LOG_LEVELS.indexOf(level ?? 'default');
+}
+
+function createMatcher(filter: LogFilter): (entry: LogEntry) => boolean {
+  const include = filter.include !== undefined ? new RegExp(filter.include) : undefined;
+  const exclude = filter.exclude !== undefined ? new RegExp(filter.exclude) : undefined;
+  const since = filter.since !== undefined ? Date.parse(filter.since) : undefined;
+  const until = filter.until !== undefined ? Date.parse(filter.until) : undefined;
+  const minRank = filter.minLevel !== undefined ? levelRank(filter.minLevel) : undefined;
+
+  return (entry) => {
+    if (minRank !== undefined && levelRank(entry.level) < minRank) return false;
+    if (filter.subsystems && !filter.subsystems.includes(entry.subsystem ?? '')) return false;
+    if (filter.categories && !filter.categories.includes(entry.category ?? '')) return false;
+    if (include && !include.test(entry.raw)) return false;
+    if (exclude?.test(entry.raw)) return false;
+    if (since !== undefined && (entry.timestamp === undefined || entry.timestamp < since)) {
+      return false;
+    }
+    if (until !== undefined && (entry.timestamp === undefined || entry.timestamp > until)) {
+      return false;
+    }
+    return true;
+  };
+}
+
+function messageKey(entry: LogEntry): string {
+  return [entry.level ?? '', entry.subsystem ?? '', entry.category ?? '', entry.message].join(
+    '\u0000',
+  );
+}
+
+function groupEntries(entries: LogEntry[]): LogMessageGroup[] {
+  const groups = new Map<string, LogMessageGroup>();
+  for (const entry of entries) {
+    const key = messageKey(entry);
+    const group = groups.get(key);
+    if (group) {
+      group.count++;
+      group.last = entry;
+    } else {
+      groups.set(key, {
+        level: entry.level,
+        subsystem: entry.subsystem,
+        category: entry.category,
+        message: entry.message,
+        count: 1,
+        first: entry,
+        last: entry,
+      });
+    }
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Parse the lines and keep those matching the filter, in order
+ */
+export function queryLogEntries(lines: string[], filter: LogFilter = {}): LogEntry[] {
+  const matches = createMatcher(filter);
+  return lines.map((raw, index) => parseLogLine(raw, index + 1)).filter(matches);
+}
+
+/**
+ * Lines matching the filter, and how many matched. With `dedupe`, each repeated message
+ * appears once at its first occurrence, prefixed with "[N×] ".
+ */
+export function filterLogLines(
+  lines: string[],
+  filter: LogFilter = {},
+): { lines: string[]; matched: number } {
+  const entries = queryLogEntries(lines, filter);
+  if (!filter.dedupe) {
+    return { lines: entries.map((entry) => entry.raw), matched: entries.length };
+  }
+  return {
+    lines: groupEntries(entries).map((group) =>
+      group.count > 1 ? `[${group.count}×] ${group.first.raw}` : group.first.raw,
+    ),
+    matched: entries.length,
+  };
+}
+
+export function summarizeLogLines(lines: string[], filter: LogFilter = {}): LogSummary {
+  const entries = queryLogEntries(lines, filter);
+  const levelCounts = Object.fromEntries(LOG_LEVELS.map((level) => [level, 0])) as Record<
+    LogLevel,
+    number
+  >;
+  let unstructuredLines = 0;
+  for (const entry of entries) {
+    if (entry.level) {
+      levelCounts[entry.level]++;
+    } else {
+      unstructuredLines++;
+    }
+  }
+  const timed = entries.filter((entry) => entry.time !== undefined);
+  const groups = groupEntries(entries);
+  const byCount = (a: LogMessageGroup, b: LogMessageGroup): number =>
+    b.count - a.count || a.first.line - b.first.line;
+
+  return {
+    totalLines: lines.length,
+    matchedLines: entries.length,
+    levelCounts,
+    unstructuredLines,
+    firstTime: timed[0]?.time,
+    lastTime: timed[timed.length - 1]?.time,
+    problems: groups
+      .filter((group) => group.level === 'error' || group.level === 'fault')
+      .sort(byCount)
+      .slice(0, MAX_PROBLEM_GROUPS),
+    topRepeated: groups
+      .filter((group) => group.count > 1)
+      .sort(byCount)
+      .slice(0, MAX_REPEATED_GROUPS),
+  };
+}
+
+function describeOccurrence(entry: LogEntry): string {
+  return entry.time !== undefined ? `${entry.time} (line ${entry.line})` : `line ${entry.line}`;
+}
+
+function describeGroup(group: LogMessageGroup): string {
+  const source = [group.subsystem, group.category].filter(Boolean).join(':');
+  const level = group.level ? `[${group.level}] ` : '';
+  return `${level}${source ? `${source} ` : ''}${group.message}`;
+}
+
+export function formatLogSummary(summary: LogSummary): string {
+  const levels = [...LOG_LEVELS]
+    .reverse()
+    .map((level) => `${level} ${summary.levelCounts[level]}`)
+    .join(', ');
+  const sections = [
+    `${summary.matchedLines} of ${summary.totalLines} lines matched. Levels: ${levels}, unstructured ${summary.unstructuredLines}.`,
+  ];
+  if (summary.firstTime !== undefined && summary.lastTime !== undefined) {
+    sections.push(`Time range: ${summary.firstTime} to ${summary.lastTime}.`);
+  }
+
+  if (summary.problems.length === 0) {
+    sections.push('Errors and faults: none.');
+  } else {
+    sections.push(
+      [
+        `Errors and faults (${summary.problems.length} distinct):`,
+        ...summary.problems.map(
+          (group) =>
+            `- ${group.count}× ${describeGroup(group)}\n  first: ${describeOccurrence(group.first)}, last: ${describeOccurrence(group.last)}`,
+        ),
+      ].join('\n'),
+    );
+  }
+
+  if (summary.topRepeated.length > 0) {
+    sections.push(
+      [
+        'Most repeated messages:',
+        ...summary.topRepeated.map((group) => `- ${group.count}× ${describeGroup(group)}`),
+      ].join('\n'),
+    );
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Render captured lines for a tool response: a summary, the lines matching a filter
+ * with a match count, or the lines unchanged
+ */
+export function formatLogLines(
+  lines: string[],
+  options: { filter?: LogFilter; summary?: boolean },
+): string {
+  if (options.summary) {
+    return formatLogSummary(summarizeLogLines(lines, options.filter));
+  }
+  if (!options.filter) {
+    return lines.join('\n');
+  }
+  const filtered = filterLogLines(lines, options.filter);
+  const distinct = options.filter.dedupe ? ` (${filtered.lines.length} distinct)` : '';
+  const header = `${filtered.matched} of ${lines.length} lines match the filter${distinct}.`;
+  return filtered.lines.length > 0 ? `${header}\n\n${filtered.lines.join('\n')}` : header;
+}
+
+/**
+ * Split file content into lines, without the empty line after a trailing newline
+ */
+export function splitLogLines(content: string): string[] {
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
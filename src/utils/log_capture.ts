@@ -1,10 +1,33 @@
+/**
+ * Log Capture - Shared session management for simulator and device logs
+ *
+ * A log capture session appends the output of one or more sources to a single file in
+ * the temp directory. Sources are the simulator's unified log (`simctl spawn log
+ * stream`), an app's stdout/stderr on a simulator (`simctl launch --console-pty`) and an
+ * app's console on a physical device (`devicectl device process launch --console`).
+ * Simulator and device sessions live in one registry so they can be listed, tailed and
+ * stopped the same way, and share one retention policy for old log files.
+ */
+
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import type { ChildProcess } from 'child_process';
+import type { Writable } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
 import { log } from '../utils/logger.ts';
-import { CommandExecutor, getDefaultCommandExecutor } from './command.ts';
+import {
+  CommandExecutor,
+  getDefaultCommandExecutor,
+  getDefaultFileSystemExecutor,
+} from './command.ts';
+import type { FileSystemExecutor } from './FileSystemExecutor.ts';
+import { filterLogLines, splitLogLines, type LogFilter } from './log-query.ts';
+import {
+  buildLogPredicate,
+  type LogPredicateOptions,
+  type LogStreamLevel,
+} from './log-predicate.ts';
 
 /**
  * Log file retention policy:
@@ -12,17 +35,272 @@ import { CommandExecutor, getDefaultCommandExecutor } from './command.ts';
  * - Cleanup runs on every new log capture start
  */
 const LOG_RETENTION_DAYS = 3;
-const LOG_FILE_PREFIX = 'xcodemcp_sim_log_';
+const LOG_FILE_PREFIXES: Record<LogCaptureTarget, string> = {
+  simulator: 'xcodemcp_sim_log_',
+  device: 'xcodemcp_device_log_',
+};
+const SOURCE_EXIT_TIMEOUT_MS = 1000;
+
+export type LogCaptureTarget = 'simulator' | 'device';
+
+export type LogSourceKind = 'os_log' | 'console' | 'device_console';
+
+/**
+ * A command whose stdout and stderr feed a log capture session
+ */
+export interface LogSourceDefinition {
+  kind: LogSourceKind;
+  command: string[];
+  logPrefix: string;
+}
+
+export interface LogSource {
+  kind: LogSourceKind;
+  process: ChildProcess;
+  hasEnded: boolean;
+}
 
 export interface LogSession {
-  processes: ChildProcess[];
-  logFilePath: string;
-  simulatorUuid: string;
+  id: string;
+  target: LogCaptureTarget;
+  targetId: string; // Simulator UUID or device UDID
   bundleId: string;
+  logFilePath: string;
+  startedAt: Date;
+  sources: LogSource[];
+  logStream?: Writable;
+  readCursor?: number; // Byte offset where the previous incremental read stopped
+}
+
+export interface LogReadLimits {
+  maxLines: number;
+  maxBytes: number;
+}
+
+export interface LogRead {
+  lines: string[];
+  startCursor: number;
+  cursor: number; // Byte offset to pass to the next read
+  fileSize: number;
+  hasMore: boolean;
+}
+
+export interface OsLogStreamOptions extends LogPredicateOptions {
+  level?: LogStreamLevel; // Lowest level streamed (default: debug)
 }
 
 export const activeLogSessions: Map<string, LogSession> = new Map();
 
+/**
+ * Structured logs from the app's subsystem, streamed from inside the simulator. The
+ * options widen the predicate to more subsystems, processes or a custom predicate.
+ */
+export function simulatorOsLogSource(
+  simulatorUuid: string,
+  bundleId: string,
+  options: OsLogStreamOptions = {},
+): LogSourceDefinition {
+  return {
+    kind: 'os_log',
+    logPrefix: 'OS Log Capture',
+    command: [
+      'xcrun',
+      'simctl',
+      'spawn',
+      simulatorUuid,
+      'log',
+      'stream',
+      `--level=${options.level ?? 'debug'}`,
+      '--predicate',
+      buildLogPredicate(bundleId, options),
+    ],
+  };
+}
+
+/**
+ * The app's stdout and stderr; relaunches the app on the simulator
+ */
+export function simulatorConsoleSource(
+  simulatorUuid: string,
+  bundleId: string,
+  args: string[] = [],
+): LogSourceDefinition {
+  return {
+    kind: 'console',
+    logPrefix: 'Console Log Capture',
+    command: [
+      'xcrun',
+      'simctl',
+      'launch',
+      '--console-pty',
+      '--terminate-running-process',
+      simulatorUuid,
+      bundleId,
+      ...args,
+    ],
+  };
+}
+
+/**
+ * The app's console output on a physical device; relaunches the app. devicectl writes
+ * the launch result (or error) as JSON to `launchJsonPath`.
+ */
+export function deviceConsoleSource(
+  deviceUuid: string,
+  bundleId: string,
+  launchJsonPath: string,
+): LogSourceDefinition {
+  return {
+    kind: 'device_console',
+    logPrefix: 'Device Log Capture',
+    command: [
+      'xcrun',
+      'devicectl',
+      'device',
+      'process',
+      'launch',
+      '--console',
+      '--terminate-existing',
+      '--device',
+      deviceUuid,
+      '--json-output',
+      launchJsonPath,
+      bundleId,
+    ],
+  };
+}
+
+function isStreamOpen(stream: Writable | undefined): stream is Writable {
+  return stream !== undefined && !stream.destroyed && !stream.writableEnded;
+}
+
+/**
+ * Append text to the session's log file, ignoring writes once the file is closed
+ */
+export function appendToLogSession(session: LogSession, text: string): void {
+  if (isStreamOpen(session.logStream)) {
+    session.logStream.write(text);
+  }
+}
+
+export function isLogSessionRunning(session: LogSession): boolean {
+  return session.sources.some((source) => !source.hasEnded && source.process.exitCode == null);
+}
+
+/**
+ * Create the log file for a new session and open it for appending. The session is not
+ * registered until the caller has started its sources.
+ */
+export async function createLogSession(
+  params: { target: LogCaptureTarget; targetId: string; bundleId: string },
+  fileSystemExecutor: FileSystemExecutor = getDefaultFileSystemExecutor(),
+): Promise<LogSession> {
+  // Clean up old logs in the background; starting the capture should not wait on it
+  void cleanOldLogs();
+
+  const id = uuidv4();
+  const tempDir = fileSystemExecutor.tmpdir();
+  const logFilePath = path.join(tempDir, `${LOG_FILE_PREFIXES[params.target]}${id}.log`);
+
+  await fileSystemExecutor.mkdir(tempDir, { recursive: true });
+  await fileSystemExecutor.writeFile(logFilePath, '');
+
+  return {
+    id,
+    ...params,
+    logFilePath,
+    startedAt: new Date(),
+    sources: [],
+    logStream: fileSystemExecutor.createWriteStream(logFilePath, { flags: 'a' }),
+  };
+}
+
+/**
+ * Spawn a source and append its stdout and stderr to the session's log file.
+ * `onOutput` sees every chunk first, e.g. to watch for launch failures.
+ */
+export async function startLogSource(
+  session: LogSession,
+  definition: LogSourceDefinition,
+  executor: CommandExecutor,
+  onOutput?: (text: string) => void,
+): Promise<{ source?: LogSource; error?: string }> {
+  const result = await executor(
+    definition.command,
+    definition.logPrefix,
+    false, // useShell - arguments such as predicates go to the process verbatim
+    undefined, // env
+    true, // detached - don't wait for this streaming process to complete
+  );
+  if (!result.success) {
+    return { error: result.error ?? `Failed to start ${definition.logPrefix}` };
+  }
+
+  const childProcess = result.process;
+  if (!childProcess) {
+    throw new Error(`${definition.logPrefix} process handle was not returned`);
+  }
+
+  const source: LogSource = { kind: definition.kind, process: childProcess, hasEnded: false };
+  session.sources.push(source);
+
+  const handleOutput = (chunk: unknown): void => {
+    const text =
+      typeof chunk === 'string'
+        ? chunk
+        : chunk instanceof Buffer
+          ? chunk.toString('utf8')
+          : String(chunk ?? '');
+    if (text.length > 0) {
+      onOutput?.(text);
+      appendToLogSession(session, text);
+    }
+  };
+
+  childProcess.stdout?.setEncoding?.('utf8');
+  childProcess.stdout?.on?.('data', handleOutput);
+  childProcess.stderr?.setEncoding?.('utf8');
+  childProcess.stderr?.on?.('data', handleOutput);
+
+  childProcess.once?.('error', (err) => {
+    log(
+      'error',
+      `Log capture process error (session ${session.id}): ${
+        err instanceof Error ? err.message : String(err)
+      }`,
+    );
+  });
+
+  childProcess.once?.('close', (code) => {
+    childProcess.stdout?.off?.('data', handleOutput);
+    childProcess.stderr?.off?.('data', handleOutput);
+    source.hasEnded = true;
+    log('info', `A log capture process for session ${session.id} exited with code ${code}.`);
+    if (session.sources.every((candidate) => candidate.hasEnded) && session.logStream) {
+      appendToLogSession(
+        session,
+        `\n--- Log capture ended (exit code: ${code ?? 'unknown'}) ---\n`,
+      );
+      session.logStream.end();
+    }
+  });
+
+  return { source };
+}
+
+/**
+ * Abandon a session that failed to start: record why in its log file, close the file
+ * and terminate any sources that did start
+ */
+export function discardLogSession(session: LogSession, message: string): void {
+  appendToLogSession(session, `\n--- Log capture failed to start ---\n${message}\n`);
+  session.logStream?.end();
+  for (const source of session.sources) {
+    source.hasEnded = true;
+    source.process.kill?.('SIGTERM');
+  }
+}
+
 /**
  * Start a log capture session for an iOS simulator.
  * Returns { sessionId, logFilePath, processes, error? }
@@ -33,119 +311,120 @@ export async function startLogCapture(
     bundleId: string;
     captureConsole?: boolean;
     args?: string[];
+    osLog?: OsLogStreamOptions;
   },
   executor: CommandExecutor = getDefaultCommandExecutor(),
+  fileSystemExecutor: FileSystemExecutor = getDefaultFileSystemExecutor(),
 ): Promise<{ sessionId: string; logFilePath: string; processes: ChildProcess[]; error?: string }> {
-  // Clean up old logs before starting a new session
-  await cleanOldLogs();
-
-  const { simulatorUuid, bundleId, captureConsole = false, args = [] } = params;
-  const logSessionId = uuidv4();
-  const logFileName = `${LOG_FILE_PREFIX}${logSessionId}.log`;
-  const logFilePath = path.join(os.tmpdir(), logFileName);
+  const { simulatorUuid, bundleId, captureConsole = false, args = [], osLog = {} } = params;
+  const failed = (
+    error: string,
+  ): { sessionId: string; logFilePath: string; processes: []; error: string } => ({
+    sessionId: '',
+    logFilePath: '',
+    processes: [],
+    error,
+  });
 
+  let session: LogSession | undefined;
   try {
-    await fs.promises.mkdir(os.tmpdir(), { recursive: true });
-    await fs.promises.writeFile(logFilePath, '');
-    const logStream = fs.createWriteStream(logFilePath, { flags: 'a' });
-    const processes: ChildProcess[] = [];
-    logStream.write('\n--- Log capture for bundle ID: ' + bundleId + ' ---\n');
-
-    if (captureConsole) {
-      const launchCommand = [
-        'xcrun',
-        'simctl',
-        'launch',
-        '--console-pty',
-        '--terminate-running-process',
-        simulatorUuid,
-        bundleId,
-      ];
-      if (args.length > 0) {
-        launchCommand.push(...args);
-      }
-
-      const stdoutLogResult = await executor(
-        launchCommand,
-        'Console Log Capture',
-        true, // useShell
-        undefined, // env
-        true, // detached - don't wait for this streaming process to complete
-      );
+    session = await createLogSession(
+      { target: 'simulator', targetId: simulatorUuid, bundleId },
+      fileSystemExecutor,
+    );
+    appendToLogSession(session, '\n--- Log capture for bundle ID: ' + bundleId + ' ---\n');
 
-      if (!stdoutLogResult.success) {
-        return {
-          sessionId: '',
-          logFilePath: '',
-          processes: [],
-          error: stdoutLogResult.error ?? 'Failed to start console log capture',
-        };
+    const definitions = [
+      ...(captureConsole ? [simulatorConsoleSource(simulatorUuid, bundleId, args)] : []),
+      simulatorOsLogSource(simulatorUuid, bundleId, osLog),
+    ];
+    for (const definition of definitions) {
+      const { error } = await startLogSource(session, definition, executor);
+      if (error) {
+        discardLogSession(session, error);
+        return failed(error);
       }
-
-      stdoutLogResult.process.stdout?.pipe(logStream);
-      stdoutLogResult.process.stderr?.pipe(logStream);
-      processes.push(stdoutLogResult.process);
     }
 
-    const osLogResult = await executor(
-      [
-        'xcrun',
-        'simctl',
-        'spawn',
-        simulatorUuid,
-        'log',
-        'stream',
-        '--level=debug',
-        '--predicate',
-        `subsystem == "${bundleId}"`,
-      ],
-      'OS Log Capture',
-      true, // useShell
-      undefined, // env
-      true, // detached - don't wait for this streaming process to complete
-    );
-
-    if (!osLogResult.success) {
-      return {
-        sessionId: '',
-        logFilePath: '',
-        processes: [],
-        error: osLogResult.error ?? 'Failed to start OS log capture',
-      };
+    activeLogSessions.set(session.id, session);
+    log('info', `Log capture started with session ID: ${session.id}`);
+    return {
+      sessionId: session.id,
+      logFilePath: session.logFilePath,
+      processes: session.sources.map((source) => source.process),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log('error', `Failed to start log capture: ${message}`);
+    if (session) {
+      discardLogSession(session, message);
     }
+    return failed(message);
+  }
+}
 
-    osLogResult.process.stdout?.pipe(logStream);
-    osLogResult.process.stderr?.pipe(logStream);
-    processes.push(osLogResult.process);
+async function waitForSourceToEnd(source: LogSource): Promise<void> {
+  if (source.hasEnded || source.process.exitCode != null) {
+    source.hasEnded = true;
+    return;
+  }
+  // Minimal process handles (e.g. in tests) cannot report their exit
+  if (typeof source.process.once !== 'function') {
+    source.hasEnded = true;
+    return;
+  }
 
-    for (const process of processes) {
-      process.on('close', (code) => {
-        log('info', `A log capture process for session ${logSessionId} exited with code ${code}.`);
-      });
-    }
+  await new Promise<void>((resolve) => {
+    const onClose = (): void => {
+      clearTimeout(timeout);
+      source.hasEnded = true;
+      resolve();
+    };
+    const timeout = setTimeout(() => {
+      source.process.removeListener?.('close', onClose);
+      source.hasEnded = true;
+      resolve();
+    }, SOURCE_EXIT_TIMEOUT_MS);
+    source.process.once('close', onClose);
+  });
+}
 
-    activeLogSessions.set(logSessionId, {
-      processes,
-      logFilePath,
-      simulatorUuid,
-      bundleId,
-    });
+async function closeLogStream(stream: Writable): Promise<void> {
+  if (stream.destroyed || stream.closed) {
+    return;
+  }
+  await new Promise<void>((resolve) => {
+    stream.once('close', () => resolve());
+    stream.end();
+  });
+}
 
-    log('info', `Log capture started with session ID: ${logSessionId}`);
-    return { sessionId: logSessionId, logFilePath, processes };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    log('error', `Failed to start log capture: ${message}`);
-    return { sessionId: '', logFilePath: '', processes: [], error: message };
+async function readLogFile(
+  logFilePath: string,
+  fileSystemExecutor?: FileSystemExecutor,
+): Promise<string> {
+  if (fileSystemExecutor) {
+    if (!fileSystemExecutor.existsSync(logFilePath)) {
+      throw new Error(`Log file not found: ${logFilePath}`);
+    }
+    return fileSystemExecutor.readFile(logFilePath, 'utf-8');
   }
+  await fs.promises.access(logFilePath, fs.constants.R_OK);
+  return fs.promises.readFile(logFilePath, 'utf-8');
+}
+
+export function listLogSessions(): LogSession[] {
+  return [...activeLogSessions.values()];
 }
 
 /**
- * Stop a log capture session and retrieve the log content.
+ * Stop a log capture session of either platform: terminate its sources, wait briefly
+ * for them to exit, close the log file and return its content. The file is kept.
  */
-export async function stopLogCapture(
+export async function stopLogSession(
   logSessionId: string,
-): Promise<{ logContent: string; error?: string }> {
+  fileSystemExecutor?: FileSystemExecutor,
+): Promise<{ session?: LogSession; logContent: string; error?: string }> {
   const session = activeLogSessions.get(logSessionId);
   if (!session) {
     log('warning', `Log session not found: ${logSessionId}`);
@@ -154,31 +433,152 @@ export async function stopLogCapture(
 
   try {
     log('info', `Attempting to stop log capture session: ${logSessionId}`);
-    const logFilePath = session.logFilePath;
-    for (const process of session.processes) {
-      if (!process.killed && process.exitCode === null) {
-        process.kill('SIGTERM');
+    for (const source of session.sources) {
+      if (!source.hasEnded && !source.process.killed && source.process.exitCode == null) {
+        source.process.kill?.('SIGTERM');
       }
     }
+    await Promise.all(session.sources.map(waitForSourceToEnd));
+    if (session.logStream) {
+      await closeLogStream(session.logStream);
+    }
     activeLogSessions.delete(logSessionId);
     log(
       'info',
-      `Log capture session ${logSessionId} stopped. Log file retained at: ${logFilePath}`,
+      `Log capture session ${logSessionId} stopped. Log file retained at: ${session.logFilePath}`,
     );
-    await fs.promises.access(logFilePath, fs.constants.R_OK);
-    const fileContent = await fs.promises.readFile(logFilePath, 'utf-8');
-    log('info', `Successfully read log content from ${logFilePath}`);
-    return { logContent: fileContent };
+
+    const logContent = await readLogFile(session.logFilePath, fileSystemExecutor);
+    log('info', `Successfully read log content from ${session.logFilePath}`);
+    return { session, logContent };
   } catch (error) {
+    activeLogSessions.delete(logSessionId);
     const message = error instanceof Error ? error.message : String(error);
     log('error', `Failed to stop log capture session ${logSessionId}: ${message}`);
-    return { logContent: '', error: message };
+    return { session, logContent: '', error: message };
+  }
+}
+
+/**
+ * Stop a log capture session and retrieve the log content.
+ */
+export async function stopLogCapture(
+  logSessionId: string,
+  fileSystemExecutor?: FileSystemExecutor,
+): Promise<{ logContent: string; error?: string }> {
+  const { logContent, error } = await stopLogSession(logSessionId, fileSystemExecutor);
+  return error ? { logContent, error } : { logContent };
+}
+
+/**
+ * Read the last `lineCount` lines of a running session's log without stopping it. With a
+ * filter, the lines are taken from those matching it and `totalLines` counts the matches.
+ */
+export async function tailLogSession(
+  logSessionId: string,
+  lineCount: number,
+  fileSystemExecutor?: FileSystemExecutor,
+  filter?: LogFilter,
+): Promise<{ session?: LogSession; lines: string[]; totalLines: number; error?: string }> {
+  const session = activeLogSessions.get(logSessionId);
+  if (!session) {
+    return { lines: [], totalLines: 0, error: `Log capture session not found: ${logSessionId}` };
+  }
+
+  try {
+    const content = await readLogFile(session.logFilePath, fileSystemExecutor);
+    const allLines = splitLogLines(content);
+    const candidates = filter ? filterLogLines(allLines, filter).lines : allLines;
+    return {
+      session,
+      lines: candidates.slice(Math.max(0, candidates.length - lineCount)),
+      totalLines: candidates.length,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { session, lines: [], totalLines: 0, error: message };
+  }
+}
+
+async function readLogBytes(
+  logFilePath: string,
+  offset: number,
+  length: number,
+  fileSystemExecutor: FileSystemExecutor = getDefaultFileSystemExecutor(),
+): Promise<{ data: Buffer; fileSize: number }> {
+  const { data, size } = await fileSystemExecutor.readFileRange(logFilePath, offset, length);
+  return { data, fileSize: size };
+}
+
+/**
+ * Read complete lines written after `cursor` (a byte offset into the log file) without
+ * stopping the session. A line still being written is left for the next read, unless a
+ * single line exceeds `maxBytes`, in which case its first `maxBytes` are returned. Without
+ * a cursor, reading continues where the previous read stopped.
+ */
+export async function readLogSession(
+  logSessionId: string,
+  cursor: number | undefined,
+  limits: LogReadLimits,
+  fileSystemExecutor?: FileSystemExecutor,
+): Promise<{ session?: LogSession; read?: LogRead; error?: string }> {
+  const session = activeLogSessions.get(logSessionId);
+  if (!session) {
+    return { error: `Log capture session not found: ${logSessionId}` };
+  }
+
+  const startCursor = cursor ?? session.readCursor ?? 0;
+  try {
+    const { data, fileSize } = await readLogBytes(
+      session.logFilePath,
+      startCursor,
+      limits.maxBytes,
+      fileSystemExecutor,
+    );
+    if (startCursor > fileSize) {
+      return {
+        session,
+        error: `Cursor ${startCursor} is past the end of the log (${fileSize} bytes)`,
+      };
+    }
+
+    const lines: string[] = [];
+    let consumed = 0;
+    while (lines.length < limits.maxLines) {
+      const newline = data.indexOf(0x0a, consumed);
+      if (newline === -1) {
+        break;
+      }
+      lines.push(data.toString('utf8', consumed, newline));
+      consumed = newline + 1;
+    }
+    if (lines.length === 0 && data.length === limits.maxBytes) {
+      lines.push(data.toString('utf8'));
+      consumed = data.length;
+    }
+
+    const nextCursor = startCursor + consumed;
+    session.readCursor = nextCursor;
+    return {
+      session,
+      read: {
+        lines,
+        startCursor,
+        cursor: nextCursor,
+        fileSize,
+        // A line limit left complete lines unread, or the byte limit stopped short of the end
+        hasMore: data.indexOf(0x0a, consumed) !== -1 || startCursor + data.length < fileSize,
+      },
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { session, error: message };
   }
 }
 
 /**
- * Deletes log files older than LOG_RETENTION_DAYS from the temp directory.
- * Runs quietly; errors are logged but do not throw.
+ * Deletes simulator and device log files older than LOG_RETENTION_DAYS from the temp
+ * directory. Runs quietly; errors are logged but do not throw.
  */
 async function cleanOldLogs(): Promise<void> {
   const tempDir = os.tmpdir();
@@ -192,11 +592,12 @@ async function cleanOldLogs(): Promise<void> {
     );
     return;
   }
+  const prefixes = Object.values(LOG_FILE_PREFIXES);
   const now = Date.now();
   const retentionMs = LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000;
   await Promise.all(
     files
-      .filter((f) => f.startsWith(LOG_FILE_PREFIX) && f.endsWith('.log'))
+      .filter((f) => prefixes.some((prefix) => f.startsWith(prefix)) && f.endsWith('.log'))
       .map(async (f) => {
         const filePath = path.join(tempDir, f);
         try {
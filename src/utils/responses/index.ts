@@ -7,6 +7,7 @@ export {
   createErrorResponse,
   DependencyError,
   AxeError,
+  ElementResolutionError,
   SystemError,
   ValidationError,
 } from '../errors.ts';
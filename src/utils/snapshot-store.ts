@@ -0,0 +1,210 @@
+/**
+ * Snapshot Store - Project-relative storage for visual regression baselines
+ *
+ * This utility module manages baseline screenshots on disk for the snapshot tools.
+ * Baselines are keyed by name, simulator model and appearance so the same screen
+ * can be recorded for several devices and for light and dark mode side by side:
+ *
+ *   <snapshot root>/<model>/<appearance>/<name>.png
+ *
+ * Responsibilities:
+ * - Resolving the snapshot root relative to the project or workspace
+ * - Determining the model and appearance of a simulator via simctl
+ * - Mapping snapshot keys to file paths and listing stored baselines
+ */
+
+import * as path from 'path';
+import type { CommandExecutor, FileSystemExecutor } from './execution/index.ts';
+import { SystemError } from './errors.ts';
+
+export type SnapshotAppearance = 'light' | 'dark' | 'unknown';
+
+export interface SnapshotTraits {
+  model: string;
+  appearance: SnapshotAppearance;
+}
+
+export interface SnapshotKey extends SnapshotTraits {
+  name: string;
+}
+
+export interface SnapshotEntry extends SnapshotKey {
+  path: string;
+}
+
+export interface SnapshotFilter {
+  name?: string;
+  model?: string;
+  appearance?: SnapshotAppearance;
+}
+
+export const DEFAULT_SNAPSHOT_DIRECTORY = '__snapshots__';
+const SNAPSHOT_EXTENSION = '.png';
+const APPEARANCES: SnapshotAppearance[] = ['light', 'dark', 'unknown'];
+const DEVICE_TYPE_PREFIX = 'com.apple.CoreSimulator.SimDeviceType.';
+
+/**
+ * Reduce a name to a single safe path segment (letters, digits, dot, dash, underscore)
+ */
+export function toSnapshotSegment(value: string): string {
+  const segment = value
+    .trim()
+    .replace(/[^A-Za-z0-9._-]+/g, '-')
+    .replace(/^[.-]+|-+$/g, '');
+  return segment.length > 0 ? segment : 'unnamed';
+}
+
+/**
+ * Whether a name is already a safe path segment, i.e. stored under its own name. Tools
+ * only accept such names so that different names never map to the same baseline file.
+ */
+export function isSnapshotSegment(value: string): boolean {
+  return value.length > 0 && toSnapshotSegment(value) === value;
+}
+
+/**
+ * Resolve the snapshot root directory. Relative directories resolve against the folder
+ * containing the project or workspace, falling back to the current working directory.
+ */
+export function resolveSnapshotRoot(options: {
+  snapshotDir?: string;
+  projectPath?: string;
+  workspacePath?: string;
+}): string {
+  const containerPath = options.workspacePath ?? options.projectPath;
+  const base = containerPath ? path.dirname(path.resolve(containerPath)) : process.cwd();
+  return path.resolve(base, options.snapshotDir ?? DEFAULT_SNAPSHOT_DIRECTORY);
+}
+
+/**
+ * Get the baseline file path for a snapshot key
+ */
+export function getSnapshotPath(root: string, key: SnapshotKey): string {
+  return path.join(
+    root,
+    toSnapshotSegment(key.model),
+    key.appearance,
+    `${toSnapshotSegment(key.name)}${SNAPSHOT_EXTENSION}`,
+  );
+}
+
+interface SimctlDevice {
+  udid: string;
+  name: string;
+  deviceTypeIdentifier?: string;
+}
+
+/**
+ * Look up the model (device type) and current appearance of a simulator.
+ * Throws SystemError when simctl fails or the simulator is unknown.
+ */
+export async function resolveSnapshotTraits(
+  simulatorId: string,
+  executor: CommandExecutor,
+): Promise<SnapshotTraits> {
+  const listResult = await executor(
+    ['xcrun', 'simctl', 'list', 'devices', '-j'],
+    'List simulators for snapshot key',
+  );
+  if (!listResult.success) {
+    throw new SystemError(`Failed to list simulators: ${listResult.error ?? listResult.output}`);
+  }
+
+  let device: SimctlDevice | undefined;
+  try {
+    const data = JSON.parse(listResult.output) as { devices?: Record<string, SimctlDevice[]> };
+    device = Object.values(data.devices ?? {})
+      .flat()
+      .find((candidate) => candidate.udid === simulatorId);
+  } catch (error) {
+    throw new SystemError(
+      `Failed to parse simulator list: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  if (!device) {
+    throw new SystemError(`Simulator ${simulatorId} not found`);
+  }
+
+  // Prefer the device type over the user-editable simulator name
+  const model = device.deviceTypeIdentifier?.startsWith(DEVICE_TYPE_PREFIX)
+    ? device.deviceTypeIdentifier.slice(DEVICE_TYPE_PREFIX.length)
+    : device.name;
+
+  const appearanceResult = await executor(
+    ['xcrun', 'simctl', 'ui', simulatorId, 'appearance'],
+    'Get Simulator Appearance',
+  );
+  if (!appearanceResult.success) {
+    throw new SystemError(
+      `Failed to get simulator appearance: ${appearanceResult.error ?? appearanceResult.output}`,
+    );
+  }
+  const reported = appearanceResult.output.trim().toLowerCase();
+  const appearance: SnapshotAppearance =
+    reported === 'light' || reported === 'dark' ? reported : 'unknown';
+
+  return { model: toSnapshotSegment(model), appearance };
+}
+
+async function listDirectories(
+  directory: string,
+  fileSystemExecutor: FileSystemExecutor,
+): Promise<string[]> {
+  const names = (await fileSystemExecutor.readdir(directory)).filter(
+    (entry): entry is string => typeof entry === 'string',
+  );
+  const directories: string[] = [];
+  for (const name of names) {
+    if ((await fileSystemExecutor.stat(path.join(directory, name))).isDirectory()) {
+      directories.push(name);
+    }
+  }
+  return directories.sort();
+}
+
+/**
+ * List stored baselines under a snapshot root, optionally filtered by key fields
+ */
+export async function listSnapshots(
+  root: string,
+  fileSystemExecutor: FileSystemExecutor,
+  filter: SnapshotFilter = {},
+): Promise<SnapshotEntry[]> {
+  if (!fileSystemExecutor.existsSync(root)) {
+    return [];
+  }
+
+  const name = filter.name !== undefined ? toSnapshotSegment(filter.name) : undefined;
+  const model = filter.model !== undefined ? toSnapshotSegment(filter.model) : undefined;
+  const entries: SnapshotEntry[] = [];
+
+  for (const modelDir of await listDirectories(root, fileSystemExecutor)) {
+    if (model !== undefined && modelDir !== model) continue;
+
+    for (const appearanceDir of await listDirectories(
+      path.join(root, modelDir),
+      fileSystemExecutor,
+    )) {
+      if (!APPEARANCES.includes(appearanceDir as SnapshotAppearance)) continue;
+      if (filter.appearance !== undefined && appearanceDir !== filter.appearance) continue;
+
+      const directory = path.join(root, modelDir, appearanceDir);
+      const files = (await fileSystemExecutor.readdir(directory))
+        .filter((entry): entry is string => typeof entry === 'string')
+        .filter((file) => file.endsWith(SNAPSHOT_EXTENSION))
+        .sort();
+      for (const file of files) {
+        const snapshotName = file.slice(0, -SNAPSHOT_EXTENSION.length);
+        if (name !== undefined && snapshotName !== name) continue;
+        entries.push({
+          name: snapshotName,
+          model: modelDir,
+          appearance: appearanceDir as SnapshotAppearance,
+          path: path.join(directory, file),
+        });
+      }
+    }
+  }
+
+  return entries;
+}
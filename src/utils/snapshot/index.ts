@@ -0,0 +1,18 @@
+export {
+  DEFAULT_SNAPSHOT_DIRECTORY,
+  getSnapshotPath,
+  isSnapshotSegment,
+  listSnapshots,
+  resolveSnapshotRoot,
+  resolveSnapshotTraits,
+  toSnapshotSegment,
+} from '../snapshot-store.ts';
+
+// Types
+export type {
+  SnapshotAppearance,
+  SnapshotEntry,
+  SnapshotFilter,
+  SnapshotKey,
+  SnapshotTraits,
+} from '../snapshot-store.ts';
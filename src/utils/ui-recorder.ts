@@ -0,0 +1,108 @@
+/**
+ * UI Recorder - Successful UI interactions per simulator
+ *
+ * tap, type_text, fill_field, swipe and gesture append each successful call here, together
+ * with the element it targeted when that is known (from a selector, or by hit-testing the
+ * current describe_ui hierarchy); scroll_to_element records the swipes it makes.
+ * export_xcuitest turns a session into an XCUITest method.
+ */
+
+import type { AccessibilityElement } from './accessibility.ts';
+import { findAccessibilityElement, findElementAtPoint } from './accessibility.ts';
+import { log } from './logger.ts';
+import { uiStateStore } from './ui-state-store.ts';
+
+export interface RecordedElement {
+  identifier?: string;
+  label?: string;
+  role?: string; // AXe type, e.g. Button or TextField
+}
+
+export interface RecordedPoint {
+  x: number;
+  y: number;
+}
+
+export type RecordedUIAction =
+  | { action: 'tap'; element?: RecordedElement; point?: RecordedPoint }
+  | {
+      action: 'type_text';
+      text: string;
+      element?: RecordedElement;
+      replace?: boolean; // Existing content was cleared first (fill_field)
+      submit?: boolean; // Return was pressed afterwards
+    }
+  | {
+      action: 'swipe';
+      from: RecordedPoint;
+      to: RecordedPoint;
+      duration?: number;
+      element?: RecordedElement;
+      direction?: 'up' | 'down' | 'left' | 'right';
+    }
+  | { action: 'gesture'; preset: string };
+
+export type RecordedUIStep = RecordedUIAction & { recordedAt: number };
+
+// Oldest steps are dropped beyond this, so a long session cannot grow without bound
+export const MAX_RECORDED_STEPS = 500;
+
+export function toRecordedElement(element: AccessibilityElement): RecordedElement {
+  return {
+    identifier: element.identifier,
+    label: element.label,
+    role: element.type ?? element.role.replace(/^AX/, ''),
+  };
+}
+
+/**
+ * Look up what a tap by id, label or point hit in the current describe_ui hierarchy.
+ * Falls back to the id or label alone when no current hierarchy is available.
+ */
+export function findRecordedTarget(
+  simulatorId: string,
+  target: { id?: string; label?: string; point?: RecordedPoint },
+): RecordedElement | undefined {
+  const elements = uiStateStore.getCurrent(simulatorId) ?? [];
+  if (target.id !== undefined || target.label !== undefined) {
+    const element = findAccessibilityElement(elements, { id: target.id, label: target.label });
+    return element ? toRecordedElement(element) : { identifier: target.id, label: target.label };
+  }
+  if (target.point) {
+    const element = findElementAtPoint(elements, target.point);
+    if (element && (element.identifier || element.label)) {
+      return toRecordedElement(element);
+    }
+  }
+  return undefined;
+}
+
+export class UIRecorder {
+  private sessions = new Map<string, RecordedUIStep[]>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  record(simulatorId: string, action: RecordedUIAction): void {
+    const steps = this.sessions.get(simulatorId) ?? [];
+    steps.push({ ...action, recordedAt: this.now() });
+    if (steps.length > MAX_RECORDED_STEPS) {
+      steps.splice(0, steps.length - MAX_RECORDED_STEPS);
+    }
+    this.sessions.set(simulatorId, steps);
+    log('debug', `[UIRecorder] Recorded ${action.action} for ${simulatorId}`);
+  }
+
+  getSteps(simulatorId: string): RecordedUIStep[] {
+    return [...(this.sessions.get(simulatorId) ?? [])];
+  }
+
+  clear(simulatorId?: string): void {
+    if (simulatorId === undefined) {
+      this.sessions.clear();
+      return;
+    }
+    this.sessions.delete(simulatorId);
+  }
+}
+
+export const uiRecorder = new UIRecorder();
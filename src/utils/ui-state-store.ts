@@ -0,0 +1,132 @@
+/**
+ * UI State Store - Last accessibility hierarchy seen per simulator
+ *
+ * describe_ui records the hierarchy it returned here, and every UI interaction
+ * (tap, swipe, typing, key presses, hardware buttons, ...) invalidates it because
+ * the screen may have changed. Coordinate-taking tools consult the store to warn
+ * when coordinates were likely read from a missing, old or outdated hierarchy.
+ * Annotated screenshots also record the numbered elements so `tap` can target them
+ * by number until the next interaction.
+ */
+
+import type { AccessibilityElement } from './accessibility.ts';
+import { log } from './logger.ts';
+
+export interface UISnapshot {
+  elements: AccessibilityElement[];
+  capturedAt: number;
+  invalidatedBy?: string; // Interaction performed after the capture, if any
+  annotatedElements?: AccessibilityElement[]; // Numbered 1..n on an annotated screenshot
+}
+
+// Snapshots older than this are treated as stale even without interactions
+export const UI_STATE_MAX_AGE_MS = 60000;
+
+export class UIStateStore {
+  private snapshots = new Map<string, UISnapshot>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  record(
+    simulatorId: string,
+    elements: AccessibilityElement[],
+    annotatedElements?: AccessibilityElement[],
+  ): void {
+    this.snapshots.set(simulatorId, { elements, capturedAt: this.now(), annotatedElements });
+  }
+
+  /**
+   * Mark the simulator's snapshot as outdated after an interaction that may change the UI
+   */
+  invalidate(simulatorId: string, interaction: string): void {
+    const snapshot = this.snapshots.get(simulatorId);
+    if (snapshot && !snapshot.invalidatedBy) {
+      snapshot.invalidatedBy = interaction;
+      log('debug', `[UIState] Hierarchy for ${simulatorId} invalidated by ${interaction}`);
+    }
+  }
+
+  get(simulatorId: string): UISnapshot | undefined {
+    return this.snapshots.get(simulatorId);
+  }
+
+  /**
+   * The recorded elements, only if no interaction happened since and they are not too old
+   */
+  getCurrent(simulatorId: string): AccessibilityElement[] | undefined {
+    const snapshot = this.snapshots.get(simulatorId);
+    if (
+      !snapshot ||
+      snapshot.invalidatedBy ||
+      this.now() - snapshot.capturedAt > UI_STATE_MAX_AGE_MS
+    ) {
+      return undefined;
+    }
+    return snapshot.elements;
+  }
+
+  /**
+   * Element numbered `number` on the last annotated screenshot. Numbers are only valid
+   * while that screenshot's hierarchy is current.
+   */
+  getAnnotatedElement(
+    simulatorId: string,
+    number: number,
+  ): { element?: AccessibilityElement; error?: string } {
+    const snapshot = this.snapshots.get(simulatorId);
+    if (!snapshot?.annotatedElements) {
+      return {
+        error: 'No annotated screenshot is available. Take a screenshot with annotate: true first.',
+      };
+    }
+    if (snapshot.invalidatedBy) {
+      return {
+        error: `Annotation numbers are outdated (${snapshot.invalidatedBy} performed since the annotated screenshot). Take a new screenshot with annotate: true.`,
+      };
+    }
+    if (this.now() - snapshot.capturedAt > UI_STATE_MAX_AGE_MS) {
+      return {
+        error: `Annotation numbers are outdated (the annotated screenshot is more than ${UI_STATE_MAX_AGE_MS / 1000} seconds old). Take a new screenshot with annotate: true.`,
+      };
+    }
+    const element = snapshot.annotatedElements[number - 1];
+    if (!element) {
+      return {
+        error: `Annotation ${number} does not exist; the last annotated screenshot numbered ${snapshot.annotatedElements.length} elements.`,
+      };
+    }
+    return { element };
+  }
+
+  /**
+   * Warning for tools that take raw coordinates, or null when the last hierarchy is current
+   */
+  getCoordinateWarning(simulatorId: string): string | null {
+    const snapshot = this.snapshots.get(simulatorId);
+    if (!snapshot) {
+      return 'Warning: describe_ui has not been called yet. Consider using describe_ui for precise coordinates instead of guessing from screenshots.';
+    }
+
+    if (snapshot.invalidatedBy) {
+      return `Warning: the UI may have changed since describe_ui was last called (${snapshot.invalidatedBy} performed since). Consider refreshing UI coordinates with describe_ui if the layout changed.`;
+    }
+
+    const timeSinceDescribe = this.now() - snapshot.capturedAt;
+    if (timeSinceDescribe > UI_STATE_MAX_AGE_MS) {
+      const secondsAgo = Math.round(timeSinceDescribe / 1000);
+      return `Warning: describe_ui was last called ${secondsAgo} seconds ago. Consider refreshing UI coordinates with describe_ui instead of using potentially stale coordinates.`;
+    }
+
+    return null;
+  }
+
+  clear(simulatorId?: string): void {
+    if (simulatorId === undefined) {
+      this.snapshots.clear();
+      return;
+    }
+    this.snapshots.delete(simulatorId);
+  }
+}
+
+export const uiStateStore = new UIStateStore();
@@ -1,5 +1,21 @@
 export {
+  getSimulatorVideoCaptureStatus,
   startSimulatorVideoCapture,
   stopSimulatorVideoCapture,
   type AxeHelpers,
+  type VideoCaptureStatus,
 } from '../video_capture.ts';
+export {
+  extractVideoFrames,
+  type VideoFrame,
+  type VideoFrameExtraction,
+  type VideoFrameSelection,
+} from '../video-frames.ts';
+export {
+  createContactSheet,
+  createPreviewGif,
+  renderContactSheet,
+  type EncodedGif,
+  type PreviewBudget,
+  type PreviewFrame,
+} from '../video-preview.ts';
@@ -0,0 +1,145 @@
+/**
+ * Video Frames - Extract still frames from a recorded simulator video
+ *
+ * Agents cannot watch an MP4, but they can look at a handful of frames from it. Frames
+ * are decoded with AVFoundation through a small Swift script run by `xcrun swift`, so
+ * no tools beyond Xcode are needed. The script writes one PNG per frame to a temporary
+ * directory and prints the recording's duration and the actual frame times as JSON.
+ */
+
+import { join } from 'path';
+import { log } from './logging/index.ts';
+import type { CommandExecutor } from './execution/index.ts';
+import type { FileSystemExecutor } from './FileSystemExecutor.ts';
+
+const LOG_PREFIX = '[VideoFrames]';
+
+export type VideoFrameSelection = { count: number } | { times: number[] };
+
+export interface VideoFrame {
+  time: number; // Seconds from the start of the recording
+  data: Buffer; // PNG
+}
+
+export interface VideoFrameExtraction {
+  durationSeconds: number;
+  frames: VideoFrame[];
+  skippedTimes: number[]; // Requested times with no frame, e.g. past the end of the recording
+}
+
+interface ScriptOutput {
+  duration: number;
+  frames: { requested: number; time: number; path: string }[];
+}
+
+// Arguments: <video> <output dir> <"fractions"|"seconds"> <value>...
+// Fractions are positions between the first and last frame (0 to 1).
+const EXTRACT_FRAMES_SCRIPT = `import AVFoundation
+import Foundation
+import ImageIO
+
+let arguments = CommandLine.arguments
+let asset = AVURLAsset(url: URL(fileURLWithPath: arguments[1]))
+let outputDirectory = URL(fileURLWithPath: arguments[2])
+let useFractions = arguments[3] == "fractions"
+let values = arguments.dropFirst(4).compactMap { Double($0) }
+
+let duration = CMTimeGetSeconds(asset.duration)
+let lastFrameTime = max(0, duration - 0.05)
+let generator = AVAssetImageGenerator(asset: asset)
+generator.appliesPreferredTrackTransform = true
+generator.requestedTimeToleranceBefore = .zero
+generator.requestedTimeToleranceAfter = .zero
+
+var frames: [[String: Any]] = []
+for (index, value) in values.enumerated() {
+  let seconds = useFractions ? value * lastFrameTime : value
+  if seconds > duration { continue }
+  let time = CMTime(seconds: min(seconds, lastFrameTime), preferredTimescale: 600)
+  var actualTime = CMTime.zero
+  guard let image = try? generator.copyCGImage(at: time, actualTime: &actualTime) else { continue }
+  let url = outputDirectory.appendingPathComponent("frame-\\(index).png")
+  guard let destination = CGImageDestinationCreateWithURL(url as CFURL, "public.png" as CFString, 1, nil) else { continue }
+  CGImageDestinationAddImage(destination, image, nil)
+  if CGImageDestinationFinalize(destination) {
+    frames.append(["requested": seconds, "time": CMTimeGetSeconds(actualTime), "path": url.path])
+  }
+}
+
+let output: [String: Any] = ["duration": duration, "frames": frames]
+let data = try JSONSerialization.data(withJSONObject: output)
+print(String(data: data, encoding: .utf8)!)
+`;
+
+/**
+ * Fractions of the recording for `count` evenly spaced frames, including the first
+ * and last frame
+ */
+function evenlySpacedFractions(count: number): number[] {
+  if (count === 1) {
+    return [0.5];
+  }
+  return Array.from({ length: count }, (_, index) => index / (count - 1));
+}
+
+function parseScriptOutput(output: string): ScriptOutput {
+  // Swift may print compiler warnings before the JSON line
+  const line = output
+    .trim()
+    .split('\n')
+    .reverse()
+    .find((candidate) => candidate.startsWith('{'));
+  if (!line) {
+    throw new Error(`Frame extraction produced no result: ${output.trim() || '(no output)'}`);
+  }
+  return JSON.parse(line) as ScriptOutput;
+}
+
+/**
+ * Extract frames from an MP4 as PNG images, either `count` evenly spaced frames or
+ * frames at the given times in seconds. Times without a frame are reported as skipped.
+ */
+export async function extractVideoFrames(
+  videoPath: string,
+  selection: VideoFrameSelection,
+  executor: CommandExecutor,
+  fileSystem: FileSystemExecutor,
+): Promise<VideoFrameExtraction> {
+  const [mode, values] =
+    'count' in selection
+      ? ['fractions', evenlySpacedFractions(selection.count)]
+      : ['seconds', selection.times];
+
+  const workDir = await fileSystem.mkdtemp(join(fileSystem.tmpdir(), 'xcodebuildmcp-frames-'));
+  try {
+    const scriptPath = join(workDir, 'extract-frames.swift');
+    await fileSystem.writeFile(scriptPath, EXTRACT_FRAMES_SCRIPT);
+
+    log('info', `${LOG_PREFIX}: Extracting ${values.length} frames from ${videoPath}`);
+    const result = await executor(
+      ['xcrun', 'swift', scriptPath, videoPath, workDir, mode, ...values.map(String)],
+      'Extract Video Frames',
+      false,
+    );
+    if (!result.success) {
+      throw new Error(`Frame extraction failed: ${result.error ?? result.output}`);
+    }
+
+    const output = parseScriptOutput(result.output);
+    const frames: VideoFrame[] = [];
+    for (const frame of output.frames) {
+      const base64 = await fileSystem.readFile(frame.path, 'base64');
+      frames.push({ time: frame.time, data: Buffer.from(base64, 'base64') });
+    }
+
+    const extracted = new Set(output.frames.map((frame) => frame.requested));
+    const skippedTimes = mode === 'seconds' ? values.filter((time) => !extracted.has(time)) : [];
+    return { durationSeconds: output.duration, frames, skippedTimes };
+  } finally {
+    try {
+      await fileSystem.rm(workDir, { recursive: true, force: true });
+    } catch (error) {
+      log('warning', `${LOG_PREFIX}: Failed to remove ${workDir}: ${error}`);
+    }
+  }
+}
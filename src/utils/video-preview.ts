@@ -0,0 +1,154 @@
+/**
+ * Video Preview - Contact sheets and animated GIFs from recording frames
+ *
+ * Turns frames extracted from a simulator recording into a single image that can be
+ * returned inline: a grid of timestamped frames, or a short looping GIF. Both are
+ * shrunk until they fit a byte budget so a preview never bloats the response.
+ */
+
+import type { EncodedImage, ImageProcessor, RawImage } from './image/index.ts';
+import { drawLabel, encodeAnimatedGif, encodeImageWithinBudget } from './image/index.ts';
+
+export interface PreviewFrame {
+  time: number; // Seconds from the start of the recording
+  image: RawImage;
+}
+
+export interface PreviewBudget {
+  maxDimension: number; // Longest side of the whole sheet, or of each GIF frame
+  maxBytes: number;
+}
+
+export interface EncodedGif {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+const SHEET_BACKGROUND = [24, 24, 24, 255];
+const SHEET_CELL_DIMENSION = 480;
+const SHEET_JPEG_QUALITY = 70;
+const GIF_DIMENSION_FACTOR = 0.75;
+const GIF_MIN_DIMENSION = 64;
+const GIF_MAX_DELAY_MS = 2000;
+
+function formatTimestamp(seconds: number): string {
+  return `${seconds.toFixed(2)}s`;
+}
+
+function fitWithin(image: RawImage, maxDimension: number): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  return {
+    width: Math.max(1, Math.round(image.width * scale)),
+    height: Math.max(1, Math.round(image.height * scale)),
+  };
+}
+
+/**
+ * Lay frames out in a near-square grid, left to right and top to bottom, each labelled
+ * with its timestamp in the bottom-left corner
+ */
+export async function renderContactSheet(
+  frames: PreviewFrame[],
+  processor: ImageProcessor,
+): Promise<RawImage> {
+  if (frames.length === 0) {
+    throw new Error('Contact sheet needs at least one frame');
+  }
+  const columns = Math.ceil(Math.sqrt(frames.length));
+  const rows = Math.ceil(frames.length / columns);
+  const cells = await Promise.all(
+    frames.map((frame) => processor.resize(frame.image, SHEET_CELL_DIMENSION)),
+  );
+  const cellWidth = Math.max(...cells.map((cell) => cell.width));
+  const cellHeight = Math.max(...cells.map((cell) => cell.height));
+  const gap = Math.max(4, Math.round(cellWidth / 40));
+  const labelScale = Math.max(2, Math.round(cellWidth / 80));
+
+  const width = columns * cellWidth + (columns + 1) * gap;
+  const height = rows * cellHeight + (rows + 1) * gap;
+  const data = new Uint8Array(width * height * 4);
+  for (let offset = 0; offset < data.length; offset += 4) {
+    data.set(SHEET_BACKGROUND, offset);
+  }
+
+  cells.forEach((cell, index) => {
+    const labelled = drawLabel(
+      cell,
+      formatTimestamp(frames[index].time),
+      0,
+      cell.height,
+      labelScale,
+    );
+    const left = gap + (index % columns) * (cellWidth + gap);
+    const top = gap + Math.floor(index / columns) * (cellHeight + gap);
+    for (let y = 0; y < labelled.height; y++) {
+      const source = labelled.data.subarray(y * labelled.width * 4, (y + 1) * labelled.width * 4);
+      data.set(source, ((top + y) * width + left) * 4);
+    }
+  });
+
+  return { width, height, data };
+}
+
+/**
+ * Render a contact sheet and encode it as JPEG within the budget
+ */
+export async function createContactSheet(
+  frames: PreviewFrame[],
+  budget: PreviewBudget,
+  processor: ImageProcessor,
+): Promise<EncodedImage> {
+  const sheet = await renderContactSheet(frames, processor);
+  return encodeImageWithinBudget(processor, sheet, {
+    format: 'jpeg',
+    quality: SHEET_JPEG_QUALITY,
+    maxDimension: budget.maxDimension,
+    maxBytes: budget.maxBytes,
+  });
+}
+
+/**
+ * Encode frames as a looping GIF that plays at the recording's pace (each pause capped
+ * at two seconds), shrinking the frames until the GIF fits the budget. Throws when it
+ * does not fit even at the smallest size.
+ */
+export async function createPreviewGif(
+  frames: PreviewFrame[],
+  budget: PreviewBudget,
+  processor: ImageProcessor,
+): Promise<EncodedGif> {
+  if (frames.length === 0) {
+    throw new Error('GIF preview needs at least one frame');
+  }
+  const delays = frames.map((frame, index) => {
+    const next = frames[index + 1];
+    const gap = next ? (next.time - frame.time) * 1000 : GIF_MAX_DELAY_MS;
+    return Math.min(GIF_MAX_DELAY_MS, Math.max(0, gap));
+  });
+
+  let dimension = budget.maxDimension;
+  let smallest: EncodedGif | undefined;
+  while (dimension >= GIF_MIN_DIMENSION) {
+    // Frames from one recording share a size; resample all to the first frame's fit
+    const size = fitWithin(frames[0].image, dimension);
+    const resized = await Promise.all(
+      frames.map((frame) => processor.resize(frame.image, Math.max(size.width, size.height))),
+    );
+    const data = encodeAnimatedGif(
+      resized.map((image, index) => ({ image, delayMs: delays[index] })),
+    );
+    const encoded = { data, width: resized[0].width, height: resized[0].height };
+    if (data.length <= budget.maxBytes) {
+      return encoded;
+    }
+    smallest = encoded;
+    dimension = Math.floor(
+      Math.min(dimension, Math.max(size.width, size.height)) * GIF_DIMENSION_FACTOR,
+    );
+  }
+
+  throw new Error(
+    `Unable to encode GIF within ${budget.maxBytes} bytes (smallest attempt: ${smallest?.width}x${smallest?.height}, ${smallest?.data.length} bytes)`,
+  );
+}
@@ -3,6 +3,8 @@
  *
  * Manages long-running AXe "record-video" processes keyed by simulator UUID.
  * It aggregates stdout/stderr to parse the generated MP4 path on stop.
+ * Sessions started with a maximum duration stop themselves when it elapses; the
+ * result is kept until the next stop call collects it.
  */
 
 import type { ChildProcess } from 'child_process';
@@ -14,11 +16,42 @@ type Session = {
   process: unknown;
   sessionId: string;
   startedAt: number;
+  fps: number;
+  maxDurationSeconds?: number;
+  autoStopTimer?: ReturnType<typeof setTimeout>;
+  stopping?: Promise<StoppedCapture>;
+  collected?: boolean; // A stop call owns the result, so an auto-stop must not keep it
   buffer: string;
   ended: boolean;
 };
 
+type StoppedCapture = {
+  sessionId: string;
+  startedAt: number;
+  stoppedAt: number;
+  stdout: string;
+  parsedPath?: string;
+};
+
+export type VideoCaptureStatus =
+  | { state: 'idle' }
+  | {
+      state: 'recording';
+      sessionId: string;
+      fps: number;
+      elapsedSeconds: number;
+      maxDurationSeconds?: number;
+    }
+  | {
+      state: 'auto-stopped';
+      sessionId: string;
+      durationSeconds: number;
+      parsedPath?: string;
+    };
+
 const sessions = new Map<string, Session>();
+// Recordings stopped by their maximum duration, waiting for a stop call to collect them
+const autoStoppedCaptures = new Map<string, StoppedCapture>();
 let signalHandlersAttached = false;
 
 export interface AxeHelpers {
@@ -33,6 +66,7 @@ function ensureSignalHandlersAttached(): void {
   const stopAll = (): void => {
     for (const [simulatorUuid, sess] of sessions) {
       try {
+        clearTimeout(sess.autoStopTimer);
         const child = sess.process as ChildProcess | undefined;
         child?.kill?.('SIGINT');
       } catch {
@@ -64,11 +98,87 @@ function createSessionId(simulatorUuid: string): string {
   return `${simulatorUuid}:${Date.now()}`;
 }
 
+/**
+ * Interrupt the AXe process so it finalizes the MP4, wait for it to exit and parse
+ * the file path from its output. Removes the session. Concurrent callers (a stop call
+ * racing the auto-stop timer) share the same result.
+ */
+function finishSession(simulatorUuid: string, session: Session): Promise<StoppedCapture> {
+  session.stopping ??= stopSessionProcess(simulatorUuid, session);
+  return session.stopping;
+}
+
+async function stopSessionProcess(
+  simulatorUuid: string,
+  session: Session,
+): Promise<StoppedCapture> {
+  clearTimeout(session.autoStopTimer);
+  const child = session.process as ChildProcess | undefined;
+
+  // Attempt graceful shutdown
+  try {
+    child?.kill?.('SIGINT');
+  } catch {
+    try {
+      child?.kill?.();
+    } catch {
+      // ignore
+    }
+  }
+
+  // Wait for process to close (avoid hanging if it already exited)
+  await new Promise<void>((resolve): void => {
+    if (!child) return resolve();
+
+    // If process has already ended, resolve immediately
+    const alreadyEnded = session.ended === true;
+    const hasExitCode = (child as ChildProcess).exitCode !== null;
+    const hasSignal = (child as unknown as { signalCode?: string | null }).signalCode != null;
+    if (alreadyEnded || hasExitCode || hasSignal) {
+      return resolve();
+    }
+
+    let resolved = false;
+    const finish = (): void => {
+      if (!resolved) {
+        resolved = true;
+        resolve();
+      }
+    };
+    try {
+      child.once('close', finish);
+      child.once('exit', finish);
+    } catch {
+      return finish();
+    }
+    // Safety timeout to prevent indefinite hangs
+    setTimeout(finish, 5000);
+  });
+
+  const combinedOutput = session.buffer;
+  const parsedPath = parseLastAbsoluteMp4Path(combinedOutput) ?? undefined;
+
+  sessions.delete(simulatorUuid);
+
+  log(
+    'info',
+    `Stopped AXe video recording for simulator ${simulatorUuid}. ${parsedPath ? `Detected file: ${parsedPath}` : 'No file detected in output.'}`,
+  );
+
+  return {
+    sessionId: session.sessionId,
+    startedAt: session.startedAt,
+    stoppedAt: Date.now(),
+    stdout: combinedOutput,
+    parsedPath,
+  };
+}
+
 /**
  * Start recording video for a simulator using AXe.
  */
 export async function startSimulatorVideoCapture(
-  params: { simulatorUuid: string; fps?: number },
+  params: { simulatorUuid: string; fps?: number; maxDurationSeconds?: number },
   executor: CommandExecutor,
   axeHelpers?: AxeHelpers,
 ): Promise<{ started: boolean; sessionId?: string; warning?: string; error?: string }> {
@@ -83,6 +193,13 @@ export async function startSimulatorVideoCapture(
       error: 'A video recording session is already active for this simulator. Stop it first.',
     };
   }
+  if (autoStoppedCaptures.has(simulatorUuid)) {
+    return {
+      started: false,
+      error:
+        'A recording for this simulator stopped at its maximum duration and has not been saved. Stop it first to collect the file.',
+    };
+  }
 
   const helpers = axeHelpers ?? {
     getAxePath,
@@ -114,6 +231,8 @@ export async function startSimulatorVideoCapture(
     process: child,
     sessionId: createSessionId(simulatorUuid),
     startedAt: Date.now(),
+    fps,
+    maxDurationSeconds: params.maxDurationSeconds,
     buffer: '',
     ended: false,
   };
@@ -152,6 +271,23 @@ export async function startSimulatorVideoCapture(
   sessions.set(simulatorUuid, session);
   ensureSignalHandlersAttached();
 
+  if (params.maxDurationSeconds !== undefined) {
+    session.autoStopTimer = setTimeout((): void => {
+      if (sessions.get(simulatorUuid) !== session) return;
+      log(
+        'info',
+        `Video recording for simulator ${simulatorUuid} reached ${params.maxDurationSeconds}s; stopping`,
+      );
+      void finishSession(simulatorUuid, session).then((capture) => {
+        if (!session.collected) {
+          autoStoppedCaptures.set(simulatorUuid, capture);
+        }
+      });
+    }, params.maxDurationSeconds * 1000);
+    // Do not keep the server alive just to stop a recording
+    session.autoStopTimer.unref?.();
+  }
+
   return {
     started: true,
     sessionId: session.sessionId,
@@ -170,6 +306,7 @@ export async function stopSimulatorVideoCapture(
   sessionId?: string;
   stdout?: string;
   parsedPath?: string;
+  autoStopped?: boolean;
   error?: string;
 }> {
   // Mark executor as used to satisfy lint rule
@@ -180,67 +317,61 @@ export async function stopSimulatorVideoCapture(
     return { stopped: false, error: 'simulatorUuid is required' };
   }
 
+  const autoStopped = autoStoppedCaptures.get(simulatorUuid);
+  if (autoStopped) {
+    autoStoppedCaptures.delete(simulatorUuid);
+    return {
+      stopped: true,
+      sessionId: autoStopped.sessionId,
+      stdout: autoStopped.stdout,
+      parsedPath: autoStopped.parsedPath,
+      autoStopped: true,
+    };
+  }
+
   const session = sessions.get(simulatorUuid);
   if (!session) {
     return { stopped: false, error: 'No active video recording session for this simulator' };
   }
 
-  const child = session.process as ChildProcess | undefined;
-
-  // Attempt graceful shutdown
-  try {
-    child?.kill?.('SIGINT');
-  } catch {
-    try {
-      child?.kill?.();
-    } catch {
-      // ignore
-    }
-  }
-
-  // Wait for process to close (avoid hanging if it already exited)
-  await new Promise<void>((resolve): void => {
-    if (!child) return resolve();
+  session.collected = true;
+  const capture = await finishSession(simulatorUuid, session);
 
-    // If process has already ended, resolve immediately
-    const alreadyEnded = (session as Session).ended === true;
-    const hasExitCode = (child as ChildProcess).exitCode !== null;
-    const hasSignal = (child as unknown as { signalCode?: string | null }).signalCode != null;
-    if (alreadyEnded || hasExitCode || hasSignal) {
-      return resolve();
-    }
+  return {
+    stopped: true,
+    sessionId: capture.sessionId,
+    stdout: capture.stdout,
+    parsedPath: capture.parsedPath,
+  };
+}
 
-    let resolved = false;
-    const finish = (): void => {
-      if (!resolved) {
-        resolved = true;
-        resolve();
-      }
+/**
+ * Report whether a simulator is recording, and for how long, or has a recording that
+ * stopped at its maximum duration and is waiting to be collected.
+ */
+export function getSimulatorVideoCaptureStatus(params: {
+  simulatorUuid: string;
+}): VideoCaptureStatus {
+  const session = sessions.get(params.simulatorUuid);
+  if (session) {
+    return {
+      state: 'recording',
+      sessionId: session.sessionId,
+      fps: session.fps,
+      elapsedSeconds: (Date.now() - session.startedAt) / 1000,
+      maxDurationSeconds: session.maxDurationSeconds,
     };
-    try {
-      child.once('close', finish);
-      child.once('exit', finish);
-    } catch {
-      return finish();
-    }
-    // Safety timeout to prevent indefinite hangs
-    setTimeout(finish, 5000);
-  });
-
-  const combinedOutput = session.buffer;
-  const parsedPath = parseLastAbsoluteMp4Path(combinedOutput) ?? undefined;
-
-  sessions.delete(simulatorUuid);
+  }
 
-  log(
-    'info',
-    `Stopped AXe video recording for simulator ${simulatorUuid}. ${parsedPath ? `Detected file: ${parsedPath}` : 'No file detected in output.'}`,
-  );
+  const capture = autoStoppedCaptures.get(params.simulatorUuid);
+  if (capture) {
+    return {
+      state: 'auto-stopped',
+      sessionId: capture.sessionId,
+      durationSeconds: (capture.stoppedAt - capture.startedAt) / 1000,
+      parsedPath: capture.parsedPath,
+    };
+  }
 
-  return {
-    stopped: true,
-    sessionId: session.sessionId,
-    stdout: combinedOutput,
-    parsedPath,
-  };
+  return { state: 'idle' };
 }
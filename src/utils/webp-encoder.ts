@@ -0,0 +1,295 @@
+/**
+ * WebP Encoder - Minimal lossless (VP8L) WebP encoder
+ *
+ * Writes RGBA pixels as a lossless WebP image without native dependencies.
+ * The encoder applies the subtract-green transform and entropy-codes every
+ * pixel as literals with a single set of prefix codes. It does not emit
+ * backward references or a color cache, trading some compression for a
+ * small, predictable implementation.
+ *
+ * Responsibilities:
+ * - Building length-limited canonical prefix codes from symbol histograms
+ * - Serialising prefix codes and pixel data into a VP8L bitstream
+ * - Wrapping the bitstream in a RIFF/WEBP container
+ */
+
+import type { RawImage } from './ImageProcessor.ts';
+
+const VP8L_SIGNATURE = 0x2f;
+const VP8L_MAX_DIMENSION = 16384;
+const SUBTRACT_GREEN_TRANSFORM = 2;
+const MAX_CODE_LENGTH = 15;
+const MAX_CODE_LENGTH_CODE_LENGTH = 7;
+const NUM_LITERAL_CODES = 256;
+const NUM_LENGTH_CODES = 24;
+const NUM_DISTANCE_CODES = 40;
+const CODE_LENGTH_CODE_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+class BitWriter {
+  private bytes: number[] = [];
+  private accumulator = 0;
+  private bitCount = 0;
+
+  writeBits(value: number, count: number): void {
+    this.accumulator |= (value & ((1 << count) - 1)) << this.bitCount;
+    this.bitCount += count;
+    while (this.bitCount >= 8) {
+      this.bytes.push(this.accumulator & 0xff);
+      this.accumulator >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  toBuffer(): Buffer {
+    const bytes = this.bitCount > 0 ? [...this.bytes, this.accumulator & 0xff] : this.bytes;
+    return Buffer.from(bytes);
+  }
+}
+
+interface PrefixCode {
+  lengths: number[];
+  codes: number[];
+  usedSymbols: number[];
+}
+
+/**
+ * Compute Huffman code lengths limited to maxLength bits. When the optimal tree is too
+ * deep, low counts are flattened and the tree rebuilt, which keeps the code complete.
+ */
+function buildCodeLengths(histogram: number[], maxLength: number): number[] {
+  const lengths = new Array<number>(histogram.length).fill(0);
+  const used = histogram.map((count, symbol) => ({ count, symbol })).filter((e) => e.count > 0);
+
+  if (used.length === 0) {
+    return lengths;
+  }
+  if (used.length === 1) {
+    lengths[used[0].symbol] = 1;
+    return lengths;
+  }
+
+  for (let minCount = 1; ; minCount *= 2) {
+    interface Node {
+      weight: number;
+      symbols: number[];
+    }
+    let nodes: Node[] = used.map((e) => ({
+      weight: Math.max(e.count, minCount),
+      symbols: [e.symbol],
+    }));
+    const depth = new Map<number, number>(used.map((e) => [e.symbol, 0]));
+
+    while (nodes.length > 1) {
+      nodes.sort((a, b) => a.weight - b.weight);
+      const [first, second] = nodes;
+      for (const symbol of [...first.symbols, ...second.symbols]) {
+        depth.set(symbol, (depth.get(symbol) ?? 0) + 1);
+      }
+      nodes = [
+        { weight: first.weight + second.weight, symbols: [...first.symbols, ...second.symbols] },
+        ...nodes.slice(2),
+      ];
+    }
+
+    const maxDepth = Math.max(...depth.values());
+    if (maxDepth <= maxLength) {
+      for (const [symbol, d] of depth) {
+        lengths[symbol] = d;
+      }
+      return lengths;
+    }
+  }
+}
+
+/**
+ * Assign canonical codes to code lengths. Codes are stored bit-reversed because the
+ * VP8L bitstream is read least-significant bit first.
+ */
+function buildPrefixCode(histogram: number[], maxLength: number): PrefixCode {
+  const lengths = buildCodeLengths(histogram, maxLength);
+  const codes = new Array<number>(lengths.length).fill(0);
+  const usedSymbols = lengths.flatMap((length, symbol) => (length > 0 ? [symbol] : []));
+
+  const lengthCounts = new Array<number>(maxLength + 1).fill(0);
+  for (const length of lengths) {
+    if (length > 0) lengthCounts[length]++;
+  }
+  const nextCode = new Array<number>(maxLength + 2).fill(0);
+  let code = 0;
+  for (let bits = 1; bits <= maxLength; bits++) {
+    code = (code + lengthCounts[bits - 1]) << 1;
+    nextCode[bits] = code;
+  }
+
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    const length = lengths[symbol];
+    if (length === 0) continue;
+    let value = nextCode[length]++;
+    let reversed = 0;
+    for (let i = 0; i < length; i++) {
+      reversed = (reversed << 1) | (value & 1);
+      value >>= 1;
+    }
+    codes[symbol] = reversed;
+  }
+
+  return { lengths, codes, usedSymbols };
+}
+
+function writeSymbol(writer: BitWriter, code: PrefixCode, symbol: number): void {
+  // A code with a single symbol is decoded without consuming any bits
+  if (code.usedSymbols.length <= 1) return;
+  writer.writeBits(code.codes[symbol], code.lengths[symbol]);
+}
+
+/**
+ * Tokenise code lengths into the code-length alphabet, using symbols 17/18 for zero runs.
+ */
+function tokenizeCodeLengths(lengths: number[]): Array<{ symbol: number; extra: number }> {
+  const tokens: Array<{ symbol: number; extra: number }> = [];
+  let i = 0;
+  while (i < lengths.length) {
+    if (lengths[i] !== 0) {
+      tokens.push({ symbol: lengths[i], extra: 0 });
+      i++;
+      continue;
+    }
+    let run = 0;
+    while (i + run < lengths.length && lengths[i + run] === 0 && run < 138) run++;
+    if (run < 3) {
+      for (let j = 0; j < run; j++) tokens.push({ symbol: 0, extra: 0 });
+    } else if (run <= 10) {
+      tokens.push({ symbol: 17, extra: run - 3 });
+    } else {
+      tokens.push({ symbol: 18, extra: run - 11 });
+    }
+    i += run;
+  }
+  return tokens;
+}
+
+function writePrefixCode(writer: BitWriter, code: PrefixCode): void {
+  const { usedSymbols } = code;
+
+  // Simple code: up to two symbols that fit in 8 bits
+  if (usedSymbols.length <= 2 && usedSymbols.every((symbol) => symbol < 256)) {
+    const symbols = usedSymbols.length === 0 ? [0] : usedSymbols;
+    writer.writeBits(1, 1);
+    writer.writeBits(symbols.length - 1, 1);
+    if (symbols[0] < 2) {
+      writer.writeBits(0, 1);
+      writer.writeBits(symbols[0], 1);
+    } else {
+      writer.writeBits(1, 1);
+      writer.writeBits(symbols[0], 8);
+    }
+    if (symbols.length === 2) {
+      writer.writeBits(symbols[1], 8);
+    }
+    return;
+  }
+
+  const tokens = tokenizeCodeLengths(code.lengths);
+  const tokenHistogram = new Array<number>(CODE_LENGTH_CODE_ORDER.length).fill(0);
+  for (const token of tokens) tokenHistogram[token.symbol]++;
+  const lengthCode = buildPrefixCode(tokenHistogram, MAX_CODE_LENGTH_CODE_LENGTH);
+
+  let numCodes = CODE_LENGTH_CODE_ORDER.length;
+  while (numCodes > 4 && lengthCode.lengths[CODE_LENGTH_CODE_ORDER[numCodes - 1]] === 0) {
+    numCodes--;
+  }
+
+  writer.writeBits(0, 1);
+  writer.writeBits(numCodes - 4, 4);
+  for (let i = 0; i < numCodes; i++) {
+    writer.writeBits(lengthCode.lengths[CODE_LENGTH_CODE_ORDER[i]], 3);
+  }
+  // Use every symbol of the alphabet rather than signalling a max_symbol
+  writer.writeBits(0, 1);
+
+  for (const token of tokens) {
+    writeSymbol(writer, lengthCode, token.symbol);
+    if (token.symbol === 17) writer.writeBits(token.extra, 3);
+    if (token.symbol === 18) writer.writeBits(token.extra, 7);
+  }
+}
+
+/**
+ * Encode RGBA pixels as a lossless WebP file
+ */
+export function encodeWebPLossless(image: RawImage): Buffer {
+  const { width, height, data } = image;
+  if (width < 1 || height < 1 || width > VP8L_MAX_DIMENSION || height > VP8L_MAX_DIMENSION) {
+    throw new Error(`WebP dimensions must be between 1 and ${VP8L_MAX_DIMENSION} pixels`);
+  }
+
+  const pixelCount = width * height;
+  const green = new Uint8Array(pixelCount);
+  const red = new Uint8Array(pixelCount);
+  const blue = new Uint8Array(pixelCount);
+  const alpha = new Uint8Array(pixelCount);
+  const greenHistogram = new Array<number>(NUM_LITERAL_CODES + NUM_LENGTH_CODES).fill(0);
+  const redHistogram = new Array<number>(NUM_LITERAL_CODES).fill(0);
+  const blueHistogram = new Array<number>(NUM_LITERAL_CODES).fill(0);
+  const alphaHistogram = new Array<number>(NUM_LITERAL_CODES).fill(0);
+  let hasAlpha = false;
+
+  for (let i = 0; i < pixelCount; i++) {
+    const offset = i * 4;
+    const g = data[offset + 1];
+    green[i] = g;
+    red[i] = (data[offset] - g) & 0xff;
+    blue[i] = (data[offset + 2] - g) & 0xff;
+    alpha[i] = data[offset + 3];
+    if (alpha[i] !== 0xff) hasAlpha = true;
+    greenHistogram[green[i]]++;
+    redHistogram[red[i]]++;
+    blueHistogram[blue[i]]++;
+    alphaHistogram[alpha[i]]++;
+  }
+
+  const greenCode = buildPrefixCode(greenHistogram, MAX_CODE_LENGTH);
+  const redCode = buildPrefixCode(redHistogram, MAX_CODE_LENGTH);
+  const blueCode = buildPrefixCode(blueHistogram, MAX_CODE_LENGTH);
+  const alphaCode = buildPrefixCode(alphaHistogram, MAX_CODE_LENGTH);
+  const distanceCode = buildPrefixCode(
+    new Array<number>(NUM_DISTANCE_CODES).fill(0),
+    MAX_CODE_LENGTH,
+  );
+
+  const writer = new BitWriter();
+  writer.writeBits(VP8L_SIGNATURE, 8);
+  writer.writeBits(width - 1, 14);
+  writer.writeBits(height - 1, 14);
+  writer.writeBits(hasAlpha ? 1 : 0, 1);
+  writer.writeBits(0, 3); // version
+
+  writer.writeBits(1, 1); // transform present
+  writer.writeBits(SUBTRACT_GREEN_TRANSFORM, 2);
+  writer.writeBits(0, 1); // no further transforms
+
+  writer.writeBits(0, 1); // no color cache
+  writer.writeBits(0, 1); // single prefix code group
+
+  for (const code of [greenCode, redCode, blueCode, alphaCode, distanceCode]) {
+    writePrefixCode(writer, code);
+  }
+
+  for (let i = 0; i < pixelCount; i++) {
+    writeSymbol(writer, greenCode, green[i]);
+    writeSymbol(writer, redCode, red[i]);
+    writeSymbol(writer, blueCode, blue[i]);
+    writeSymbol(writer, alphaCode, alpha[i]);
+  }
+
+  const payload = writer.toBuffer();
+  const padding = payload.length % 2;
+  const header = Buffer.alloc(20);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(12 + payload.length + padding, 4);
+  header.write('WEBP', 8, 'ascii');
+  header.write('VP8L', 12, 'ascii');
+  header.writeUInt32LE(payload.length, 16);
+
+  return Buffer.concat([header, payload, Buffer.alloc(padding)]);
+}
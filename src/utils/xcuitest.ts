@@ -0,0 +1,161 @@
+/**
+ * XCUITest Generator - Swift source for recorded UI sessions
+ *
+ * Turns the steps recorded by the UI recorder into an XCUITest class with one test
+ * method. Elements are queried by accessibility identifier where one is known, then by
+ * label; interactions without a known element fall back to screen coordinates.
+ */
+
+import type { RecordedElement, RecordedPoint, RecordedUIStep } from './ui-recorder.ts';
+
+export interface XCUITestOptions {
+  className: string;
+  testName: string;
+  bundleId?: string;
+}
+
+// Swift identifiers for class and method names
+export const SWIFT_IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// XCUIElementQuery property for each AXe element type
+const ELEMENT_QUERIES: Record<string, string> = {
+  Button: 'buttons',
+  Cell: 'cells',
+  CheckBox: 'checkBoxes',
+  CollectionView: 'collectionViews',
+  Image: 'images',
+  Link: 'links',
+  NavigationBar: 'navigationBars',
+  PickerWheel: 'pickerWheels',
+  ScrollView: 'scrollViews',
+  SearchField: 'searchFields',
+  SecureTextField: 'secureTextFields',
+  SegmentedControl: 'segmentedControls',
+  Slider: 'sliders',
+  StaticText: 'staticTexts',
+  Stepper: 'steppers',
+  Switch: 'switches',
+  Tab: 'tabs',
+  TabBar: 'tabBars',
+  Table: 'tables',
+  TextArea: 'textViews',
+  TextField: 'textFields',
+  TextView: 'textViews',
+  Toggle: 'switches',
+};
+
+// AXe gesture presets as XCUITest calls; edge swipes drag from just inside the edge
+const GESTURE_CALLS: Record<string, string> = {
+  'scroll-up': 'app.swipeUp()',
+  'scroll-down': 'app.swipeDown()',
+  'scroll-left': 'app.swipeLeft()',
+  'scroll-right': 'app.swipeRight()',
+  'swipe-from-left-edge': edgeDrag(0.01, 0.5, 0.6, 0.5),
+  'swipe-from-right-edge': edgeDrag(0.99, 0.5, 0.4, 0.5),
+  'swipe-from-top-edge': edgeDrag(0.5, 0.01, 0.5, 0.6),
+  'swipe-from-bottom-edge': edgeDrag(0.5, 0.99, 0.5, 0.4),
+};
+
+function edgeDrag(fromX: number, fromY: number, toX: number, toY: number): string {
+  const normalized = (dx: number, dy: number): string =>
+    `app.coordinate(withNormalizedOffset: CGVector(dx: ${dx}, dy: ${dy}))`;
+  return `${normalized(fromX, fromY)}.press(forDuration: 0.05, thenDragTo: ${normalized(toX, toY)})`;
+}
+
+/**
+ * Quote a string as a Swift string literal, escaping backslashes (and with them
+ * interpolation), quotes and control characters
+ */
+export function swiftStringLiteral(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+  return `"${escaped}"`;
+}
+
+function elementQuery(element: RecordedElement): string | null {
+  const key = element.identifier ?? element.label;
+  if (key === undefined) {
+    return null;
+  }
+  const query = element.role ? ELEMENT_QUERIES[element.role] : undefined;
+  return query
+    ? `app.${query}[${swiftStringLiteral(key)}]`
+    : `app.descendants(matching: .any)[${swiftStringLiteral(key)}]`;
+}
+
+function coordinate(point: RecordedPoint): string {
+  return `app.coordinate(withNormalizedOffset: .zero).withOffset(CGVector(dx: ${point.x}, dy: ${point.y}))`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function stepLines(step: RecordedUIStep): string[] {
+  switch (step.action) {
+    case 'tap': {
+      const query = step.element ? elementQuery(step.element) : null;
+      if (query) {
+        return [`${query}.tap()`];
+      }
+      return step.point ? [`${coordinate(step.point)}.tap()`] : ['// tap without a known target'];
+    }
+    case 'type_text': {
+      const query = step.element ? elementQuery(step.element) : null;
+      const typed = step.text + (step.submit ? '\n' : '');
+      if (!query) {
+        return typed ? [`app.typeText(${swiftStringLiteral(typed)})`] : [];
+      }
+      const lines = [`${query}.tap()`];
+      if (step.replace) {
+        lines.push(
+          `${query}.typeText(String(repeating: XCUIKeyboardKey.delete.rawValue, count: (${query}.value as? String)?.count ?? 0))`,
+        );
+      }
+      if (typed) {
+        lines.push(`${query}.typeText(${swiftStringLiteral(typed)})`);
+      }
+      return lines;
+    }
+    case 'swipe': {
+      const query = step.element ? elementQuery(step.element) : null;
+      if (query && step.direction) {
+        return [`${query}.swipe${capitalize(step.direction)}()`];
+      }
+      const duration = step.duration ?? 0.05;
+      return [
+        `${coordinate(step.from)}.press(forDuration: ${duration}, thenDragTo: ${coordinate(step.to)})`,
+      ];
+    }
+    case 'gesture':
+      return [GESTURE_CALLS[step.preset] ?? `// Unsupported gesture preset: ${step.preset}`];
+  }
+}
+
+/**
+ * Generate a Swift XCUITest source file with one test method replaying the steps in order
+ */
+export function generateXCUITestSource(steps: RecordedUIStep[], options: XCUITestOptions): string {
+  const launch = options.bundleId
+    ? `XCUIApplication(bundleIdentifier: ${swiftStringLiteral(options.bundleId)})`
+    : 'XCUIApplication()';
+  const body = steps.flatMap(stepLines).map((line) => `        ${line}`);
+
+  return [
+    'import XCTest',
+    '',
+    `final class ${options.className}: XCTestCase {`,
+    `    func ${options.testName}() throws {`,
+    `        let app = ${launch}`,
+    '        app.launch()',
+    '',
+    ...body,
+    '    }',
+    '}',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,8 @@
+export {
+  generateXCUITestSource,
+  SWIFT_IDENTIFIER_PATTERN,
+  swiftStringLiteral,
+} from '../xcuitest.ts';
+
+// Types
+export type { XCUITestOptions } from '../xcuitest.ts';